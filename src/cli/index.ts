@@ -8,22 +8,92 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { OMLite } from '../index.js';
+import {
+  OMLite,
+  PredicateRegistry,
+  buildNamespaceFilter,
+  diffRevision,
+  type ClauseType,
+  type GraphDirection,
+  type GraphExportFormat,
+  type ScoreExplanation,
+} from '../index.js';
 import { BackupManager } from '../core/backup.js';
+import { DatabaseManager } from '../core/database.js';
+import {
+  loadEncryptionConfig,
+  readKeyFile,
+  resolveEncryptionKey,
+  type EncryptionConfig,
+} from '../core/encryption.js';
+import { PiiRedactor, loadPiiConfig, type PiiCategory } from '../core/pii.js';
+import { MemoryServer, loadServerConfig } from '../server/http.js';
+import { McpServer } from '../server/mcp.js';
+import { loadEmbeddingConfig, type EmbeddingIndexInfo } from '../core/embeddings.js';
+import { loadLlmConfig } from '../core/extraction.js';
 import { migrateFromFile, migrateFromMemoryMd, detectFormat } from '../core/migration.js';
+import {
+  diffEvalReports,
+  formatWeights,
+  loadEvalSuite,
+  runEvalSuite,
+  type EvalReport,
+  type EvalSuite,
+} from '../eval/harness.js';
 import { homedir } from 'os';
 import { existsSync } from 'fs';
 
 const program = new Command();
 
+const DEFAULT_DB_PATH = '~/.openclaw/memory/om-lite.db';
+
 // Helper to get OMLite instance
-async function getOMLite(options: { db?: string } = {}): Promise<OMLite> {
-  const dbPath = options.db ?? '~/.openclaw/memory/om-lite.db';
-  const om = new OMLite({ dbPath });
+async function getOMLite(
+  options: { db?: string; predicates?: string; namespace?: string } = {},
+  encryption: Partial<EncryptionConfig> = {},
+): Promise<OMLite> {
+  const dbPath = options.db ?? DEFAULT_DB_PATH;
+  const om = new OMLite({
+    dbPath,
+    namespace: options.namespace,
+    predicates: options.predicates ? { file: options.predicates } : undefined,
+    embedding: loadEmbeddingConfig(),
+    llm: loadLlmConfig(),
+    encryption: { ...loadEncryptionConfig(), ...encryption },
+    pii: loadPiiConfig(),
+  });
   await om.init();
   return om;
 }
 
+// Backup manager on the CLI backup directory, sealing backups with the instance's key
+function getBackupManager(om: OMLite): BackupManager {
+  const backupManager = new BackupManager(om['db'], { backupDir: '~/.om-lite/backups' });
+  backupManager.setEncryptionKey(om['encryptionKey']);
+  return backupManager;
+}
+
+// Score breakdown lines for `memory search --explain`
+function formatExplanation(e: ScoreExplanation): string[] {
+  const n = (value: number) => value.toFixed(3);
+  const lines = [
+    `keyword   ${n(e.keywordTerm)} = ${n(e.keyword)} × ${e.weights.keyword}` +
+      (e.bm25 !== null ? ` (bm25 ${n(e.bm25)})` : ''),
+    `semantic  ${n(e.semanticTerm)} = ${n(e.semantic)} × ${e.weights.semantic}`,
+    `confidence ${n(e.confidenceTerm)}  recency ${n(e.recencyTerm)}`,
+    `bonuses   exact ${n(e.exactMatchBonus)}  subject ${n(e.subjectBonus)}  predicate ${n(e.predicateBonus)}`,
+    `first stage ${n(e.firstStage)}`,
+  ];
+  if (e.rerank) {
+    lines.push(`rerank    ${e.rerank.reranker} ${n(e.rerank.score)} at weight ${e.rerank.weight}`);
+  }
+  if (e.stage) {
+    lines.push(`stage     ${e.stage.name}${e.stage.query ? ` via "${e.stage.query}"` : ''}`);
+  }
+  lines.push(`final     ${n(e.final)}`);
+  return lines;
+}
+
 // Helper to format confidence as percentage
 function formatConfidence(conf: number): string {
   const pct = Math.round(conf * 100);
@@ -40,6 +110,8 @@ program
   .version('0.1.0')
   .option('--db <path>', 'Database path', '~/.openclaw/memory/om-lite.db')
   .option('--json', 'Output as JSON')
+  .option('--predicates <file>', 'Predicate definitions YAML file')
+  .option('--namespace <ns>', 'Memory namespace: shared, user:<id> or agent:<id>', 'shared')
   .option('--verbose', 'Verbose output');
 
 // ========== Init Command ==========
@@ -73,13 +145,23 @@ memory
   .option('-t, --type <type>', 'Filter by type')
   .option('-l, --limit <n>', 'Limit results', '20')
   .option('--include-expired', 'Include expired clauses')
-  .action(async (options) => {
+  .option('--as-of <date>', 'Show clauses that were valid at this date')
+  .option('--known-at <date>', 'Show memory as it was recorded at this date')
+  .action(async (options: {
+    type?: ClauseType;
+    limit: string;
+    includeExpired?: boolean;
+    asOf?: string;
+    knownAt?: string;
+  }) => {
     const om = await getOMLite(program.opts());
     try {
       const clauses = await om.searchClauses('', {
         types: options.type ? [options.type] : undefined,
         limit: parseInt(options.limit),
         includeExpired: options.includeExpired,
+        asOf: options.asOf,
+        knownAt: options.knownAt,
       });
       
       if (program.opts().json) {
@@ -106,12 +188,27 @@ memory
   .description('Search memory with query')
   .option('-t, --type <type>', 'Filter by type')
   .option('-l, --limit <n>', 'Limit results', '10')
-  .action(async (query, options) => {
+  .option('--as-of <date>', 'Search clauses that were valid at this date')
+  .option('--known-at <date>', 'Search memory as it was recorded at this date')
+  .option('--explain', 'Show score breakdowns and candidates that were filtered out')
+  .action(async (
+    query: string,
+    options: {
+      type?: ClauseType;
+      limit: string;
+      asOf?: string;
+      knownAt?: string;
+      explain?: boolean;
+    },
+  ) => {
     const om = await getOMLite(program.opts());
     try {
       const result = await om.retrieve(query, {
         types: options.type ? [options.type] : undefined,
         limit: parseInt(options.limit),
+        asOf: options.asOf,
+        knownAt: options.knownAt,
+        explain: options.explain,
       });
       
       if (program.opts().json) {
@@ -121,6 +218,24 @@ memory
         for (const clause of result.clauses) {
           console.log(`${chalk.green('●')} ${clause.natural_form}`);
           console.log(`  ${chalk.dim(`[${clause.type}]`)} ${formatConfidence(clause.confidence)} · score: ${clause.score.toFixed(2)}`);
+          if (clause.explanation) {
+            for (const line of formatExplanation(clause.explanation)) {
+              console.log(chalk.dim(`    ${line}`));
+            }
+          }
+        }
+
+        if (result.filtered && result.filtered.length > 0) {
+          console.log(chalk.bold(`\nFiltered out (${result.filtered.length}):`));
+          for (const candidate of result.filtered) {
+            const detail = candidate.reason === 'limit'
+              ? `score ${candidate.score?.toFixed(3)} below the top ${options.limit}`
+              : candidate.reason === 'type'
+                ? `type ${candidate.type}`
+                : `confidence ${formatConfidence(candidate.confidence)}`;
+            console.log(`${chalk.yellow('○')} ${candidate.natural_form}`);
+            console.log(chalk.dim(`    ${candidate.reason} (${detail}) · matched by ${candidate.matchedBy} · ${candidate.id.slice(0, 8)}`));
+          }
         }
       }
     } finally {
@@ -162,13 +277,82 @@ memory
     }
   });
 
+memory
+  .command('history [id]')
+  .description('Show the revision timeline of a clause or a subject+predicate chain')
+  .option('-s, --subject <subject>', 'Subject of the chain')
+  .option('-p, --predicate <predicate>', 'Predicate of the chain')
+  .option('-l, --limit <n>', 'Limit revisions', '100')
+  .action(async (
+    id: string | undefined,
+    options: { subject?: string; predicate?: string; limit: string },
+  ) => {
+    if (!id && !(options.subject && options.predicate)) {
+      console.error(chalk.red('Provide a clause ID or both --subject and --predicate'));
+      process.exit(1);
+    }
+
+    const om = await getOMLite(program.opts());
+    try {
+      const limit = parseInt(options.limit);
+      const revisions = id
+        ? om.history.clause(id, { limit })
+        : om.history.chain(options.subject!, options.predicate!, { limit });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(revisions, null, 2));
+        return;
+      }
+
+      if (revisions.length === 0) {
+        console.log(chalk.dim('No history found'));
+        return;
+      }
+
+      for (const rev of revisions) {
+        const snapshot = rev.after ?? rev.before;
+        console.log(
+          `${chalk.dim(rev.recorded_at)} ${chalk.bold(rev.action.padEnd(17))} ${chalk.cyan(rev.actor)} · ${rev.clause_id.slice(0, 8)}`,
+        );
+        if (snapshot) {
+          console.log(`  ${snapshot.natural_form} ${formatConfidence(snapshot.confidence)}`);
+        }
+        if (rev.reason) {
+          console.log(`  ${chalk.dim('reason:')} ${rev.reason}`);
+        }
+        if (rev.related_clause_id) {
+          console.log(`  ${chalk.dim('related:')} ${rev.related_clause_id.slice(0, 8)}`);
+        }
+        for (const change of diffRevision(rev)) {
+          console.log(
+            `  ${chalk.dim(`${change.field}:`)} ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`,
+          );
+        }
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
 memory
   .command('export')
   .description('Export memory')
-  .option('-f, --format <format>', 'Format (json, markdown, full)', 'markdown')
+  .option(
+    '-f, --format <format>',
+    'Format (json, markdown, full, dot, graphml, jsonld)',
+    'markdown',
+  )
   .option('-o, --output <path>', 'Output file path (default: stdout)')
   .option('--include-expired', 'Include expired clauses')
-  .action(async (options) => {
+  .option('-s, --subject <subject>', 'Graph formats: only export what is reachable from a subject')
+  .option('-d, --depth <n>', 'Graph formats: hops from --subject', '1')
+  .action(async (options: {
+    format: string;
+    output?: string;
+    includeExpired?: boolean;
+    subject?: string;
+    depth: string;
+  }) => {
     const om = await getOMLite(program.opts());
     try {
       let content: string;
@@ -177,6 +361,12 @@ memory
         content = await om.generateMemoryMd();
       } else if (options.format === 'full') {
         content = await om['clauseStore'].generateFullExport();
+      } else if (['dot', 'graphml', 'jsonld'].includes(options.format)) {
+        content = await om.exportAsGraph(options.format as GraphExportFormat, {
+          subject: options.subject,
+          depth: parseInt(options.depth, 10),
+          includeExpired: options.includeExpired,
+        });
       } else {
         content = await om['clauseStore'].exportAsJson({
           includeExpired: options.includeExpired,
@@ -219,6 +409,428 @@ memory
     }
   });
 
+memory
+  .command('normalize')
+  .description('Re-apply predicate synonyms and entity aliases to stored clauses')
+  .option('--dry-run', 'Preview without changing clauses')
+  .action(async (options: { dryRun?: boolean }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const report = await om.renormalize({ dryRun: options.dryRun });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const verb = options.dryRun ? 'Would update' : 'Updated';
+      console.log(chalk.bold(`${verb} ${report.updated} of ${report.scanned} clauses`));
+      if (report.merged > 0) {
+        console.log(chalk.yellow(`  ${report.merged} duplicates folded into existing clauses`));
+      }
+      for (const change of report.changes) {
+        const from = `${change.from.subject}.${change.from.predicate} = ${change.from.object}`;
+        const to = `${change.to.subject}.${change.to.predicate} = ${change.to.object}`;
+        console.log(`  ${chalk.dim(change.clauseId.slice(0, 8))} ${from} → ${chalk.cyan(to)}`);
+        if (change.mergedInto) {
+          console.log(`    ${chalk.dim('merged into')} ${change.mergedInto.slice(0, 8)}`);
+        }
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+memory
+  .command('forget')
+  .description('Forget clauses by subject, source, query or tag and print a deletion receipt')
+  .option('-s, --subject <subject>', 'Subject or object to forget (aliases resolve)')
+  .option('--source <id>', 'Source ID to forget')
+  .option('-q, --query <query>', 'Full-text phrase to forget')
+  .option('-t, --tag <tag>', 'Tag to forget')
+  .option('--hard', 'Delete clauses, logs, vectors and source files instead of invalidating')
+  .option('--purge-backups', 'Delete affected backups instead of flagging them (with --hard)')
+  .option('-r, --reason <reason>', 'Reason recorded for invalidated clauses')
+  .action(async (options: {
+    subject?: string;
+    source?: string;
+    query?: string;
+    tag?: string;
+    hard?: boolean;
+    purgeBackups?: boolean;
+    reason?: string;
+  }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const receipt = await om.forget(
+        {
+          subject: options.subject,
+          sourceId: options.source,
+          query: options.query,
+          tag: options.tag,
+        },
+        {
+          hard: options.hard,
+          backups: options.purgeBackups ? 'purge' : 'flag',
+          reason: options.reason,
+        },
+      );
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(receipt, null, 2));
+        return;
+      }
+
+      const verb = receipt.hard ? 'Deleted' : 'Invalidated';
+      console.log(chalk.bold(`${verb} ${receipt.clauseIds.length} clauses`));
+      console.log(`  ${chalk.dim('Receipt:')} ${receipt.id}`);
+      console.log(`  ${chalk.dim('Digest:')} ${receipt.digest}`);
+      if (receipt.hard) {
+        for (const [table, count] of Object.entries(receipt.counts)) {
+          if (count > 0) console.log(`  ${chalk.dim(`${table}:`)} ${count}`);
+        }
+        for (const path of receipt.backups.purged) {
+          console.log(`  ${chalk.red('purged backup')} ${path}`);
+        }
+        for (const path of receipt.backups.flagged) {
+          console.log(`  ${chalk.yellow('flagged backup')} ${path}`);
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await om.close();
+    }
+  });
+
+memory
+  .command('forget-verify [receipt]')
+  .description('Verify a forget receipt, or list receipts when no ID is given')
+  .option('-l, --limit <n>', 'Limit listed receipts', '20')
+  .action(async (receiptId: string | undefined, options: { limit: string }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      if (!receiptId) {
+        const receipts = om.listForgetReceipts(parseInt(options.limit));
+        if (program.opts().json) {
+          console.log(JSON.stringify(receipts, null, 2));
+          return;
+        }
+        if (receipts.length === 0) {
+          console.log(chalk.dim('No forget receipts'));
+          return;
+        }
+        for (const r of receipts) {
+          const mode = r.hard ? chalk.red('hard') : chalk.yellow('soft');
+          console.log(
+            `${chalk.dim(r.createdAt)} ${mode} ${r.id} · ${r.clauseIds.length} clauses by ${r.selectedBy.join('+')}`,
+          );
+        }
+        return;
+      }
+
+      const result = await om.verifyForgetReceipt(receiptId);
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else if (result.valid) {
+        console.log(chalk.green(`Receipt ${receiptId} verified`));
+      } else {
+        console.log(chalk.red(`Receipt ${receiptId} failed verification`));
+        if (!result.digestMatches) console.log(`  ${chalk.dim('digest does not match')}`);
+        for (const item of result.remaining) {
+          console.log(`  ${chalk.dim('still present:')} ${item}`);
+        }
+      }
+      if (!result.valid) process.exitCode = 1;
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await om.close();
+    }
+  });
+
+// ========== Alias Commands ==========
+
+const alias = program
+  .command('alias')
+  .description('Entity alias operations');
+
+alias
+  .command('add <alias> <entityId>')
+  .description('Map a name (e.g. "Dad") to a canonical entity ID (e.g. person:john_smith)')
+  .action(async (name: string, entityId: string) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const entry = om.aliases.add(name, entityId);
+      console.log(chalk.green(`Alias added: ${entry.alias} → ${entry.entity_id}`));
+      console.log(chalk.dim('Run "om-lite memory normalize" to apply it to existing clauses'));
+    } finally {
+      await om.close();
+    }
+  });
+
+alias
+  .command('list [entityId]')
+  .description('List aliases')
+  .action(async (entityId: string | undefined) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const entries = om.aliases.list(entityId);
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else if (entries.length === 0) {
+        console.log(chalk.yellow('No aliases defined'));
+      } else {
+        for (const entry of entries) {
+          console.log(`${entry.alias} → ${chalk.cyan(entry.entity_id)}`);
+        }
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+alias
+  .command('remove <alias>')
+  .description('Remove an alias')
+  .action(async (name: string) => {
+    const om = await getOMLite(program.opts());
+    try {
+      if (om.aliases.remove(name)) {
+        console.log(chalk.green(`Alias removed: ${name}`));
+      } else {
+        console.log(chalk.yellow(`Alias not found: ${name}`));
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+// ========== Entity Commands ==========
+
+const entity = program
+  .command('entity')
+  .description('Entity operations');
+
+entity
+  .command('list')
+  .description('List entities')
+  .option('-t, --type <type>', 'Filter by entity type')
+  .option('--include-merged', 'Include entities merged into others')
+  .option('-l, --limit <n>', 'Limit results', '100')
+  .action(async (options: { type?: string; includeMerged?: boolean; limit: string }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const entities = om.entities.list({
+        type: options.type,
+        includeMerged: options.includeMerged,
+        limit: parseInt(options.limit, 10),
+      });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(entities, null, 2));
+      } else if (entities.length === 0) {
+        console.log(chalk.yellow('No entities found'));
+      } else {
+        for (const e of entities) {
+          const merged = e.merged_into ? chalk.dim(` → ${e.merged_into}`) : '';
+          console.log(`${chalk.cyan(e.id)} ${e.canonical_name}${merged}`);
+        }
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+entity
+  .command('show <name>')
+  .description('Show an entity by ID, alias or name, with its clauses')
+  .option('--include-expired', 'Include expired clauses')
+  .action(async (name: string, options: { includeExpired?: boolean }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const found = om.entities.resolve(name);
+      if (!found) {
+        console.log(chalk.red(`Entity not found: ${name}`));
+        process.exit(1);
+      }
+      const clauses = await om.entities.clauses(found.id, {
+        includeExpired: options.includeExpired,
+      });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify({ ...found, clauses }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(found.canonical_name));
+      console.log(`  ${chalk.dim('ID:')} ${found.id}`);
+      console.log(`  ${chalk.dim('Type:')} ${found.type}`);
+      if (found.aliases.length > 0) {
+        console.log(`  ${chalk.dim('Aliases:')} ${found.aliases.join(', ')}`);
+      }
+      for (const [key, value] of Object.entries(found.attributes)) {
+        console.log(`  ${chalk.dim(`${key}:`)} ${JSON.stringify(value)}`);
+      }
+      console.log();
+      console.log(chalk.dim(`Clauses (${clauses.length}):`));
+      for (const clause of clauses) {
+        console.log(`  ${formatConfidence(clause.confidence)} ${clause.natural_form}`);
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+entity
+  .command('merge <source> <target>')
+  .description('Merge the source entity into the target')
+  .action(async (source: string, target: string) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const result = om.entities.merge(source, target);
+      if (program.opts().json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(chalk.green(`Merged ${result.source} into ${result.target}`));
+        console.log(chalk.dim(`  Aliases moved: ${result.aliasesMoved}`));
+        console.log(chalk.dim(`  Clauses relinked: ${result.clausesRelinked}`));
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await om.close();
+    }
+  });
+
+entity
+  .command('split <entity>')
+  .description('Move aliases (and clauses that used them) to a new entity')
+  .option('-a, --alias <aliases...>', 'Aliases that belong to the new entity', [])
+  .option('--id <id>', 'ID for the new entity (restores a merged entity if it exists)')
+  .option('--name <name>', 'Canonical name for the new entity')
+  .option('-t, --type <type>', 'Type for the new entity (default: same as source)')
+  .action(async (
+    name: string,
+    options: { alias: string[]; id?: string; name?: string; type?: string },
+  ) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const result = om.entities.split(name, {
+        aliases: options.alias,
+        id: options.id,
+        name: options.name,
+        type: options.type,
+      });
+      if (program.opts().json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(chalk.green(`Split ${result.created.id} from ${result.source}`));
+        console.log(chalk.dim(`  Aliases moved: ${result.aliasesMoved}`));
+        console.log(chalk.dim(`  Clauses relinked: ${result.clausesRelinked}`));
+      }
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    } finally {
+      await om.close();
+    }
+  });
+
+entity
+  .command('reindex')
+  .description('Link all stored clauses to entities')
+  .action(async () => {
+    const om = await getOMLite(program.opts());
+    try {
+      const spinner = ora('Linking clauses to entities...').start();
+      const count = om.entities.linkAll();
+      spinner.succeed(`Linked ${count} clauses`);
+    } finally {
+      await om.close();
+    }
+  });
+
+entity
+  .command('neighbors <entity>')
+  .description('Walk relationship clauses outward from an entity')
+  .option('-d, --depth <n>', 'Maximum hops', '1')
+  .option('-p, --predicate <predicates...>', 'Only follow these predicates')
+  .option('--direction <direction>', 'Edge direction: out, in or both', 'out')
+  .action(async (name: string, options: {
+    depth: string;
+    predicate?: string[];
+    direction: string;
+  }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const graph = om.graph.neighbors(name, {
+        depth: parseInt(options.depth, 10),
+        predicates: options.predicate,
+        direction: options.direction as GraphDirection,
+      });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(graph, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`${graph.root.name} ${chalk.dim(`(${graph.root.id})`)}`));
+      if (graph.edges.length === 0) {
+        console.log(chalk.yellow('No relationships found'));
+        return;
+      }
+      for (const edge of graph.edges) {
+        const indent = '  '.repeat(edge.depth);
+        console.log(
+          `${indent}${edge.from} ${chalk.cyan(edge.predicate)} ${edge.to} ` +
+          formatConfidence(edge.clause.confidence),
+        );
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+entity
+  .command('paths <from> <to>')
+  .description('Find chains of relationship clauses between two entities')
+  .option('-d, --depth <n>', 'Maximum hops', '3')
+  .option('-p, --predicate <predicates...>', 'Only follow these predicates')
+  .option('--direction <direction>', 'Edge direction: out, in or both', 'out')
+  .action(async (from: string, to: string, options: {
+    depth: string;
+    predicate?: string[];
+    direction: string;
+  }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const paths = om.graph.paths(from, to, {
+        depth: parseInt(options.depth, 10),
+        predicates: options.predicate,
+        direction: options.direction as GraphDirection,
+      });
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(paths, null, 2));
+      } else if (paths.length === 0) {
+        console.log(chalk.yellow('No paths found'));
+      } else {
+        for (const path of paths) {
+          const hops = path.edges.map((e) => `${e.from} -[${e.predicate}]-> ${e.to}`);
+          console.log(`${formatConfidence(path.confidence)} ${hops.join(' ')}`);
+        }
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
 // ========== Stats Command ==========
 
 program
@@ -409,6 +1021,121 @@ program
     }
   });
 
+// ========== Database Commands ==========
+
+const database = program
+  .command('db')
+  .description('Database maintenance');
+
+database
+  .command('migrate')
+  .description('Apply pending schema migrations (backs up the database first)')
+  .option('--status', 'Show applied and pending migrations without applying them')
+  .option('--to <version>', 'Migrate up to this schema version')
+  .action(async (options: { status?: boolean; to?: string }) => {
+    const encryptionKey = resolveEncryptionKey(loadEncryptionConfig());
+    const db = new DatabaseManager(program.opts<{ db?: string }>().db ?? DEFAULT_DB_PATH, {
+      autoMigrate: false,
+      encryptionKey,
+    });
+    await db.init();
+    try {
+      if (options.status) {
+        const status = db.getMigrationStatus();
+        if (program.opts().json) {
+          console.log(JSON.stringify(status, null, 2));
+          return;
+        }
+
+        console.log(chalk.bold(`\nSchema version ${status.current} of ${status.latest}\n`));
+        for (const m of status.applied) {
+          const mark = m.checksumMatches ? chalk.green('✓') : chalk.red('✗ changed since applied');
+          console.log(`  ${mark} ${m.version} ${m.name} ${chalk.gray(m.appliedAt)}`);
+        }
+        for (const m of status.pending) {
+          console.log(`  ${chalk.yellow('○')} ${m.version} ${m.name} ${chalk.gray('pending')}`);
+        }
+        console.log();
+        return;
+      }
+
+      const backupManager = new BackupManager(db, { backupDir: '~/.om-lite/backups' });
+      backupManager.setEncryptionKey(encryptionKey);
+      db.setBackupManager(backupManager);
+      const spinner = ora('Migrating...').start();
+      try {
+        const result = await db.migrate({
+          to: options.to !== undefined ? parseInt(options.to, 10) : undefined,
+        });
+        if (result.applied.length === 0) {
+          spinner.succeed(`Already at schema version ${result.to}`);
+        } else {
+          spinner.succeed(`Migrated from version ${result.from} to ${result.to}`);
+        }
+        if (result.backupPath) {
+          console.log(chalk.gray(`  Backup: ${result.backupPath}`));
+        }
+      } catch (error) {
+        spinner.fail(String(error instanceof Error ? error.message : error));
+        process.exitCode = 1;
+      }
+    } finally {
+      await db.close();
+    }
+  });
+
+database
+  .command('rekey')
+  .description('Encrypt, re-encrypt or decrypt the database, source archives and backups')
+  .option('--new-key-env <var>', 'Environment variable holding the new passphrase')
+  .option('--new-key-file <path>', 'File holding the new passphrase')
+  .option('--decrypt', 'Remove encryption')
+  .action(async (options: { newKeyEnv?: string; newKeyFile?: string; decrypt?: boolean }) => {
+    // Without a new key, encrypt with the configured one (e.g. after first setting OM_LITE_KEY)
+    let newKey: string | null = null;
+    if (!options.decrypt) {
+      newKey = options.newKeyEnv
+        ? process.env[options.newKeyEnv] || null
+        : options.newKeyFile
+          ? readKeyFile(options.newKeyFile)
+          : resolveEncryptionKey(loadEncryptionConfig());
+      if (!newKey) {
+        console.error(chalk.red(
+          'No new key: set OM_LITE_KEY, pass --new-key-env or --new-key-file, or use --decrypt',
+        ));
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    // The database may still be plaintext: that is what rekey is for
+    const om = await getOMLite(program.opts(), { allowPlaintext: true });
+    const spinner = ora(newKey ? 'Encrypting...' : 'Decrypting...').start();
+    try {
+      const report = await om.rekey(newKey);
+      if (program.opts().json) {
+        spinner.stop();
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        spinner.succeed(report.databaseEncrypted ? 'Database encrypted' : 'Database decrypted');
+        console.log(`  Source archives: ${report.archivesRekeyed}`);
+        console.log(`  Backups: ${report.backupsRekeyed}`);
+        console.log(`  ANN indexes: ${report.annIndexesRekeyed}`);
+        for (const path of report.failed) {
+          console.log(chalk.yellow(`  Could not decrypt with the old key: ${path}`));
+        }
+        if (options.newKeyEnv || options.newKeyFile || options.decrypt) {
+          console.log(chalk.dim('\nUpdate the configured key before the next run'));
+        }
+      }
+    } catch (error) {
+      spinner.fail(String(error instanceof Error ? error.message : error));
+      process.exitCode = 1;
+    } finally {
+      await om.close();
+    }
+  });
+
 // ========== Backup Command ==========
 
 const backup = program
@@ -424,9 +1151,7 @@ backup
     const spinner = ora('Creating backup...').start();
     const om = await getOMLite(program.opts());
     try {
-      const backupManager = new BackupManager(om['db'], {
-        backupDir: '~/.om-lite/backups',
-      });
+      const backupManager = getBackupManager(om);
       await backupManager.init();
 
       const result = await backupManager.backup({
@@ -453,9 +1178,7 @@ backup
     const spinner = ora('Restoring from backup...').start();
     const om = await getOMLite(program.opts());
     try {
-      const backupManager = new BackupManager(om['db'], {
-        backupDir: '~/.om-lite/backups',
-      });
+      const backupManager = getBackupManager(om);
 
       // Validate backup first
       const validation = await backupManager.validateBackup(backupPath);
@@ -467,8 +1190,17 @@ backup
       const result = await backupManager.restore(backupPath);
 
       if (result.success) {
+        // Forgets made after this backup was taken must not come back with it
+        const receipts = result.forgetReceipts ?? [];
+        if (receipts.length > 0) {
+          await om['embeddingManager'].init();
+          await om['forgetManager'].reapply(receipts);
+        }
         spinner.succeed('Restore completed');
         console.log(`  Clauses restored: ${result.clausesRestored}`);
+        if (receipts.length > 0) {
+          console.log(`  Forget receipts re-applied: ${receipts.length}`);
+        }
       } else {
         spinner.fail(`Restore failed: ${result.error}`);
         process.exit(1);
@@ -484,9 +1216,7 @@ backup
   .action(async () => {
     const om = await getOMLite(program.opts());
     try {
-      const backupManager = new BackupManager(om['db'], {
-        backupDir: '~/.om-lite/backups',
-      });
+      const backupManager = getBackupManager(om);
       await backupManager.init();
 
       const backups = await backupManager.listBackups();
@@ -500,8 +1230,15 @@ backup
         } else {
           console.log(chalk.bold('Available Backups\n'));
           for (const b of backups) {
-            const typeColor = b.type === 'manual' ? chalk.blue : b.type === 'weekly' ? chalk.magenta : chalk.cyan;
-            console.log(`${typeColor(`[${b.type}]`)} ${b.filename}`);
+            const typeColor = b.type === 'manual' ? chalk.blue
+              : b.type === 'weekly' ? chalk.magenta
+              : b.type === 'migration' ? chalk.yellow
+              : chalk.cyan;
+            const sealed = b.encrypted ? chalk.dim(' (encrypted)') : '';
+            const forgotten = b.forgotten.length > 0
+              ? chalk.yellow(` (${b.forgotten.length} forgets pending)`)
+              : '';
+            console.log(`${typeColor(`[${b.type}]`)} ${b.filename}${sealed}${forgotten}`);
             console.log(`  ${chalk.dim('Date:')} ${b.timestamp.toISOString()}`);
             console.log(`  ${chalk.dim('Size:')} ${(b.sizeBytes / 1024).toFixed(1)} KB`);
           }
@@ -519,7 +1256,7 @@ backup
     const spinner = ora('Validating backup...').start();
     const om = await getOMLite(program.opts());
     try {
-      const backupManager = new BackupManager(om['db']);
+      const backupManager = getBackupManager(om);
       const result = await backupManager.validateBackup(backupPath);
 
       if (result.valid) {
@@ -627,6 +1364,59 @@ conflicts
     }
   });
 
+// ========== Predicates Commands ==========
+
+const predicates = program
+  .command('predicates')
+  .description('Predicate registry operations');
+
+predicates
+  .command('list')
+  .description('List registered predicates')
+  .option('--origin <origin>', 'Filter by origin (default, config, pack:<id>)')
+  .action(async (options: { origin?: string }) => {
+    const om = await getOMLite(program.opts());
+    try {
+      const entries = om.predicates
+        .list()
+        .filter((p) => !options.origin || p.origin === options.origin);
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`Predicates (${entries.length})\n`));
+      for (const entry of entries) {
+        const details = [
+          entry.cardinality,
+          entry.value_type,
+          entry.decay_rate !== undefined ? `decay ${entry.decay_rate}` : undefined,
+          entry.inverse ? `inverse ${entry.inverse}` : undefined,
+        ].filter(Boolean);
+        console.log(`${chalk.cyan(entry.name)} ${chalk.dim(`(${details.join(', ')})`)} ${chalk.dim(`[${entry.origin}]`)}`);
+        if (entry.synonyms && entry.synonyms.length > 0) {
+          console.log(`  ${chalk.dim('Synonyms:')} ${entry.synonyms.join(', ')}`);
+        }
+      }
+    } finally {
+      await om.close();
+    }
+  });
+
+predicates
+  .command('check <file>')
+  .description('Validate a predicate definitions file')
+  .action((file: string) => {
+    try {
+      const loaded = new PredicateRegistry([]).loadFile(file);
+      console.log(chalk.green(`Valid: ${loaded.length} predicate definitions`));
+    } catch (error) {
+      console.error(chalk.red(`Invalid: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
 // ========== Retention Commands ==========
 
 program
@@ -679,6 +1469,60 @@ program
     }
   });
 
+// ========== Audit Commands ==========
+
+const audit = program
+  .command('audit')
+  .description('Audit stored memory');
+
+audit
+  .command('pii')
+  .description('Scan clauses and source archives in every namespace for PII')
+  .option('--limit <n>', 'Records to list', '20')
+  .action(async (options: { limit: string }) => {
+    const om = await getOMLite(program.opts());
+    const spinner = ora('Scanning for PII...').start();
+    try {
+      const report = await om.auditPii();
+      spinner.stop();
+      if (program.opts().json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const { clauses, sources } = report.scanned;
+      console.log(chalk.bold(`\nPII Audit (${clauses} clauses, ${sources} sources)\n`));
+      const totals = Object.entries(report.totals) as [PiiCategory, number][];
+      if (totals.length === 0) {
+        console.log(chalk.green('  No PII found'));
+      }
+
+      // Show what the configured policy would do with each category on new writes
+      const redactor = om.config.pii?.enabled ? new PiiRedactor(om.config.pii) : null;
+      for (const [category, count] of totals) {
+        console.log(`  ${category.padEnd(12)} ${String(count).padStart(5)}  ` +
+          chalk.dim(redactor ? `policy: ${redactor.policyFor(category)}` : 'redaction off'));
+      }
+
+      const limit = parseInt(options.limit, 10);
+      if (report.findings.length > 0) {
+        console.log(chalk.dim('\nRecords:'));
+        for (const finding of report.findings.slice(0, limit)) {
+          console.log(`  ${finding.kind.padEnd(6)} ${finding.id}  ${finding.categories.join(', ')}`);
+        }
+        if (report.findings.length > limit) {
+          console.log(chalk.dim(`  ... and ${report.findings.length - limit} more`));
+        }
+      }
+      for (const path of report.unreadable) {
+        console.log(chalk.yellow(`  Could not read archive: ${path}`));
+      }
+      console.log();
+    } finally {
+      await om.close();
+    }
+  });
+
 // ========== Scheduler Commands ==========
 
 const scheduler = program
@@ -733,12 +1577,17 @@ skills
   .action(async () => {
     const om = await getOMLite(program.opts());
     try {
-      // Get skills with bindings from skill_preference_bindings table
+      // Get skills with bindings visible from this namespace
+      const visible = buildNamespaceFilter(om.namespace, 'b');
       const bindingsRows = om['db'].all<{
         skill_id: string;
         parameter_name: string;
         clause_id: string;
-      }>('SELECT DISTINCT skill_id, parameter_name, clause_id FROM skill_preference_bindings');
+      }>(
+        `SELECT DISTINCT b.skill_id, b.parameter_name, b.clause_id
+         FROM skill_preference_bindings b WHERE 1 = 1${visible.sql}`,
+        visible.params,
+      );
 
       // Get skills from skill_capabilities
       const capsRows = om['db'].all<{
@@ -1018,11 +1867,12 @@ source
   .action(async (options) => {
     const om = await getOMLite(program.opts());
     try {
-      let sql = 'SELECT * FROM sources';
-      const params: unknown[] = [];
+      const visible = buildNamespaceFilter(om.namespace, 's');
+      let sql = `SELECT * FROM sources s WHERE 1 = 1${visible.sql}`;
+      const params: unknown[] = [...visible.params];
 
       if (options.type) {
-        sql += ' WHERE type = ?';
+        sql += ' AND s.type = ?';
         params.push(options.type);
       }
 
@@ -1036,6 +1886,7 @@ source
         file_path: string;
         occurred_at: string;
         message_count: number;
+        namespace: string;
       }>(sql, params);
 
       if (program.opts().json) {
@@ -1050,6 +1901,9 @@ source
             if (src.channel) {
               console.log(`  ${chalk.dim('Channel:')} ${src.channel}`);
             }
+            if (src.namespace !== om.namespace.namespace) {
+              console.log(`  ${chalk.dim('Namespace:')} ${src.namespace}`);
+            }
             console.log(`  ${chalk.dim('Date:')} ${src.occurred_at}`);
             if (src.message_count > 0) {
               console.log(`  ${chalk.dim('Messages:')} ${src.message_count}`);
@@ -1069,6 +1923,7 @@ source
     const om = await getOMLite(program.opts());
     try {
       // Find source by full ID or partial match
+      const visible = buildNamespaceFilter(om.namespace, 's');
       const src = om['db'].get<{
         id: string;
         type: string;
@@ -1080,9 +1935,10 @@ source
         participant_count: number;
         message_count: number;
         metadata: string;
+        namespace: string;
       }>(
-        'SELECT * FROM sources WHERE id = ? OR id LIKE ?',
-        [id, `${id}%`]
+        `SELECT * FROM sources s WHERE (s.id = ? OR s.id LIKE ?)${visible.sql}`,
+        [id, `${id}%`, ...visible.params],
       );
 
       if (!src) {
@@ -1091,9 +1947,10 @@ source
       }
 
       // Get clauses from this source
+      const clauseVisible = buildNamespaceFilter(om.namespace);
       const clauseCount = om['db'].get<{ count: number }>(
-        'SELECT COUNT(*) as count FROM clauses WHERE source_id = ?',
-        [src.id]
+        `SELECT COUNT(*) as count FROM clauses c WHERE c.source_id = ?${clauseVisible.sql}`,
+        [src.id, ...clauseVisible.params],
       );
 
       if (program.opts().json) {
@@ -1102,6 +1959,7 @@ source
         console.log(chalk.bold(`Source: ${src.id}\n`));
         console.log(`${chalk.dim('Type:')}         ${src.type}`);
         console.log(`${chalk.dim('Channel:')}      ${src.channel ?? 'none'}`);
+        console.log(`${chalk.dim('Namespace:')}    ${src.namespace}`);
         console.log(`${chalk.dim('File:')}         ${src.file_path}`);
         console.log(`${chalk.dim('Hash:')}         ${src.content_hash.slice(0, 16)}...`);
         console.log(`${chalk.dim('Occurred:')}     ${src.occurred_at}`);
@@ -1126,16 +1984,17 @@ source
   .action(async (id) => {
     const om = await getOMLite(program.opts());
     try {
+      const visible = buildNamespaceFilter(om.namespace);
       const clauses = om['db'].all<{
         id: string;
         type: string;
         natural_form: string;
         confidence: number;
       }>(
-        `SELECT id, type, natural_form, confidence FROM clauses
-         WHERE source_id = ? OR source_id LIKE ?
-         ORDER BY recorded_at DESC`,
-        [id, `${id}%`]
+        `SELECT c.id, c.type, c.natural_form, c.confidence FROM clauses c
+         WHERE (c.source_id = ? OR c.source_id LIKE ?)${visible.sql}
+         ORDER BY c.recorded_at DESC`,
+        [id, `${id}%`, ...visible.params],
       );
 
       if (program.opts().json) {
@@ -1156,6 +2015,277 @@ source
     }
   });
 
+// ========== Embeddings Commands ==========
+
+const embeddings = program
+  .command('embeddings')
+  .description('Manage semantic search embeddings');
+
+function formatIndex(index: EmbeddingIndexInfo): string {
+  const model = index.provider === index.model ? index.provider : `${index.provider}/${index.model}`;
+  return `${chalk.cyan(model)} ${chalk.gray(`${index.dimensions}d, ${index.backend}`)} ` +
+    `${index.embedded} embedded`;
+}
+
+embeddings
+  .command('status')
+  .description('Show the active embedding index and any pending model switch')
+  .action(async () => {
+    const om = await getOMLite(program.opts());
+    try {
+      const status = await om.embeddings.status();
+
+      if (program.opts().json) {
+        console.log(JSON.stringify(status, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold('\n🧭 Embeddings\n'));
+      console.log(`  Active:  ${status.active ? formatIndex(status.active) : chalk.gray('none')}`);
+      if (status.pending) {
+        console.log(`  Pending: ${formatIndex(status.pending)}`);
+      }
+      console.log(`  Stale:   ${status.stale}`);
+      if (!status.searchable) {
+        console.log(chalk.yellow('\n  Semantic search is off until the reindex completes'));
+      }
+      if (status.stale > 0) {
+        console.log(chalk.gray(`\n  Run 'om-lite embeddings reindex' to embed ${status.stale} clause(s)`));
+      }
+      console.log();
+    } finally {
+      await om.close();
+    }
+  });
+
+embeddings
+  .command('reindex')
+  .description('Embed new and changed clauses with the configured model (resumable)')
+  .option('-b, --batch-size <n>', 'Clauses per embedding call', '64')
+  .option('--force', 'Re-embed every clause, not just stale ones')
+  .action(async (options: { batchSize: string; force?: boolean }) => {
+    const om = await getOMLite(program.opts());
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    process.once('SIGINT', stop);
+
+    const spinner = ora('Scanning clauses...').start();
+    try {
+      const result = await om.embeddings.reindex({
+        batchSize: parseInt(options.batchSize, 10),
+        force: options.force,
+        signal: controller.signal,
+        onProgress: (p) => {
+          const pct = p.total === 0 ? 100 : Math.floor((p.done / p.total) * 100);
+          spinner.text = `Embedding with ${p.model}: ${p.done}/${p.total} (${pct}%)` +
+            (p.errors > 0 ? chalk.red(` ${p.errors} failed`) : '');
+        },
+      });
+
+      if (result.aborted) {
+        spinner.warn(`Stopped after ${result.embedded} clause(s); run again to resume`);
+      } else if (result.errors > 0) {
+        spinner.fail(`${result.errors} clause(s) failed to embed; run again to retry`);
+      } else {
+        spinner.succeed(`Embedded ${result.embedded} clause(s) with ${result.model}`);
+      }
+      if (result.switched) {
+        console.log(chalk.green(`  Switched search from ${result.previousModel} to ${result.model}`));
+      }
+    } catch (error) {
+      spinner.fail(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    } finally {
+      process.off('SIGINT', stop);
+      await om.close();
+    }
+  });
+
+embeddings
+  .command('rebuild-ann')
+  .description('Rebuild the approximate search graph used without sqlite-vec')
+  .action(async () => {
+    const om = await getOMLite(program.opts());
+    const spinner = ora('Building ANN index...').start();
+    try {
+      const result = await om.embeddings.rebuildAnn();
+      spinner.succeed(`Indexed ${result.size} embedding(s) in ${result.durationMs}ms`);
+    } catch (error) {
+      spinner.fail(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    } finally {
+      await om.close();
+    }
+  });
+
+// ========== Eval Commands ==========
+
+const evaluation = program
+  .command('eval')
+  .description('Measure retrieval quality against golden query sets');
+
+// --sweep semanticWeight=0.4,0.6 --sweep keywordWeight=0.2,0.3
+function collectSweep(value: string, previous: EvalSuite['sweep']): EvalSuite['sweep'] {
+  const [name, values] = value.split('=');
+  const numbers = (values ?? '').split(',').map(Number);
+  if (!name || numbers.length === 0 || numbers.some((n) => Number.isNaN(n))) {
+    throw new Error(`Invalid --sweep ${value}; expected <weight>=<v1>,<v2>,...`);
+  }
+  return { ...previous, [name]: numbers };
+}
+
+evaluation
+  .command('run <suite>')
+  .description('Score a suite with recall@k, MRR and nDCG across retrieval methods')
+  .option('--baseline <file>', 'Compare with a saved report')
+  .option('--save-baseline <file>', 'Save this report as the new baseline')
+  .option('--sweep <weight=values>', 'Weights to try, e.g. semanticWeight=0.4,0.6 (repeatable)', collectSweep)
+  .option('--tolerance <n>', 'Metric drop allowed by --fail-on-regression', '0')
+  .option('--fail-on-regression', 'Exit with an error when a metric falls below the baseline')
+  .action(async (suitePath: string, options: {
+    baseline?: string;
+    saveBaseline?: string;
+    sweep?: EvalSuite['sweep'];
+    tolerance: string;
+    failOnRegression?: boolean;
+  }) => {
+    const { readFileSync, writeFileSync } = await import('fs');
+    const spinner = ora('Building fixture memory...').start();
+    let report: EvalReport;
+    try {
+      const suite = loadEvalSuite(suitePath);
+      const predicatesFile = program.opts<{ predicates?: string }>().predicates;
+      report = await runEvalSuite(suite, {
+        config: {
+          embedding: loadEmbeddingConfig(),
+          predicates: predicatesFile ? { file: predicatesFile } : undefined,
+        },
+        sweep: options.sweep,
+        onProgress: (run, total, weights) => {
+          spinner.text = `Run ${run}/${total}: ${formatWeights(weights)}`;
+        },
+      });
+      spinner.stop();
+    } catch (error) {
+      spinner.fail(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+      return;
+    }
+
+    const baseline = options.baseline
+      ? JSON.parse(readFileSync(options.baseline, 'utf-8')) as EvalReport
+      : undefined;
+    const diff = baseline
+      ? diffEvalReports(baseline, report, parseFloat(options.tolerance))
+      : undefined;
+
+    if (program.opts().json) {
+      console.log(JSON.stringify({ report, diff }, null, 2));
+    } else {
+      const k = report.k;
+      console.log(chalk.bold(`\n📏 ${report.suite}\n`));
+      for (const run of report.runs) {
+        console.log(chalk.cyan(formatWeights(run.weights)));
+        for (const [method, score] of Object.entries(run.methods)) {
+          console.log(`  ${method.padEnd(12)} recall@${k} ${score.recall.toFixed(3)}  ` +
+            `MRR ${score.mrr.toFixed(3)}  nDCG@${k} ${score.ndcg.toFixed(3)}`);
+          if (program.opts().verbose) {
+            for (const query of score.queries.filter((q) => q.missing.length > 0)) {
+              console.log(chalk.gray(`    ${query.id}: missing ${query.missing.join(', ')}`));
+            }
+          }
+        }
+      }
+
+      if (report.runs.length > 1) {
+        const ndcg = (run: EvalReport['runs'][number]) =>
+          Object.values(run.methods).reduce((sum, m) => sum + m.ndcg, 0);
+        const best = report.runs.reduce((a, b) => (ndcg(b) > ndcg(a) ? b : a));
+        console.log(chalk.green(`\nBest mean nDCG: ${formatWeights(best.weights)}`));
+      }
+
+      if (diff) {
+        console.log(chalk.bold('\nAgainst baseline:'));
+        for (const entry of diff.metrics.filter((m) => Math.abs(m.delta) > 1e-9)) {
+          const delta = `${entry.delta > 0 ? '+' : ''}${entry.delta.toFixed(3)}`;
+          console.log(`  ${formatWeights(entry.weights)} ${entry.method} ${entry.metric} ` +
+            `${entry.baseline.toFixed(3)} → ${entry.current.toFixed(3)} ` +
+            (entry.delta > 0 ? chalk.green(delta) : chalk.red(delta)));
+        }
+        for (const regression of diff.regressions) {
+          console.log(chalk.red(`  ↓ ${regression.method} "${regression.query}" ${regression.metric} ` +
+            `${regression.baseline.toFixed(3)} → ${regression.current.toFixed(3)}`));
+        }
+        if (diff.metrics.every((m) => Math.abs(m.delta) <= 1e-9) && diff.regressions.length === 0) {
+          console.log(chalk.gray('  No changes'));
+        }
+      }
+      console.log();
+    }
+
+    if (options.saveBaseline) {
+      writeFileSync(options.saveBaseline, JSON.stringify(report, null, 2));
+      if (!program.opts().json) {
+        console.log(chalk.green(`Baseline saved to ${options.saveBaseline}`));
+      }
+    }
+    if (options.failOnRegression && diff?.regressed) {
+      process.exitCode = 1;
+    }
+  });
+
+// ========== Serve Command ==========
+
+program
+  .command('serve')
+  .description('Serve memory over a local REST API')
+  .option('-p, --port <n>', 'Port to listen on (default: 8787)')
+  .option('--host <host>', 'Interface to bind (default: 127.0.0.1)')
+  .option('-c, --config <file>', 'Config with memory.om_lite.server settings', '~/.openclaw/config.yaml')
+  .action(async (options: { port?: string; host?: string; config: string }) => {
+    const config = loadServerConfig(options.config);
+    if (options.port) config.port = parseInt(options.port, 10);
+    if (options.host) config.host = options.host;
+
+    const om = await getOMLite(program.opts());
+    let server: MemoryServer;
+    try {
+      server = new MemoryServer(om, config);
+      const { host, port } = await server.start();
+      console.log(chalk.green(`OM-Lite API listening on http://${host}:${port}`));
+      if (config.tokenFile) {
+        console.log(chalk.dim(`Bearer token: ${config.tokenFile}`));
+      }
+    } catch (error) {
+      await om.close();
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+
+    const shutdown = async () => {
+      await server.stop();
+      await om.close();
+      process.exit(0);
+    };
+    process.once('SIGINT', () => void shutdown());
+    process.once('SIGTERM', () => void shutdown());
+  });
+
+// ========== MCP Command ==========
+
+program
+  .command('mcp')
+  .description('Run a Model Context Protocol server on stdio')
+  .action(async () => {
+    // stdout carries the protocol; everything else must go to stderr
+    const om = await getOMLite(program.opts());
+    try {
+      await new McpServer(om).serve(process.stdin, process.stdout);
+    } finally {
+      await om.close();
+    }
+  });
+
 // ========== Run ==========
 
 program.parse();
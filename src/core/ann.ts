@@ -0,0 +1,430 @@
+/**
+ * ANN module - Approximate nearest-neighbour search over embeddings
+ * A small HNSW graph (Malkov & Yashunin) used when sqlite-vec is unavailable,
+ * so queries visit a few hundred vectors instead of every stored embedding
+ */
+
+export interface HnswOptions {
+  /** Links per node on upper layers; layer 0 keeps twice as many (default 16) */
+  m?: number;
+  /** Candidate list size while inserting; higher builds slower, better graphs (default 200) */
+  efConstruction?: number;
+  /** Candidate list size while searching; raised to k when smaller (default 64) */
+  efSearch?: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  // Neighbour node indexes per layer, 0 (densest) up to the node's level
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+const MAGIC = 0x574e4831; // "1HNW"
+const FORMAT_VERSION = 1;
+
+export class HnswIndex {
+  readonly dimensions: number;
+  readonly m: number;
+  readonly efConstruction: number;
+  efSearch: number;
+  private nodes: HnswNode[] = [];
+  private ids = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  // Visited marks for graph walks; a node is visited when its mark equals the current epoch
+  private visited = new Uint32Array(0);
+  private epoch = 0;
+
+  constructor(dimensions: number, options: HnswOptions = {}) {
+    this.dimensions = dimensions;
+    this.m = Math.max(2, options.m ?? 16);
+    this.efConstruction = Math.max(this.m, options.efConstruction ?? 200);
+    this.efSearch = options.efSearch ?? 64;
+  }
+
+  /**
+   * Number of live (not deleted) vectors
+   */
+  get size(): number {
+    return this.ids.size;
+  }
+
+  /**
+   * Deleted nodes still in the graph, kept as routing points until compact()
+   */
+  get deleted(): number {
+    return this.deletedCount;
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  /**
+   * IDs of live vectors
+   */
+  keys(): IterableIterator<string> {
+    return this.ids.keys();
+  }
+
+  /**
+   * Insert a vector, replacing any earlier vector with the same ID
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    this.remove(id);
+
+    const level = Math.floor(-Math.log(1 - Math.random()) / Math.log(this.m));
+    const index = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.ids.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(node.vector, entry, 1, layer)[0].node;
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entry, this.efConstruction, layer);
+      node.neighbors[layer] = this.selectNeighbors(candidates, this.m);
+      for (const neighbor of node.neighbors[layer]) {
+        this.link(neighbor, index, layer);
+      }
+      entry = candidates[0].node;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  /**
+   * Remove a vector; its node keeps routing searches until compact()
+   */
+  remove(id: string): boolean {
+    const index = this.ids.get(id);
+    if (index === undefined) return false;
+
+    this.nodes[index].deleted = true;
+    this.ids.delete(id);
+    this.deletedCount++;
+    return true;
+  }
+
+  /**
+   * The k most cosine-similar live vectors, best first
+   */
+  search(query: ArrayLike<number>, k: number): Array<{ id: string; similarity: number }> {
+    if (this.size === 0 || k <= 0) return [];
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query has ${query.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    const vector = normalize(query);
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(vector, entry, 1, layer)[0].node;
+    }
+
+    // Deleted nodes take up candidate slots, so widen the list by their share
+    const live = this.size / (this.size + this.deletedCount);
+    const ef = Math.ceil(Math.max(this.efSearch, k) / live);
+
+    const results: Array<{ id: string; similarity: number }> = [];
+    for (const candidate of this.searchLayer(vector, entry, ef, 0)) {
+      const node = this.nodes[candidate.node];
+      if (node.deleted) continue;
+      results.push({ id: node.id, similarity: candidate.similarity });
+      if (results.length === k) break;
+    }
+    return results;
+  }
+
+  /**
+   * Rebuild the graph from live vectors, dropping deleted nodes
+   */
+  compact(): void {
+    const live = this.nodes.filter((n) => !n.deleted);
+    this.nodes = [];
+    this.ids.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    for (const node of live) {
+      this.add(node.id, node.vector);
+    }
+  }
+
+  // ========== Persistence ==========
+
+  /**
+   * Binary snapshot of the graph, read back by HnswIndex.deserialize()
+   */
+  serialize(): Buffer {
+    const ids = this.nodes.map((n) => Buffer.from(n.id, 'utf-8'));
+    let size = 32;
+    this.nodes.forEach((node, i) => {
+      size += 2 + ids[i].length + 2 + this.dimensions * 4;
+      for (const links of node.neighbors) size += 2 + links.length * 4;
+    });
+
+    const buffer = Buffer.alloc(size);
+    let offset = 0;
+    for (const value of [
+      MAGIC, FORMAT_VERSION, this.dimensions, this.m, this.efConstruction, this.nodes.length,
+    ]) {
+      offset = buffer.writeUInt32LE(value, offset);
+    }
+    offset = buffer.writeInt32LE(this.entryPoint, offset);
+    offset = buffer.writeInt32LE(this.maxLevel, offset);
+
+    this.nodes.forEach((node, i) => {
+      offset = buffer.writeUInt16LE(ids[i].length, offset);
+      offset += ids[i].copy(buffer, offset);
+      offset = buffer.writeUInt8(node.deleted ? 1 : 0, offset);
+      offset = buffer.writeUInt8(node.neighbors.length - 1, offset);
+      for (const value of node.vector) offset = buffer.writeFloatLE(value, offset);
+      for (const links of node.neighbors) {
+        offset = buffer.writeUInt16LE(links.length, offset);
+        for (const link of links) offset = buffer.writeUInt32LE(link, offset);
+      }
+    });
+
+    return buffer;
+  }
+
+  static deserialize(buffer: Buffer, options: Pick<HnswOptions, 'efSearch'> = {}): HnswIndex {
+    let offset = 0;
+    const u32 = () => {
+      const value = buffer.readUInt32LE(offset);
+      offset += 4;
+      return value;
+    };
+
+    if (buffer.length < 32 || u32() !== MAGIC) {
+      throw new Error('Not an HNSW index file');
+    }
+    const version = u32();
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported HNSW index format version ${version}`);
+    }
+
+    const dimensions = u32();
+    const m = u32();
+    const efConstruction = u32();
+    const count = u32();
+    const index = new HnswIndex(dimensions, { m, efConstruction, efSearch: options.efSearch });
+    index.entryPoint = buffer.readInt32LE(offset);
+    index.maxLevel = buffer.readInt32LE(offset + 4);
+    offset += 8;
+
+    for (let i = 0; i < count; i++) {
+      const idLength = buffer.readUInt16LE(offset);
+      const id = buffer.toString('utf-8', offset + 2, offset + 2 + idLength);
+      offset += 2 + idLength;
+      const deleted = buffer.readUInt8(offset) === 1;
+      const levels = buffer.readUInt8(offset + 1) + 1;
+      offset += 2;
+
+      const vector = new Float32Array(dimensions);
+      for (let d = 0; d < dimensions; d++, offset += 4) {
+        vector[d] = buffer.readFloatLE(offset);
+      }
+      const neighbors: number[][] = [];
+      for (let layer = 0; layer < levels; layer++) {
+        const links = new Array<number>(buffer.readUInt16LE(offset));
+        offset += 2;
+        for (let l = 0; l < links.length; l++) links[l] = u32();
+        neighbors.push(links);
+      }
+
+      index.nodes.push({ id, vector, neighbors, deleted });
+      if (deleted) {
+        index.deletedCount++;
+      } else {
+        index.ids.set(id, i);
+      }
+    }
+
+    return index;
+  }
+
+  // ========== Graph ==========
+
+  /**
+   * Best-first walk of one layer from an entry node, keeping the ef most similar nodes
+   * Returns candidates sorted by descending similarity
+   */
+  private searchLayer(query: Float32Array, entry: number, ef: number, layer: number): Candidate[] {
+    if (this.visited.length < this.nodes.length) {
+      this.visited = new Uint32Array(Math.max(this.nodes.length, this.visited.length * 2));
+      this.epoch = 0;
+    }
+    const epoch = ++this.epoch;
+
+    const start = { node: entry, similarity: dot(query, this.nodes[entry].vector) };
+    this.visited[entry] = epoch;
+    // Frontier pops the most similar first; results pop the least similar first
+    const frontier = new Heap((a, b) => a.similarity > b.similarity);
+    const results = new Heap((a, b) => a.similarity < b.similarity);
+    frontier.push(start);
+    results.push(start);
+
+    while (frontier.size > 0) {
+      const current = frontier.pop()!;
+      if (results.size >= ef && current.similarity < results.peek()!.similarity) break;
+
+      for (const next of this.nodes[current.node].neighbors[layer] ?? []) {
+        if (this.visited[next] === epoch) continue;
+        this.visited[next] = epoch;
+
+        const similarity = dot(query, this.nodes[next].vector);
+        if (results.size < ef || similarity > results.peek()!.similarity) {
+          frontier.push({ node: next, similarity });
+          results.push({ node: next, similarity });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.drain().reverse();
+  }
+
+  /**
+   * Pick up to max neighbours, skipping candidates closer to an already
+   * picked neighbour than to the base node so links spread across clusters
+   */
+  private selectNeighbors(candidates: Candidate[], max: number): number[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.nodes[candidate.node].vector;
+      const diverse = selected.every(
+        (s) => dot(vector, this.nodes[s.node].vector) < candidate.similarity,
+      );
+      (diverse ? selected : skipped).push(candidate);
+    }
+    // Fill remaining slots with the closest skipped candidates
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+
+    return selected.map((c) => c.node);
+  }
+
+  private link(from: number, to: number, layer: number): void {
+    const node = this.nodes[from];
+    const links = node.neighbors[layer];
+    links.push(to);
+
+    const max = layer === 0 ? this.m * 2 : this.m;
+    if (links.length > max) {
+      const candidates = links
+        .map((n) => ({ node: n, similarity: dot(node.vector, this.nodes[n].vector) }))
+        .sort((a, b) => b.similarity - a.similarity);
+      node.neighbors[layer] = this.selectNeighbors(candidates, max);
+    }
+  }
+}
+
+/**
+ * Binary heap; `before(a, b)` is true when a should pop before b
+ */
+class Heap {
+  private items: Candidate[] = [];
+
+  constructor(private before: (a: Candidate, b: Candidate) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  /**
+   * Empty the heap in pop order
+   */
+  drain(): Candidate[] {
+    const out: Candidate[] = [];
+    while (this.items.length > 0) out.push(this.pop()!);
+    return out;
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (const value of out) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] /= norm;
+  }
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
@@ -3,10 +3,21 @@
  * Supports scheduled backups with retention policies
  */
 
-import { existsSync, mkdirSync, readdirSync, unlinkSync, statSync, copyFileSync } from 'fs';
-import { dirname, join } from 'path';
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { basename, dirname, join } from 'path';
 import { homedir } from 'os';
 import type { DatabaseManager } from './database.js';
+import type { ForgetReceipt } from './forget.js';
+import { isEncryptedFile, readFileSealed, rekeyFile, writeFileSealed } from './encryption.js';
 
 // ========== Types ==========
 
@@ -23,12 +34,19 @@ export interface BackupConfig {
   intervalHours: number;
 }
 
+/** Migration backups are taken before schema migrations and never pruned */
+export type BackupType = 'daily' | 'weekly' | 'manual' | 'migration';
+
 export interface BackupInfo {
   path: string;
   filename: string;
   timestamp: Date;
   sizeBytes: number;
-  type: 'daily' | 'weekly' | 'manual';
+  type: BackupType;
+  /** Sealed with the encryption key; restore() and validateBackup() need the key */
+  encrypted: boolean;
+  /** IDs of forget receipts whose deletions this backup predates */
+  forgotten: string[];
 }
 
 export interface BackupResult {
@@ -41,9 +59,20 @@ export interface BackupResult {
 export interface RestoreResult {
   success: boolean;
   clausesRestored?: number;
+  /** Hard forgets the backup predates; the caller re-applies them */
+  forgetReceipts?: ForgetReceipt[];
   error?: string;
 }
 
+// Kept next to the backups, outside the database a restore would replace
+const FORGET_FLAGS_FILE = 'forgotten.json';
+
+interface ForgetFlags {
+  receipts: Record<string, ForgetReceipt>;
+  /** Backup filename → receipt IDs */
+  backups: Record<string, string[]>;
+}
+
 const DEFAULT_CONFIG: BackupConfig = {
   backupDir: '~/.om-lite/backups',
   dailyRetention: 7,
@@ -59,6 +88,7 @@ export class BackupManager {
   private config: BackupConfig;
   private backupDir: string;
   private autoBackupTimer: NodeJS.Timeout | null = null;
+  private encryptionKey: string | null = null;
 
   constructor(db: DatabaseManager, config: Partial<BackupConfig> = {}) {
     this.db = db;
@@ -66,6 +96,13 @@ export class BackupManager {
     this.backupDir = this.config.backupDir.replace(/^~/, homedir());
   }
 
+  /**
+   * Set the passphrase backups are encrypted with (null writes plaintext backups)
+   */
+  setEncryptionKey(key: string | null): void {
+    this.encryptionKey = key;
+  }
+
   /**
    * Initialize backup system
    */
@@ -85,7 +122,7 @@ export class BackupManager {
    * Create a backup of the database
    */
   async backup(options: {
-    type?: 'daily' | 'weekly' | 'manual';
+    type?: BackupType;
     customPath?: string;
   } = {}): Promise<BackupResult> {
     const { type = 'manual', customPath } = options;
@@ -105,8 +142,13 @@ export class BackupManager {
         mkdirSync(dir, { recursive: true });
       }
 
-      // Perform backup using SQLite's backup API
-      await this.db.backup(backupPath);
+      if (this.encryptionKey) {
+        // Serialize in memory so no plaintext copy touches the disk
+        writeFileSealed(backupPath, this.db.serialize(), this.encryptionKey);
+      } else {
+        // Perform backup using SQLite's backup API
+        await this.db.backup(backupPath);
+      }
 
       // Get backup size
       const stats = statSync(backupPath);
@@ -149,6 +191,9 @@ export class BackupManager {
       // Get current database path
       const dbPath = this.db.getMetadata('db_path') ?? this.db['dbPath'];
 
+      // Decrypt before touching the current database, so a wrong key changes nothing
+      const data = readFileSealed(resolvedPath, this.encryptionKey);
+
       // Close current database connection
       await this.db.close();
 
@@ -158,11 +203,8 @@ export class BackupManager {
         copyFileSync(dbPath, currentBackupPath);
       }
 
-      // Copy backup to database location
-      copyFileSync(resolvedPath, dbPath);
-
-      // Reinitialize database
-      await this.db.init();
+      // Write the backup to the database location, re-encrypting it if the database is
+      await this.db.replaceWith(data);
 
       // Count restored clauses
       const countResult = this.db.get<{ count: number }>(
@@ -176,6 +218,7 @@ export class BackupManager {
       return {
         success: true,
         clausesRestored: countResult?.count ?? 0,
+        forgetReceipts: this.getForgetReceipts(resolvedPath),
       };
     } catch (error) {
       return {
@@ -194,6 +237,7 @@ export class BackupManager {
     }
 
     const files = readdirSync(this.backupDir);
+    const flags = this.readForgetFlags();
     const backups: BackupInfo[] = [];
 
     for (const file of files) {
@@ -206,13 +250,15 @@ export class BackupManager {
 
       // Parse backup type and timestamp from filename
       // Format: om-lite_{type}_{date}_{time}.db
-      const match = file.match(/om-lite_(daily|weekly|manual)_(\d{4}-\d{2}-\d{2})_(\d{2}-\d{2}-\d{2})\.db/);
+      const match = file.match(
+        /om-lite_(daily|weekly|manual|migration)_(\d{4}-\d{2}-\d{2})_(\d{2}-\d{2}-\d{2})\.db/,
+      );
 
-      let type: 'daily' | 'weekly' | 'manual' = 'manual';
+      let type: BackupType = 'manual';
       let timestamp = stats.mtime;
 
       if (match) {
-        type = match[1] as 'daily' | 'weekly' | 'manual';
+        type = match[1] as BackupType;
         const dateStr = match[2];
         const timeStr = match[3].replace(/-/g, ':');
         timestamp = new Date(`${dateStr}T${timeStr}Z`);
@@ -224,6 +270,8 @@ export class BackupManager {
         timestamp,
         sizeBytes: stats.size,
         type,
+        encrypted: isEncryptedFile(filePath),
+        forgotten: flags.backups[file] ?? [],
       });
     }
 
@@ -257,6 +305,62 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Record that backups hold data a hard forget deleted, so restoring one re-applies it
+   */
+  flagForgotten(backupPaths: string[], receipt: ForgetReceipt): void {
+    const flags = this.readForgetFlags();
+    flags.receipts[receipt.id] = receipt;
+    for (const path of backupPaths) {
+      const file = basename(path);
+      flags.backups[file] = [...(flags.backups[file] ?? []), receipt.id];
+    }
+
+    // Drop backups removed since, and receipts no remaining backup needs
+    for (const file of Object.keys(flags.backups)) {
+      if (!existsSync(join(this.backupDir, file))) delete flags.backups[file];
+    }
+    const needed = new Set(Object.values(flags.backups).flat());
+    for (const id of Object.keys(flags.receipts)) {
+      if (!needed.has(id)) delete flags.receipts[id];
+    }
+
+    writeFileSync(join(this.backupDir, FORGET_FLAGS_FILE), JSON.stringify(flags, null, 2));
+  }
+
+  /**
+   * Forget receipts whose deletions a backup predates
+   */
+  getForgetReceipts(backupPath: string): ForgetReceipt[] {
+    const flags = this.readForgetFlags();
+    const ids = flags.backups[basename(backupPath)] ?? [];
+    return ids.map((id) => flags.receipts[id]).filter((receipt) => receipt !== undefined);
+  }
+
+  private readForgetFlags(): ForgetFlags {
+    const path = join(this.backupDir, FORGET_FLAGS_FILE);
+    if (!existsSync(path)) return { receipts: {}, backups: {} };
+    return JSON.parse(readFileSync(path, 'utf-8')) as ForgetFlags;
+  }
+
+  /**
+   * Re-encrypt every backup under a new passphrase (null decrypts them)
+   */
+  async rekeyBackups(newKey: string | null): Promise<{ rekeyed: number; failed: string[] }> {
+    const result = { rekeyed: 0, failed: [] as string[] };
+
+    for (const backup of await this.listBackups()) {
+      if (rekeyFile(backup.path, this.encryptionKey, newKey)) {
+        result.rekeyed++;
+      } else {
+        result.failed.push(backup.path);
+      }
+    }
+
+    this.encryptionKey = newKey;
+    return result;
+  }
+
   /**
    * Apply retention policy - delete old backups
    */
@@ -266,7 +370,7 @@ export class BackupManager {
     // Separate by type
     const dailyBackups = backups.filter((b) => b.type === 'daily');
     const weeklyBackups = backups.filter((b) => b.type === 'weekly');
-    // Note: Manual backups are not automatically deleted (no retention policy)
+    // Note: Manual and migration backups are not automatically deleted (no retention policy)
 
     // Keep only the most recent N daily backups
     for (const backup of dailyBackups.slice(this.config.dailyRetention)) {
@@ -350,6 +454,7 @@ export class BackupManager {
       daily: 0,
       weekly: 0,
       manual: 0,
+      migration: 0,
     };
 
     let totalSizeBytes = 0;
@@ -385,9 +490,11 @@ export class BackupManager {
     }
 
     try {
-      // Open the backup database read-only
+      // Open the backup database read-only; encrypted backups are opened in memory
       const Database = (await import('better-sqlite3')).default;
-      const backupDb = new Database(resolvedPath, { readonly: true });
+      const backupDb = isEncryptedFile(resolvedPath)
+        ? new Database(readFileSealed(resolvedPath, this.encryptionKey))
+        : new Database(resolvedPath, { readonly: true });
 
       // Check for required tables
       const tables = backupDb
@@ -5,10 +5,26 @@
 
 import { v7 as uuidv7 } from 'uuid';
 import { createHash } from 'crypto';
-import { writeFileSync, mkdirSync, existsSync } from 'fs';
+import { mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import type { DatabaseManager } from './database.js';
+import { EventBus } from './events.js';
+import { ChangeJournal } from './journal.js';
+import { readFileSealed, rekeyFile, writeFileSealed } from './encryption.js';
+import { detectPii, type PiiAuditReport, type PiiRedactor } from './pii.js';
+import { buildTemporalFilter } from './temporal.js';
+import {
+  buildNamespaceFilter,
+  isVisible,
+  namespaceScope,
+  resolveWriteNamespace,
+  type NamespaceScope,
+} from './namespaces.js';
+import { PredicateRegistry } from './predicates.js';
+import { Normalizer } from './normalization.js';
+import type { EntityResolver } from './entities.js';
+import { buildExportGraph, serializeGraph, type LinkedClause } from './export.js';
 import type {
   Clause,
   ClauseInput,
@@ -18,41 +34,16 @@ import type {
   SearchOptions,
   MemoryStats,
   ProcessClauseResult,
+  RevisionAction,
+  RenormalizeReport,
   ConflictResolutionConfig,
   ConflictResolutionStrategy,
   DeduplicationConfig,
   SourceAttribution,
+  GraphExportFormat,
+  GraphExportOptions,
 } from './types.js';
 
-// Predicates that can only have one active value at a time
-const SINGLETON_PREDICATES = [
-  'lives_in',
-  'works_at',
-  'email_address',
-  'phone_number',
-  'uses_for_notes',
-  'preferred_language',
-  'timezone',
-  'full_name',
-  'is_located_in',
-  'home_address',
-  'primary_calendar',
-];
-
-// Predicates that can have multiple values
-const MULTI_VALUE_PREDICATES = [
-  'likes',
-  'dislikes',
-  'interested_in',
-  'skilled_at',
-  'knows',
-  'speaks_language',
-  'has_hobby',
-  'member_of',
-  'integrates_with',
-  'can_perform',
-];
-
 // Default decay rates by clause type
 const DEFAULT_DECAY_RATES: Record<ClauseType, number> = {
   fact: 0.0005,
@@ -76,9 +67,10 @@ interface SourceInput {
   metadata?: Record<string, unknown>;
   // Source attribution fields
   attribution?: SourceAttribution;
+  namespace?: string;
 }
 
-interface ClauseRow {
+export interface ClauseRow {
   id: string;
   type: string;
   subject: string;
@@ -97,6 +89,34 @@ interface ClauseRow {
   access_count: number;
   tags: string;
   metadata: string;
+  namespace: string;
+}
+
+/**
+ * Convert a clauses row to a Clause; every reader of the table maps rows through this
+ */
+export function rowToClause(row: ClauseRow): Clause {
+  return {
+    id: row.id,
+    type: row.type as ClauseType,
+    subject: row.subject,
+    predicate: row.predicate,
+    object: row.object,
+    natural_form: row.natural_form,
+    valid_from: row.valid_from,
+    valid_to: row.valid_to,
+    recorded_at: row.recorded_at,
+    confidence: row.confidence,
+    decay_rate: row.decay_rate,
+    reinforcement_count: row.reinforcement_count,
+    source_id: row.source_id,
+    extraction_method: row.extraction_method,
+    last_accessed: row.last_accessed,
+    access_count: row.access_count,
+    tags: JSON.parse(row.tags || '[]') as string[],
+    metadata: JSON.parse(row.metadata || '{}') as Record<string, unknown>,
+    namespace: row.namespace,
+  };
 }
 
 // Default configurations
@@ -118,6 +138,14 @@ export class ClauseStore {
   private db: DatabaseManager;
   private conflictConfig: ConflictResolutionConfig;
   private dedupConfig: DeduplicationConfig;
+  private events: EventBus;
+  private journal: ChangeJournal;
+  private predicates: PredicateRegistry;
+  private normalizer: Normalizer;
+  private entities: EntityResolver | null = null;
+  private scope: NamespaceScope = namespaceScope();
+  private encryptionKey: string | null = null;
+  private piiRedactor: PiiRedactor | null = null;
 
   constructor(
     db: DatabaseManager,
@@ -127,6 +155,61 @@ export class ClauseStore {
     this.db = db;
     this.conflictConfig = { ...DEFAULT_CONFLICT_CONFIG, ...conflictConfig };
     this.dedupConfig = { ...DEFAULT_DEDUP_CONFIG, ...dedupConfig };
+    this.events = new EventBus();
+    this.journal = new ChangeJournal(db);
+    this.predicates = new PredicateRegistry();
+    this.normalizer = new Normalizer(db, this.predicates);
+  }
+
+  /**
+   * Set the event bus used to publish clause and conflict events
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
+  /**
+   * Set the predicate registry used for cardinality and decay rates
+   */
+  setPredicateRegistry(predicates: PredicateRegistry): void {
+    this.predicates = predicates;
+    this.normalizer.setPredicateRegistry(predicates);
+  }
+
+  /**
+   * Set the normalizer applied to incoming clauses
+   */
+  setNormalizer(normalizer: Normalizer): void {
+    this.normalizer = normalizer;
+  }
+
+  /**
+   * Set the entity resolver that links new clauses to entities
+   */
+  setEntityResolver(entities: EntityResolver): void {
+    this.entities = entities;
+  }
+
+  /**
+   * Set the namespace clauses and sources are written to and read from
+   */
+  setNamespace(scope: NamespaceScope): void {
+    this.scope = scope;
+    this.journal.setNamespace(scope);
+  }
+
+  /**
+   * Set the passphrase source archives are encrypted with (null writes plaintext)
+   */
+  setEncryptionKey(key: string | null): void {
+    this.encryptionKey = key;
+  }
+
+  /**
+   * Set the PII redactor applied to source content before it is hashed and archived
+   */
+  setPiiRedactor(redactor: PiiRedactor | null): void {
+    this.piiRedactor = redactor;
   }
 
   /**
@@ -144,12 +227,20 @@ export class ClauseStore {
   }
 
   /**
-   * Create a new clause
+   * Create a new clause exactly as given: no normalization, conflict check or PII
+   * redaction. This is the last step of processNewClause(), which every caller outside
+   * the store should go through
+   * The actor recorded in the journal defaults to the extraction method
    */
-  async create(input: ClauseInput): Promise<Clause> {
+  async create(input: ClauseInput, actor?: string): Promise<Clause> {
+    const namespace = resolveWriteNamespace(this.scope, input.namespace);
     const id = uuidv7();
     const now = new Date().toISOString();
-    const decayRate = input.decay_rate ?? DEFAULT_DECAY_RATES[input.type] ?? 0.001;
+    const decayRate =
+      input.decay_rate ??
+      this.predicates.decayRate(input.predicate) ??
+      DEFAULT_DECAY_RATES[input.type] ??
+      0.001;
 
     const clause: Clause = {
       id,
@@ -170,6 +261,7 @@ export class ClauseStore {
       access_count: 0,
       tags: input.tags ?? [],
       metadata: input.metadata ?? {},
+      namespace,
     };
 
     this.db.run(
@@ -177,8 +269,8 @@ export class ClauseStore {
         id, type, subject, predicate, object, natural_form,
         valid_from, valid_to, recorded_at, confidence, decay_rate,
         reinforcement_count, source_id, extraction_method,
-        last_accessed, access_count, tags, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        last_accessed, access_count, tags, metadata, namespace
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         clause.id,
         clause.type,
@@ -198,6 +290,7 @@ export class ClauseStore {
         clause.access_count,
         JSON.stringify(clause.tags),
         JSON.stringify(clause.metadata),
+        namespace,
       ]
     );
 
@@ -205,16 +298,27 @@ export class ClauseStore {
     const current = parseInt(this.db.getMetadata('total_clauses_extracted') ?? '0', 10);
     this.db.setMetadata('total_clauses_extracted', String(current + 1));
 
+    this.entities?.linkClause(clause);
+
+    this.journal.record({
+      clauseId: clause.id,
+      action: 'create',
+      actor: actor ?? clause.extraction_method,
+      after: clause,
+    });
+    this.events.emit({ type: 'clause_created', clause });
+
     return clause;
   }
 
   /**
-   * Get a clause by ID
+   * Get a clause by ID (null when it belongs to a namespace this store can't read)
    */
   async get(id: string): Promise<Clause | null> {
+    const namespace = buildNamespaceFilter(this.scope);
     const row = this.db.get<ClauseRow>(
-      'SELECT * FROM clauses WHERE id = ?',
-      [id]
+      `SELECT * FROM clauses c WHERE c.id = ?${namespace.sql}`,
+      [id, ...namespace.params],
     );
 
     if (!row) return null;
@@ -225,7 +329,7 @@ export class ClauseStore {
       [id]
     );
 
-    return this.rowToClause(row);
+    return rowToClause(row);
   }
 
   /**
@@ -240,7 +344,11 @@ export class ClauseStore {
       offset = 0,
       orderBy = 'confidence',
       orderDir = 'desc',
+      asOf,
+      knownAt,
+      entity,
     } = options;
+    const temporal = buildTemporalFilter({ asOf, knownAt, includeExpired });
 
     let sql: string;
     const params: unknown[] = [];
@@ -262,13 +370,16 @@ export class ClauseStore {
       sql = 'SELECT *, 1.0 as score FROM clauses c WHERE 1=1';
     }
 
-    if (!includeExpired) {
-      sql += ' AND c.valid_to IS NULL';
-    }
+    sql += temporal.sql;
+    params.push(...temporal.params);
+
+    const namespace = buildNamespaceFilter(this.scope);
+    sql += namespace.sql;
+    params.push(...namespace.params);
 
     if (minConfidence > 0) {
-      sql += ' AND c.confidence >= ?';
-      params.push(minConfidence);
+      sql += ` AND ${temporal.confidenceSql} >= ?`;
+      params.push(...temporal.confidenceParams, minConfidence);
     }
 
     if (types && types.length > 0) {
@@ -276,6 +387,11 @@ export class ClauseStore {
       params.push(...types);
     }
 
+    if (entity) {
+      sql += ' AND c.id IN (SELECT clause_id FROM clause_entity_links WHERE entity_id = ?)';
+      params.push(entity);
+    }
+
     // Order by
     const direction = orderDir === 'asc' ? 'ASC' : 'DESC';
 
@@ -292,15 +408,22 @@ export class ClauseStore {
     params.push(limit, offset);
 
     const rows = this.db.all<ClauseRow>(sql, params);
-    return rows.map((row) => this.rowToClause(row));
+    return rows.map((row) => rowToClause(row));
   }
 
   /**
    * Update a clause
    */
-  async update(id: string, updates: Partial<Clause>): Promise<Clause | null> {
+  async update(
+    id: string,
+    updates: Partial<Clause>,
+    actor: string = 'system',
+  ): Promise<Clause | null> {
     const existing = await this.get(id);
     if (!existing) return null;
+    if (this.piiRedactor) {
+      updates = this.piiRedactor.redactUpdate(updates, existing);
+    }
 
     const allowedFields = [
       'confidence',
@@ -335,28 +458,27 @@ export class ClauseStore {
       params
     );
 
-    return this.get(id);
+    const updated = await this.get(id);
+    if (updated) {
+      this.journal.record({ clauseId: id, action: 'update', actor, before: existing, after: updated });
+      this.events.emit({ type: 'clause_updated', clause: updated, changes: updates });
+    }
+
+    return updated;
   }
 
   /**
    * Invalidate a clause (mark as no longer valid)
    */
-  async invalidate(id: string, reason?: string): Promise<void> {
-    const now = new Date().toISOString();
-
-    this.db.run(
-      `UPDATE clauses
-       SET valid_to = ?,
-           metadata = json_set(metadata, '$.invalidation_reason', ?)
-       WHERE id = ?`,
-      [now, reason ?? 'invalidated', id]
-    );
+  async invalidate(id: string, reason?: string, actor: string = 'system'): Promise<void> {
+    if (!this.canRead(id)) return;
+    this.markInvalid(id, reason ?? 'invalidated', actor, 'invalidate');
   }
 
   /**
    * Reinforce a clause (increase confidence)
    */
-  async reinforce(id: string, amount: number = 0.05): Promise<void> {
+  async reinforce(id: string, amount: number = 0.05, actor: string = 'system'): Promise<void> {
     const clause = await this.get(id);
     if (!clause) return;
 
@@ -375,24 +497,55 @@ export class ClauseStore {
     // Log the reinforcement
     this.logDecay(id, clause.confidence, newConfidence, 'reinforcement');
     this.logAccess(id, 'reinforcement', 'successful_use');
+
+    this.journal.record({
+      clauseId: id,
+      action: 'reinforce',
+      actor,
+      before: clause,
+      after: this.journal.snapshot(id),
+    });
+    this.events.emit({ type: 'clause_reinforced', clauseId: id, newConfidence });
   }
 
   /**
    * Process a new clause with deduplication and conflict detection
    */
   async processNewClause(
-    input: ClauseInput & { source_id: string }
+    rawInput: ClauseInput & { source_id: string },
+  ): Promise<ProcessClauseResult> {
+    // Every write path is redacted here; a clause holding a dropped category is not stored
+    const redacted = this.piiRedactor ? this.piiRedactor.redactClause(rawInput) : rawInput;
+    if (!redacted) {
+      return { action: 'dropped', pii: this.piiRedactor!.scanClause(rawInput) };
+    }
+    return this.processRedactedClause(redacted);
+  }
+
+  /**
+   * Normalize, check for conflicts and insert a clause that has already been redacted
+   */
+  private async processRedactedClause(
+    redacted: ClauseInput & { source_id: string },
   ): Promise<ProcessClauseResult> {
-    // Find potentially conflicting clauses
+    // Canonical predicate and entity names, so synonyms meet in one chain
+    const normalized = this.normalizer.normalize(redacted);
+    const namespace = resolveWriteNamespace(this.scope, normalized.namespace);
+    const input = { ...normalized, namespace };
+
+    // Find potentially conflicting clauses; namespaces never conflict with each other
     const existing = this.db.all<ClauseRow>(
       `SELECT * FROM clauses
        WHERE subject = ?
          AND predicate = ?
+         AND namespace = ?
          AND valid_to IS NULL
          AND confidence > 0.3`,
-      [input.subject, input.predicate]
+      [input.subject, input.predicate, namespace],
     );
 
+    const actor = (input as ClauseInput & { extraction_method?: string }).extraction_method ?? 'manual';
+
     if (existing.length === 0) {
       // No conflict, insert directly
       const clause = await this.create(input);
@@ -400,19 +553,19 @@ export class ClauseStore {
     }
 
     for (const oldRow of existing) {
-      const old = this.rowToClause(oldRow);
+      const old = rowToClause(oldRow);
       const relation = this.analyzeRelation(old, input);
 
       switch (relation) {
         case 'identical':
           // Reinforce existing clause
-          await this.reinforce(old.id);
+          await this.reinforce(old.id, 0.05, actor);
           return { action: 'reinforced', existingId: old.id };
 
         case 'supersession':
           // New clause replaces old
-          await this.invalidate(old.id, 'superseded');
           const clause = await this.create(input);
+          this.markInvalid(old.id, 'superseded', actor, 'supersede', clause.id);
           return { action: 'superseded', clause, invalidatedId: old.id };
 
         case 'contradiction':
@@ -437,14 +590,17 @@ export class ClauseStore {
    * Create a source record and archive content with full attribution
    */
   async createSource(input: SourceInput): Promise<string> {
+    const namespace = resolveWriteNamespace(this.scope, input.namespace);
     const id = uuidv7();
     const now = new Date().toISOString();
-    const contentHash = createHash('sha256').update(input.content).digest('hex');
+    const pii = this.piiRedactor?.redact(input.content);
+    const content = pii?.text ?? input.content;
+    const contentHash = createHash('sha256').update(content).digest('hex');
 
     // Check for duplicate source
     const existingSource = this.db.get<{ id: string }>(
-      'SELECT id FROM sources WHERE content_hash = ?',
-      [contentHash]
+      'SELECT id FROM sources WHERE content_hash = ? AND namespace = ?',
+      [contentHash, namespace],
     );
 
     if (existingSource) {
@@ -452,16 +608,16 @@ export class ClauseStore {
     }
 
     // Archive content to filesystem
-    const archivePath = this.archiveContent(input.type, id, input.content);
+    const archivePath = this.archiveContent(input.type, id, content);
 
     // Count messages if it's a conversation
     let messageCount = 0;
     if (input.type === 'conversation') {
       try {
-        const parsed = JSON.parse(input.content);
+        const parsed = JSON.parse(content) as unknown;
         messageCount = Array.isArray(parsed) ? parsed.length : 1;
       } catch {
-        messageCount = input.content.split('\n').filter((l) => l.trim()).length;
+        messageCount = content.split('\n').filter((l) => l.trim()).length;
       }
     }
 
@@ -470,6 +626,10 @@ export class ClauseStore {
       ...input.metadata,
     };
 
+    if (pii && pii.findings.length > 0) {
+      metadata.pii = pii.findings;
+    }
+
     // Add attribution fields if provided
     if (input.attribution) {
       metadata.attribution = {
@@ -485,8 +645,8 @@ export class ClauseStore {
     this.db.run(
       `INSERT INTO sources (
         id, type, channel, file_path, content_hash,
-        occurred_at, recorded_at, participant_count, message_count, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        occurred_at, recorded_at, participant_count, message_count, metadata, namespace
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         input.type,
@@ -498,6 +658,7 @@ export class ClauseStore {
         1,
         messageCount,
         JSON.stringify(metadata),
+        namespace,
       ]
     );
 
@@ -508,16 +669,18 @@ export class ClauseStore {
    * Generate MEMORY.md content from high-confidence active clauses
    */
   async generateMemoryMd(): Promise<string> {
+    const namespace = buildNamespaceFilter(this.scope);
     const clauses = this.db.all<ClauseRow>(
-      `SELECT * FROM clauses
-       WHERE valid_to IS NULL
-         AND confidence >= 0.5
-       ORDER BY type, confidence DESC, last_accessed DESC`
+      `SELECT * FROM clauses c
+       WHERE c.valid_to IS NULL
+         AND c.confidence >= 0.5${namespace.sql}
+       ORDER BY c.type, c.confidence DESC, c.last_accessed DESC`,
+      namespace.params,
     );
 
     const grouped: Record<string, Clause[]> = {};
     for (const row of clauses) {
-      const clause = this.rowToClause(row);
+      const clause = rowToClause(row);
       if (!grouped[clause.type]) {
         grouped[clause.type] = [];
       }
@@ -568,11 +731,14 @@ export class ClauseStore {
    * Includes detailed metadata for each clause
    */
   async generateFullExport(): Promise<string> {
+    const namespace = buildNamespaceFilter(this.scope);
     const clauses = this.db.all<ClauseRow & { channel?: string; source_date?: string }>(
       `SELECT c.*, s.channel, s.occurred_at as source_date
        FROM clauses c
        LEFT JOIN sources s ON c.source_id = s.id
-       ORDER BY c.recorded_at DESC`
+       WHERE 1 = 1${namespace.sql}
+       ORDER BY c.recorded_at DESC`,
+      namespace.params,
     );
 
     const now = new Date().toISOString();
@@ -583,7 +749,7 @@ export class ClauseStore {
 `;
 
     for (const row of clauses) {
-      const clause = this.rowToClause(row);
+      const clause = rowToClause(row);
       const status = clause.valid_to ? '❌ EXPIRED' : '✅ ACTIVE';
 
       md += `---
@@ -618,12 +784,13 @@ export class ClauseStore {
    * Export clauses as JSON
    */
   async exportAsJson(options: { includeExpired?: boolean } = {}): Promise<string> {
-    const sql = options.includeExpired
-      ? 'SELECT * FROM clauses ORDER BY recorded_at DESC'
-      : 'SELECT * FROM clauses WHERE valid_to IS NULL ORDER BY recorded_at DESC';
-
-    const rows = this.db.all<ClauseRow>(sql);
-    const clauses = rows.map((row) => this.rowToClause(row));
+    const namespace = buildNamespaceFilter(this.scope);
+    const validity = options.includeExpired ? '' : ' AND c.valid_to IS NULL';
+    const rows = this.db.all<ClauseRow>(
+      `SELECT * FROM clauses c WHERE 1 = 1${validity}${namespace.sql} ORDER BY c.recorded_at DESC`,
+      namespace.params,
+    );
+    const clauses = rows.map((row) => rowToClause(row));
 
     return JSON.stringify(
       {
@@ -637,6 +804,79 @@ export class ClauseStore {
     );
   }
 
+  /**
+   * Export clauses as a graph (DOT, GraphML or JSON-LD)
+   * With a subject, only clauses reachable within `depth` hops are included:
+   * depth 1 is what memory says about the subject, depth 2 adds what it says
+   * about the entities those clauses point at, and so on
+   */
+  async exportAsGraph(
+    format: GraphExportFormat,
+    options: GraphExportOptions = {},
+  ): Promise<string> {
+    const namespace = buildNamespaceFilter(this.scope);
+    const validity = (options.includeExpired ? '' : ' AND c.valid_to IS NULL') + namespace.sql;
+    const select = `SELECT c.*,
+              COALESCE(ls.entity_id, c.subject) AS subject_node,
+              lo.entity_id AS object_entity
+       FROM clauses c
+       LEFT JOIN clause_entity_links ls ON ls.clause_id = c.id AND ls.role = 'subject'
+       LEFT JOIN clause_entity_links lo ON lo.clause_id = c.id AND lo.role = 'object'`;
+    type Row = ClauseRow & { subject_node: string; object_entity: string | null };
+
+    let rows: Row[];
+    if (options.subject) {
+      rows = [];
+      const seen = new Set<string>();
+      let frontier = [this.normalizer.normalizeSubject(options.subject)];
+      for (let hop = 0; hop < (options.depth ?? 1) && frontier.length > 0; hop++) {
+        frontier.forEach((node) => seen.add(node));
+        const found = this.db.all<Row>(
+          `${select}
+           WHERE COALESCE(ls.entity_id, c.subject) IN (${frontier.map(() => '?').join(', ')})
+             ${validity}
+           ORDER BY c.recorded_at`,
+          [...frontier, ...namespace.params],
+        );
+        rows.push(...found);
+
+        const next = new Set<string>();
+        for (const row of found) {
+          const target = row.object_entity ?? row.object;
+          if (!seen.has(target)) next.add(target);
+        }
+        frontier = [...next];
+      }
+    } else {
+      rows = this.db.all<Row>(
+        `${select} WHERE 1 = 1${validity} ORDER BY c.recorded_at`,
+        namespace.params,
+      );
+    }
+
+    const clauses: LinkedClause[] = rows.map((row) => ({
+      ...rowToClause(row),
+      subject_node: row.subject_node,
+      object_entity: row.object_entity,
+    }));
+
+    const ids = [...new Set(clauses.flatMap((c) => [c.subject_node, c.object_entity ?? c.object]))];
+    const entities = new Map<string, { type: string; canonical_name: string }>();
+    for (let i = 0; i < ids.length; i += 500) {
+      const batch = ids.slice(i, i + 500);
+      const found = this.db.all<{ id: string; type: string; canonical_name: string }>(
+        `SELECT id, type, canonical_name FROM entities
+         WHERE id IN (${batch.map(() => '?').join(', ')})`,
+        batch,
+      );
+      for (const entity of found) {
+        entities.set(entity.id, entity);
+      }
+    }
+
+    return serializeGraph(buildExportGraph(clauses, entities), format);
+  }
+
   /**
    * Archive source content to filesystem
    */
@@ -661,7 +901,7 @@ export class ClauseStore {
 
     // Write content
     const data = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
-    writeFileSync(filePath, data, 'utf-8');
+    writeFileSealed(filePath, data, this.encryptionKey);
 
     // Update source record with file path
     this.db.run('UPDATE sources SET file_path = ? WHERE id = ?', [filePath, sourceId]);
@@ -669,6 +909,85 @@ export class ClauseStore {
     return filePath;
   }
 
+  /**
+   * Re-encrypt every source archive under a new passphrase (null decrypts them)
+   * Covers archives in all namespaces
+   */
+  async rekeyArchives(newKey: string | null): Promise<{ rekeyed: number; failed: string[] }> {
+    const result = { rekeyed: 0, failed: [] as string[] };
+    const sources = this.db.all<{ file_path: string }>(
+      `SELECT DISTINCT file_path FROM sources
+       WHERE file_path IS NOT NULL AND file_path != '' AND file_path != '[archived]'`,
+    );
+
+    for (const { file_path: path } of sources) {
+      if (!existsSync(path)) continue;
+      if (rekeyFile(path, this.encryptionKey, newKey)) {
+        result.rekeyed++;
+      } else {
+        result.failed.push(path);
+      }
+    }
+
+    this.encryptionKey = newKey;
+    return result;
+  }
+
+  /**
+   * Scan active clauses and source archives for PII stored before redaction was enabled
+   * Covers all namespaces
+   */
+  async auditPii(): Promise<PiiAuditReport> {
+    const report: PiiAuditReport = {
+      scanned: { clauses: 0, sources: 0 },
+      unreadable: [],
+      findings: [],
+      totals: {},
+    };
+
+    const record = (kind: 'clause' | 'source', id: string, text: string): void => {
+      const matches = detectPii(text);
+      if (matches.length === 0) return;
+      for (const match of matches) {
+        report.totals[match.category] = (report.totals[match.category] ?? 0) + 1;
+      }
+      report.findings.push({ kind, id, categories: [...new Set(matches.map((m) => m.category))] });
+    };
+
+    type ClauseText = { id: string; subject: string; object: string; natural_form: string };
+    const clauses = this.db.all<ClauseText>(
+      'SELECT id, subject, object, natural_form FROM clauses WHERE valid_to IS NULL',
+    );
+    for (const clause of clauses) {
+      report.scanned.clauses++;
+      record('clause', clause.id, [clause.subject, clause.object, clause.natural_form].join('\n'));
+    }
+
+    const sources = this.db.all<{ id: string; file_path: string }>(
+      `SELECT id, file_path FROM sources
+       WHERE file_path IS NOT NULL AND file_path != '' AND file_path != '[archived]'`,
+    );
+    for (const source of sources) {
+      let text: string;
+      try {
+        text = readFileSealed(source.file_path, this.encryptionKey).toString('utf-8');
+      } catch {
+        report.unreadable.push(source.file_path);
+        continue;
+      }
+      report.scanned.sources++;
+      try {
+        const parsed = JSON.parse(text) as { content?: unknown };
+        if (typeof parsed.content === 'string') text = parsed.content;
+      } catch {
+        // Archives written by archiveSourceToFile() may hold any text
+      }
+      record('source', source.id, text);
+    }
+
+    return report;
+  }
+
   /**
    * Enforce source retention policy - delete old source files
    */
@@ -744,6 +1063,27 @@ export class ClauseStore {
     );
   }
 
+  /**
+   * Mark the latest unrated retrieval of each clause as useful, e.g. because
+   * an answer cited it; clauses never logged as retrieved get an injection entry
+   * Returns the access IDs marked
+   */
+  markClausesUseful(clauseIds: string[], context: string): string[] {
+    return clauseIds.map((clauseId) => {
+      const latest = this.db.get<{ id: string }>(
+        `SELECT id FROM access_log
+         WHERE clause_id = ? AND access_type IN ('retrieval', 'injection')
+           AND was_useful IS NULL
+         ORDER BY accessed_at DESC, id DESC
+         LIMIT 1`,
+        [clauseId],
+      );
+      const accessId = latest?.id ?? this.logClauseAccess(clauseId, 'injection', context);
+      this.markAccessUseful(accessId, true);
+      return accessId;
+    });
+  }
+
   /**
    * Get access history for a clause
    */
@@ -787,6 +1127,8 @@ export class ClauseStore {
    * Get all pending conflicts
    */
   async getPendingConflicts(): Promise<Conflict[]> {
+    // Conflicts are only detected within a namespace, so one side decides visibility
+    const namespace = buildNamespaceFilter(this.scope);
     const rows = this.db.all<{
       id: string;
       clause_a_id: string;
@@ -797,7 +1139,13 @@ export class ClauseStore {
       resolution: string | null;
       resolved_at: string | null;
       detected_at: string;
-    }>("SELECT * FROM conflicts WHERE status = 'pending' ORDER BY detected_at DESC");
+    }>(
+      `SELECT * FROM conflicts
+       WHERE status = 'pending'
+         AND clause_a_id IN (SELECT c.id FROM clauses c WHERE 1 = 1${namespace.sql})
+       ORDER BY detected_at DESC`,
+      namespace.params,
+    );
 
     return rows.map(row => ({
       id: row.id,
@@ -833,6 +1181,15 @@ export class ClauseStore {
       return { resolved: false, action: 'not_found_or_already_resolved' };
     }
 
+    // Conflicts in namespaces this store can't read look like they don't exist
+    const owners = this.db.all<{ namespace: string }>(
+      'SELECT namespace FROM clauses WHERE id IN (?, ?)',
+      [conflict.clause_a_id, conflict.clause_b_id],
+    );
+    if (owners.some((owner) => !isVisible(this.scope, owner.namespace))) {
+      return { resolved: false, action: 'not_found_or_already_resolved' };
+    }
+
     const clauseA = await this.get(conflict.clause_a_id);
     const clauseB = await this.get(conflict.clause_b_id);
 
@@ -842,6 +1199,7 @@ export class ClauseStore {
         `UPDATE conflicts SET status = 'auto_resolved', resolution = ?, resolved_at = datetime('now') WHERE id = ?`,
         ['clause_deleted', conflictId]
       );
+      this.events.emit({ type: 'conflict_resolved', conflictId, resolution: 'clause_deleted' });
       return { resolved: true, action: 'clause_deleted', keptClauseId: clauseA?.id ?? clauseB?.id };
     }
 
@@ -889,15 +1247,23 @@ export class ClauseStore {
         return { resolved: false, action: 'requires_manual_resolution' };
     }
 
+    const actor = `conflict_resolver:${useStrategy}`;
+
     // Invalidate the losing clause
-    await this.invalidate(invalidatedClause.id, `superseded_by:${keptClause.id}`);
+    this.markInvalid(
+      invalidatedClause.id,
+      `superseded_by:${keptClause.id}`,
+      actor,
+      'conflict_resolved',
+      keptClause.id,
+    );
 
     // Link them in metadata if preserving history
     if (this.conflictConfig.preserveHistory) {
       const metadata = keptClause.metadata || {};
       metadata.supersedes = metadata.supersedes || [];
       (metadata.supersedes as string[]).push(invalidatedClause.id);
-      await this.update(keptClause.id, { metadata });
+      await this.update(keptClause.id, { metadata }, actor);
     }
 
     // Mark conflict as resolved
@@ -906,6 +1272,8 @@ export class ClauseStore {
       [resolution, conflictId]
     );
 
+    this.events.emit({ type: 'conflict_resolved', conflictId, resolution });
+
     return { resolved: true, action: resolution, keptClauseId: keptClause.id };
   }
 
@@ -963,16 +1331,19 @@ export class ClauseStore {
     if (!this.dedupConfig.enabled) {
       return { found: false, similarity: 0, matchType: 'none' };
     }
+    // Duplicates are only looked for in the namespace the clause would be written to
+    const namespace = resolveWriteNamespace(this.scope, input.namespace);
 
     // 1. Check exact SPO match (hash-based deduplication)
     if (this.dedupConfig.useContentHash) {
       const existing = this.db.all<ClauseRow>(
-        `SELECT * FROM clauses WHERE valid_to IS NULL AND subject = ? AND predicate = ? AND object = ?`,
-        [input.subject, input.predicate, input.object]
+        `SELECT * FROM clauses
+         WHERE valid_to IS NULL AND subject = ? AND predicate = ? AND object = ? AND namespace = ?`,
+        [input.subject, input.predicate, input.object, namespace],
       );
 
       if (existing.length > 0) {
-        return { found: true, clause: this.rowToClause(existing[0]), similarity: 1.0, matchType: 'exact' };
+        return { found: true, clause: rowToClause(existing[0]), similarity: 1.0, matchType: 'exact' };
       }
     }
 
@@ -980,12 +1351,14 @@ export class ClauseStore {
     if (this.dedupConfig.useFuzzyMatch) {
       // Find clauses with same subject+predicate
       const candidates = this.db.all<ClauseRow>(
-        `SELECT * FROM clauses WHERE valid_to IS NULL AND subject = ? AND predicate = ? AND confidence > 0.3`,
-        [input.subject, input.predicate]
+        `SELECT * FROM clauses
+         WHERE valid_to IS NULL AND subject = ? AND predicate = ? AND namespace = ?
+           AND confidence > 0.3`,
+        [input.subject, input.predicate, namespace],
       );
 
       for (const row of candidates) {
-        const clause = this.rowToClause(row);
+        const clause = rowToClause(row);
         const similarity = this.calculateSimilarity(clause.natural_form, input.natural_form);
 
         if (similarity >= this.dedupConfig.similarityThreshold) {
@@ -997,13 +1370,16 @@ export class ClauseStore {
       const ftsResults = this.db.all<ClauseRow>(
         `SELECT c.* FROM clauses c
          JOIN clauses_fts ON c.rowid = clauses_fts.rowid
-         WHERE clauses_fts MATCH ? AND c.valid_to IS NULL
+         WHERE clauses_fts MATCH ? AND c.valid_to IS NULL AND c.namespace = ?
          LIMIT 5`,
-        [input.natural_form.replace(/['"()]/g, ' ').trim().split(/\s+/).slice(0, 5).join(' ')]
+        [
+          input.natural_form.replace(/['"()]/g, ' ').trim().split(/\s+/).slice(0, 5).join(' '),
+          namespace,
+        ],
       );
 
       for (const row of ftsResults) {
-        const clause = this.rowToClause(row);
+        const clause = rowToClause(row);
         const similarity = this.calculateSimilarity(clause.natural_form, input.natural_form);
 
         if (similarity >= this.dedupConfig.similarityThreshold) {
@@ -1019,15 +1395,23 @@ export class ClauseStore {
    * Process clause with deduplication check
    */
   async processWithDeduplication(
-    input: ClauseInput & { source_id: string }
+    rawInput: ClauseInput & { source_id: string },
   ): Promise<ProcessClauseResult> {
+    // Redact first, so a clause with a dropped value can't reinforce or merge into a stored one
+    const redacted = this.piiRedactor ? this.piiRedactor.redactClause(rawInput) : rawInput;
+    if (!redacted) {
+      return { action: 'dropped', pii: this.piiRedactor!.scanClause(rawInput) };
+    }
+    const input = this.normalizer.normalize(redacted);
+
     // Check for duplicates first
     const dupCheck = await this.findDuplicate(input);
+    const actor = (input as ClauseInput & { extraction_method?: string }).extraction_method ?? 'manual';
 
     if (dupCheck.found && dupCheck.clause) {
       switch (this.dedupConfig.onDuplicate) {
         case 'reinforce':
-          await this.reinforce(dupCheck.clause.id, 0.05);
+          await this.reinforce(dupCheck.clause.id, 0.05, actor);
           return {
             action: 'reinforced',
             existingId: dupCheck.clause.id,
@@ -1047,8 +1431,8 @@ export class ClauseStore {
             ...input.metadata,
             merge_count: ((dupCheck.clause.metadata?.merge_count as number) || 0) + 1,
           };
-          await this.update(dupCheck.clause.id, { metadata: mergedMetadata });
-          await this.reinforce(dupCheck.clause.id, 0.03);
+          await this.update(dupCheck.clause.id, { metadata: mergedMetadata }, actor);
+          await this.reinforce(dupCheck.clause.id, 0.03, actor);
           return {
             action: 'reinforced',
             existingId: dupCheck.clause.id,
@@ -1058,38 +1442,131 @@ export class ClauseStore {
     }
 
     // No duplicate, process normally
-    return this.processNewClause(input);
+    return this.processRedactedClause(input);
+  }
+
+  /**
+   * Re-apply normalization to stored clauses (e.g. after adding aliases or synonyms)
+   * Active clauses that become identical are folded into the oldest one
+   */
+  async renormalize(options: { dryRun?: boolean } = {}): Promise<RenormalizeReport> {
+    const rows = this.db.all<ClauseRow>(
+      'SELECT * FROM clauses ORDER BY julianday(recorded_at) ASC, rowid ASC',
+    );
+    const report: RenormalizeReport = { scanned: rows.length, updated: 0, merged: 0, changes: [] };
+    const active = new Map<string, Array<{ id: string; object: string; changed: boolean }>>();
+
+    for (const row of rows) {
+      const normalized = this.normalizer.normalize(rowToClause(row));
+      const changed =
+        normalized.subject !== row.subject ||
+        normalized.predicate !== row.predicate ||
+        normalized.object !== row.object;
+
+      let mergedInto: string | undefined;
+      if (row.valid_to === null) {
+        const key = `${normalized.subject}\u0000${normalized.predicate}`;
+        const siblings = active.get(key) ?? [];
+        const twin = siblings.find(
+          (s) =>
+            (changed || s.changed) &&
+            this.predicates.sameValue(normalized.predicate, s.object, normalized.object),
+        );
+        if (twin) {
+          mergedInto = twin.id;
+        } else {
+          siblings.push({ id: row.id, object: normalized.object, changed });
+          active.set(key, siblings);
+        }
+      }
+
+      if (!changed && !mergedInto) continue;
+
+      const to = {
+        subject: normalized.subject,
+        predicate: normalized.predicate,
+        object: normalized.object,
+      };
+      report.changes.push({
+        clauseId: row.id,
+        from: { subject: row.subject, predicate: row.predicate, object: row.object },
+        to,
+        mergedInto,
+      });
+      if (changed) report.updated++;
+      if (mergedInto) report.merged++;
+
+      if (options.dryRun) continue;
+
+      if (changed) {
+        const before = rowToClause(row);
+        this.db.run(
+          'UPDATE clauses SET subject = ?, predicate = ?, object = ?, metadata = ? WHERE id = ?',
+          [
+            normalized.subject,
+            normalized.predicate,
+            normalized.object,
+            JSON.stringify(normalized.metadata ?? {}),
+            row.id,
+          ],
+        );
+        const after = this.journal.snapshot(row.id);
+        if (after) {
+          this.entities?.linkClause(after);
+        }
+        this.journal.record({
+          clauseId: row.id,
+          action: 'update',
+          actor: 'normalizer',
+          reason: 'renormalized',
+          before,
+          after,
+        });
+        if (after) {
+          this.events.emit({
+            type: 'clause_updated',
+            clause: after,
+            changes: to,
+          });
+        }
+      }
+
+      if (mergedInto) {
+        await this.reinforce(mergedInto, 0.05, 'normalizer');
+        this.markInvalid(row.id, 'merged_duplicate', 'normalizer', 'invalidate', mergedInto);
+      }
+    }
+
+    return report;
   }
 
   /**
    * Get memory statistics
    */
   async getStats(): Promise<MemoryStats> {
-    const totalRow = this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM clauses'
-    );
-    const activeRow = this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM clauses WHERE valid_to IS NULL'
-    );
-    const expiredRow = this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM clauses WHERE valid_to IS NOT NULL'
+    const ns = buildNamespaceFilter(this.scope);
+    const count = (sql: string) =>
+      this.db.get<{ count: number }>(`${sql}${ns.sql}`, ns.params)?.count ?? 0;
+
+    const totalClauses = count('SELECT COUNT(*) as count FROM clauses c WHERE 1 = 1');
+    const activeClauses = count('SELECT COUNT(*) as count FROM clauses c WHERE c.valid_to IS NULL');
+    const expiredClauses = count(
+      'SELECT COUNT(*) as count FROM clauses c WHERE c.valid_to IS NOT NULL',
     );
     const avgConfRow = this.db.get<{ avg: number }>(
-      'SELECT AVG(confidence) as avg FROM clauses WHERE valid_to IS NULL'
-    );
-    const sourcesRow = this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM sources'
-    );
-    const conflictsRow = this.db.get<{ count: number }>(
-      "SELECT COUNT(*) as count FROM conflicts WHERE status = 'pending'"
-    );
-    const packsRow = this.db.get<{ count: number }>(
-      'SELECT COUNT(*) as count FROM installed_packs'
+      `SELECT AVG(confidence) as avg FROM clauses c WHERE c.valid_to IS NULL${ns.sql}`,
+      ns.params,
     );
+    const totalSources = count('SELECT COUNT(*) as count FROM sources c WHERE 1 = 1');
+    const pendingConflicts = (await this.getPendingConflicts()).length;
+    const installedPacks = count('SELECT COUNT(*) as count FROM installed_packs c WHERE 1 = 1');
 
     // Get counts by type
     const byTypeRows = this.db.all<{ type: string; count: number }>(
-      `SELECT type, COUNT(*) as count FROM clauses WHERE valid_to IS NULL GROUP BY type`
+      `SELECT type, COUNT(*) as count FROM clauses c
+       WHERE c.valid_to IS NULL${ns.sql}
+       GROUP BY type`,
+      ns.params,
     );
 
     const clausesByType: Record<ClauseType, number> = {
@@ -1111,14 +1588,14 @@ export class ClauseStore {
     }
 
     return {
-      totalClauses: totalRow?.count ?? 0,
-      activeClauses: activeRow?.count ?? 0,
-      expiredClauses: expiredRow?.count ?? 0,
+      totalClauses,
+      activeClauses,
+      expiredClauses,
       avgConfidence: avgConfRow?.avg ?? 0,
       clausesByType,
-      totalSources: sourcesRow?.count ?? 0,
-      pendingConflicts: conflictsRow?.count ?? 0,
-      installedPacks: packsRow?.count ?? 0,
+      totalSources,
+      pendingConflicts,
+      installedPacks,
       dbSizeBytes: this.db.getSize(),
       lastDecayRun: this.db.getMetadata('last_decay_run'),
       lastMemorySync: this.db.getMetadata('last_memory_sync'),
@@ -1127,27 +1604,45 @@ export class ClauseStore {
 
   // ========== Private Methods ==========
 
-  private rowToClause(row: ClauseRow): Clause {
-    return {
-      id: row.id,
-      type: row.type as ClauseType,
-      subject: row.subject,
-      predicate: row.predicate,
-      object: row.object,
-      natural_form: row.natural_form,
-      valid_from: row.valid_from,
-      valid_to: row.valid_to,
-      recorded_at: row.recorded_at,
-      confidence: row.confidence,
-      decay_rate: row.decay_rate,
-      reinforcement_count: row.reinforcement_count,
-      source_id: row.source_id,
-      extraction_method: row.extraction_method,
-      last_accessed: row.last_accessed,
-      access_count: row.access_count,
-      tags: JSON.parse(row.tags || '[]'),
-      metadata: JSON.parse(row.metadata || '{}'),
-    };
+  private canRead(id: string): boolean {
+    const namespace = buildNamespaceFilter(this.scope);
+    return this.db.get(
+      `SELECT 1 FROM clauses c WHERE c.id = ?${namespace.sql}`,
+      [id, ...namespace.params],
+    ) !== undefined;
+  }
+
+  /**
+   * Close a clause's validity, journal the change and publish the event
+   */
+  private markInvalid(
+    id: string,
+    reason: string,
+    actor: string,
+    action: RevisionAction,
+    relatedClauseId?: string,
+  ): void {
+    const before = this.journal.snapshot(id);
+    if (!before) return;
+
+    this.db.run(
+      `UPDATE clauses
+       SET valid_to = ?,
+           metadata = json_set(metadata, '$.invalidation_reason', ?)
+       WHERE id = ?`,
+      [new Date().toISOString(), reason, id],
+    );
+
+    this.journal.record({
+      clauseId: id,
+      action,
+      actor,
+      reason,
+      before,
+      after: this.journal.snapshot(id),
+      relatedClauseId,
+    });
+    this.events.emit({ type: 'clause_invalidated', clauseId: id, reason });
   }
 
   private analyzeRelation(
@@ -1155,18 +1650,18 @@ export class ClauseStore {
     input: ClauseInput
   ): 'identical' | 'supersession' | 'contradiction' | 'coexistent' {
     // Same object = reinforcement
-    if (old.object.toLowerCase() === input.object.toLowerCase()) {
+    if (this.predicates.sameValue(old.predicate, old.object, input.object)) {
       return 'identical';
     }
 
-    // Singleton predicates (can only have one value)
-    if (SINGLETON_PREDICATES.includes(old.predicate)) {
-      return 'supersession';
-    }
+    switch (this.predicates.cardinality(old.predicate)) {
+      // Singleton predicates (can only have one value)
+      case 'single':
+        return 'supersession';
 
-    // Multi-value predicates (can have many)
-    if (MULTI_VALUE_PREDICATES.includes(old.predicate)) {
-      return 'coexistent';
+      // Multi-value predicates (can have many)
+      case 'multi':
+        return 'coexistent';
     }
 
     // Default: potential contradiction
@@ -1217,6 +1712,8 @@ export class ClauseStore {
     );
     this.db.setMetadata('total_conflicts_detected', String(current + 1));
 
+    this.events.emit({ type: 'conflict_detected', conflict });
+
     return conflict;
   }
 
@@ -1229,10 +1726,13 @@ export class ClauseStore {
     }
 
     const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `${timestamp}_${id.slice(0, 8)}.json`;
+    // Full ID: sources created in the same minute share a UUIDv7 prefix, and forget()
+    // must be able to delete one source's archive without touching another's
+    const filename = `${timestamp}_${id}.json`;
     const filePath = join(typeDir, filename);
 
-    writeFileSync(filePath, JSON.stringify({ content, archived_at: new Date().toISOString() }, null, 2));
+    const archive = JSON.stringify({ content, archived_at: new Date().toISOString() }, null, 2);
+    writeFileSealed(filePath, archive, this.encryptionKey);
 
     return filePath;
   }
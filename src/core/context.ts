@@ -0,0 +1,278 @@
+/**
+ * Context module - Token-budgeted assembly of memory for prompts
+ * Packs clauses by score into a token budget with per-type quotas, drops
+ * near-duplicates and reports everything left out
+ */
+
+import {
+  renderClauses,
+  sanitizeForPrompt,
+  type PromptFormat,
+  type SanitizationOptions,
+} from './sanitization.js';
+
+export interface Tokenizer {
+  name: string;
+  count(text: string): number;
+}
+
+export interface ContextClause {
+  id: string;
+  type: string;
+  natural_form: string;
+  score?: number;
+  confidence?: number;
+  valid_from?: string;
+}
+
+export interface ContextBuilderOptions {
+  /** Token budget for the whole block (default 1000) */
+  maxTokens?: number;
+  /** Counts tokens; plug in the target model's tokenizer for exact budgets */
+  tokenizer?: Tokenizer;
+  /** Clauses of a type included before anything else, best first (default { correction: 3 }) */
+  quotas?: Record<string, number>;
+  /** Word-set overlap (0-1) at which a lower-scored clause counts as a duplicate (default 0.9) */
+  dedupThreshold?: number;
+  /** Render "## Preferences" style sections instead of one tagged list (default true) */
+  groupByType?: boolean;
+  /** Output format (default markdown) */
+  format?: PromptFormat;
+  sanitize?: SanitizationOptions;
+}
+
+export interface DroppedClause {
+  id: string;
+  type: string;
+  natural_form: string;
+  score: number;
+  reason: 'duplicate' | 'budget';
+  /** The kept clause this one duplicates */
+  duplicateOf?: string;
+}
+
+export interface BuiltContext<T extends ContextClause = ContextClause> {
+  text: string;
+  tokens: number;
+  maxTokens: number;
+  tokenizer: string;
+  format: PromptFormat;
+  /** Clauses in the text, best first */
+  included: T[];
+  dropped: DroppedClause[];
+}
+
+interface Candidate<T> {
+  clause: T;
+  text: string;
+  score: number;
+  words: Set<string>;
+}
+
+/**
+ * Rough token count without a model vocabulary: words cost one token per four
+ * characters, punctuation one each. Errs high for English prose.
+ */
+export const approximateTokenizer: Tokenizer = {
+  name: 'approximate',
+  count(text: string): number {
+    let tokens = 0;
+    for (const piece of text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? []) {
+      tokens += /^[\p{L}\p{N}_]/u.test(piece) ? Math.ceil(piece.length / 4) : 1;
+    }
+    return tokens;
+  },
+};
+
+// Section order; types not listed follow in the order they first appear
+const TYPE_ORDER = [
+  'correction',
+  'fact',
+  'preference',
+  'habit',
+  'skill',
+  'relationship',
+  'intention',
+  'context',
+];
+
+const EMPTY_CONTEXT = 'No relevant memory found.';
+
+export class ContextBuilder {
+  private maxTokens: number;
+  private tokenizer: Tokenizer;
+  private quotas: Record<string, number>;
+  private dedupThreshold: number;
+  private groupByType: boolean;
+  private format: PromptFormat;
+  private sanitize: SanitizationOptions;
+
+  constructor(options: ContextBuilderOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 1000;
+    this.tokenizer = options.tokenizer ?? approximateTokenizer;
+    this.quotas = options.quotas ?? { correction: 3 };
+    this.dedupThreshold = options.dedupThreshold ?? 0.9;
+    this.groupByType = options.groupByType ?? true;
+    this.format = options.format ?? 'markdown';
+    this.sanitize = options.sanitize ?? {};
+  }
+
+  /**
+   * Build the prompt block; options override the builder's for this call
+   */
+  build<T extends ContextClause>(
+    clauses: T[],
+    options: Pick<ContextBuilderOptions, 'maxTokens' | 'quotas' | 'format'> = {},
+  ): BuiltContext<T> {
+    const maxTokens = options.maxTokens ?? this.maxTokens;
+    const quotas = options.quotas ?? this.quotas;
+    const format = options.format ?? this.format;
+    const dropped: DroppedClause[] = [];
+    const drop = (c: Candidate<T>, reason: DroppedClause['reason'], duplicateOf?: string) => {
+      dropped.push({
+        id: c.clause.id,
+        type: c.clause.type,
+        natural_form: c.clause.natural_form,
+        score: c.score,
+        reason,
+        ...(duplicateOf ? { duplicateOf } : {}),
+      });
+    };
+
+    // Best first; ties keep input order
+    const ranked = clauses
+      .map((clause) => {
+        const text = sanitizeForPrompt(clause.natural_form, this.sanitize);
+        return { clause, text, score: clause.score ?? 0, words: wordSet(text) };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const unique: Candidate<T>[] = [];
+    for (const candidate of ranked) {
+      const original = unique.find((u) => u.clause.id === candidate.clause.id ||
+        similarity(u.words, candidate.words) >= this.dedupThreshold);
+      if (original) {
+        if (original.clause.id !== candidate.clause.id) {
+          drop(candidate, 'duplicate', original.clause.id);
+        }
+        continue;
+      }
+      unique.push(candidate);
+    }
+
+    // Quota clauses claim the budget first, then the rest by score
+    const reserved = new Set<Candidate<T>>();
+    const taken = new Map<string, number>();
+    for (const candidate of unique) {
+      const count = taken.get(candidate.clause.type) ?? 0;
+      if (count < (quotas[candidate.clause.type] ?? 0)) {
+        reserved.add(candidate);
+        taken.set(candidate.clause.type, count + 1);
+      }
+    }
+    const order = [...reserved, ...unique.filter((c) => !reserved.has(c))];
+
+    let selected: Candidate<T>[] = [];
+    let cost = 0;
+    for (const candidate of order) {
+      const extra = this.cost(selected, candidate, format);
+      if (cost + extra > maxTokens) {
+        drop(candidate, 'budget');
+        continue;
+      }
+      selected.push(candidate);
+      cost += extra;
+    }
+
+    // Incremental costs are estimates for tokenizers that merge across lines
+    let text = this.render(selected, format);
+    let tokens = this.tokenizer.count(text);
+    while (tokens > maxTokens && selected.length > 0) {
+      const optional = selected.filter((c) => !reserved.has(c));
+      const victim = (optional.length > 0 ? optional : selected)
+        .reduce((worst, c) => (c.score < worst.score ? c : worst));
+      selected = selected.filter((c) => c !== victim);
+      drop(victim, 'budget');
+      text = this.render(selected, format);
+      tokens = this.tokenizer.count(text);
+    }
+
+    return {
+      text,
+      tokens,
+      maxTokens,
+      tokenizer: this.tokenizer.name,
+      format,
+      included: [...selected].sort((a, b) => b.score - a.score).map((c) => c.clause),
+      dropped,
+    };
+  }
+
+  /**
+   * Tokens a candidate adds: its line, plus a section heading when it opens one
+   */
+  private cost(
+    selected: Candidate<ContextClause>[],
+    candidate: Candidate<ContextClause>,
+    format: PromptFormat,
+  ): number {
+    if (format !== 'markdown') {
+      const before = selected.length > 0 ? this.tokenizer.count(this.render(selected, format)) : 0;
+      return this.tokenizer.count(this.render([...selected, candidate], format)) - before;
+    }
+    if (!this.groupByType) {
+      return this.tokenizer.count(`- [${candidate.clause.type}] ${candidate.text}\n`);
+    }
+
+    const line = this.tokenizer.count(`- ${candidate.text}\n`);
+    const opensSection = !selected.some((c) => c.clause.type === candidate.clause.type);
+    return opensSection
+      ? line + this.tokenizer.count(`## ${title(candidate.clause.type)}\n\n`)
+      : line;
+  }
+
+  private render(selected: Candidate<ContextClause>[], format: PromptFormat): string {
+    const ranked = [...selected].sort((a, b) => b.score - a.score);
+    if (format !== 'markdown') {
+      return renderClauses(ranked.map((c) => ({ ...c.clause, natural_form: c.text })), format);
+    }
+    if (selected.length === 0) return EMPTY_CONTEXT;
+
+    if (!this.groupByType) {
+      return ranked.map((c) => `- [${c.clause.type}] ${c.text}`).join('\n');
+    }
+
+    const sections = new Map<string, string[]>();
+    for (const type of TYPE_ORDER) sections.set(type, []);
+    for (const candidate of ranked) {
+      const items = sections.get(candidate.clause.type) ?? [];
+      items.push(`- ${candidate.text}`);
+      sections.set(candidate.clause.type, items);
+    }
+
+    return [...sections]
+      .filter(([, items]) => items.length > 0)
+      .map(([type, items]) => `## ${title(type)}\n${items.join('\n')}`)
+      .join('\n\n');
+  }
+}
+
+// "skill_success" → "Skill successes"
+function title(type: string): string {
+  const words = type.split('_').join(' ');
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)}${words.endsWith('s') ? 'es' : 's'}`;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+// Jaccard similarity of two word sets
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
@@ -4,234 +4,62 @@
  */
 
 import Database from 'better-sqlite3';
-import { existsSync, mkdirSync } from 'fs';
+import { existsSync, mkdirSync, renameSync, unlinkSync, writeFileSync } from 'fs';
 import { dirname } from 'path';
 import { homedir } from 'os';
+import { SQLCIPHER_PACKAGE, isPlaintextDatabase } from './encryption.js';
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS_TABLE,
+  SCHEMA_MIGRATIONS,
+  migrationChecksum,
+  type MigrateResult,
+  type MigrationStatus,
+} from './schema.js';
+import type { BackupManager } from './backup.js';
+
+export interface DatabaseOptions {
+  /** Apply pending schema migrations in init() (default: true) */
+  autoMigrate?: boolean;
+  /** Passphrase for a SQLCipher-compatible encrypted database (default: none) */
+  encryptionKey?: string | null;
+  /** Open a plaintext database although a key is set, to encrypt it (default: false) */
+  allowPlaintext?: boolean;
+}
 
-const SCHEMA = `
--- Enable foreign keys
-PRAGMA foreign_keys = ON;
-
--- Clauses: Core memory units
-CREATE TABLE IF NOT EXISTS clauses (
-    id TEXT PRIMARY KEY,
-    
-    -- Content
-    type TEXT NOT NULL CHECK (type IN (
-        'fact', 'preference', 'habit', 'skill', 
-        'relationship', 'intention', 'context', 'correction',
-        'skill_success', 'skill_failure', 'skill_preference'
-    )),
-    subject TEXT NOT NULL,
-    predicate TEXT NOT NULL,
-    object TEXT NOT NULL,
-    natural_form TEXT NOT NULL,
-    
-    -- Temporal (ISO 8601 strings)
-    valid_from TEXT NOT NULL,
-    valid_to TEXT,
-    recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
-    
-    -- Confidence
-    confidence REAL NOT NULL DEFAULT 0.8 CHECK (confidence >= 0 AND confidence <= 1),
-    decay_rate REAL NOT NULL DEFAULT 0.001 CHECK (decay_rate >= 0),
-    reinforcement_count INTEGER NOT NULL DEFAULT 0,
-    
-    -- Provenance
-    source_id TEXT NOT NULL,
-    extraction_method TEXT NOT NULL DEFAULT 'llm_extraction',
-    
-    -- Usage
-    last_accessed TEXT NOT NULL DEFAULT (datetime('now')),
-    access_count INTEGER NOT NULL DEFAULT 0,
-    
-    -- Metadata
-    tags TEXT DEFAULT '[]',
-    metadata TEXT DEFAULT '{}'
-);
-
-CREATE INDEX IF NOT EXISTS idx_clauses_type ON clauses(type);
-CREATE INDEX IF NOT EXISTS idx_clauses_subject ON clauses(subject);
-CREATE INDEX IF NOT EXISTS idx_clauses_predicate ON clauses(predicate);
-CREATE INDEX IF NOT EXISTS idx_clauses_confidence ON clauses(confidence);
-CREATE INDEX IF NOT EXISTS idx_clauses_valid_to ON clauses(valid_to);
-CREATE INDEX IF NOT EXISTS idx_clauses_last_accessed ON clauses(last_accessed);
-CREATE INDEX IF NOT EXISTS idx_clauses_source ON clauses(source_id);
-
--- Full-text search
-CREATE VIRTUAL TABLE IF NOT EXISTS clauses_fts USING fts5(
-    natural_form,
-    subject,
-    predicate,
-    object,
-    content='clauses',
-    content_rowid='rowid'
-);
-
--- Triggers to keep FTS in sync
-CREATE TRIGGER IF NOT EXISTS clauses_ai AFTER INSERT ON clauses BEGIN
-    INSERT INTO clauses_fts(rowid, natural_form, subject, predicate, object)
-    VALUES (new.rowid, new.natural_form, new.subject, new.predicate, new.object);
-END;
-
-CREATE TRIGGER IF NOT EXISTS clauses_ad AFTER DELETE ON clauses BEGIN
-    INSERT INTO clauses_fts(clauses_fts, rowid, natural_form, subject, predicate, object)
-    VALUES ('delete', old.rowid, old.natural_form, old.subject, old.predicate, old.object);
-END;
-
-CREATE TRIGGER IF NOT EXISTS clauses_au AFTER UPDATE ON clauses BEGIN
-    INSERT INTO clauses_fts(clauses_fts, rowid, natural_form, subject, predicate, object)
-    VALUES ('delete', old.rowid, old.natural_form, old.subject, old.predicate, old.object);
-    INSERT INTO clauses_fts(rowid, natural_form, subject, predicate, object)
-    VALUES (new.rowid, new.natural_form, new.subject, new.predicate, new.object);
-END;
-
--- Sources: Raw content archive references
-CREATE TABLE IF NOT EXISTS sources (
-    id TEXT PRIMARY KEY,
-    
-    type TEXT NOT NULL CHECK (type IN (
-        'conversation', 'log', 'document', 'manual', 'knowledge_pack', 'inferred'
-    )),
-    channel TEXT,
-    
-    file_path TEXT NOT NULL,
-    content_hash TEXT NOT NULL,
-    
-    occurred_at TEXT NOT NULL,
-    recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
-    
-    participant_count INTEGER DEFAULT 1,
-    message_count INTEGER DEFAULT 0,
-    metadata TEXT DEFAULT '{}'
-);
-
-CREATE INDEX IF NOT EXISTS idx_sources_type ON sources(type);
-CREATE INDEX IF NOT EXISTS idx_sources_occurred_at ON sources(occurred_at);
-CREATE UNIQUE INDEX IF NOT EXISTS idx_sources_hash ON sources(content_hash);
-
--- Embeddings: For semantic search
-CREATE TABLE IF NOT EXISTS clause_embeddings (
-    clause_id TEXT PRIMARY KEY REFERENCES clauses(id) ON DELETE CASCADE,
-    embedding BLOB NOT NULL,
-    model TEXT NOT NULL,
-    created_at TEXT NOT NULL DEFAULT (datetime('now'))
-);
-
--- Conflicts: Detected contradictions
-CREATE TABLE IF NOT EXISTS conflicts (
-    id TEXT PRIMARY KEY,
-    
-    clause_a_id TEXT NOT NULL REFERENCES clauses(id),
-    clause_b_id TEXT NOT NULL REFERENCES clauses(id),
-    
-    conflict_type TEXT NOT NULL CHECK (conflict_type IN (
-        'contradiction', 'supersession', 'ambiguity'
-    )),
-    description TEXT NOT NULL,
-    
-    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
-        'pending', 'auto_resolved', 'user_resolved', 'ignored'
-    )),
-    resolution TEXT,
-    resolved_at TEXT,
-    
-    detected_at TEXT NOT NULL DEFAULT (datetime('now'))
-);
-
-CREATE INDEX IF NOT EXISTS idx_conflicts_status ON conflicts(status);
-
--- Access log: Usage tracking
-CREATE TABLE IF NOT EXISTS access_log (
-    id TEXT PRIMARY KEY,
-    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
-    
-    accessed_at TEXT NOT NULL DEFAULT (datetime('now')),
-    access_type TEXT NOT NULL CHECK (access_type IN (
-        'retrieval', 'injection', 'reinforcement'
-    )),
-    context TEXT,
-    
-    was_useful INTEGER,
-    correction_id TEXT REFERENCES clauses(id)
-);
-
-CREATE INDEX IF NOT EXISTS idx_access_log_clause ON access_log(clause_id);
-CREATE INDEX IF NOT EXISTS idx_access_log_accessed ON access_log(accessed_at);
-
--- Decay log: Track confidence changes
-CREATE TABLE IF NOT EXISTS decay_log (
-    id TEXT PRIMARY KEY,
-    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
-    
-    previous_confidence REAL NOT NULL,
-    new_confidence REAL NOT NULL,
-    reason TEXT NOT NULL,
-    
-    occurred_at TEXT NOT NULL DEFAULT (datetime('now'))
-);
-
--- Knowledge packs
-CREATE TABLE IF NOT EXISTS installed_packs (
-    pack_id TEXT PRIMARY KEY,
-    version TEXT NOT NULL,
-    installed_at TEXT NOT NULL DEFAULT (datetime('now')),
-    claims_loaded INTEGER NOT NULL,
-    last_updated TEXT,
-    metadata TEXT DEFAULT '{}'
-);
-
--- Skill capability claims
-CREATE TABLE IF NOT EXISTS skill_capabilities (
-    skill_id TEXT NOT NULL,
-    skill_version TEXT NOT NULL,
-    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
-    capability_type TEXT NOT NULL,
-    installed_at TEXT NOT NULL DEFAULT (datetime('now')),
-    
-    PRIMARY KEY (skill_id, clause_id)
-);
-
-CREATE INDEX IF NOT EXISTS idx_skill_capabilities_skill ON skill_capabilities(skill_id);
-
--- Skill preference bindings
-CREATE TABLE IF NOT EXISTS skill_preference_bindings (
-    id TEXT PRIMARY KEY,
-    skill_id TEXT NOT NULL,
-    parameter_name TEXT NOT NULL,
-    clause_id TEXT NOT NULL REFERENCES clauses(id),
-    bound_at TEXT NOT NULL DEFAULT (datetime('now')),
-    
-    UNIQUE (skill_id, parameter_name)
-);
-
--- System metadata
-CREATE TABLE IF NOT EXISTS system_metadata (
-    key TEXT PRIMARY KEY,
-    value TEXT NOT NULL,
-    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-);
-
--- Initialize defaults if not exist
-INSERT OR IGNORE INTO system_metadata (key, value) VALUES
-    ('schema_version', '1'),
-    ('last_decay_run', NULL),
-    ('last_memory_sync', NULL),
-    ('total_clauses_extracted', '0'),
-    ('total_conflicts_detected', '0');
-`;
+interface MigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
 
 export class DatabaseManager {
   private db: Database.Database | null = null;
   private dbPath: string;
+  private autoMigrate: boolean;
+  private backupManager: BackupManager | null = null;
+  private encryptionKey: string | null;
+  private allowPlaintext: boolean;
+  private encrypted = false;
 
-  constructor(dbPath: string) {
+  constructor(dbPath: string, options: DatabaseOptions = {}) {
     // Expand ~ to home directory
     this.dbPath = dbPath.replace(/^~/, homedir());
+    this.autoMigrate = options.autoMigrate ?? true;
+    this.encryptionKey = options.encryptionKey ?? null;
+    this.allowPlaintext = options.allowPlaintext ?? false;
   }
 
   /**
-   * Initialize database and create schema
+   * Back up existing databases before migrating them
+   */
+  setBackupManager(backupManager: BackupManager): void {
+    this.backupManager = backupManager;
+  }
+
+  /**
+   * Open the database and apply pending migrations
    */
   async init(): Promise<void> {
     // Ensure directory exists
@@ -240,14 +68,117 @@ export class DatabaseManager {
       mkdirSync(dir, { recursive: true });
     }
 
-    // Open database
-    this.db = new Database(this.dbPath);
-    
-    // Enable WAL mode for better concurrency
-    this.db.pragma('journal_mode = WAL');
-    
-    // Run schema
-    this.db.exec(SCHEMA);
+    await this.connect();
+
+    this.getDb().exec(MIGRATIONS_TABLE);
+    if (this.autoMigrate) {
+      await this.migrate();
+    }
+  }
+
+  /**
+   * Applied and pending schema migrations
+   */
+  getMigrationStatus(): MigrationStatus {
+    const rows = this.all<MigrationRow>('SELECT * FROM schema_migrations ORDER BY version');
+    const applied = new Set(rows.map((row) => row.version));
+
+    return {
+      current: rows.length > 0 ? rows[rows.length - 1].version : 0,
+      latest: LATEST_SCHEMA_VERSION,
+      applied: rows.map((row) => {
+        const known = SCHEMA_MIGRATIONS.find((m) => m.version === row.version);
+        return {
+          version: row.version,
+          name: row.name,
+          checksum: row.checksum,
+          appliedAt: row.applied_at,
+          checksumMatches: known !== undefined && migrationChecksum(known) === row.checksum,
+        };
+      }),
+      pending: SCHEMA_MIGRATIONS
+        .filter((m) => !applied.has(m.version))
+        .map(({ version, name }) => ({ version, name })),
+    };
+  }
+
+  /**
+   * Apply pending migrations up to a version (default: latest)
+   * Each migration runs in its own transaction; a failed one is rolled back and
+   * stops the run. Databases that already hold data are backed up first.
+   */
+  async migrate(options: { to?: number } = {}): Promise<MigrateResult> {
+    const status = this.getMigrationStatus();
+    const target = options.to ?? LATEST_SCHEMA_VERSION;
+
+    if (status.current > LATEST_SCHEMA_VERSION) {
+      throw new Error(
+        `Database schema version ${status.current} is newer than this version of ` +
+        `OM-Lite supports (${LATEST_SCHEMA_VERSION})`,
+      );
+    }
+    const modified = status.applied.find((m) => !m.checksumMatches);
+    if (modified) {
+      throw new Error(
+        `Migration ${modified.version} (${modified.name}) has changed since it was applied`,
+      );
+    }
+    if (!SCHEMA_MIGRATIONS.some((m) => m.version === target)) {
+      throw new Error(`Unknown schema version: ${target}`);
+    }
+    if (target < status.current) {
+      throw new Error(
+        `Cannot migrate down from ${status.current} to ${target}; restore a backup instead`,
+      );
+    }
+
+    const pending = SCHEMA_MIGRATIONS.filter(
+      (m) => m.version <= target && status.pending.some((p) => p.version === m.version),
+    );
+    const result: MigrateResult = { from: status.current, to: status.current, applied: [] };
+    if (pending.length === 0) {
+      return result;
+    }
+
+    if (this.backupManager && this.hasData()) {
+      const backup = await this.backupManager.backup({ type: 'migration' });
+      if (!backup.success) {
+        throw new Error(`Pre-migration backup failed: ${backup.error}`);
+      }
+      result.backupPath = backup.path;
+    }
+
+    for (const migration of pending) {
+      try {
+        this.transaction(() => {
+          this.getDb().exec(migration.up);
+          this.run(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)',
+            [migration.version, migration.name, migrationChecksum(migration)],
+          );
+          this.setMetadata('schema_version', String(migration.version));
+        });
+      } catch (error) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${String(error)}`,
+        );
+      }
+      result.to = migration.version;
+      result.applied.push(migration.version);
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether anything besides the migration bookkeeping exists yet
+   */
+  private hasData(): boolean {
+    const row = this.get<{ count: number }>(
+      `SELECT COUNT(*) as count FROM sqlite_master
+       WHERE type = 'table' AND name != 'schema_migrations'`,
+    );
+    return (row?.count ?? 0) > 0;
   }
 
   /**
@@ -288,6 +219,13 @@ export class DatabaseManager {
     return this.getDb().transaction(fn)();
   }
 
+  /**
+   * Path of the database file, with ~ expanded
+   */
+  getPath(): string {
+    return this.dbPath;
+  }
+
   /**
    * Get database file size in bytes
    */
@@ -330,6 +268,77 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Whether the database file is encrypted
+   */
+  isEncrypted(): boolean {
+    return this.encrypted;
+  }
+
+  /**
+   * Serialize the whole database into plaintext SQLite bytes
+   */
+  serialize(): Buffer {
+    const data = this.getDb().serialize();
+    // Mark the copy as a rollback-journal database; a WAL header cannot be opened from memory
+    data[18] = 1;
+    data[19] = 1;
+    return data;
+  }
+
+  /**
+   * Encrypt, re-encrypt or (with null) decrypt the database file in place
+   */
+  async rekey(newKey: string | null): Promise<void> {
+    const currentKey = this.encrypted ? this.encryptionKey : null;
+    if (currentKey === newKey) {
+      this.encryptionKey = newKey;
+      return;
+    }
+
+    await this.close();
+    try {
+      const db = await openCipherDatabase(this.dbPath, currentKey);
+      try {
+        // The cipher build cannot rekey a database in WAL mode; connect() restores it
+        db.pragma('journal_mode = DELETE');
+        db.pragma(`rekey = ${quote(newKey ?? '')}`);
+      } finally {
+        db.close();
+      }
+      this.encryptionKey = newKey;
+    } finally {
+      await this.connect();
+    }
+  }
+
+  /**
+   * Replace the database with serialized SQLite bytes, keeping this database's encryption
+   */
+  async replaceWith(data: Buffer): Promise<void> {
+    await this.close();
+    for (const path of [`${this.dbPath}-wal`, `${this.dbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+
+    if (this.encrypted && this.encryptionKey) {
+      // Stage next to the database and encrypt before it takes the database's place
+      const staging = `${this.dbPath}.restoring`;
+      writeFileSync(staging, data, { mode: 0o600 });
+      const db = await openCipherDatabase(staging, null);
+      try {
+        db.pragma(`rekey = ${quote(this.encryptionKey)}`);
+      } finally {
+        db.close();
+      }
+      renameSync(staging, this.dbPath);
+    } else {
+      writeFileSync(this.dbPath, data);
+    }
+
+    await this.init();
+  }
+
   /**
    * Backup database to file
    */
@@ -342,6 +351,75 @@ export class DatabaseManager {
     
     await this.getDb().backup(dest);
   }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Open the database file, through the cipher build when a key is configured
+   */
+  private async connect(): Promise<void> {
+    if (this.encryptionKey && isPlaintextDatabase(this.dbPath)) {
+      // A configured key means the data must not be written in the clear
+      if (!this.allowPlaintext) {
+        throw new Error(
+          `${this.dbPath} is not encrypted but an encryption key is configured; ` +
+          'run om-lite db rekey to encrypt it',
+        );
+      }
+      this.db = new Database(this.dbPath);
+      this.encrypted = false;
+    } else if (this.encryptionKey) {
+      this.db = await openCipherDatabase(this.dbPath, this.encryptionKey);
+      this.encrypted = true;
+    } else {
+      this.db = new Database(this.dbPath);
+      this.encrypted = false;
+    }
+
+    try {
+      // Enable WAL mode for better concurrency
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('foreign_keys = ON');
+    } catch (error) {
+      await this.close();
+      throw new Error(
+        `Cannot open ${this.dbPath}; if it is encrypted, set the encryption key: ${String(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Open a database with the SQLCipher-compatible build, keyed when a key is given
+ */
+async function openCipherDatabase(
+  path: string,
+  key: string | null,
+): Promise<Database.Database> {
+  let Cipher: typeof Database;
+  try {
+    Cipher = ((await import(SQLCIPHER_PACKAGE)) as { default: typeof Database }).default;
+  } catch {
+    throw new Error(`${SQLCIPHER_PACKAGE} is not installed; it is required for database encryption`);
+  }
+
+  const db = new Cipher(path);
+  db.pragma("cipher = 'sqlcipher'");
+  db.pragma('legacy = 4');
+  if (key) {
+    db.pragma(`key = ${quote(key)}`);
+    try {
+      db.prepare('SELECT COUNT(*) FROM sqlite_master').get();
+    } catch {
+      db.close();
+      throw new Error(`Cannot open ${path}: wrong encryption key`);
+    }
+  }
+  return db;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
 }
 
 // Export as Database for compatibility
@@ -5,7 +5,9 @@
 
 import { v7 as uuidv7 } from 'uuid';
 import type { DatabaseManager } from './database.js';
-import type { DecayConfig, DecayReport } from './types.js';
+import { EventBus } from './events.js';
+import { ChangeJournal } from './journal.js';
+import type { Clause, DecayConfig, DecayReport } from './types.js';
 
 interface ClauseRow {
   id: string;
@@ -20,9 +22,12 @@ interface ClauseRow {
 export class DecayRunner {
   private db: DatabaseManager;
   private config: DecayConfig;
+  private events: EventBus = new EventBus();
+  private journal: ChangeJournal;
 
   constructor(db: DatabaseManager, config: Partial<DecayConfig> = {}) {
     this.db = db;
+    this.journal = new ChangeJournal(db);
     this.config = {
       enabled: config.enabled ?? true,
       defaultRate: config.defaultRate ?? 0.001,
@@ -30,6 +35,13 @@ export class DecayRunner {
     };
   }
 
+  /**
+   * Set the event bus used to publish decay events
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
   /**
    * Run confidence decay on all active clauses
    *
@@ -107,6 +119,7 @@ export class DecayRunner {
     // Update last decay run timestamp
     if (!dryRun) {
       this.db.setMetadata('last_decay_run', new Date().toISOString());
+      this.events.emit({ type: 'decay_completed', report });
     }
 
     return report;
@@ -126,6 +139,7 @@ export class DecayRunner {
     }
 
     const newConfidence = Math.min(1.0, clause.confidence + amount);
+    const before = this.journal.snapshot(clauseId);
 
     this.db.run(
       `UPDATE clauses
@@ -140,6 +154,15 @@ export class DecayRunner {
     // Log the reinforcement
     this.logDecay(clauseId, clause.confidence, newConfidence, 'reinforcement');
 
+    this.journal.record({
+      clauseId,
+      action: 'reinforce',
+      actor: 'decay_runner',
+      before,
+      after: this.journal.snapshot(clauseId),
+    });
+    this.events.emit({ type: 'clause_reinforced', clauseId, newConfidence });
+
     return newConfidence;
   }
 
@@ -162,6 +185,7 @@ export class DecayRunner {
 
     // Clamp confidence to valid range
     const clamped = Math.max(0, Math.min(1, newConfidence));
+    const before = this.journal.snapshot(clauseId);
 
     this.db.run(
       'UPDATE clauses SET confidence = ? WHERE id = ?',
@@ -169,10 +193,20 @@ export class DecayRunner {
     );
 
     this.logDecay(clauseId, clause.confidence, clamped, reason);
+    this.journal.record({
+      clauseId,
+      action: 'update',
+      actor: 'decay_runner',
+      reason,
+      before,
+      after: this.journal.snapshot(clauseId),
+    });
 
     // Archive if below threshold
     if (clamped < this.config.minConfidence) {
       await this.archiveClause(clauseId, clamped);
+    } else {
+      this.emitUpdated(clauseId, { confidence: clamped });
     }
   }
 
@@ -287,6 +321,8 @@ export class DecayRunner {
     clauseId: string,
     finalConfidence: number
   ): Promise<void> {
+    const before = this.journal.snapshot(clauseId);
+
     this.db.run(
       `UPDATE clauses
        SET valid_to = datetime('now'),
@@ -310,6 +346,16 @@ export class DecayRunner {
         'archived_decay'
       );
     }
+
+    this.journal.record({
+      clauseId,
+      action: 'invalidate',
+      actor: 'decay_runner',
+      reason: 'confidence_decay',
+      before,
+      after: this.journal.snapshot(clauseId),
+    });
+    this.events.emit({ type: 'clause_invalidated', clauseId, reason: 'confidence_decay' });
   }
 
   /**
@@ -326,6 +372,22 @@ export class DecayRunner {
     );
 
     this.logDecay(clauseId, oldConfidence, newConfidence, 'scheduled_decay');
+
+    this.emitUpdated(clauseId, { confidence: newConfidence });
+  }
+
+  /**
+   * Publish a clause_updated event with the current clause state
+   */
+  private emitUpdated(clauseId: string, changes: Partial<Clause>): void {
+    if (this.events.listenerCount('clause_updated') + this.events.listenerCount('*') === 0) {
+      return;
+    }
+
+    const clause = this.journal.snapshot(clauseId);
+    if (!clause) return;
+
+    this.events.emit({ type: 'clause_updated', clause, changes });
   }
 
   /**
@@ -1,26 +1,68 @@
 /**
  * Embeddings module - Vector embeddings for semantic search
  * Supports multiple providers: OpenAI, Anthropic, local models
- * Uses sqlite-vec for vector storage and similarity search
+ * Uses sqlite-vec for vector storage and similarity search, or an HNSW graph
+ * over BLOB storage when the extension is unavailable
  */
 
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, renameSync, unlinkSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { HnswIndex, type HnswOptions } from './ann.js';
 import type { DatabaseManager } from './database.js';
+import { readFileSealed, rekeyFile, writeFileSealed } from './encryption.js';
+import type { EventBus } from './events.js';
+import { defaultOllamaUrl, fetchWithRetry, type RequestPolicy } from './http.js';
 
 // ========== Types ==========
 
 export interface EmbeddingProvider {
   name: string;
+  /** Model identifier; together with name and dimensions it keys the vector index */
+  model?: string;
   dimensions: number;
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
+  /** Load models or other resources; a rejection makes the manager fall back */
+  init?(): Promise<void>;
 }
 
 export interface EmbeddingConfig {
-  provider: 'openai' | 'anthropic' | 'local' | 'none';
+  provider:
+    | 'openai'
+    | 'anthropic'
+    | 'local'
+    | 'transformers'
+    | 'ollama'
+    | 'openai-compatible'
+    | 'none';
   model?: string;
   apiKey?: string;
   baseUrl?: string;
   dimensions?: number;
+  /** HTTP providers: per-request timeout in milliseconds (default 30000) */
+  timeoutMs?: number;
+  /** HTTP providers: retries on network errors, timeouts, 429 and 5xx (default 2) */
+  retries?: number;
+  /** transformers: model directory (default ~/.openclaw/memory/models/<model>) */
+  modelPath?: string;
+  /** transformers: texts per inference call (default 32) */
+  batchSize?: number;
+  /** transformers: embeddings kept in memory, keyed by text (default 1000, 0 disables) */
+  cacheSize?: number;
+  /** transformers: load onnx/model_quantized.onnx instead of onnx/model.onnx */
+  quantized?: boolean;
+  /** Approximate search used when sqlite-vec is unavailable */
+  ann?: AnnConfig;
+}
+
+export interface AnnConfig extends HnswOptions {
+  /** Default true; without it every query scans all stored embeddings */
+  enabled?: boolean;
+  /** Indexes with fewer embeddings are scanned exactly (default 2000) */
+  minSize?: number;
 }
 
 interface EmbeddingRow {
@@ -34,20 +76,42 @@ interface EmbeddingRow {
 
 /**
  * OpenAI Embedding Provider
+ * Also used for any server speaking the OpenAI /embeddings API (LM Studio,
+ * vLLM, llama.cpp, LocalAI, ...) under the name 'openai-compatible'
  */
 class OpenAIEmbeddingProvider implements EmbeddingProvider {
-  name = 'openai';
+  name: string;
   dimensions: number;
-  private apiKey: string;
-  private model: string;
+  private apiKey?: string;
+  readonly model: string;
   private baseUrl: string;
-
-  constructor(apiKey: string, model: string = 'text-embedding-3-small', baseUrl: string = 'https://api.openai.com/v1') {
-    this.apiKey = apiKey;
-    this.model = model;
-    this.baseUrl = baseUrl;
+  private policy: RequestPolicy;
+  private probeDimensions: boolean;
+
+  constructor(options: {
+    name?: string;
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+    dimensions?: number;
+    policy?: RequestPolicy;
+  }) {
+    this.name = options.name ?? 'openai';
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.policy = options.policy ?? {};
     // text-embedding-3-small: 1536, text-embedding-3-large: 3072, ada-002: 1536
-    this.dimensions = model.includes('large') ? 3072 : 1536;
+    // Other servers' models are unknown, so their size is probed on init
+    this.probeDimensions = options.dimensions === undefined && this.name !== 'openai';
+    this.dimensions = options.dimensions ?? (this.model.includes('large') ? 3072 : 1536);
+  }
+
+  async init(): Promise<void> {
+    if (this.probeDimensions) {
+      this.dimensions = (await this.embed('dimension probe')).length;
+      this.probeDimensions = false;
+    }
   }
 
   async embed(text: string): Promise<number[]> {
@@ -56,21 +120,21 @@ class OpenAIEmbeddingProvider implements EmbeddingProvider {
   }
 
   async embedBatch(texts: string[]): Promise<number[][]> {
-    const response = await fetch(`${this.baseUrl}/embeddings`, {
+    const response = await fetchWithRetry(`${this.baseUrl}/embeddings`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
       },
       body: JSON.stringify({
         model: this.model,
         input: texts,
       }),
-    });
+    }, this.policy);
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`OpenAI embeddings API error: ${response.status} ${error}`);
+      throw new Error(`${this.name} embeddings API error: ${response.status} ${error}`);
     }
 
     const data = (await response.json()) as {
@@ -84,6 +148,72 @@ class OpenAIEmbeddingProvider implements EmbeddingProvider {
   }
 }
 
+// Output sizes of common Ollama embedding models; others are probed on init
+const OLLAMA_DIMENSIONS: Record<string, number> = {
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+  'snowflake-arctic-embed': 1024,
+  'bge-m3': 1024,
+};
+
+/**
+ * Ollama Embedding Provider (native /api/embed endpoint)
+ */
+class OllamaEmbeddingProvider implements EmbeddingProvider {
+  name = 'ollama';
+  dimensions: number;
+  readonly model: string;
+  private baseUrl: string;
+  private policy: RequestPolicy;
+  private probeDimensions: boolean;
+
+  constructor(options: {
+    model?: string;
+    baseUrl?: string;
+    dimensions?: number;
+    policy?: RequestPolicy;
+  }) {
+    this.model = options.model ?? 'nomic-embed-text';
+    this.baseUrl = (options.baseUrl ?? defaultOllamaUrl()).replace(/\/+$/, '');
+    this.policy = options.policy ?? {};
+    const known = OLLAMA_DIMENSIONS[this.model.split(':')[0]];
+    this.probeDimensions = options.dimensions === undefined && known === undefined;
+    this.dimensions = options.dimensions ?? known ?? 768;
+  }
+
+  async init(): Promise<void> {
+    if (this.probeDimensions) {
+      this.dimensions = (await this.embed('dimension probe')).length;
+      this.probeDimensions = false;
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const results = await this.embedBatch([text]);
+    return results[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetchWithRetry(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+      }),
+    }, this.policy);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Ollama embeddings API error: ${response.status} ${error}`);
+    }
+
+    const data = (await response.json()) as { embeddings: number[][] };
+    return data.embeddings;
+  }
+}
+
 /**
  * Anthropic/Voyage Embedding Provider (via Voyage AI)
  */
@@ -91,7 +221,7 @@ class VoyageEmbeddingProvider implements EmbeddingProvider {
   name = 'voyage';
   dimensions = 1024;
   private apiKey: string;
-  private model: string;
+  readonly model: string;
 
   constructor(apiKey: string, model: string = 'voyage-2') {
     this.apiKey = apiKey;
@@ -137,6 +267,7 @@ class VoyageEmbeddingProvider implements EmbeddingProvider {
  */
 class LocalEmbeddingProvider implements EmbeddingProvider {
   name = 'local';
+  model = 'hashed-bow';
   dimensions = 384; // Smaller dimension for local embeddings
 
   async embed(text: string): Promise<number[]> {
@@ -196,11 +327,182 @@ class LocalEmbeddingProvider implements EmbeddingProvider {
   }
 }
 
+/**
+ * Feature-extraction pipeline as exposed by @huggingface/transformers
+ * Returns a [batch, dimensions] tensor for a list of texts
+ */
+export type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean },
+) => Promise<{ tolist(): number[][] }>;
+
+interface TransformersModule {
+  env: { allowRemoteModels: boolean; localModelPath: string };
+  pipeline(
+    task: 'feature-extraction',
+    model: string,
+    options: { local_files_only: boolean; dtype: string },
+  ): Promise<FeatureExtractor>;
+}
+
+// Optional peer dependency; kept out of static imports so it is only
+// required when the transformers provider is selected
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+const DEFAULT_LOCAL_MODEL = 'all-MiniLM-L6-v2';
+
+/**
+ * Sentence-embedding model run locally through ONNX Runtime
+ * Loads weights from a model directory on disk and never touches the network.
+ * The directory uses the Hugging Face layout: config.json, tokenizer.json and
+ * onnx/model.onnx (or onnx/model_quantized.onnx)
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  name = 'transformers';
+  model: string;
+  dimensions: number;
+  readonly modelPath: string;
+  private batchSize: number;
+  private cacheSize: number;
+  private quantized: boolean;
+  private cache = new Map<string, number[]>();
+  private extractor: Promise<FeatureExtractor> | null = null;
+  private loadExtractor: () => Promise<FeatureExtractor>;
+
+  constructor(
+    config: Omit<EmbeddingConfig, 'provider'> = {},
+    loadExtractor?: () => Promise<FeatureExtractor>,
+  ) {
+    const path = config.modelPath
+      ?? join('~/.openclaw/memory/models', config.model ?? DEFAULT_LOCAL_MODEL);
+    this.modelPath = path.startsWith('~') ? path.replace('~', homedir()) : path;
+    this.model = basename(this.modelPath);
+    this.batchSize = Math.max(1, config.batchSize ?? 32);
+    this.cacheSize = Math.max(0, config.cacheSize ?? 1000);
+    this.quantized = config.quantized ?? false;
+    this.dimensions = config.dimensions ?? this.readHiddenSize() ?? 384;
+    this.loadExtractor = loadExtractor ?? (() => this.loadFromDisk());
+  }
+
+  /**
+   * Load the model once; throws if the package or the weights are missing
+   */
+  async init(): Promise<void> {
+    await this.getExtractor();
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const results = await this.embedBatch([text]);
+    return results[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const results = new Map<string, number[]>();
+    const missing: string[] = [];
+
+    for (const text of texts) {
+      if (results.has(text)) continue;
+      const cached = this.cache.get(text);
+      if (cached) {
+        // Refresh recency
+        this.cache.delete(text);
+        this.cache.set(text, cached);
+        results.set(text, cached);
+      } else if (!missing.includes(text)) {
+        missing.push(text);
+      }
+    }
+
+    if (missing.length > 0) {
+      const extractor = await this.getExtractor();
+
+      for (let i = 0; i < missing.length; i += this.batchSize) {
+        const batch = missing.slice(i, i + this.batchSize);
+        const output = await extractor(batch, { pooling: 'mean', normalize: true });
+        const vectors = output.tolist();
+
+        for (let j = 0; j < batch.length; j++) {
+          const vector = vectors[j];
+          if (!vector || vector.length !== this.dimensions) {
+            throw new Error(
+              `Model at ${this.modelPath} returned ${vector?.length ?? 0} dimensions, ` +
+              `expected ${this.dimensions}`,
+            );
+          }
+          results.set(batch[j], vector);
+          this.remember(batch[j], vector);
+        }
+      }
+    }
+
+    return texts.map((text) => results.get(text)!);
+  }
+
+  private remember(text: string, vector: number[]): void {
+    if (this.cacheSize === 0) return;
+    this.cache.set(text, vector);
+    if (this.cache.size > this.cacheSize) {
+      // Maps iterate in insertion order, so the first key is the least recently used
+      const [oldest] = this.cache.keys();
+      this.cache.delete(oldest);
+    }
+  }
+
+  private getExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor();
+      // Allow a retry after a failed load (e.g. weights copied in later)
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  private async loadFromDisk(): Promise<FeatureExtractor> {
+    if (!existsSync(join(this.modelPath, 'config.json'))) {
+      throw new Error(`no model found at ${this.modelPath}`);
+    }
+
+    let transformers: TransformersModule;
+    try {
+      transformers = (await import(TRANSFORMERS_PACKAGE)) as TransformersModule;
+    } catch {
+      throw new Error(`${TRANSFORMERS_PACKAGE} is not installed`);
+    }
+
+    // Resolve models from the parent directory only, never from the Hub
+    transformers.env.allowRemoteModels = false;
+    transformers.env.localModelPath = dirname(this.modelPath);
+
+    return transformers.pipeline('feature-extraction', basename(this.modelPath), {
+      local_files_only: true,
+      dtype: this.quantized ? 'q8' : 'fp32',
+    });
+  }
+
+  /**
+   * Embedding size from the model's config.json, so the vector table can be
+   * created before the weights are loaded
+   */
+  private readHiddenSize(): number | undefined {
+    try {
+      const config = JSON.parse(
+        readFileSync(join(this.modelPath, 'config.json'), 'utf-8'),
+      ) as { hidden_size?: number; dim?: number };
+      return config.hidden_size ?? config.dim;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
 /**
  * Null provider that returns empty embeddings (disables semantic search)
  */
 class NullEmbeddingProvider implements EmbeddingProvider {
   name = 'none';
+  model = 'none';
   dimensions = 0;
 
   async embed(_text: string): Promise<number[]> {
@@ -214,26 +516,267 @@ class NullEmbeddingProvider implements EmbeddingProvider {
 
 // ========== Embedding Manager ==========
 
+interface EmbeddingIndexRow {
+  id: string;
+  provider: string;
+  model: string;
+  dimensions: number;
+  backend: 'vec' | 'blob';
+  table_name: string;
+  config: string | null;
+  status: 'active' | 'building';
+  created_at: string;
+  activated_at: string | null;
+}
+
+export interface EmbeddingIndexInfo {
+  id: string;
+  provider: string;
+  model: string;
+  dimensions: number;
+  backend: 'vec' | 'blob';
+  status: 'active' | 'building';
+  embedded: number;
+  createdAt: string;
+  activatedAt: string | null;
+}
+
+export interface EmbeddingStatus {
+  /** Index that serves semantic search */
+  active: EmbeddingIndexInfo | null;
+  /** Index for the configured model while it is being built */
+  pending: EmbeddingIndexInfo | null;
+  /** Clauses missing from the configured model's index or embedded from old text */
+  stale: number;
+  /** False while the active index's model cannot embed queries */
+  searchable: boolean;
+}
+
+export interface ReindexProgress {
+  model: string;
+  total: number;
+  done: number;
+  embedded: number;
+  errors: number;
+}
+
+export interface ReindexOptions {
+  /** Texts per embedding call (default 64) */
+  batchSize?: number;
+  /** Re-embed every clause instead of only stale ones */
+  force?: boolean;
+  /** Stop after the current batch; finished batches are kept */
+  signal?: AbortSignal;
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+export interface ReindexResult extends ReindexProgress {
+  /** The configured model's index replaced the previous one */
+  switched: boolean;
+  aborted: boolean;
+  previousModel: string | null;
+}
+
+// Table names used before indexes were versioned; adopted by the first index
+const LEGACY_TABLES = { vec: 'vec_clauses', blob: 'clause_embeddings' } as const;
+
+interface AnnState {
+  index: EmbeddingIndexRow;
+  graph: HnswIndex;
+  // Text hash each vector was embedded from; compared with embedding_state on load
+  hashes: Map<string, string>;
+  dirty: boolean;
+}
+
+const ANN_MIN_SIZE = 2000;
+
+// Queued index updates are applied after a short pause, or at once when this many pile up
+const MAINTENANCE_BATCH_SIZE = 64;
+const MAINTENANCE_DELAY_MS = 50;
+
 export class EmbeddingManager {
   private db: DatabaseManager;
+  private config: EmbeddingConfig;
   private provider: EmbeddingProvider;
   private sqliteVecAvailable = false;
+  // Index for the configured model; receives all new embeddings
+  private writeIndex: EmbeddingIndexRow | null = null;
+  // Index that serves search, and the provider that embeds queries for it
+  private readIndex: EmbeddingIndexRow | null = null;
+  private readProvider: EmbeddingProvider | null = null;
+  // HNSW graph over the read index when it is blob-backed, loaded on first search
+  private ann: AnnState | null = null;
+  // The graph file holds every embedding, so it is sealed like the database
+  private encryptionKey: string | null = null;
+  // Index maintenance queued from clause events: clause ID → text to embed, or null to remove
+  private pending = new Map<string, string | null>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private unsubscribe: Array<() => void> = [];
 
   constructor(db: DatabaseManager, config: EmbeddingConfig = { provider: 'none' }) {
     this.db = db;
+    this.config = config;
     this.provider = this.createProvider(config);
   }
 
+  /**
+   * Seal saved ANN graphs with this passphrase (null writes them in plaintext)
+   */
+  setEncryptionKey(key: string | null): void {
+    this.encryptionKey = key;
+  }
+
+  /**
+   * Re-seal saved ANN graphs under a new passphrase (null decrypts them)
+   */
+  rekeyAnn(newKey: string | null): { rekeyed: number; failed: string[] } {
+    const result = { rekeyed: 0, failed: [] as string[] };
+
+    for (const index of this.db.all<EmbeddingIndexRow>('SELECT * FROM embedding_indexes')) {
+      const path = this.annPath(index);
+      if (!path || !existsSync(path)) continue;
+      if (rekeyFile(path, this.encryptionKey, newKey)) {
+        result.rekeyed++;
+      } else {
+        result.failed.push(path);
+      }
+    }
+
+    this.encryptionKey = newKey;
+    return result;
+  }
+
+  /**
+   * Keep the index in step with every clause write: created and re-worded
+   * clauses are embedded, invalidated and deleted ones removed. Work is queued
+   * and applied in batches off the write path.
+   */
+  setEventBus(events: EventBus): void {
+    for (const off of this.unsubscribe) off();
+
+    this.unsubscribe = [
+      events.on('clause_created', ({ clause }) => {
+        if (clause.valid_to === null) this.enqueue(clause.id, clause.natural_form);
+      }),
+      events.on('clause_updated', ({ clause, changes }) => {
+        if ('natural_form' in changes || 'valid_to' in changes) {
+          this.enqueue(clause.id, clause.valid_to === null ? clause.natural_form : null);
+        }
+      }),
+      events.on('clause_invalidated', ({ clauseId }) => this.enqueue(clauseId, null)),
+      events.on('clause_deleted', ({ clauseIds }) => {
+        for (const id of clauseIds) this.enqueue(id, null);
+      }),
+    ];
+  }
+
+  /**
+   * Apply all queued index updates; search calls this first so it sees every write
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    while (this.pending.size > 0 || this.flushing) {
+      if (this.flushing) {
+        await this.flushing;
+        continue;
+      }
+      const batch = this.pending;
+      this.pending = new Map();
+      this.flushing = this.applyPending(batch).finally(() => {
+        this.flushing = null;
+      });
+    }
+  }
+
+  /**
+   * Apply queued updates, save the ANN graph and stop following clause events
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    if (this.ann?.dirty) {
+      this.saveAnn(this.ann);
+    }
+    for (const off of this.unsubscribe) off();
+    this.unsubscribe = [];
+  }
+
+  private enqueue(clauseId: string, text: string | null): void {
+    if (this.provider.dimensions === 0) return;
+
+    // Only the latest change per clause matters
+    this.pending.delete(clauseId);
+    this.pending.set(clauseId, text);
+
+    if (this.pending.size >= MAINTENANCE_BATCH_SIZE) {
+      // flush() clears the pending timer
+      void this.flush();
+      return;
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, MAINTENANCE_DELAY_MS);
+      // Pending work is flushed on close; it must not keep the process alive
+      this.flushTimer.unref();
+    }
+  }
+
+  private async applyPending(batch: Map<string, string | null>): Promise<void> {
+    const upserts: Array<{ id: string; text: string }> = [];
+
+    for (const [id, text] of batch) {
+      if (text === null) {
+        await this.deleteEmbedding(id);
+      } else {
+        upserts.push({ id, text });
+      }
+    }
+
+    for (let i = 0; i < upserts.length; i += MAINTENANCE_BATCH_SIZE) {
+      const chunk = upserts.slice(i, i + MAINTENANCE_BATCH_SIZE);
+      try {
+        await this.embedClausesBatch(chunk);
+      } catch (error) {
+        // Left stale; picked up by the next reindex
+        console.warn(
+          `Failed to embed ${chunk.length} clause(s), run 'om-lite embeddings reindex':`,
+          error,
+        );
+      }
+    }
+  }
+
   /**
    * Initialize the embedding system
+   * Compares the configured model with the stored indexes; after a model change
+   * search keeps using the old index until reindex() completes
    */
   async init(): Promise<void> {
+    // Load the provider first; its dimensions decide the vector table shape
+    if (this.provider.init) {
+      try {
+        await this.provider.init();
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `${this.provider.name} embeddings unavailable (${reason}), falling back to local embeddings`,
+        );
+        this.provider = new LocalEmbeddingProvider();
+      }
+    }
+
     // Check if sqlite-vec is available
     await this.checkSqliteVec();
 
-    // Create embedding table if using vector search
-    if (this.sqliteVecAvailable && this.provider.dimensions > 0) {
-      await this.createVectorTable();
+    if (this.provider.dimensions > 0) {
+      await this.resolveIndexes();
     }
   }
 
@@ -242,69 +785,235 @@ export class EmbeddingManager {
    */
   private async checkSqliteVec(): Promise<void> {
     try {
-      const db = this.db.getDb();
+      const sqliteVec = await import('sqlite-vec');
+      sqliteVec.load(this.db.getDb());
+      this.db.get('SELECT vec_version() AS version');
+      this.sqliteVecAvailable = true;
+    } catch {
+      // sqlite-vec package not installed or extension failed to load
+      this.sqliteVecAvailable = false;
+      console.warn('sqlite-vec not available, using fallback embedding storage');
+    }
+  }
 
-      // Try to dynamically import and load sqlite-vec
-      try {
-        const sqliteVec = await import('sqlite-vec');
-        sqliteVec.load(db);
-      } catch {
-        // sqlite-vec package not installed
-        this.sqliteVecAvailable = false;
-        console.warn('sqlite-vec not available, using fallback embedding storage');
-        return;
-      }
+  // ========== Index Versioning ==========
 
-      // Check if vec0 virtual table type exists
-      const result = this.db.get<{ name: string }>(
-        "SELECT name FROM sqlite_master WHERE type='table' AND name='vec_clauses'"
+  /**
+   * Pick the index to write to (configured model) and to read from (active index)
+   */
+  private async resolveIndexes(): Promise<void> {
+    const backend = this.sqliteVecAvailable ? 'vec' : 'blob';
+    const id = this.indexId(this.provider, backend);
+
+    if (!this.db.get('SELECT id FROM embedding_indexes LIMIT 1')) {
+      this.adoptLegacyIndex(id, backend);
+    }
+
+    let active = this.getIndex("status = 'active'");
+    let current = this.getIndex('id = ?', [id]);
+    if (!current) {
+      current = this.createIndex(id, backend, active ? 'building' : 'active');
+    }
+    if (!active) {
+      this.db.run(
+        "UPDATE embedding_indexes SET status = 'active', activated_at = datetime('now') WHERE id = ?",
+        [id],
       );
+      active = current = this.getIndex('id = ?', [id])!;
+    }
+
+    // A model configured earlier but never finished is abandoned
+    for (const stale of this.db.all<EmbeddingIndexRow>(
+      "SELECT * FROM embedding_indexes WHERE status = 'building' AND id != ?",
+      [id],
+    )) {
+      this.dropIndex(stale);
+    }
+
+    this.writeIndex = current;
+    this.readIndex = active;
+
+    if (active.id === current.id) {
+      this.readProvider = this.provider;
+      return;
+    }
+
+    this.readProvider = await this.providerFor(active);
+    const change = `Embedding model changed from ${label(active)} to ${label(current)}`;
+    console.warn(
+      this.readProvider
+        ? `${change}; semantic search uses the old index until 'om-lite embeddings reindex' completes`
+        : `${change}; semantic search is off until 'om-lite embeddings reindex' completes`,
+    );
+  }
 
-      if (result) {
-        this.sqliteVecAvailable = true;
-        return;
+  /**
+   * Register the pre-versioning table as an index: as the configured model's
+   * index when its vectors fit, otherwise as an unknown model to be replaced
+   */
+  private adoptLegacyIndex(id: string, backend: 'vec' | 'blob'): void {
+    const table = LEGACY_TABLES[backend];
+    let rows = 0;
+    let dimensions: number | null = null;
+    let storedModel: string | null = null;
+
+    if (backend === 'vec') {
+      const existing = this.db.get<{ sql: string }>(
+        "SELECT sql FROM sqlite_master WHERE name = 'vec_clauses'",
+      );
+      if (existing) {
+        rows = this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM vec_clauses')!.count;
+        const match = /FLOAT\[(\d+)\]/i.exec(existing.sql);
+        dimensions = match ? Number(match[1]) : null;
       }
+    } else {
+      const sample = this.db.get<{ model: string; bytes: number; count: number }>(
+        `SELECT model, length(embedding) as bytes, (SELECT COUNT(*) FROM clause_embeddings) as count
+         FROM clause_embeddings LIMIT 1`,
+      );
+      if (sample) {
+        rows = sample.count;
+        dimensions = sample.bytes / 4;
+        storedModel = sample.model;
+      }
+    }
 
-      // Try to create a test vector table
-      try {
-        db.exec(`
-          CREATE VIRTUAL TABLE IF NOT EXISTS vec_clauses USING vec0(
-            clause_id TEXT PRIMARY KEY,
-            embedding FLOAT[${this.provider.dimensions}]
-          )
-        `);
-        this.sqliteVecAvailable = true;
-      } catch {
-        // sqlite-vec extension failed to load properly
-        this.sqliteVecAvailable = false;
-        console.warn('sqlite-vec not available, using fallback embedding storage');
+    const fits = dimensions === this.provider.dimensions
+      && (storedModel === null || storedModel === this.provider.name);
+
+    if (rows === 0 || fits) {
+      const index = this.createIndex(id, backend, 'active', table);
+      if (rows > 0) {
+        // Assume existing vectors match the current text
+        this.backfillState(index);
       }
-    } catch {
-      this.sqliteVecAvailable = false;
+      return;
+    }
+
+    const model = storedModel ?? 'unknown';
+    this.db.run(
+      `INSERT INTO embedding_indexes
+         (id, provider, model, dimensions, backend, table_name, config, status, activated_at)
+       VALUES (?, ?, ?, ?, ?, ?, NULL, 'active', datetime('now'))`,
+      [`legacy:${model}:${dimensions ?? 0}:${backend}`, model, model, dimensions ?? 0, backend, table],
+    );
+  }
+
+  private createIndex(
+    id: string,
+    backend: 'vec' | 'blob',
+    status: 'active' | 'building',
+    tableName?: string,
+  ): EmbeddingIndexRow {
+    const table = tableName ?? `${LEGACY_TABLES[backend]}_${createHash('sha1')
+      .update(id)
+      .digest('hex')
+      .slice(0, 10)}`;
+
+    if (backend === 'vec') {
+      this.db.getDb().exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${table} USING vec0(
+          clause_id TEXT PRIMARY KEY,
+          embedding FLOAT[${this.provider.dimensions}] distance_metric=cosine
+        )
+      `);
+    } else {
+      this.db.getDb().exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          clause_id TEXT PRIMARY KEY REFERENCES clauses(id) ON DELETE CASCADE,
+          embedding BLOB NOT NULL,
+          model TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        )
+      `);
     }
+
+    // Secrets stay in the environment; everything else is needed to embed
+    // queries for this index after the configuration changes
+    const config: EmbeddingConfig = { ...this.config };
+    delete config.apiKey;
+    this.db.run(
+      `INSERT INTO embedding_indexes
+         (id, provider, model, dimensions, backend, table_name, config, status, activated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${status === 'active' ? "datetime('now')" : 'NULL'})`,
+      [
+        id,
+        this.provider.name,
+        this.provider.model ?? this.provider.name,
+        this.provider.dimensions,
+        backend,
+        table,
+        JSON.stringify(config),
+        status,
+      ],
+    );
+
+    return this.getIndex('id = ?', [id])!;
+  }
+
+  private dropIndex(index: EmbeddingIndexRow): void {
+    if (index.backend === 'vec' && !this.sqliteVecAvailable) return;
+
+    this.discardAnn(index);
+    this.db.transaction(() => {
+      this.db.run('DELETE FROM embedding_state WHERE index_id = ?', [index.id]);
+      this.db.run('DELETE FROM embedding_indexes WHERE id = ?', [index.id]);
+      if (index.table_name === LEGACY_TABLES.blob) {
+        // Part of the base schema; emptied rather than dropped
+        this.db.run(`DELETE FROM ${index.table_name}`);
+      } else {
+        this.db.getDb().exec(`DROP TABLE IF EXISTS ${index.table_name}`);
+      }
+    });
+  }
+
+  private backfillState(index: EmbeddingIndexRow): void {
+    const rows = this.db.all<{ id: string; natural_form: string }>(
+      `SELECT c.id, c.natural_form FROM clauses c
+       JOIN ${index.table_name} e ON e.clause_id = c.id`,
+    );
+    this.db.transaction(() => {
+      for (const row of rows) {
+        this.db.run(
+          'INSERT OR REPLACE INTO embedding_state (index_id, clause_id, content_hash) VALUES (?, ?, ?)',
+          [index.id, row.id, contentHash(row.natural_form)],
+        );
+      }
+    });
   }
 
   /**
-   * Create vector table for semantic search
+   * Recreate the provider an index was built with, if it still produces the same vectors
    */
-  private async createVectorTable(): Promise<void> {
-    if (!this.sqliteVecAvailable) return;
+  private async providerFor(index: EmbeddingIndexRow): Promise<EmbeddingProvider | null> {
+    if (!index.config) return null;
 
-    const db = this.db.getDb();
+    try {
+      const provider = this.createProvider(JSON.parse(index.config) as EmbeddingConfig);
+      await provider.init?.();
+      return this.indexId(provider, index.backend) === index.id ? provider : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getIndex(where: string, params: unknown[] = []): EmbeddingIndexRow | null {
+    return this.db.get<EmbeddingIndexRow>(
+      `SELECT * FROM embedding_indexes WHERE ${where} LIMIT 1`,
+      params,
+    ) ?? null;
+  }
 
-    // Create vec0 virtual table for vector similarity search
-    db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS vec_clauses USING vec0(
-        clause_id TEXT PRIMARY KEY,
-        embedding FLOAT[${this.provider.dimensions}]
-      )
-    `);
+  private indexId(provider: EmbeddingProvider, backend: 'vec' | 'blob'): string {
+    return `${provider.name}:${provider.model ?? provider.name}:${provider.dimensions}:${backend}`;
   }
 
   /**
    * Create embedding provider based on config
    */
   private createProvider(config: EmbeddingConfig): EmbeddingProvider {
+    const policy: RequestPolicy = { timeoutMs: config.timeoutMs, retries: config.retries };
+
     switch (config.provider) {
       case 'openai': {
         const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
@@ -312,13 +1021,39 @@ export class EmbeddingManager {
           console.warn('OpenAI API key not configured, falling back to local embeddings');
           return new LocalEmbeddingProvider();
         }
-        return new OpenAIEmbeddingProvider(
+        return new OpenAIEmbeddingProvider({
           apiKey,
-          config.model ?? 'text-embedding-3-small',
-          config.baseUrl
-        );
+          model: config.model,
+          baseUrl: config.baseUrl,
+          policy,
+        });
       }
 
+      case 'openai-compatible': {
+        if (!config.baseUrl || !config.model) {
+          console.warn(
+            'openai-compatible embeddings need baseUrl and model, falling back to local embeddings',
+          );
+          return new LocalEmbeddingProvider();
+        }
+        return new OpenAIEmbeddingProvider({
+          name: 'openai-compatible',
+          apiKey: config.apiKey,
+          model: config.model,
+          baseUrl: config.baseUrl,
+          dimensions: config.dimensions,
+          policy,
+        });
+      }
+
+      case 'ollama':
+        return new OllamaEmbeddingProvider({
+          model: config.model,
+          baseUrl: config.baseUrl,
+          dimensions: config.dimensions,
+          policy,
+        });
+
       case 'anthropic': {
         const apiKey = config.apiKey ?? process.env.VOYAGE_API_KEY;
         if (!apiKey) {
@@ -331,12 +1066,16 @@ export class EmbeddingManager {
       case 'local':
         return new LocalEmbeddingProvider();
 
+      case 'transformers':
+        return new TransformersEmbeddingProvider(config);
+
       case 'none':
       default:
         return new NullEmbeddingProvider();
     }
   }
 
+
   /**
    * Get the current provider
    */
@@ -348,76 +1087,105 @@ export class EmbeddingManager {
    * Check if semantic search is available
    */
   isSemanticSearchAvailable(): boolean {
-    return this.provider.dimensions > 0;
+    return this.provider.dimensions > 0 && this.readProvider !== null;
   }
 
   /**
    * Generate and store embedding for a clause
    */
   async embedClause(clauseId: string, text: string): Promise<void> {
-    if (this.provider.dimensions === 0) return;
-
-    const embedding = await this.provider.embed(text);
-    await this.storeEmbedding(clauseId, embedding);
+    await this.embedClausesBatch([{ id: clauseId, text }]);
   }
 
   /**
    * Generate and store embeddings for multiple clauses
+   * While a new model's index is building, the old index is kept current too
    */
   async embedClausesBatch(
     clauses: Array<{ id: string; text: string }>
   ): Promise<void> {
-    if (this.provider.dimensions === 0 || clauses.length === 0) return;
+    if (this.provider.dimensions === 0 || clauses.length === 0 || !this.writeIndex) return;
 
-    const texts = clauses.map((c) => c.text);
-    const embeddings = await this.provider.embedBatch(texts);
-
-    for (let i = 0; i < clauses.length; i++) {
-      await this.storeEmbedding(clauses[i].id, embeddings[i]);
+    await this.embedInto(this.writeIndex, this.provider, clauses);
+    if (this.readIndex && this.readProvider && this.readIndex.id !== this.writeIndex.id) {
+      await this.embedInto(this.readIndex, this.readProvider, clauses);
     }
   }
 
+  private async embedInto(
+    index: EmbeddingIndexRow,
+    provider: EmbeddingProvider,
+    clauses: Array<{ id: string; text: string }>,
+  ): Promise<void> {
+    const embeddings = await provider.embedBatch(clauses.map((c) => c.text));
+
+    this.db.transaction(() => {
+      for (let i = 0; i < clauses.length; i++) {
+        this.storeEmbedding(index, clauses[i].id, embeddings[i], contentHash(clauses[i].text));
+      }
+    });
+  }
+
   /**
-   * Store embedding in database
+   * Store embedding in an index table and record the text it came from
    */
-  private async storeEmbedding(clauseId: string, embedding: number[]): Promise<void> {
-    if (this.sqliteVecAvailable) {
-      // Use sqlite-vec for vector storage
-      const embeddingJson = JSON.stringify(embedding);
+  private storeEmbedding(
+    index: EmbeddingIndexRow,
+    clauseId: string,
+    embedding: number[],
+    hash: string,
+  ): void {
+    if (index.backend === 'vec') {
+      // vec0 tables do not support INSERT OR REPLACE
+      this.db.run(`DELETE FROM ${index.table_name} WHERE clause_id = ?`, [clauseId]);
       this.db.run(
-        `INSERT OR REPLACE INTO vec_clauses (clause_id, embedding) VALUES (?, ?)`,
-        [clauseId, embeddingJson]
+        `INSERT INTO ${index.table_name} (clause_id, embedding) VALUES (?, ?)`,
+        [clauseId, JSON.stringify(embedding)],
       );
     } else {
-      // Fallback to BLOB storage in clause_embeddings table
       const embeddingBuffer = Buffer.from(new Float32Array(embedding).buffer);
       this.db.run(
-        `INSERT OR REPLACE INTO clause_embeddings (clause_id, embedding, model, created_at)
+        `INSERT OR REPLACE INTO ${index.table_name} (clause_id, embedding, model, created_at)
          VALUES (?, ?, ?, datetime('now'))`,
-        [clauseId, embeddingBuffer, this.provider.name]
+        [clauseId, embeddingBuffer, index.provider],
       );
+      if (this.ann?.index.id === index.id) {
+        this.ann.graph.add(clauseId, embedding);
+        this.ann.hashes.set(clauseId, hash);
+        this.ann.dirty = true;
+      }
     }
+
+    this.db.run(
+      `INSERT OR REPLACE INTO embedding_state (index_id, clause_id, content_hash, embedded_at)
+       VALUES (?, ?, ?, datetime('now'))`,
+      [index.id, clauseId, hash],
+    );
   }
 
   /**
-   * Get embedding for a clause
+   * Get embedding for a clause from the index serving search
    */
   async getEmbedding(clauseId: string): Promise<number[] | null> {
-    if (this.sqliteVecAvailable) {
-      const row = this.db.get<{ embedding: string }>(
-        'SELECT embedding FROM vec_clauses WHERE clause_id = ?',
+    const index = this.readIndex;
+    if (!index) return null;
+
+    await this.flush();
+
+    if (index.backend === 'vec') {
+      const row = this.db.get<{ embedding: Buffer }>(
+        `SELECT embedding FROM ${index.table_name} WHERE clause_id = ?`,
         [clauseId]
       );
-      return row ? JSON.parse(row.embedding) : null;
+      return row ? Array.from(toFloats(row.embedding)) : null;
     } else {
       const row = this.db.get<EmbeddingRow>(
-        'SELECT embedding FROM clause_embeddings WHERE clause_id = ?',
+        `SELECT embedding FROM ${index.table_name} WHERE clause_id = ?`,
         [clauseId]
       );
       if (!row) return null;
 
-      const floatArray = new Float32Array(row.embedding.buffer);
-      return Array.from(floatArray);
+      return Array.from(toFloats(row.embedding));
     }
   }
 
@@ -432,20 +1200,23 @@ export class EmbeddingManager {
       excludeIds?: string[];
     } = {}
   ): Promise<Array<{ clauseId: string; similarity: number }>> {
-    if (this.provider.dimensions === 0) return [];
+    const index = this.readIndex;
+    const provider = this.readProvider;
+    if (!index || !provider || provider.dimensions === 0) return [];
 
+    await this.flush();
     const { limit = 20, minSimilarity = 0.5, excludeIds = [] } = options;
 
-    // Get query embedding
-    const queryEmbedding = await this.provider.embed(query);
+    // Get query embedding from the model the index was built with
+    const queryEmbedding = await provider.embed(query);
 
-    if (this.sqliteVecAvailable) {
+    if (index.backend === 'vec') {
       // Use sqlite-vec for fast similarity search
       const queryJson = JSON.stringify(queryEmbedding);
 
-      let sql = `
+      const sql = `
         SELECT clause_id, distance
-        FROM vec_clauses
+        FROM ${index.table_name}
         WHERE embedding MATCH ?
         ORDER BY distance
         LIMIT ?
@@ -465,32 +1236,40 @@ export class EmbeddingManager {
         }))
         .filter((r) => r.similarity >= minSimilarity)
         .slice(0, limit);
-    } else {
-      // Fallback: load all embeddings and compute similarity in JS
-      const rows = this.db.all<EmbeddingRow>(
-        'SELECT clause_id, embedding FROM clause_embeddings'
-      );
+    }
 
-      const similarities: Array<{ clauseId: string; similarity: number }> = [];
+    const ann = this.annFor(index);
+    if (ann) {
+      return ann.graph.search(queryEmbedding, limit + excludeIds.length)
+        .filter((r) => !excludeIds.includes(r.id) && r.similarity >= minSimilarity)
+        .slice(0, limit)
+        .map((r) => ({ clauseId: r.id, similarity: r.similarity }));
+    }
 
-      for (const row of rows) {
-        if (excludeIds.includes(row.clause_id)) continue;
+    // Small index or ANN disabled: load all embeddings and compute similarity in JS
+    const rows = this.db.all<EmbeddingRow>(
+      `SELECT clause_id, embedding FROM ${index.table_name}`,
+    );
 
-        const embedding = new Float32Array(row.embedding.buffer);
-        const similarity = this.cosineSimilarity(queryEmbedding, Array.from(embedding));
+    const similarities: Array<{ clauseId: string; similarity: number }> = [];
 
-        if (similarity >= minSimilarity) {
-          similarities.push({
-            clauseId: row.clause_id,
-            similarity,
-          });
-        }
-      }
+    for (const row of rows) {
+      if (excludeIds.includes(row.clause_id)) continue;
 
-      return similarities
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      const embedding = toFloats(row.embedding);
+      const similarity = this.cosineSimilarity(queryEmbedding, Array.from(embedding));
+
+      if (similarity >= minSimilarity) {
+        similarities.push({
+          clauseId: row.clause_id,
+          similarity,
+        });
+      }
     }
+
+    return similarities
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
   }
 
   /**
@@ -514,13 +1293,56 @@ export class EmbeddingManager {
   }
 
   /**
-   * Delete embedding for a clause
+   * Delete embedding for a clause from every index
    */
   async deleteEmbedding(clauseId: string): Promise<void> {
-    if (this.sqliteVecAvailable) {
-      this.db.run('DELETE FROM vec_clauses WHERE clause_id = ?', [clauseId]);
+    for (const index of this.db.all<EmbeddingIndexRow>('SELECT * FROM embedding_indexes')) {
+      if (index.backend === 'vec' && !this.sqliteVecAvailable) continue;
+      this.db.run(`DELETE FROM ${index.table_name} WHERE clause_id = ?`, [clauseId]);
+    }
+    this.db.run('DELETE FROM embedding_state WHERE clause_id = ?', [clauseId]);
+
+    const ann = this.ann;
+    if (ann?.graph.remove(clauseId)) {
+      ann.hashes.delete(clauseId);
+      ann.dirty = true;
+      // Tombstones slow searches down; rebuild once they outnumber live vectors
+      if (ann.graph.deleted > ann.graph.size) {
+        ann.graph.compact();
+      }
+    }
+  }
+
+  /**
+   * Delete clauses' vectors for good, returning how many were removed
+   * Unlike deleteEmbedding(), no tombstone keeps the vector in a saved ANN graph:
+   * graphs are discarded and rebuilt on the next search. Throws before deleting
+   * anything when a sqlite-vec table can't be opened, so no vector is left behind
+   */
+  async purgeEmbeddings(clauseIds: string[]): Promise<number> {
+    let removed = 0;
+
+    const indexes = this.db.all<EmbeddingIndexRow>('SELECT * FROM embedding_indexes');
+    const unreadable = indexes.filter((i) => i.backend === 'vec' && !this.sqliteVecAvailable);
+    if (unreadable.length > 0) {
+      throw new Error(
+        `Cannot purge vectors from ${unreadable.map((i) => i.table_name).join(', ')} ` +
+          'without sqlite-vec; install it to delete them',
+      );
+    }
+
+    for (const index of indexes) {
+      for (const id of clauseIds) {
+        removed += this.db.run(`DELETE FROM ${index.table_name} WHERE clause_id = ?`, [id]).changes;
+      }
+      this.discardAnn(index);
+    }
+
+    for (const id of clauseIds) {
+      this.pending.delete(id);
+      this.db.run('DELETE FROM embedding_state WHERE clause_id = ?', [id]);
     }
-    this.db.run('DELETE FROM clause_embeddings WHERE clause_id = ?', [clauseId]);
+    return removed;
   }
 
   /**
@@ -529,19 +1351,16 @@ export class EmbeddingManager {
   async getStats(): Promise<{
     totalEmbeddings: number;
     provider: string;
+    model: string;
     dimensions: number;
     sqliteVecAvailable: boolean;
   }> {
+    await this.flush();
     let totalEmbeddings = 0;
 
-    if (this.sqliteVecAvailable) {
+    if (this.readIndex) {
       const row = this.db.get<{ count: number }>(
-        'SELECT COUNT(*) as count FROM vec_clauses'
-      );
-      totalEmbeddings = row?.count ?? 0;
-    } else {
-      const row = this.db.get<{ count: number }>(
-        'SELECT COUNT(*) as count FROM clause_embeddings'
+        `SELECT COUNT(*) as count FROM ${this.readIndex.table_name}`,
       );
       totalEmbeddings = row?.count ?? 0;
     }
@@ -549,26 +1368,192 @@ export class EmbeddingManager {
     return {
       totalEmbeddings,
       provider: this.provider.name,
+      model: this.provider.model ?? this.provider.name,
       dimensions: this.provider.dimensions,
       sqliteVecAvailable: this.sqliteVecAvailable,
     };
   }
 
+  /**
+   * Report the active index, the index being built and how much is left to embed
+   */
+  async getStatus(): Promise<EmbeddingStatus> {
+    await this.flush();
+    const info = (index: EmbeddingIndexRow | null): EmbeddingIndexInfo | null => {
+      if (!index) return null;
+      const row = this.db.get<{ count: number }>(
+        'SELECT COUNT(*) as count FROM embedding_state WHERE index_id = ?',
+        [index.id],
+      );
+      return {
+        id: index.id,
+        provider: index.provider,
+        model: index.model,
+        dimensions: index.dimensions,
+        backend: index.backend,
+        status: index.status,
+        embedded: row?.count ?? 0,
+        createdAt: index.created_at,
+        activatedAt: index.activated_at,
+      };
+    };
+
+    let stale = 0;
+    if (this.writeIndex) {
+      for (const page of this.scanClauses(this.writeIndex, 500)) {
+        stale += page.filter((c) => c.stale).length;
+      }
+    }
+
+    return {
+      active: info(this.readIndex),
+      pending: this.writeIndex && this.writeIndex.id !== this.readIndex?.id
+        ? info(this.writeIndex)
+        : null,
+      stale,
+      searchable: this.isSemanticSearchAvailable(),
+    };
+  }
+
+  /**
+   * Embed every valid clause missing from the configured model's index, or
+   * embedded from text that has since changed. Progress is committed per batch, so an
+   * interrupted run resumes where it stopped. When the index was built for a
+   * new model and nothing is left, it replaces the previous index.
+   */
+  async reindex(options: ReindexOptions = {}): Promise<ReindexResult> {
+    const index = this.writeIndex;
+    if (!index) {
+      throw new Error('No embedding provider configured');
+    }
+
+    await this.flush();
+    const batchSize = Math.max(1, options.batchSize ?? 64);
+    if (options.force) {
+      this.discardAnn(index);
+      this.db.transaction(() => {
+        this.db.run(`DELETE FROM ${index.table_name}`);
+        this.db.run('DELETE FROM embedding_state WHERE index_id = ?', [index.id]);
+      });
+    }
+
+    const progress: ReindexProgress = {
+      model: label(index),
+      total: this.db.get<{ count: number }>(
+        'SELECT COUNT(*) as count FROM clauses WHERE valid_to IS NULL',
+      )!.count,
+      done: 0,
+      embedded: 0,
+      errors: 0,
+    };
+    let aborted = false;
+    options.onProgress?.({ ...progress });
+
+    scan: for (const page of this.scanClauses(index, batchSize * 4)) {
+      progress.done += page.filter((c) => !c.stale).length;
+      const stale = page.filter((c) => c.stale);
+
+      for (let i = 0; i < stale.length; i += batchSize) {
+        if (options.signal?.aborted) {
+          aborted = true;
+          break scan;
+        }
+
+        const batch = stale.slice(i, i + batchSize);
+        try {
+          await this.embedInto(index, this.provider, batch.map((c) => ({
+            id: c.id,
+            text: c.natural_form,
+          })));
+          progress.embedded += batch.length;
+        } catch (error) {
+          console.error('Error embedding batch:', error);
+          progress.errors += batch.length;
+        }
+        progress.done += batch.length;
+        options.onProgress?.({ ...progress });
+      }
+    }
+
+    const previousModel = this.readIndex && this.readIndex.id !== index.id
+      ? label(this.readIndex)
+      : null;
+    const switched = !aborted && progress.errors === 0 && previousModel !== null;
+    if (switched) {
+      this.activate(index);
+    }
+
+    return { ...progress, switched, aborted, previousModel };
+  }
+
+  /**
+   * Make an index the one serving search and drop the one it replaces
+   */
+  private activate(index: EmbeddingIndexRow): void {
+    const previous = this.readIndex;
+    if (previous && previous.id !== index.id) {
+      this.dropIndex(previous);
+    }
+    this.db.run(
+      "UPDATE embedding_indexes SET status = 'active', activated_at = datetime('now') WHERE id = ?",
+      [index.id],
+    );
+
+    this.writeIndex = this.getIndex('id = ?', [index.id]);
+    this.readIndex = this.writeIndex;
+    this.readProvider = this.provider;
+  }
+
+  /**
+   * Page through valid clauses in ID order, flagging those whose embedding in
+   * the index is missing or was computed from different text
+   */
+  private *scanClauses(
+    index: EmbeddingIndexRow,
+    pageSize: number,
+  ): Generator<Array<{ id: string; natural_form: string; stale: boolean }>> {
+    let lastId = '';
+
+    for (;;) {
+      const rows = this.db.all<{ id: string; natural_form: string; content_hash: string | null }>(
+        `SELECT c.id, c.natural_form, s.content_hash
+         FROM clauses c
+         LEFT JOIN embedding_state s ON s.index_id = ? AND s.clause_id = c.id
+         WHERE c.valid_to IS NULL AND c.id > ?
+         ORDER BY c.id
+         LIMIT ?`,
+        [index.id, lastId, pageSize],
+      );
+      if (rows.length === 0) return;
+
+      lastId = rows[rows.length - 1].id;
+      yield rows.map((r) => ({
+        id: r.id,
+        natural_form: r.natural_form,
+        stale: r.content_hash !== contentHash(r.natural_form),
+      }));
+    }
+  }
+
   /**
    * Rebuild all embeddings (useful when changing providers)
    */
   async rebuildEmbeddings(
     getClauses: () => Promise<Array<{ id: string; natural_form: string }>>
   ): Promise<{ processed: number; errors: number }> {
+    const index = this.writeIndex;
+    if (!index) return { processed: 0, errors: 0 };
+
     const clauses = await getClauses();
     let processed = 0;
     let errors = 0;
 
     // Clear existing embeddings
-    if (this.sqliteVecAvailable) {
-      this.db.run('DELETE FROM vec_clauses');
-    }
-    this.db.run('DELETE FROM clause_embeddings');
+    this.discardAnn(index);
+    this.db.transaction(() => {
+      this.db.run(`DELETE FROM ${index.table_name}`);
+      this.db.run('DELETE FROM embedding_state WHERE index_id = ?', [index.id]);
+    });
 
     // Process in batches
     const batchSize = 100;
@@ -576,9 +1561,10 @@ export class EmbeddingManager {
       const batch = clauses.slice(i, i + batchSize);
 
       try {
-        await this.embedClausesBatch(
-          batch.map((c) => ({ id: c.id, text: c.natural_form }))
-        );
+        await this.embedInto(index, this.provider, batch.map((c) => ({
+          id: c.id,
+          text: c.natural_form,
+        })));
         processed += batch.length;
       } catch (error) {
         console.error('Error embedding batch:', error);
@@ -586,13 +1572,262 @@ export class EmbeddingManager {
       }
     }
 
+    if (errors === 0 && this.readIndex && this.readIndex.id !== index.id) {
+      this.activate(index);
+    }
+
     return { processed, errors };
   }
+
+  // ========== ANN Index ==========
+
+  /**
+   * Rebuild the ANN graph of the index serving search from its stored vectors
+   */
+  async rebuildAnnIndex(): Promise<{ size: number; durationMs: number }> {
+    const index = this.readIndex;
+    if (!index) {
+      throw new Error('No embedding provider configured');
+    }
+    if (index.backend !== 'blob') {
+      throw new Error('sqlite-vec serves semantic search; there is no ANN index to rebuild');
+    }
+
+    await this.flush();
+    const started = Date.now();
+    this.discardAnn(index);
+    this.ann = this.buildAnn(index);
+    return { size: this.ann.graph.size, durationMs: Date.now() - started };
+  }
+
+  /**
+   * ANN graph for a blob-backed index, loaded from disk or built on first use
+   * Null when the index is small enough to scan or ANN is disabled
+   */
+  private annFor(index: EmbeddingIndexRow): AnnState | null {
+    const options = this.config.ann ?? {};
+    if (index.backend !== 'blob' || options.enabled === false) return null;
+    if (this.ann?.index.id === index.id) return this.ann;
+
+    const row = this.db.get<{ count: number }>(`SELECT COUNT(*) as count FROM ${index.table_name}`);
+    if ((row?.count ?? 0) < (options.minSize ?? ANN_MIN_SIZE)) return null;
+
+    this.ann = this.loadAnn(index) ?? this.buildAnn(index);
+    return this.ann;
+  }
+
+  private buildAnn(index: EmbeddingIndexRow): AnnState {
+    const graph = new HnswIndex(index.dimensions, this.config.ann);
+    const hashes = new Map<string, string>();
+    let lastId = '';
+
+    for (;;) {
+      const rows = this.db.all<EmbeddingRow & { content_hash: string | null }>(
+        `SELECT e.clause_id, e.embedding, s.content_hash
+         FROM ${index.table_name} e
+         LEFT JOIN embedding_state s ON s.index_id = ? AND s.clause_id = e.clause_id
+         WHERE e.clause_id > ?
+         ORDER BY e.clause_id
+         LIMIT 1000`,
+        [index.id, lastId],
+      );
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        graph.add(row.clause_id, toFloats(row.embedding));
+        if (row.content_hash) hashes.set(row.clause_id, row.content_hash);
+      }
+      lastId = rows[rows.length - 1].clause_id;
+    }
+
+    const state: AnnState = { index, graph, hashes, dirty: true };
+    this.saveAnn(state);
+    return state;
+  }
+
+  /**
+   * Read a saved graph and apply writes made since it was saved
+   */
+  private loadAnn(index: EmbeddingIndexRow): AnnState | null {
+    const path = this.annPath(index);
+    if (!path || !existsSync(path)) return null;
+
+    let state: AnnState;
+    try {
+      const file = readFileSealed(path, this.encryptionKey);
+      const headerLength = file.readUInt32LE(0);
+      const header = JSON.parse(file.toString('utf-8', 4, 4 + headerLength)) as {
+        index: string;
+        hashes: Record<string, string>;
+      };
+      if (header.index !== index.id) return null;
+
+      state = {
+        index,
+        graph: HnswIndex.deserialize(file.subarray(4 + headerLength), this.config.ann),
+        hashes: new Map(Object.entries(header.hashes)),
+        dirty: false,
+      };
+    } catch (error) {
+      console.warn(`Ignoring unreadable ANN index ${path}, rebuilding:`, error);
+      return null;
+    }
+
+    const current = new Map(
+      this.db.all<{ clause_id: string; content_hash: string }>(
+        'SELECT clause_id, content_hash FROM embedding_state WHERE index_id = ?',
+        [index.id],
+      ).map((r) => [r.clause_id, r.content_hash]),
+    );
+
+    for (const id of [...state.graph.keys()]) {
+      if (!current.has(id)) {
+        state.graph.remove(id);
+        state.hashes.delete(id);
+        state.dirty = true;
+      }
+    }
+    for (const [id, hash] of current) {
+      if (state.hashes.get(id) === hash && state.graph.has(id)) continue;
+
+      const row = this.db.get<{ embedding: Buffer }>(
+        `SELECT embedding FROM ${index.table_name} WHERE clause_id = ?`,
+        [id],
+      );
+      if (row) {
+        state.graph.add(id, toFloats(row.embedding));
+        state.hashes.set(id, hash);
+        state.dirty = true;
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Write the graph next to the database: header length, JSON header, graph
+   * Sealed with the encryption passphrase when one is set
+   */
+  private saveAnn(state: AnnState): void {
+    const path = this.annPath(state.index);
+    if (!path) return;
+
+    try {
+      const header = Buffer.from(JSON.stringify({
+        index: state.index.id,
+        hashes: Object.fromEntries(state.hashes),
+      }));
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(header.length);
+
+      // Written aside and renamed so a crash never leaves a truncated file
+      writeFileSealed(
+        `${path}.tmp`,
+        Buffer.concat([length, header, state.graph.serialize()]),
+        this.encryptionKey,
+      );
+      renameSync(`${path}.tmp`, path);
+      state.dirty = false;
+    } catch (error) {
+      console.warn(`Failed to save ANN index ${path}:`, error);
+    }
+  }
+
+  private discardAnn(index: EmbeddingIndexRow): void {
+    if (this.ann?.index.id === index.id) {
+      this.ann = null;
+    }
+    const path = this.annPath(index);
+    if (path && existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+
+  private annPath(index: EmbeddingIndexRow): string | null {
+    const dbPath = this.db.getPath();
+    return dbPath === ':memory:' ? null : `${dbPath}-${index.table_name}.hnsw`;
+  }
+}
+
+// ========== Config ==========
+
+const PROVIDERS: EmbeddingConfig['provider'][] = [
+  'openai', 'anthropic', 'local', 'transformers', 'ollama', 'openai-compatible', 'none',
+];
+
+/**
+ * Read embedding settings from the OpenClaw config file (memory.om_lite.embedding)
+ * Returns undefined when the file or section is missing, leaving the default provider
+ */
+export function loadEmbeddingConfig(
+  path: string = '~/.openclaw/config.yaml',
+): EmbeddingConfig | undefined {
+  const file = path.startsWith('~') ? path.replace('~', homedir()) : path;
+  if (!existsSync(file)) return undefined;
+
+  const parsed = parseYaml(readFileSync(file, 'utf-8')) as {
+    memory?: { om_lite?: { embedding?: Record<string, unknown> } };
+  } | null;
+  const section = parsed?.memory?.om_lite?.embedding;
+  if (!section) return undefined;
+
+  const provider = section.provider as EmbeddingConfig['provider'];
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown embedding provider in ${path}: ${String(section.provider)}`);
+  }
+
+  const string = (key: string): string | undefined => {
+    const value = section[key];
+    return typeof value === 'string' ? value : undefined;
+  };
+  const number = (key: string): number | undefined => {
+    const value = section[key];
+    return typeof value === 'number' ? value : undefined;
+  };
+  const apiKeyEnv = string('api_key_env');
+  const ann = section.ann as Record<string, unknown> | undefined;
+
+  return {
+    provider,
+    model: string('model'),
+    apiKey: string('api_key') ?? (apiKeyEnv ? process.env[apiKeyEnv] : undefined),
+    baseUrl: string('base_url'),
+    dimensions: number('dimensions'),
+    modelPath: string('model_path'),
+    batchSize: number('batch_size'),
+    cacheSize: number('cache_size'),
+    quantized: typeof section.quantized === 'boolean' ? section.quantized : undefined,
+    timeoutMs: number('timeout_ms'),
+    retries: number('retries'),
+    ann: ann && {
+      enabled: typeof ann.enabled === 'boolean' ? ann.enabled : undefined,
+      minSize: typeof ann.min_size === 'number' ? ann.min_size : undefined,
+      m: typeof ann.m === 'number' ? ann.m : undefined,
+      efConstruction: typeof ann.ef_construction === 'number' ? ann.ef_construction : undefined,
+      efSearch: typeof ann.ef_search === 'number' ? ann.ef_search : undefined,
+    },
+  };
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+function label(index: EmbeddingIndexRow): string {
+  return index.provider === index.model
+    ? `${index.provider} (${index.dimensions}d)`
+    : `${index.provider}/${index.model} (${index.dimensions}d)`;
+}
+
+// Copy first: a Buffer's offset into its pooled ArrayBuffer need not be 4-byte aligned
+function toFloats(buffer: Buffer): Float32Array {
+  return new Float32Array(new Uint8Array(buffer).buffer);
 }
 
 // Export provider implementations for custom use
 export {
   OpenAIEmbeddingProvider,
+  OllamaEmbeddingProvider,
   VoyageEmbeddingProvider,
   LocalEmbeddingProvider,
   NullEmbeddingProvider,
@@ -0,0 +1,243 @@
+/**
+ * Encryption module - Keys and encrypted files for data at rest
+ * The database is encrypted page by page through a SQLCipher-compatible SQLite
+ * build; source archives and backups are sealed with AES-256-GCM under a key
+ * derived from the same passphrase
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { execFileSync } from 'child_process';
+import { closeSync, existsSync, openSync, readFileSync, readSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
+
+// ========== Types ==========
+
+export interface EncryptionConfig {
+  /** Passphrase, when the caller already has it */
+  key?: string;
+  /** Environment variable holding the passphrase (default: OM_LITE_KEY) */
+  keyEnv?: string;
+  /** File holding the passphrase */
+  keyFile?: string;
+  /** OS keyring entry holding the passphrase (macOS Keychain or libsecret) */
+  keyring?: { service: string; account: string };
+  /** Open a plaintext database despite the key, so rekey() can encrypt it (default: false) */
+  allowPlaintext?: boolean;
+}
+
+export interface RekeyReport {
+  /** Whether the database is encrypted after the rekey */
+  databaseEncrypted: boolean;
+  archivesRekeyed: number;
+  backupsRekeyed: number;
+  /** Saved ANN graphs (<db>-<table>.hnsw) */
+  annIndexesRekeyed: number;
+  /** Files that could not be decrypted with the old key, left untouched */
+  failed: string[];
+}
+
+export const DEFAULT_KEY_ENV = 'OM_LITE_KEY';
+
+/** SQLite build with SQLCipher-compatible encryption; same API as better-sqlite3 */
+export const SQLCIPHER_PACKAGE = 'better-sqlite3-multiple-ciphers';
+
+// File layout: magic | salt | iv | auth tag | ciphertext
+const MAGIC = Buffer.from('OMLENC01');
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + SALT_BYTES + IV_BYTES + TAG_BYTES;
+
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0');
+
+// ========== Keys ==========
+
+/**
+ * Resolve the passphrase: explicit key, then the environment variable, the keyfile
+ * and the OS keyring. Returns null when none is configured (encryption off).
+ */
+export function resolveEncryptionKey(config: EncryptionConfig = {}): string | null {
+  if (config.key) return config.key;
+
+  const fromEnv = process.env[config.keyEnv ?? DEFAULT_KEY_ENV];
+  if (fromEnv) return fromEnv;
+
+  if (config.keyFile) {
+    return readKeyFile(config.keyFile);
+  }
+
+  if (config.keyring) {
+    return readKeyring(config.keyring.service, config.keyring.account);
+  }
+
+  return null;
+}
+
+/**
+ * Load the encryption section of config.yaml
+ * memory.om_lite.encryption: { key_env, key_file, keyring: { service, account } }
+ */
+export function loadEncryptionConfig(
+  path: string = '~/.openclaw/config.yaml',
+): EncryptionConfig | undefined {
+  const file = path.startsWith('~') ? path.replace('~', homedir()) : path;
+  if (!existsSync(file)) return undefined;
+
+  const parsed = parseYaml(readFileSync(file, 'utf-8')) as {
+    memory?: { om_lite?: { encryption?: Record<string, unknown> } };
+  } | null;
+  const section = parsed?.memory?.om_lite?.encryption;
+  if (!section) return undefined;
+
+  const keyring = section.keyring as Record<string, unknown> | undefined;
+  return {
+    keyEnv: typeof section.key_env === 'string' ? section.key_env : undefined,
+    keyFile: typeof section.key_file === 'string' ? section.key_file : undefined,
+    keyring: keyring && typeof keyring.service === 'string'
+      ? { service: keyring.service, account: String(keyring.account ?? 'om-lite') }
+      : undefined,
+  };
+}
+
+/**
+ * Read a passphrase from a keyfile, ignoring surrounding whitespace
+ */
+export function readKeyFile(path: string): string {
+  const file = path.replace(/^~/, homedir());
+  if (!existsSync(file)) {
+    throw new Error(`Encryption key file not found: ${path}`);
+  }
+  const key = readFileSync(file, 'utf-8').trim();
+  if (!key) {
+    throw new Error(`Encryption key file is empty: ${path}`);
+  }
+  return key;
+}
+
+function readKeyring(service: string, account: string): string {
+  const [command, args] = process.platform === 'darwin'
+    ? ['security', ['find-generic-password', '-s', service, '-a', account, '-w']]
+    : ['secret-tool', ['lookup', 'service', service, 'account', account]];
+
+  let key: string;
+  try {
+    key = execFileSync(command, args, { encoding: 'utf-8', timeout: 10000 }).trim();
+  } catch (error) {
+    throw new Error(`Could not read ${service}/${account} from the OS keyring: ${String(error)}`);
+  }
+  if (!key) {
+    throw new Error(`No key stored in the OS keyring for ${service}/${account}`);
+  }
+  return key;
+}
+
+// ========== Sealed Files ==========
+
+/**
+ * Encrypt data with AES-256-GCM under a key derived from the passphrase
+ */
+export function encryptBuffer(data: Buffer, passphrase: string): Buffer {
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([MAGIC, salt, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt data sealed by encryptBuffer(); fails on a wrong key or tampered data
+ */
+export function decryptBuffer(data: Buffer, passphrase: string): Buffer {
+  if (!isEncrypted(data)) {
+    throw new Error('Data is not encrypted by OM-Lite');
+  }
+
+  let offset = MAGIC.length;
+  const salt = data.subarray(offset, (offset += SALT_BYTES));
+  const iv = data.subarray(offset, (offset += IV_BYTES));
+  const tag = data.subarray(offset, (offset += TAG_BYTES));
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data.subarray(HEADER_BYTES)), decipher.final()]);
+  } catch {
+    throw new Error('Cannot decrypt: wrong encryption key or corrupted data');
+  }
+}
+
+/**
+ * Whether data was sealed by encryptBuffer()
+ */
+export function isEncrypted(data: Buffer): boolean {
+  return data.length >= HEADER_BYTES && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Write a file, sealed when a passphrase is given
+ */
+export function writeFileSealed(
+  path: string,
+  data: string | Buffer,
+  passphrase: string | null,
+): void {
+  const bytes = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+  writeFileSync(path, passphrase ? encryptBuffer(bytes, passphrase) : bytes, { mode: 0o600 });
+}
+
+/**
+ * Read a file written by writeFileSealed(), sealed or not
+ */
+export function readFileSealed(path: string, passphrase: string | null): Buffer {
+  const data = readFileSync(path);
+  if (!isEncrypted(data)) return data;
+  if (!passphrase) {
+    throw new Error(`${path} is encrypted; set ${DEFAULT_KEY_ENV} or configure a key`);
+  }
+  return decryptBuffer(data, passphrase);
+}
+
+/**
+ * Re-seal a file under a new passphrase (null writes it in plaintext)
+ * Returns false when the file could not be decrypted with the old passphrase
+ */
+export function rekeyFile(path: string, oldKey: string | null, newKey: string | null): boolean {
+  let data: Buffer;
+  try {
+    data = readFileSealed(path, oldKey);
+  } catch {
+    return false;
+  }
+  writeFileSealed(path, data, newKey);
+  return true;
+}
+
+/**
+ * Whether a file was sealed by writeFileSealed()
+ */
+export function isEncryptedFile(path: string): boolean {
+  return existsSync(path) && readHeader(path, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Whether a file starts with the plaintext SQLite header
+ */
+export function isPlaintextDatabase(path: string): boolean {
+  return existsSync(path) && readHeader(path, SQLITE_HEADER.length).equals(SQLITE_HEADER);
+}
+
+function readHeader(path: string, length: number): Buffer {
+  const header = Buffer.alloc(length);
+  const fd = openSync(path, 'r');
+  try {
+    readSync(fd, header, 0, length, 0);
+  } finally {
+    closeSync(fd);
+  }
+  return header;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
@@ -0,0 +1,471 @@
+/**
+ * Entities module - First-class entities and entity resolution
+ * Links clause subjects and objects to typed entity IDs, with merge and split
+ */
+
+import type { DatabaseManager } from './database.js';
+import { EventBus } from './events.js';
+import { ChangeJournal } from './journal.js';
+import type {
+  Clause,
+  Entity,
+  EntityMergeResult,
+  EntitySplitResult,
+} from './types.js';
+
+interface EntityRow {
+  id: string;
+  type: string;
+  canonical_name: string;
+  attributes: string;
+  merged_into: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LinkRow {
+  clause_id: string;
+  role: 'subject' | 'object';
+  entity_id: string;
+  surface: string;
+}
+
+export interface EntityInput {
+  id?: string;
+  type: string;
+  canonical_name: string;
+  aliases?: string[];
+  attributes?: Record<string, unknown>;
+}
+
+export interface SplitOptions {
+  /** Aliases (and clause surfaces) that belong to the new entity */
+  aliases: string[];
+  /** ID for the new entity; defaults to <type>:<slug of name> */
+  id?: string;
+  name?: string;
+  type?: string;
+}
+
+type LinkableClause = Pick<Clause, 'id' | 'subject' | 'predicate' | 'object' | 'metadata'>;
+
+// Typed IDs as used by packs: airline:united, person:john_smith, airport:JFK
+const TYPED_ID = /^([a-z][a-z0-9_-]*):([A-Za-z0-9][\w.-]*)$/;
+
+// Predicates whose object is another name for the subject
+const NAME_PREDICATES = ['full_name', 'official_name', 'name', 'known_as', 'also_known_as'];
+
+// Guards against cycles in merged_into chains
+const MAX_MERGE_DEPTH = 20;
+
+export class EntityResolver {
+  private db: DatabaseManager;
+  private journal: ChangeJournal;
+  private events: EventBus = new EventBus();
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+    this.journal = new ChangeJournal(db);
+  }
+
+  /**
+   * Set the event bus used to publish clause updates caused by merges and splits
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
+  // ========== Lookup ==========
+
+  /**
+   * Get an entity by ID without following merges
+   */
+  get(id: string): Entity | null {
+    const row = this.db.get<EntityRow>('SELECT * FROM entities WHERE id = ?', [id]);
+    return row ? this.rowToEntity(row) : null;
+  }
+
+  /**
+   * Resolve an ID, alias or canonical name to the current (unmerged) entity
+   */
+  resolve(name: string): Entity | null {
+    const id = this.lookupId(name.trim());
+    return id ? this.get(this.followMerges(id)) : null;
+  }
+
+  /**
+   * List entities
+   */
+  list(options: { type?: string; includeMerged?: boolean; limit?: number } = {}): Entity[] {
+    let sql = 'SELECT * FROM entities WHERE 1 = 1';
+    const params: unknown[] = [];
+
+    if (options.type) {
+      sql += ' AND type = ?';
+      params.push(options.type);
+    }
+    if (!options.includeMerged) {
+      sql += ' AND merged_into IS NULL';
+    }
+    sql += ' ORDER BY type, canonical_name LIMIT ?';
+    params.push(options.limit ?? 1000);
+
+    return this.db.all<EntityRow>(sql, params).map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * IDs of clauses linked to an entity as subject or object
+   */
+  getClauseIds(entityId: string, options: { includeExpired?: boolean } = {}): string[] {
+    const rows = this.db.all<{ clause_id: string }>(
+      `SELECT DISTINCT l.clause_id FROM clause_entity_links l
+       JOIN clauses c ON c.id = l.clause_id
+       WHERE l.entity_id = ?${options.includeExpired ? '' : ' AND c.valid_to IS NULL'}
+       ORDER BY c.recorded_at`,
+      [entityId],
+    );
+    return rows.map((r) => r.clause_id);
+  }
+
+  // ========== Creation ==========
+
+  /**
+   * Create an entity
+   */
+  create(input: EntityInput): Entity {
+    const id = input.id ?? `${input.type}:${slugify(input.canonical_name)}`;
+    if (this.get(id)) {
+      throw new Error(`Entity already exists: ${id}`);
+    }
+
+    this.db.run(
+      'INSERT INTO entities (id, type, canonical_name, attributes) VALUES (?, ?, ?, ?)',
+      [id, input.type, input.canonical_name, JSON.stringify(input.attributes ?? {})],
+    );
+    for (const alias of input.aliases ?? []) {
+      this.addAlias(alias, id);
+    }
+
+    return this.get(id)!;
+  }
+
+  /**
+   * Get the entity for a typed ID, creating it on first sight
+   */
+  ensure(typedId: string): Entity | null {
+    const match = TYPED_ID.exec(typedId);
+    if (!match) return null;
+
+    const existing = this.get(typedId);
+    if (existing) {
+      return existing.merged_into ? this.get(this.followMerges(existing.id)) : existing;
+    }
+
+    return this.create({ id: typedId, type: match[1], canonical_name: humanize(match[2]) });
+  }
+
+  /**
+   * Merge attributes into an entity (existing keys are overwritten)
+   */
+  setAttributes(entityId: string, attributes: Record<string, unknown>): Entity | null {
+    const entity = this.resolve(entityId);
+    if (!entity) return null;
+
+    this.db.run(
+      "UPDATE entities SET attributes = ?, updated_at = datetime('now') WHERE id = ?",
+      [JSON.stringify({ ...entity.attributes, ...attributes }), entity.id],
+    );
+    return this.get(entity.id);
+  }
+
+  // ========== Linking ==========
+
+  /**
+   * Link a clause's subject and object to entities
+   * Typed IDs become entities automatically; other strings only link when known
+   */
+  linkClause(clause: LinkableClause): void {
+    const original = (clause.metadata?.normalized_from ?? {}) as {
+      subject?: string;
+      object?: string;
+    };
+    const subject = this.resolveForLink(clause.subject);
+    const object = this.resolveForLink(clause.object);
+
+    this.setLink(clause.id, 'subject', subject?.id ?? null, original.subject ?? clause.subject);
+    this.setLink(clause.id, 'object', object?.id ?? null, original.object ?? clause.object);
+
+    // "airline:united full_name United Airlines" teaches us another name
+    if (subject && NAME_PREDICATES.includes(clause.predicate)) {
+      this.addAlias(clause.object, subject.id, false);
+    }
+  }
+
+  /**
+   * Link every stored clause (e.g. for databases created before entities existed)
+   */
+  linkAll(): number {
+    const rows = this.db.all<{
+      id: string;
+      subject: string;
+      predicate: string;
+      object: string;
+      metadata: string;
+    }>('SELECT id, subject, predicate, object, metadata FROM clauses');
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        this.linkClause({
+          ...row,
+          metadata: JSON.parse(row.metadata || '{}') as Record<string, unknown>,
+        });
+      }
+    });
+
+    return rows.length;
+  }
+
+  // ========== Merge / Split ==========
+
+  /**
+   * Merge one entity into another
+   * Aliases, attributes and clause references move to the target
+   */
+  merge(sourceName: string, targetName: string): EntityMergeResult {
+    const source = this.resolve(sourceName);
+    const target = this.resolve(targetName);
+    if (!source) throw new Error(`Entity not found: ${sourceName}`);
+    if (!target) throw new Error(`Entity not found: ${targetName}`);
+    if (source.id === target.id) {
+      throw new Error(`Cannot merge ${source.id} into itself`);
+    }
+
+    return this.db.transaction(() => {
+      const aliasesMoved = this.db.run(
+        'UPDATE entity_aliases SET entity_id = ? WHERE entity_id = ?',
+        [target.id, source.id],
+      ).changes;
+      this.addAlias(source.canonical_name, target.id, false);
+
+      this.db.run(
+        "UPDATE entities SET attributes = ?, updated_at = datetime('now') WHERE id = ?",
+        [JSON.stringify({ ...source.attributes, ...target.attributes }), target.id],
+      );
+      this.db.run(
+        "UPDATE entities SET merged_into = ?, updated_at = datetime('now') WHERE id = ?",
+        [target.id, source.id],
+      );
+
+      const links = this.db.all<LinkRow>(
+        'SELECT * FROM clause_entity_links WHERE entity_id = ?',
+        [source.id],
+      );
+      for (const link of links) {
+        this.relink(link, source.id, target.id, `entity_merged:${source.id}`);
+      }
+
+      return {
+        source: source.id,
+        target: target.id,
+        aliasesMoved,
+        clausesRelinked: links.length,
+      };
+    });
+  }
+
+  /**
+   * Split an entity: the given aliases, and clauses that used them, move to a new entity
+   * Splitting out the ID of a previously merged entity restores it
+   */
+  split(entityName: string, options: SplitOptions): EntitySplitResult {
+    const entity = this.resolve(entityName);
+    if (!entity) throw new Error(`Entity not found: ${entityName}`);
+    if (options.aliases.length === 0 && !options.id) {
+      throw new Error('Provide the aliases or ID that belong to the new entity');
+    }
+
+    const name = options.name ?? options.aliases[0] ?? humanize(options.id!.split(':').pop()!);
+    const type = options.type ?? entity.type;
+    const newId = options.id ?? `${type}:${slugify(name)}`;
+
+    return this.db.transaction(() => {
+      const existing = this.get(newId);
+      let created: Entity;
+
+      if (existing && existing.merged_into === entity.id) {
+        this.db.run(
+          "UPDATE entities SET merged_into = NULL, updated_at = datetime('now') WHERE id = ?",
+          [newId],
+        );
+        created = this.get(newId)!;
+      } else if (existing) {
+        throw new Error(`Entity already exists: ${newId}`);
+      } else {
+        created = this.create({ id: newId, type, canonical_name: name });
+      }
+
+      const surfaces = new Set(
+        [...options.aliases, created.canonical_name, newId].map((s) => s.toLowerCase()),
+      );
+
+      let aliasesMoved = 0;
+      for (const alias of surfaces) {
+        aliasesMoved += this.db.run(
+          'UPDATE entity_aliases SET entity_id = ? WHERE alias = ? AND entity_id = ?',
+          [newId, alias, entity.id],
+        ).changes;
+      }
+
+      const links = this.db
+        .all<LinkRow>('SELECT * FROM clause_entity_links WHERE entity_id = ?', [entity.id])
+        .filter((link) => surfaces.has(link.surface.toLowerCase()));
+      for (const link of links) {
+        this.relink(link, entity.id, newId, `entity_split:${entity.id}`);
+      }
+
+      return {
+        source: entity.id,
+        created: this.get(newId)!,
+        aliasesMoved,
+        clausesRelinked: links.length,
+      };
+    });
+  }
+
+  // ========== Private Methods ==========
+
+  private lookupId(name: string): string | null {
+    if (!name) return null;
+
+    const byId = this.db.get<{ id: string }>('SELECT id FROM entities WHERE id = ?', [name]);
+    if (byId) return byId.id;
+
+    const byAlias = this.db.get<{ entity_id: string }>(
+      'SELECT entity_id FROM entity_aliases WHERE alias = ?',
+      [name],
+    );
+    if (byAlias) return byAlias.entity_id;
+
+    // Canonical names only count when they are unambiguous
+    const byName = this.db.all<{ id: string }>(
+      'SELECT id FROM entities WHERE canonical_name = ? COLLATE NOCASE AND merged_into IS NULL',
+      [name],
+    );
+    return byName.length === 1 ? byName[0].id : null;
+  }
+
+  private followMerges(id: string): string {
+    let current = id;
+    for (let i = 0; i < MAX_MERGE_DEPTH; i++) {
+      const row = this.db.get<{ merged_into: string | null }>(
+        'SELECT merged_into FROM entities WHERE id = ?',
+        [current],
+      );
+      if (!row?.merged_into) break;
+      current = row.merged_into;
+    }
+    return current;
+  }
+
+  private resolveForLink(value: string): Entity | null {
+    return this.resolve(value) ?? this.ensure(value.trim());
+  }
+
+  private setLink(
+    clauseId: string,
+    role: 'subject' | 'object',
+    entityId: string | null,
+    surface: string,
+  ): void {
+    if (!entityId) {
+      this.db.run('DELETE FROM clause_entity_links WHERE clause_id = ? AND role = ?', [clauseId, role]);
+      return;
+    }
+    this.db.run(
+      `INSERT INTO clause_entity_links (clause_id, role, entity_id, surface) VALUES (?, ?, ?, ?)
+       ON CONFLICT(clause_id, role) DO UPDATE SET entity_id = excluded.entity_id, surface = excluded.surface`,
+      [clauseId, role, entityId, surface],
+    );
+  }
+
+  private addAlias(alias: string, entityId: string, overwrite: boolean = true): void {
+    const trimmed = alias.trim();
+    if (!trimmed || trimmed === entityId) return;
+
+    this.db.run(
+      overwrite
+        ? `INSERT INTO entity_aliases (alias, entity_id) VALUES (?, ?)
+           ON CONFLICT(alias) DO UPDATE SET entity_id = excluded.entity_id`
+        : 'INSERT INTO entity_aliases (alias, entity_id) VALUES (?, ?) ON CONFLICT(alias) DO NOTHING',
+      [trimmed, entityId],
+    );
+  }
+
+  /**
+   * Point a link at another entity and rewrite the clause if it used the old ID
+   */
+  private relink(link: LinkRow, fromId: string, toId: string, reason: string): void {
+    this.db.run(
+      'UPDATE clause_entity_links SET entity_id = ? WHERE clause_id = ? AND role = ?',
+      [toId, link.clause_id, link.role],
+    );
+
+    const before = this.journal.snapshot(link.clause_id);
+    if (!before || before[link.role] !== fromId) return;
+
+    this.db.run(`UPDATE clauses SET ${link.role} = ? WHERE id = ?`, [toId, link.clause_id]);
+    const after = this.journal.snapshot(link.clause_id);
+    this.journal.record({
+      clauseId: link.clause_id,
+      action: 'update',
+      actor: 'entity_resolver',
+      reason,
+      before,
+      after,
+    });
+    if (after) {
+      this.events.emit({ type: 'clause_updated', clause: after, changes: { [link.role]: toId } });
+    }
+  }
+
+  private rowToEntity(row: EntityRow): Entity {
+    const aliases = this.db.all<{ alias: string }>(
+      'SELECT alias FROM entity_aliases WHERE entity_id = ? ORDER BY alias',
+      [row.id],
+    );
+    return {
+      id: row.id,
+      type: row.type,
+      canonical_name: row.canonical_name,
+      aliases: aliases.map((a) => a.alias),
+      attributes: JSON.parse(row.attributes || '{}') as Record<string, unknown>,
+      merged_into: row.merged_into,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+/**
+ * Check whether a string looks like a typed entity ID (type:name)
+ */
+export function isTypedId(value: string): boolean {
+  return TYPED_ID.test(value);
+}
+
+function slugify(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+// airline:star_alliance -> "Star Alliance"; airport:JFK stays "JFK"
+function humanize(slug: string): string {
+  return slug
+    .split(/[_-]+/)
+    .filter(Boolean)
+    .map((word) => (word === word.toUpperCase() ? word : word[0].toUpperCase() + word.slice(1)))
+    .join(' ');
+}
@@ -0,0 +1,85 @@
+/**
+ * Events module - Typed event bus for memory mutations
+ * Delivers OMLiteEvent notifications from the stores to subscribers
+ */
+
+import type { OMLiteEvent, OMLiteEventType, TypedEventHandler } from './types.js';
+
+type AnyHandler = (event: OMLiteEvent) => void | Promise<void>;
+
+export class EventBus {
+  private handlers: Map<OMLiteEventType | '*', Set<AnyHandler>> = new Map();
+
+  /**
+   * Subscribe to a single event type, or '*' for every event
+   * Returns a function that removes the subscription
+   */
+  on<T extends OMLiteEventType | '*'>(type: T, handler: TypedEventHandler<T>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    set.add(handler as AnyHandler);
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Remove a previously registered handler
+   */
+  off<T extends OMLiteEventType | '*'>(type: T, handler: TypedEventHandler<T>): void {
+    const set = this.handlers.get(type);
+    if (!set) return;
+    set.delete(handler as AnyHandler);
+    if (set.size === 0) {
+      this.handlers.delete(type);
+    }
+  }
+
+  /**
+   * Emit an event to all matching handlers
+   *
+   * Handlers run synchronously in registration order. A throwing handler or a
+   * rejected promise is logged and never propagates into the mutation path.
+   */
+  emit(event: OMLiteEvent): void {
+    const targets = [
+      ...(this.handlers.get(event.type) ?? []),
+      ...(this.handlers.get('*') ?? []),
+    ];
+
+    for (const handler of targets) {
+      try {
+        const result = handler(event);
+        if (result && typeof result.then === 'function') {
+          result.catch((error: unknown) => {
+            console.warn(`Event handler for ${event.type} failed:`, error);
+          });
+        }
+      } catch (error) {
+        console.warn(`Event handler for ${event.type} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of handlers registered for a type (or all types)
+   */
+  listenerCount(type?: OMLiteEventType | '*'): number {
+    if (type) {
+      return this.handlers.get(type)?.size ?? 0;
+    }
+    let count = 0;
+    for (const set of this.handlers.values()) {
+      count += set.size;
+    }
+    return count;
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Export module - Graph serializations of memory
+ * Turns clauses into nodes and edges and writes them as DOT, GraphML or JSON-LD
+ */
+
+import { isTypedId } from './entities.js';
+import type { Clause, GraphExportFormat } from './types.js';
+
+export interface ExportNode {
+  id: string;
+  label: string;
+  kind: 'entity' | 'value';
+  entity_type: string | null;
+  confidence: number;           // Highest confidence of the clauses touching the node
+  valid_from: string;           // Earliest valid_from of those clauses
+  valid_to: string | null;      // Null while any of those clauses is still valid
+}
+
+export interface ExportEdge {
+  id: string;                   // Clause ID
+  source: string;
+  target: string;
+  predicate: string;
+  clause_type: string;
+  natural_form: string;
+  confidence: number;
+  valid_from: string;
+  valid_to: string | null;
+  recorded_at: string;
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+/** A clause with the entity IDs its subject and object are linked to */
+export interface LinkedClause extends Clause {
+  subject_node: string;
+  object_entity: string | null;
+}
+
+const JSONLD_VOCAB = 'https://github.com/orbitalmind/om-lite/ns#';
+
+/**
+ * Build nodes and edges from clauses
+ * Objects become entity nodes when they are linked to an entity, look like a
+ * typed ID or appear as a subject elsewhere; everything else is a value node
+ */
+export function buildExportGraph(
+  clauses: LinkedClause[],
+  entities: Map<string, { type: string; canonical_name: string }> = new Map(),
+): ExportGraph {
+  const subjects = new Set(clauses.map((c) => c.subject_node));
+  const nodes = new Map<string, ExportNode>();
+  const values = new Map<string, string>();
+  const edges: ExportEdge[] = [];
+
+  const touch = (id: string, kind: ExportNode['kind'], label: string, clause: Clause) => {
+    const node = nodes.get(id);
+    if (!node) {
+      const entity = kind === 'entity' ? entities.get(id) : undefined;
+      nodes.set(id, {
+        id,
+        label: entity?.canonical_name ?? label,
+        kind,
+        entity_type: entity?.type ?? (kind === 'entity' && isTypedId(id) ? id.split(':')[0] : null),
+        confidence: clause.confidence,
+        valid_from: clause.valid_from,
+        valid_to: clause.valid_to,
+      });
+      return;
+    }
+    node.confidence = Math.max(node.confidence, clause.confidence);
+    if (clause.valid_from < node.valid_from) node.valid_from = clause.valid_from;
+    if (node.valid_to !== null) {
+      node.valid_to = clause.valid_to === null || clause.valid_to > node.valid_to
+        ? clause.valid_to
+        : node.valid_to;
+    }
+  };
+
+  for (const clause of clauses) {
+    touch(clause.subject_node, 'entity', clause.subject, clause);
+
+    let target = clause.object_entity;
+    if (!target && (isTypedId(clause.object) || subjects.has(clause.object) || clause.object === 'user')) {
+      target = clause.object;
+    }
+    if (target) {
+      touch(target, 'entity', clause.object, clause);
+    } else {
+      let valueId = values.get(clause.object);
+      if (!valueId) {
+        valueId = `value:${values.size + 1}`;
+        values.set(clause.object, valueId);
+      }
+      target = valueId;
+      touch(target, 'value', clause.object, clause);
+    }
+
+    edges.push({
+      id: clause.id,
+      source: clause.subject_node,
+      target,
+      predicate: clause.predicate,
+      clause_type: clause.type,
+      natural_form: clause.natural_form,
+      confidence: clause.confidence,
+      valid_from: clause.valid_from,
+      valid_to: clause.valid_to,
+      recorded_at: clause.recorded_at,
+    });
+  }
+
+  return { nodes: [...nodes.values()], edges };
+}
+
+/**
+ * Serialize an export graph in the requested format
+ */
+export function serializeGraph(graph: ExportGraph, format: GraphExportFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(graph);
+    case 'graphml':
+      return toGraphML(graph);
+    case 'jsonld':
+      return toJsonLd(graph);
+    default:
+      throw new Error(`Unknown graph export format: ${String(format)}`);
+  }
+}
+
+// ========== DOT ==========
+
+export function toDot(graph: ExportGraph): string {
+  const lines = ['digraph memory {', '  rankdir=LR;', '  node [shape=box];'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${dotId(node.id)} [${dotAttributes({
+      label: node.label,
+      shape: node.kind === 'value' ? 'ellipse' : undefined,
+      kind: node.kind,
+      entity_type: node.entity_type ?? undefined,
+      confidence: node.confidence.toFixed(2),
+      valid_from: node.valid_from,
+      valid_to: node.valid_to ?? undefined,
+      style: node.valid_to ? 'dashed' : undefined,
+    })}];`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${dotId(edge.source)} -> ${dotId(edge.target)} [${dotAttributes({
+      id: edge.id,
+      label: edge.predicate,
+      clause_type: edge.clause_type,
+      confidence: edge.confidence.toFixed(2),
+      valid_from: edge.valid_from,
+      valid_to: edge.valid_to ?? undefined,
+      recorded_at: edge.recorded_at,
+      style: edge.valid_to ? 'dashed' : undefined,
+    })}];`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+function dotId(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function dotAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${dotId(value)}`)
+    .join(', ');
+}
+
+// ========== GraphML ==========
+
+const GRAPHML_NODE_KEYS = ['label', 'kind', 'entity_type', 'confidence', 'valid_from', 'valid_to'];
+const GRAPHML_EDGE_KEYS = [
+  'predicate',
+  'clause_type',
+  'natural_form',
+  'confidence',
+  'valid_from',
+  'valid_to',
+  'recorded_at',
+];
+
+export function toGraphML(graph: ExportGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+  ];
+
+  for (const key of GRAPHML_NODE_KEYS) {
+    const type = key === 'confidence' ? 'double' : 'string';
+    lines.push(`  <key id="n_${key}" for="node" attr.name="${key}" attr.type="${type}"/>`);
+  }
+  for (const key of GRAPHML_EDGE_KEYS) {
+    const type = key === 'confidence' ? 'double' : 'string';
+    lines.push(`  <key id="e_${key}" for="edge" attr.name="${key}" attr.type="${type}"/>`);
+  }
+
+  lines.push('  <graph id="memory" edgedefault="directed">');
+
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${xmlEscape(node.id)}">`);
+    lines.push(...graphmlData('n', {
+      label: node.label,
+      kind: node.kind,
+      entity_type: node.entity_type,
+      confidence: String(node.confidence),
+      valid_from: node.valid_from,
+      valid_to: node.valid_to,
+    }));
+    lines.push('    </node>');
+  }
+
+  for (const edge of graph.edges) {
+    const source = xmlEscape(edge.source);
+    const target = xmlEscape(edge.target);
+    lines.push(`    <edge id="${xmlEscape(edge.id)}" source="${source}" target="${target}">`);
+    lines.push(...graphmlData('e', {
+      predicate: edge.predicate,
+      clause_type: edge.clause_type,
+      natural_form: edge.natural_form,
+      confidence: String(edge.confidence),
+      valid_from: edge.valid_from,
+      valid_to: edge.valid_to,
+      recorded_at: edge.recorded_at,
+    }));
+    lines.push('    </edge>');
+  }
+
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+function graphmlData(prefix: 'n' | 'e', data: Record<string, string | null>): string[] {
+  return Object.entries(data)
+    .filter((entry): entry is [string, string] => entry[1] !== null)
+    .map(([key, value]) => `      <data key="${prefix}_${key}">${xmlEscape(value)}</data>`);
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ========== JSON-LD ==========
+
+/**
+ * Entities become nodes with direct predicate links for currently valid
+ * clauses; every clause is also emitted as a reified Clause node so
+ * confidence and validity survive the round trip
+ */
+export function toJsonLd(graph: ExportGraph): string {
+  const nodeIds = new Map(graph.nodes.map((n) => [n.id, n]));
+  const iri = (id: string) => `urn:om-lite:entity:${encodeURIComponent(id)}`;
+  const objectRef = (target: string) => {
+    const node = nodeIds.get(target);
+    return node?.kind === 'entity' ? { '@id': iri(node.id) } : node?.label ?? target;
+  };
+
+  const entities = new Map<string, Record<string, unknown>>();
+  for (const node of graph.nodes) {
+    if (node.kind !== 'entity') continue;
+    entities.set(node.id, {
+      '@id': iri(node.id),
+      '@type': 'Entity',
+      identifier: node.id,
+      name: node.label,
+      ...(node.entity_type ? { entityType: node.entity_type } : {}),
+      confidence: node.confidence,
+    });
+  }
+
+  const statements: Array<Record<string, unknown>> = [];
+  for (const edge of graph.edges) {
+    if (!edge.valid_to) {
+      const subject = entities.get(edge.source)!;
+      const key = `${JSONLD_VOCAB}${encodeURIComponent(edge.predicate)}`;
+      const existing = subject[key] as unknown[] | undefined;
+      subject[key] = [...(existing ?? []), objectRef(edge.target)];
+    }
+
+    statements.push({
+      '@id': `urn:om-lite:clause:${edge.id}`,
+      '@type': 'Clause',
+      clauseType: edge.clause_type,
+      subject: { '@id': iri(edge.source) },
+      predicate: edge.predicate,
+      object: objectRef(edge.target),
+      naturalForm: edge.natural_form,
+      confidence: edge.confidence,
+      validFrom: edge.valid_from,
+      ...(edge.valid_to ? { validTo: edge.valid_to } : {}),
+      recordedAt: edge.recorded_at,
+    });
+  }
+
+  return JSON.stringify(
+    {
+      '@context': {
+        '@vocab': JSONLD_VOCAB,
+        xsd: 'http://www.w3.org/2001/XMLSchema#',
+        confidence: { '@type': 'xsd:double' },
+      },
+      '@graph': [...entities.values(), ...statements],
+    },
+    null,
+    2,
+  );
+}
@@ -3,7 +3,11 @@
  * Converts conversations and documents into structured clauses
  */
 
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
 import type { ClauseInput, ClauseType } from './types.js';
+import { defaultOllamaUrl, fetchWithRetry, type RequestPolicy } from './http.js';
 
 // Extraction prompt template based on spec Section 7.1
 const EXTRACTION_PROMPT = `You are a memory extraction system. Analyze the following content and extract structured facts.
@@ -97,10 +101,24 @@ interface ExtractionResult {
 }
 
 // Simple LLM client interface - users can provide their own implementation
-interface LLMClient {
-  complete(prompt: string): Promise<string>;
+export interface LLMClient {
+  /** Aborting signal cancels the request, e.g. when the caller's time budget runs out */
+  complete(prompt: string, signal?: AbortSignal): Promise<string>;
 }
 
+export interface LLMConfig {
+  provider: 'anthropic' | 'openai' | 'ollama' | 'openai-compatible';
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  /** Per-request timeout in milliseconds (default 30000) */
+  timeoutMs?: number;
+  /** Retries on network errors, timeouts, 429 and 5xx (default 2) */
+  retries?: number;
+}
+
+const SYSTEM_PROMPT = 'You are a memory extraction system. Output only valid JSON arrays.';
+
 // Default stub LLM client that explains how to configure
 class StubLLMClient implements LLMClient {
   async complete(_prompt: string): Promise<string> {
@@ -114,40 +132,48 @@ class StubLLMClient implements LLMClient {
 
 // OpenAI-compatible LLM client
 class OpenAIClient implements LLMClient {
-  private apiKey: string;
+  private name: string;
+  private apiKey?: string;
   private model: string;
   private baseUrl: string;
-
-  constructor(apiKey: string, model: string = 'gpt-4o-mini', baseUrl: string = 'https://api.openai.com/v1') {
-    this.apiKey = apiKey;
-    this.model = model;
-    this.baseUrl = baseUrl;
+  private policy: RequestPolicy;
+
+  constructor(options: {
+    name?: string;
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+    policy?: RequestPolicy;
+  }) {
+    this.name = options.name ?? 'OpenAI';
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.policy = options.policy ?? {};
   }
 
-  async complete(prompt: string): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetchWithRetry(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
       },
       body: JSON.stringify({
         model: this.model,
         messages: [
-          {
-            role: 'system',
-            content: 'You are a memory extraction system. Output only valid JSON arrays.',
-          },
+          { role: 'system', content: SYSTEM_PROMPT },
           { role: 'user', content: prompt },
         ],
         temperature: 0.3,
         max_tokens: 4000,
       }),
-    });
+    }, this.policy);
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+      throw new Error(`${this.name} API error: ${response.status} ${error}`);
     }
 
     const data = (await response.json()) as {
@@ -157,19 +183,64 @@ class OpenAIClient implements LLMClient {
   }
 }
 
+// Ollama client (native /api/chat endpoint)
+class OllamaClient implements LLMClient {
+  private model: string;
+  private baseUrl: string;
+  private policy: RequestPolicy;
+
+  constructor(options: { model?: string; baseUrl?: string; policy?: RequestPolicy }) {
+    this.model = options.model ?? 'llama3.1';
+    this.baseUrl = (options.baseUrl ?? defaultOllamaUrl()).replace(/\/+$/, '');
+    this.policy = options.policy ?? {};
+  }
+
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetchWithRetry(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+        stream: false,
+        options: { temperature: 0.3, num_predict: 4000 },
+      }),
+    }, this.policy);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Ollama API error: ${response.status} ${error}`);
+    }
+
+    const data = (await response.json()) as { message?: { content: string } };
+    return data.message?.content ?? '[]';
+  }
+}
+
 // Anthropic Claude client
 class AnthropicClient implements LLMClient {
   private apiKey: string;
   private model: string;
+  private policy: RequestPolicy;
 
-  constructor(apiKey: string, model: string = 'claude-sonnet-4-20250514') {
+  constructor(
+    apiKey: string,
+    model: string = 'claude-sonnet-4-20250514',
+    policy: RequestPolicy = {},
+  ) {
     this.apiKey = apiKey;
     this.model = model;
+    this.policy = policy;
   }
 
-  async complete(prompt: string): Promise<string> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
+  async complete(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetchWithRetry('https://api.anthropic.com/v1/messages', {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': this.apiKey,
@@ -179,9 +250,9 @@ class AnthropicClient implements LLMClient {
         model: this.model,
         max_tokens: 4000,
         messages: [{ role: 'user', content: prompt }],
-        system: 'You are a memory extraction system. Output only valid JSON arrays.',
+        system: SYSTEM_PROMPT,
       }),
-    });
+    }, this.policy);
 
     if (!response.ok) {
       const error = await response.text();
@@ -196,6 +267,94 @@ class AnthropicClient implements LLMClient {
   }
 }
 
+/**
+ * Create an LLM client for extraction and query rewriting from config
+ * Hosted providers read their API key from the environment when none is given
+ */
+export function createLLMClient(config: LLMConfig): LLMClient {
+  const policy: RequestPolicy = { timeoutMs: config.timeoutMs, retries: config.retries };
+
+  switch (config.provider) {
+    case 'anthropic': {
+      const apiKey = config.apiKey ?? process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        console.warn('Anthropic API key not configured, extraction is disabled');
+        return new StubLLMClient();
+      }
+      return new AnthropicClient(apiKey, config.model, policy);
+    }
+
+    case 'openai': {
+      const apiKey = config.apiKey ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.warn('OpenAI API key not configured, extraction is disabled');
+        return new StubLLMClient();
+      }
+      return new OpenAIClient({ apiKey, model: config.model, baseUrl: config.baseUrl, policy });
+    }
+
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        console.warn('openai-compatible LLM needs baseUrl and model, extraction is disabled');
+        return new StubLLMClient();
+      }
+      return new OpenAIClient({
+        name: 'openai-compatible',
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        policy,
+      });
+
+    case 'ollama':
+      return new OllamaClient({ model: config.model, baseUrl: config.baseUrl, policy });
+
+    default:
+      throw new Error(`Unknown LLM provider: ${String(config.provider)}`);
+  }
+}
+
+const LLM_PROVIDERS: LLMConfig['provider'][] = ['anthropic', 'openai', 'ollama', 'openai-compatible'];
+
+/**
+ * Read LLM settings from the OpenClaw config file (memory.om_lite.llm)
+ * Returns undefined when the file or section is missing, leaving API-key detection
+ */
+export function loadLlmConfig(path: string = '~/.openclaw/config.yaml'): LLMConfig | undefined {
+  const file = path.startsWith('~') ? path.replace('~', homedir()) : path;
+  if (!existsSync(file)) return undefined;
+
+  const parsed = parseYaml(readFileSync(file, 'utf-8')) as {
+    memory?: { om_lite?: { llm?: Record<string, unknown> } };
+  } | null;
+  const section = parsed?.memory?.om_lite?.llm;
+  if (!section) return undefined;
+
+  const provider = section.provider as LLMConfig['provider'];
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM provider in ${path}: ${String(section.provider)}`);
+  }
+
+  const string = (key: string): string | undefined => {
+    const value = section[key];
+    return typeof value === 'string' ? value : undefined;
+  };
+  const number = (key: string): number | undefined => {
+    const value = section[key];
+    return typeof value === 'number' ? value : undefined;
+  };
+  const apiKeyEnv = string('api_key_env');
+
+  return {
+    provider,
+    model: string('model'),
+    apiKey: string('api_key') ?? (apiKeyEnv ? process.env[apiKeyEnv] : undefined),
+    baseUrl: string('base_url'),
+    timeoutMs: number('timeout_ms'),
+    retries: number('retries'),
+  };
+}
+
 export class Extractor {
   private llmClient: LLMClient;
   private model: string;
@@ -215,7 +374,7 @@ export class Extractor {
       } else if (openaiKey) {
         // Map model names if using OpenAI
         const openaiModel = this.model.startsWith('claude') ? 'gpt-4o-mini' : this.model;
-        this.llmClient = new OpenAIClient(openaiKey, openaiModel);
+        this.llmClient = new OpenAIClient({ apiKey: openaiKey, model: openaiModel });
       } else {
         this.llmClient = new StubLLMClient();
       }
@@ -0,0 +1,544 @@
+/**
+ * Forget module - Right-to-be-forgotten deletion with receipts
+ * A soft forget invalidates the matching clauses and keeps their history. A hard
+ * forget deletes them with everything derived from them: FTS entries, vectors,
+ * access, decay and revision logs, conflicts, skill bindings and source archives,
+ * and then purges or flags the backups taken since the data was recorded. Each
+ * forget produces a receipt of what was removed, by ID, that can be re-checked
+ * against the database later.
+ */
+
+import { v7 as uuidv7 } from 'uuid';
+import { createHash } from 'crypto';
+import { existsSync, unlinkSync } from 'fs';
+import type { DatabaseManager } from './database.js';
+import type { ClauseStore } from './clauses.js';
+import type { EntityResolver } from './entities.js';
+import type { EmbeddingManager } from './embeddings.js';
+import type { BackupManager } from './backup.js';
+import { EventBus } from './events.js';
+import { namespaceScope, type NamespaceScope } from './namespaces.js';
+
+// ========== Types ==========
+
+export interface ForgetSelector {
+  /** Subject or object of the clause, or an entity name, alias or ID */
+  subject?: string;
+  /** Clauses extracted from this source, and the source itself */
+  sourceId?: string;
+  /** Full-text match on the clause text */
+  query?: string;
+  tag?: string;
+}
+
+export interface ForgetOptions {
+  /** Delete instead of invalidating (default: false) */
+  hard?: boolean;
+  /**
+   * Backups taken since the data was recorded: flag them so restoring one
+   * re-applies the deletion (default), or delete them
+   */
+  backups?: 'flag' | 'purge';
+  reason?: string;
+}
+
+export interface ForgetCounts {
+  clauses: number;
+  embeddings: number;
+  revisions: number;
+  accessLog: number;
+  decayLog: number;
+  conflicts: number;
+  bindings: number;
+  entities: number;
+  sources: number;
+  sourceFiles: number;
+}
+
+export interface ForgetReceipt {
+  id: string;
+  createdAt: string;
+  namespace: string;
+  hard: boolean;
+  /** Which selectors were used; their values are not kept */
+  selectedBy: Array<keyof ForgetSelector>;
+  clauseIds: string[];
+  /** Sources deleted outright */
+  sourceIds: string[];
+  /** Sources kept for their other clauses, with the archive removed */
+  scrubbedSourceIds: string[];
+  /** Entities of a forgotten subject, deleted with their aliases */
+  entityIds: string[];
+  /** Archive files removed */
+  files: string[];
+  counts: ForgetCounts;
+  backups: { purged: string[]; flagged: string[] };
+  /** SHA-256 over every other field */
+  digest: string;
+}
+
+export interface ForgetVerification {
+  valid: boolean;
+  /** Whether the receipt is unchanged since it was issued */
+  digestMatches: boolean;
+  /** Records or files still holding forgotten data */
+  remaining: string[];
+}
+
+const SELECTOR_KEYS: Array<keyof ForgetSelector> = ['subject', 'sourceId', 'query', 'tag'];
+
+const EMPTY_COUNTS: ForgetCounts = {
+  clauses: 0,
+  embeddings: 0,
+  revisions: 0,
+  accessLog: 0,
+  decayLog: 0,
+  conflicts: 0,
+  bindings: 0,
+  entities: 0,
+  sources: 0,
+  sourceFiles: 0,
+};
+
+// IDs bound per statement, far below SQLite's bound-variable limit even when bound twice
+const ID_BATCH_SIZE = 500;
+
+// Tables that reference a clause, checked again when a receipt is verified
+const CLAUSE_REFERENCES: Array<[table: string, where: string]> = [
+  ['clauses', 'id = ?'],
+  ['clause_revisions', 'clause_id = ?'],
+  ['access_log', 'clause_id = ? OR correction_id = ?'],
+  ['decay_log', 'clause_id = ?'],
+  ['conflicts', 'clause_a_id = ? OR clause_b_id = ?'],
+  ['skill_preference_bindings', 'clause_id = ?'],
+  ['embedding_state', 'clause_id = ?'],
+];
+
+interface MatchedClause {
+  id: string;
+  source_id: string;
+  recorded_at: string;
+  valid_to: string | null;
+}
+
+interface MatchedSource {
+  id: string;
+  file_path: string;
+  recorded_at: string;
+}
+
+// ========== Forget Manager ==========
+
+export class ForgetManager {
+  private db: DatabaseManager;
+  private clauseStore: ClauseStore;
+  private events: EventBus = new EventBus();
+  private scope: NamespaceScope = namespaceScope();
+  private entities: EntityResolver | null = null;
+  private embeddings: EmbeddingManager | null = null;
+  private backups: BackupManager | null = null;
+
+  constructor(db: DatabaseManager, clauseStore: ClauseStore) {
+    this.db = db;
+    this.clauseStore = clauseStore;
+  }
+
+  /**
+   * Set the event bus used to publish clause deletions
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
+  /**
+   * Set the namespace forget() deletes from; only the scope's own namespace is touched
+   */
+  setNamespace(scope: NamespaceScope): void {
+    this.scope = scope;
+  }
+
+  /**
+   * Set the entity resolver used to match subjects by alias
+   */
+  setEntityResolver(entities: EntityResolver): void {
+    this.entities = entities;
+  }
+
+  /**
+   * Set the embedding manager whose vectors are purged on hard forget
+   */
+  setEmbeddingManager(embeddings: EmbeddingManager): void {
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Set the backup manager whose backups are purged or flagged on hard forget
+   */
+  setBackupManager(backups: BackupManager): void {
+    this.backups = backups;
+  }
+
+  /**
+   * Forget every clause in the scope's namespace matching all given selectors,
+   * including invalidated ones, and record a receipt
+   */
+  async forget(selector: ForgetSelector, options: ForgetOptions = {}): Promise<ForgetReceipt> {
+    const selectedBy = SELECTOR_KEYS.filter((key) => selector[key]?.trim());
+    if (selectedBy.length === 0) {
+      throw new Error('forget() needs a subject, sourceId, query or tag');
+    }
+
+    const hard = options.hard ?? false;
+    // A soft forget leaves already invalidated clauses and their end dates as they are
+    const clauses = this.match(selector).filter((c) => hard || c.valid_to === null);
+    const body: Omit<ForgetReceipt, 'digest'> = {
+      id: uuidv7(),
+      createdAt: new Date().toISOString(),
+      namespace: this.scope.namespace,
+      hard,
+      selectedBy,
+      clauseIds: clauses.map((c) => c.id),
+      sourceIds: [],
+      scrubbedSourceIds: [],
+      entityIds: [],
+      files: [],
+      counts: { ...EMPTY_COUNTS },
+      backups: { purged: [], flagged: [] },
+    };
+
+    if (!hard) {
+      for (const clause of clauses) {
+        await this.clauseStore.invalidate(clause.id, options.reason ?? 'forgotten', 'forget');
+      }
+      body.counts.clauses = clauses.length;
+      return this.store(body);
+    }
+
+    const sources = this.affectedSources(clauses, selector.sourceId);
+    const entity = selector.subject ? this.entities?.resolve(selector.subject) : null;
+    await this.deleteRecords(body, sources, entity ? [entity.id] : []);
+
+    // Backups taken since the oldest forgotten record still hold it
+    const recorded = [...clauses, ...sources].map((r) => parseTimestamp(r.recorded_at));
+    if (this.backups && recorded.length > 0) {
+      const since = new Date(Math.floor(Math.min(...recorded) / 1000) * 1000);
+      const affected = (await this.backups.listBackups()).filter((b) => b.timestamp >= since);
+
+      if (options.backups === 'purge') {
+        for (const backup of affected) {
+          if (await this.backups.deleteBackup(backup.path)) {
+            body.backups.purged.push(backup.path);
+          }
+        }
+      } else {
+        body.backups.flagged = affected.map((b) => b.path);
+      }
+    }
+
+    const receipt = this.store(body);
+    if (this.backups && receipt.backups.flagged.length > 0) {
+      this.backups.flagForgotten(receipt.backups.flagged, receipt);
+    }
+    return receipt;
+  }
+
+  /**
+   * Delete again what hard receipts removed, e.g. after restoring a backup that predates them
+   * Returns the number of clauses deleted
+   */
+  async reapply(receipts: ForgetReceipt[]): Promise<number> {
+    let deleted = 0;
+
+    for (const receipt of receipts.filter((r) => r.hard)) {
+      const sourceIds = [...receipt.sourceIds, ...receipt.scrubbedSourceIds];
+      const sources = batches(sourceIds).flatMap((batch) => this.db.all<MatchedSource>(
+        `SELECT id, file_path, recorded_at FROM sources
+         WHERE id IN (${batch.map(() => '?').join(', ')})`,
+        batch,
+      ));
+
+      const body = {
+        ...receipt,
+        sourceIds: [],
+        scrubbedSourceIds: [],
+        entityIds: [],
+        files: [],
+        counts: { ...EMPTY_COUNTS },
+      };
+      await this.deleteRecords(body, sources, receipt.entityIds);
+      deleted += body.counts.clauses;
+
+      this.db.run(
+        'INSERT OR IGNORE INTO forget_receipts (id, namespace, hard, receipt) VALUES (?, ?, ?, ?)',
+        [receipt.id, receipt.namespace, 1, JSON.stringify(receipt)],
+      );
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Check a receipt: its digest, and that nothing it lists is still stored
+   */
+  async verify(receipt: ForgetReceipt): Promise<ForgetVerification> {
+    const digestMatches = receiptDigest(receipt) === receipt.digest;
+    const remaining: string[] = [];
+
+    if (!receipt.hard) {
+      for (const id of receipt.clauseIds) {
+        const row = this.db.get<{ valid_to: string | null }>(
+          'SELECT valid_to FROM clauses WHERE id = ?',
+          [id],
+        );
+        if (row && row.valid_to === null) remaining.push(`clause ${id} (still valid)`);
+      }
+      return { valid: digestMatches && remaining.length === 0, digestMatches, remaining };
+    }
+
+    // Vector tables of every embedding index; a sqlite-vec table can't be read without it
+    const references = [...CLAUSE_REFERENCES];
+    const vectorTables = this.db.all<{ table_name: string }>(
+      'SELECT table_name FROM embedding_indexes',
+    );
+    for (const { table_name: table } of vectorTables) {
+      try {
+        this.db.get(`SELECT 1 FROM ${table} LIMIT 1`);
+        references.push([table, 'clause_id = ?']);
+      } catch {
+        remaining.push(`${table} (cannot be checked without sqlite-vec)`);
+      }
+    }
+
+    for (const id of receipt.clauseIds) {
+      for (const [table, where] of references) {
+        const params = where.includes(' OR ') ? [id, id] : [id];
+        if (this.db.get(`SELECT 1 FROM ${table} WHERE ${where}`, params)) {
+          remaining.push(`clause ${id} (${table})`);
+        }
+      }
+    }
+    for (const id of receipt.sourceIds) {
+      if (this.db.get('SELECT 1 FROM sources WHERE id = ?', [id])) {
+        remaining.push(`source ${id}`);
+      }
+    }
+    for (const id of receipt.entityIds) {
+      if (this.db.get('SELECT 1 FROM entities WHERE id = ?', [id])) {
+        remaining.push(`entity ${id}`);
+      }
+    }
+    for (const path of [...receipt.files, ...receipt.backups.purged]) {
+      if (existsSync(path)) remaining.push(`file ${path}`);
+    }
+
+    // Fails when the full-text index still holds rows whose clause is gone
+    try {
+      this.db.run("INSERT INTO clauses_fts(clauses_fts, rank) VALUES ('integrity-check', 1)");
+    } catch {
+      remaining.push('clauses_fts (index out of sync with clauses)');
+    }
+
+    return { valid: digestMatches && remaining.length === 0, digestMatches, remaining };
+  }
+
+  /**
+   * Get a stored receipt
+   */
+  getReceipt(id: string): ForgetReceipt | null {
+    const row = this.db.get<{ receipt: string }>(
+      'SELECT receipt FROM forget_receipts WHERE id = ?',
+      [id],
+    );
+    return row ? (JSON.parse(row.receipt) as ForgetReceipt) : null;
+  }
+
+  /**
+   * List stored receipts for the scope's namespace, newest first
+   */
+  listReceipts(limit: number = 50): ForgetReceipt[] {
+    return this.db.all<{ receipt: string }>(
+      `SELECT receipt FROM forget_receipts WHERE namespace = ?
+       ORDER BY created_at DESC, id DESC LIMIT ?`,
+      [this.scope.namespace, limit],
+    ).map((row) => JSON.parse(row.receipt) as ForgetReceipt);
+  }
+
+  // ========== Matching ==========
+
+  private match(selector: ForgetSelector): MatchedClause[] {
+    let sql = `SELECT c.id, c.source_id, c.recorded_at, c.valid_to FROM clauses c
+               WHERE c.namespace = ?`;
+    const params: unknown[] = [this.scope.namespace];
+
+    if (selector.subject?.trim()) {
+      const names = [selector.subject.trim()];
+      const entity = this.entities?.resolve(selector.subject);
+      if (entity) names.push(entity.id);
+      const list = names.map(() => '?').join(', ');
+
+      sql += ` AND (c.subject COLLATE NOCASE IN (${list}) OR c.object COLLATE NOCASE IN (${list})`;
+      params.push(...names, ...names);
+      if (entity) {
+        sql += ' OR c.id IN (SELECT clause_id FROM clause_entity_links WHERE entity_id = ?)';
+        params.push(entity.id);
+      }
+      sql += ')';
+    }
+
+    if (selector.sourceId?.trim()) {
+      sql += ' AND c.source_id = ?';
+      params.push(selector.sourceId.trim());
+    }
+
+    if (selector.query?.trim()) {
+      // Literal phrase match, escaped the same way as ClauseStore.search()
+      sql += ' AND c.rowid IN (SELECT rowid FROM clauses_fts WHERE clauses_fts MATCH ?)';
+      params.push(`"${selector.query.replace(/[-'"()]/g, ' ').trim()}"`);
+    }
+
+    if (selector.tag?.trim()) {
+      sql += ' AND EXISTS (SELECT 1 FROM json_each(c.tags) WHERE json_each.value = ?)';
+      params.push(selector.tag.trim());
+    }
+
+    return this.db.all<MatchedClause>(sql, params);
+  }
+
+  private affectedSources(clauses: MatchedClause[], sourceId?: string): MatchedSource[] {
+    const ids = [...new Set([...clauses.map((c) => c.source_id), ...(sourceId ? [sourceId] : [])])];
+    if (ids.length === 0) return [];
+
+    // Sources in other namespaces (e.g. shared knowledge packs) are left alone
+    return batches(ids).flatMap((batch) => this.db.all<MatchedSource>(
+      `SELECT id, file_path, recorded_at FROM sources
+       WHERE namespace = ? AND id IN (${batch.map(() => '?').join(', ')})`,
+      [this.scope.namespace, ...batch],
+    ));
+  }
+
+  // ========== Deletion ==========
+
+  private async deleteRecords(
+    receipt: Omit<ForgetReceipt, 'digest'>,
+    sources: MatchedSource[],
+    entityIds: string[],
+  ): Promise<void> {
+    const ids = receipt.clauseIds;
+    const counts = receipt.counts;
+
+    // Vector tables cascade on clause deletion, so purge them first to count them
+    if (this.embeddings && ids.length > 0) {
+      counts.embeddings = await this.embeddings.purgeEmbeddings(ids);
+    }
+
+    const raw = this.db.getDb();
+    const secureDelete = raw.pragma('secure_delete', { simple: true }) as number;
+    // Overwrite deleted content instead of leaving it in free pages
+    raw.pragma('secure_delete = ON');
+
+    try {
+      this.db.transaction(() => {
+        // Rows matching any of the columns, a batch of ids at a time
+        const deleteWhere = (table: string, ...columns: string[]): number => {
+          let changes = 0;
+          for (const batch of batches(ids)) {
+            const list = batch.map(() => '?').join(', ');
+            const where = columns.map((column) => `${column} IN (${list})`).join(' OR ');
+            changes += this.db.run(
+              `DELETE FROM ${table} WHERE ${where}`,
+              columns.flatMap(() => batch),
+            ).changes;
+          }
+          return changes;
+        };
+
+        counts.conflicts = deleteWhere('conflicts', 'clause_a_id', 'clause_b_id');
+        counts.accessLog = deleteWhere('access_log', 'clause_id', 'correction_id');
+        counts.decayLog = deleteWhere('decay_log', 'clause_id');
+        counts.revisions = deleteWhere('clause_revisions', 'clause_id');
+        counts.bindings = deleteWhere('skill_preference_bindings', 'clause_id');
+        deleteWhere('skill_capabilities', 'clause_id');
+        deleteWhere('clause_entity_links', 'clause_id');
+        // The clauses_ad trigger removes the FTS entries
+        counts.clauses = deleteWhere('clauses', 'id');
+
+        // A forgotten subject's entity goes too, once nothing else refers to it
+        for (const id of entityIds) {
+          if (this.db.get('SELECT 1 FROM clause_entity_links WHERE entity_id = ?', [id])) continue;
+          this.db.run('DELETE FROM entity_aliases WHERE entity_id = ?', [id]);
+          this.db.run('UPDATE entities SET merged_into = NULL WHERE merged_into = ?', [id]);
+          if (this.db.run('DELETE FROM entities WHERE id = ?', [id]).changes > 0) {
+            receipt.entityIds.push(id);
+            counts.entities++;
+          }
+        }
+
+        for (const source of sources) {
+          const inUse = this.db.get('SELECT 1 FROM clauses WHERE source_id = ?', [source.id]);
+          if (inUse) {
+            this.db.run(
+              "UPDATE sources SET file_path = '[forgotten]', metadata = '{}' WHERE id = ?",
+              [source.id],
+            );
+            receipt.scrubbedSourceIds.push(source.id);
+          } else {
+            this.db.run('DELETE FROM sources WHERE id = ?', [source.id]);
+            receipt.sourceIds.push(source.id);
+            counts.sources++;
+          }
+        }
+      });
+
+      // Merge the FTS index so deleted terms do not linger in old segments
+      this.db.run("INSERT INTO clauses_fts(clauses_fts) VALUES ('optimize')");
+      raw.pragma('wal_checkpoint(TRUNCATE)');
+    } finally {
+      raw.pragma(`secure_delete = ${secureDelete ? 'ON' : 'OFF'}`);
+    }
+
+    for (const source of sources) {
+      const path = source.file_path;
+      if (path && path.startsWith('[')) continue;
+      receipt.files.push(path);
+      if (existsSync(path)) {
+        unlinkSync(path);
+        counts.sourceFiles++;
+      }
+    }
+
+    if (ids.length > 0) {
+      this.events.emit({ type: 'clause_deleted', clauseIds: ids, reason: 'forgotten' });
+    }
+  }
+
+  private store(body: Omit<ForgetReceipt, 'digest'>): ForgetReceipt {
+    const receipt: ForgetReceipt = { ...body, digest: receiptDigest(body) };
+    this.db.run(
+      'INSERT INTO forget_receipts (id, namespace, hard, receipt) VALUES (?, ?, ?, ?)',
+      [receipt.id, receipt.namespace, receipt.hard ? 1 : 0, JSON.stringify(receipt)],
+    );
+    return receipt;
+  }
+}
+
+/**
+ * SHA-256 over a receipt without its digest
+ */
+export function receiptDigest(receipt: Omit<ForgetReceipt, 'digest'> & { digest?: string }): string {
+  const body: Record<string, unknown> = { ...receipt };
+  delete body.digest;
+  return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+// SQLite's datetime('now') has no zone and means UTC; clause timestamps are ISO 8601
+function parseTimestamp(value: string): number {
+  return Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_BATCH_SIZE) {
+    result.push(items.slice(i, i + ID_BATCH_SIZE));
+  }
+  return result;
+}
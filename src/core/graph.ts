@@ -0,0 +1,282 @@
+/**
+ * Graph module - Traversal over relationship clauses
+ * Treats relationship clauses as edges from subject to object and follows
+ * object → subject links (through entity links when available) across hops
+ */
+
+import { rowToClause, type ClauseRow } from './clauses.js';
+import type { DatabaseManager } from './database.js';
+import { isTypedId, type EntityResolver } from './entities.js';
+import type { PredicateRegistry } from './predicates.js';
+import { buildNamespaceFilter, namespaceScope, type NamespaceScope } from './namespaces.js';
+import { buildTemporalFilter } from './temporal.js';
+import type {
+  Clause,
+  GraphDirection,
+  GraphEdge,
+  GraphNeighborhood,
+  GraphNode,
+  GraphOptions,
+  GraphPath,
+  GraphPathOptions,
+} from './types.js';
+
+type EdgeRow = ClauseRow & { from_node: string; to_node: string };
+
+interface Step {
+  node: string;   // Node the step starts from
+  next: string;   // Node the step leads to
+  edge: GraphEdge;
+}
+
+interface StepFilter {
+  direction: GraphDirection;
+  predicates: string[];
+  minConfidence: number;
+  asOf?: string | Date;
+  knownAt?: string | Date;
+}
+
+const DEFAULT_NODE_LIMIT = 100;
+const DEFAULT_MAX_PATHS = 10;
+
+// Caps the number of partial paths kept per hop in paths()
+const MAX_PARTIAL_PATHS = 1000;
+
+export class MemoryGraph {
+  private db: DatabaseManager;
+  private entities: EntityResolver | null = null;
+  private predicates: PredicateRegistry | null = null;
+  private scope: NamespaceScope = namespaceScope();
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Set the entity resolver used to resolve names and describe nodes
+   */
+  setEntityResolver(entities: EntityResolver): void {
+    this.entities = entities;
+  }
+
+  /**
+   * Set the predicate registry used to resolve predicate filters
+   */
+  setPredicateRegistry(predicates: PredicateRegistry): void {
+    this.predicates = predicates;
+  }
+
+  /**
+   * Restrict traversal to edges visible from a namespace scope
+   */
+  setNamespace(scope: NamespaceScope): void {
+    this.scope = scope;
+  }
+
+  // ========== Traversal ==========
+
+  /**
+   * Breadth-first walk from an entity up to options.depth hops
+   */
+  neighbors(entity: string, options: GraphOptions = {}): GraphNeighborhood {
+    const depth = options.depth ?? 1;
+    const limit = options.limit ?? DEFAULT_NODE_LIMIT;
+    const filter = this.buildFilter(options);
+
+    const root = this.describe(this.resolveNode(entity), 0);
+    const nodes = new Map<string, GraphNode>([[root.id, root]]);
+    const edges = new Map<string, GraphEdge>();
+    let frontier = [root.id];
+
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+
+      for (const step of this.step(frontier, filter, hop)) {
+        if (!nodes.has(step.next)) {
+          if (nodes.size >= limit) continue;
+          nodes.set(step.next, this.describe(step.next, hop));
+          next.push(step.next);
+        }
+        if (!edges.has(step.edge.clause.id)) {
+          edges.set(step.edge.clause.id, step.edge);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return {
+      root,
+      nodes: [...nodes.values()],
+      edges: [...edges.values()],
+    };
+  }
+
+  /**
+   * Find simple paths between two entities, shortest first
+   */
+  paths(from: string, to: string, options: GraphPathOptions = {}): GraphPath[] {
+    const depth = options.depth ?? 3;
+    const maxPaths = options.maxPaths ?? DEFAULT_MAX_PATHS;
+    const filter = this.buildFilter(options);
+    const start = this.resolveNode(from);
+    const target = this.resolveNode(to);
+
+    if (start === target) {
+      return [{ nodes: [start], edges: [], length: 0, confidence: 1 }];
+    }
+
+    const results: GraphPath[] = [];
+    let partial: Array<{ nodes: string[]; edges: GraphEdge[] }> = [
+      { nodes: [start], edges: [] },
+    ];
+
+    for (let hop = 1; hop <= depth && partial.length > 0; hop++) {
+      const tails = [...new Set(partial.map((p) => p.nodes[p.nodes.length - 1]))];
+      const adjacency = new Map<string, Step[]>();
+      for (const step of this.step(tails, filter, hop)) {
+        const list = adjacency.get(step.node) ?? [];
+        list.push(step);
+        adjacency.set(step.node, list);
+      }
+
+      const extended: typeof partial = [];
+      for (const path of partial) {
+        const tail = path.nodes[path.nodes.length - 1];
+        for (const step of adjacency.get(tail) ?? []) {
+          if (path.nodes.includes(step.next)) continue;
+
+          const candidate = {
+            nodes: [...path.nodes, step.next],
+            edges: [...path.edges, step.edge],
+          };
+          if (step.next === target) {
+            results.push({
+              ...candidate,
+              length: candidate.edges.length,
+              confidence: candidate.edges.reduce((acc, e) => acc * e.clause.confidence, 1),
+            });
+            if (results.length >= maxPaths) return results;
+          } else if (extended.length < MAX_PARTIAL_PATHS) {
+            extended.push(candidate);
+          }
+        }
+      }
+
+      partial = extended;
+    }
+
+    return results;
+  }
+
+  /**
+   * Graph nodes a clause refers to, used as seeds for expansion
+   */
+  nodesOf(clause: Pick<Clause, 'id' | 'subject' | 'object'>): string[] {
+    const linked = this.db.all<{ entity_id: string }>(
+      'SELECT entity_id FROM clause_entity_links WHERE clause_id = ?',
+      [clause.id],
+    );
+    const nodes = new Set(linked.map((row) => row.entity_id));
+
+    // Without entity links, typed IDs still identify nodes
+    for (const value of [clause.subject, clause.object]) {
+      if (isTypedId(value) || value === 'user') {
+        nodes.add(value);
+      }
+    }
+
+    return [...nodes];
+  }
+
+  // ========== Private Methods ==========
+
+  private buildFilter(options: GraphOptions): StepFilter {
+    return {
+      direction: options.direction ?? 'out',
+      predicates: (options.predicates ?? []).map((p) => this.predicates?.resolve(p) ?? p),
+      minConfidence: options.minConfidence ?? 0.5,
+      asOf: options.asOf,
+      knownAt: options.knownAt,
+    };
+  }
+
+  /**
+   * Follow every matching relationship edge one hop from the given nodes
+   */
+  private step(nodes: string[], filter: StepFilter, depth: number): Step[] {
+    const steps: Step[] = [];
+
+    if (filter.direction !== 'in') {
+      for (const row of this.queryEdges('from', nodes, filter)) {
+        steps.push({ node: row.from_node, next: row.to_node, edge: this.toEdge(row, depth) });
+      }
+    }
+    if (filter.direction !== 'out') {
+      for (const row of this.queryEdges('to', nodes, filter)) {
+        steps.push({ node: row.to_node, next: row.from_node, edge: this.toEdge(row, depth) });
+      }
+    }
+
+    return steps;
+  }
+
+  private queryEdges(end: 'from' | 'to', nodes: string[], filter: StepFilter): EdgeRow[] {
+    if (nodes.length === 0) return [];
+
+    const temporal = buildTemporalFilter({ asOf: filter.asOf, knownAt: filter.knownAt });
+    const namespace = buildNamespaceFilter(this.scope);
+    const column = end === 'from'
+      ? 'COALESCE(ls.entity_id, c.subject)'
+      : 'COALESCE(lo.entity_id, c.object)';
+    const params: unknown[] = [...nodes];
+
+    let predicateSql = '';
+    if (filter.predicates.length > 0) {
+      predicateSql = ` AND c.predicate IN (${filter.predicates.map(() => '?').join(', ')})`;
+      params.push(...filter.predicates);
+    }
+    params.push(...temporal.params, ...namespace.params);
+    params.push(...temporal.confidenceParams, filter.minConfidence);
+
+    return this.db.all<EdgeRow>(
+      `SELECT c.*,
+              COALESCE(ls.entity_id, c.subject) AS from_node,
+              COALESCE(lo.entity_id, c.object) AS to_node
+       FROM clauses c
+       LEFT JOIN clause_entity_links ls ON ls.clause_id = c.id AND ls.role = 'subject'
+       LEFT JOIN clause_entity_links lo ON lo.clause_id = c.id AND lo.role = 'object'
+       WHERE c.type = 'relationship'
+         AND ${column} IN (${nodes.map(() => '?').join(', ')})${predicateSql}${temporal.sql}${namespace.sql}
+         AND ${temporal.confidenceSql} >= ?
+       ORDER BY c.confidence DESC, c.recorded_at`,
+      params,
+    );
+  }
+
+  private resolveNode(name: string): string {
+    const trimmed = name.trim();
+    return this.entities?.resolve(trimmed)?.id ?? trimmed;
+  }
+
+  private describe(id: string, depth: number): GraphNode {
+    const entity = this.entities?.get(id) ?? null;
+    return {
+      id,
+      name: entity?.canonical_name ?? id,
+      type: entity?.type ?? (isTypedId(id) ? id.split(':')[0] : null),
+      depth,
+    };
+  }
+
+  private toEdge(row: EdgeRow, depth: number): GraphEdge {
+    return {
+      from: row.from_node,
+      to: row.to_node,
+      predicate: row.predicate,
+      clause: rowToClause(row),
+      depth,
+    };
+  }
+}
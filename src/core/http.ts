@@ -0,0 +1,67 @@
+/**
+ * HTTP helpers - Timeouts and retries for model provider requests
+ * Shared by the embedding providers and the extraction LLM clients
+ */
+
+export interface RequestPolicy {
+  /** Abort a single attempt after this many milliseconds (default 30000) */
+  timeoutMs?: number;
+  /** Extra attempts after a network error, timeout, 429 or 5xx (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled on each further attempt (default 500) */
+  retryDelayMs?: number;
+}
+
+/**
+ * fetch() with a per-attempt timeout and exponential backoff on transient failures
+ * Non-retryable responses (e.g. 400, 401) are returned as-is for the caller to report;
+ * aborting init.signal cancels the request in flight and stops further attempts
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  policy: RequestPolicy = {},
+): Promise<Response> {
+  const timeoutMs = policy.timeoutMs ?? 30000;
+  const retries = Math.max(0, policy.retries ?? 2);
+  const retryDelayMs = policy.retryDelayMs ?? 500;
+
+  for (let attempt = 0; ; attempt++) {
+    init.signal?.throwIfAborted();
+    const canRetry = attempt < retries;
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+
+    try {
+      const response = await fetch(url, { ...init, signal });
+      if (!canRetry || !isRetryableStatus(response.status)) {
+        return response;
+      }
+      // Drain the body so the connection can be reused
+      await response.text();
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      if (!canRetry) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          throw new Error(`Request to ${url} timed out after ${timeoutMs}ms`);
+        }
+        throw error;
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** attempt));
+  }
+}
+
+/**
+ * Ollama server URL from OLLAMA_HOST (e.g. "0.0.0.0:11434"), else the local default
+ */
+export function defaultOllamaUrl(): string {
+  const host = process.env.OLLAMA_HOST;
+  if (!host) return 'http://localhost:11434';
+  return /^https?:\/\//.test(host) ? host : `http://${host}`;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
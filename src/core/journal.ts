@@ -0,0 +1,194 @@
+/**
+ * Journal module - Append-only clause revision history
+ * Records every lifecycle change with before/after snapshots and the actor
+ */
+
+import { v7 as uuidv7 } from 'uuid';
+import type { DatabaseManager } from './database.js';
+import { rowToClause, type ClauseRow } from './clauses.js';
+import { buildNamespaceFilter, namespaceScope, type NamespaceScope } from './namespaces.js';
+import type { Clause, ClauseRevision, RevisionAction } from './types.js';
+
+interface RevisionRow {
+  id: string;
+  clause_id: string;
+  subject: string;
+  predicate: string;
+  action: string;
+  actor: string;
+  reason: string | null;
+  before_state: string | null;
+  after_state: string | null;
+  related_clause_id: string | null;
+  recorded_at: string;
+}
+
+export interface RevisionInput {
+  clauseId: string;
+  action: RevisionAction;
+  actor: string;
+  before?: Clause | null;
+  after?: Clause | null;
+  reason?: string;
+  relatedClauseId?: string;
+}
+
+export interface RevisionChange {
+  field: keyof Clause;
+  from: unknown;
+  to: unknown;
+}
+
+// Usage counters change on every read and would drown out real edits
+const IGNORED_DIFF_FIELDS: Array<keyof Clause> = ['last_accessed', 'access_count'];
+
+// Revisions with the namespace of the clause they describe, taken from the snapshots so
+// deleted clauses keep theirs; older snapshots without one fall back to the live clause
+const SCOPED_REVISIONS = `SELECT clause_revisions.*, clause_revisions.rowid AS seq,
+    COALESCE(
+      json_extract(after_state, '$.namespace'),
+      json_extract(before_state, '$.namespace'),
+      (SELECT namespace FROM clauses WHERE clauses.id = clause_revisions.clause_id)
+    ) AS namespace
+  FROM clause_revisions`;
+
+export class ChangeJournal {
+  private db: DatabaseManager;
+  private scope: NamespaceScope = namespaceScope();
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Restrict history reads to the namespaces this scope can see
+   */
+  setNamespace(scope: NamespaceScope): void {
+    this.scope = scope;
+  }
+
+  /**
+   * Append a revision to the journal
+   */
+  record(input: RevisionInput): ClauseRevision {
+    const snapshot = input.after ?? input.before ?? this.snapshot(input.clauseId);
+
+    const revision: ClauseRevision = {
+      id: uuidv7(),
+      clause_id: input.clauseId,
+      subject: snapshot?.subject ?? '',
+      predicate: snapshot?.predicate ?? '',
+      action: input.action,
+      actor: input.actor,
+      reason: input.reason ?? null,
+      before: input.before ?? null,
+      after: input.after ?? null,
+      related_clause_id: input.relatedClauseId ?? null,
+      recorded_at: new Date().toISOString(),
+    };
+
+    this.db.run(
+      `INSERT INTO clause_revisions (
+        id, clause_id, subject, predicate, action, actor, reason,
+        before_state, after_state, related_clause_id, recorded_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        revision.id,
+        revision.clause_id,
+        revision.subject,
+        revision.predicate,
+        revision.action,
+        revision.actor,
+        revision.reason,
+        revision.before ? JSON.stringify(revision.before) : null,
+        revision.after ? JSON.stringify(revision.after) : null,
+        revision.related_clause_id,
+        revision.recorded_at,
+      ],
+    );
+
+    return revision;
+  }
+
+  /**
+   * Read the current state of a clause without touching access counters
+   */
+  snapshot(clauseId: string): Clause | null {
+    const row = this.db.get<ClauseRow>('SELECT * FROM clauses WHERE id = ?', [clauseId]);
+    return row ? rowToClause(row) : null;
+  }
+
+  /**
+   * Timeline of a single clause, including revisions that reference it
+   * (e.g. the clause that superseded it)
+   */
+  getClauseHistory(clauseId: string, options: { limit?: number } = {}): ClauseRevision[] {
+    const namespace = buildNamespaceFilter(this.scope, 'r');
+    const rows = this.db.all<RevisionRow>(
+      `SELECT r.* FROM (${SCOPED_REVISIONS}) r
+       WHERE (r.clause_id = ? OR r.related_clause_id = ?)${namespace.sql}
+       ORDER BY r.seq ASC
+       LIMIT ?`,
+      [clauseId, clauseId, ...namespace.params, options.limit ?? 1000],
+    );
+    return rows.map((row) => this.rowToRevision(row));
+  }
+
+  /**
+   * Timeline of every clause sharing a subject+predicate (e.g. user.lives_in)
+   */
+  getChainHistory(
+    subject: string,
+    predicate: string,
+    options: { limit?: number } = {},
+  ): ClauseRevision[] {
+    const namespace = buildNamespaceFilter(this.scope, 'r');
+    const rows = this.db.all<RevisionRow>(
+      `SELECT r.* FROM (${SCOPED_REVISIONS}) r
+       WHERE r.subject = ? AND r.predicate = ?${namespace.sql}
+       ORDER BY r.seq ASC
+       LIMIT ?`,
+      [subject, predicate, ...namespace.params, options.limit ?? 1000],
+    );
+    return rows.map((row) => this.rowToRevision(row));
+  }
+
+  // ========== Private Methods ==========
+
+  private rowToRevision(row: RevisionRow): ClauseRevision {
+    return {
+      id: row.id,
+      clause_id: row.clause_id,
+      subject: row.subject,
+      predicate: row.predicate,
+      action: row.action as RevisionAction,
+      actor: row.actor,
+      reason: row.reason,
+      before: row.before_state ? (JSON.parse(row.before_state) as Clause) : null,
+      after: row.after_state ? (JSON.parse(row.after_state) as Clause) : null,
+      related_clause_id: row.related_clause_id,
+      recorded_at: row.recorded_at,
+    };
+  }
+}
+
+/**
+ * List the fields that changed between a revision's snapshots
+ */
+export function diffRevision(revision: ClauseRevision): RevisionChange[] {
+  if (!revision.before || !revision.after) {
+    return [];
+  }
+
+  const changes: RevisionChange[] = [];
+  for (const field of Object.keys(revision.after) as Array<keyof Clause>) {
+    if (IGNORED_DIFF_FIELDS.includes(field)) continue;
+
+    const from = revision.before[field];
+    const to = revision.after[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
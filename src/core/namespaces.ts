@@ -0,0 +1,79 @@
+/**
+ * Namespaces module - Per-user and per-agent memory partitions
+ * Clauses, sources, packs and skill bindings each belong to one namespace:
+ * `shared`, `user:<id>` or `agent:<id>`. A scope reads its own namespace, the
+ * namespaces it explicitly inherits and `shared`, and writes to its own
+ * namespace or, when asked to, to `shared`
+ */
+
+export const SHARED_NAMESPACE = 'shared';
+
+const NAMESPACE_PATTERN = /^(?:shared|(?:user|agent):[A-Za-z0-9._@-]+)$/;
+
+export interface NamespaceScope {
+  /** Namespace new records are written to */
+  namespace: string;
+  /** Namespaces this scope can read, most specific first; always ends with shared */
+  visible: string[];
+}
+
+export interface NamespaceFilter {
+  /** SQL fragment starting with " AND" */
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * Validate a namespace name
+ */
+export function parseNamespace(value: string): string {
+  const namespace = value.trim();
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(`Invalid namespace: ${value}; use shared, user:<id> or agent:<id>`);
+  }
+  return namespace;
+}
+
+/**
+ * Build the scope for a namespace and the namespaces it inherits
+ * e.g. an assistant agent that should see its user's preferences:
+ *   namespaceScope('agent:planner', ['user:alice'])
+ */
+export function namespaceScope(
+  namespace: string = SHARED_NAMESPACE,
+  inherits: string[] = [],
+): NamespaceScope {
+  const own = parseNamespace(namespace);
+  const visible = [own, ...inherits.map(parseNamespace), SHARED_NAMESPACE];
+  return { namespace: own, visible: [...new Set(visible)] };
+}
+
+/**
+ * Build the visibility filter for a table alias
+ */
+export function buildNamespaceFilter(scope: NamespaceScope, alias: string = 'c'): NamespaceFilter {
+  return {
+    sql: ` AND ${alias}.namespace IN (${scope.visible.map(() => '?').join(', ')})`,
+    params: [...scope.visible],
+  };
+}
+
+/**
+ * Namespace a write should go to; only the scope's own namespace and shared are writable
+ */
+export function resolveWriteNamespace(scope: NamespaceScope, requested?: string): string {
+  if (requested === undefined) return scope.namespace;
+
+  const namespace = parseNamespace(requested);
+  if (namespace !== scope.namespace && namespace !== SHARED_NAMESPACE) {
+    throw new Error(`Namespace ${namespace} is not writable from ${scope.namespace}`);
+  }
+  return namespace;
+}
+
+/**
+ * Whether a record in the given namespace is visible to the scope
+ */
+export function isVisible(scope: NamespaceScope, namespace: string): boolean {
+  return scope.visible.includes(namespace);
+}
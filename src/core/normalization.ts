@@ -0,0 +1,166 @@
+/**
+ * Normalization module - Canonical predicates and entity names
+ * Maps predicate synonyms and entity aliases before clauses are stored
+ */
+
+import type { DatabaseManager } from './database.js';
+import { PredicateRegistry } from './predicates.js';
+import type { EntityResolver } from './entities.js';
+import type { ClauseInput, EntityAlias } from './types.js';
+
+// Ways the extractor refers to the person the memory belongs to
+const SELF_ALIASES = ['user', 'i', 'me', 'myself', 'the user', 'the_user'];
+
+export class Normalizer {
+  private db: DatabaseManager;
+  private predicates: PredicateRegistry;
+  private entities: EntityResolver | null = null;
+
+  constructor(db: DatabaseManager, predicates?: PredicateRegistry) {
+    this.db = db;
+    this.predicates = predicates ?? new PredicateRegistry();
+  }
+
+  /**
+   * Set the predicate registry that provides synonyms
+   */
+  setPredicateRegistry(predicates: PredicateRegistry): void {
+    this.predicates = predicates;
+  }
+
+  /**
+   * Set the entity resolver used to map names to entity IDs
+   * Without one, only the alias table is consulted
+   */
+  setEntityResolver(entities: EntityResolver): void {
+    this.entities = entities;
+  }
+
+  /**
+   * Canonicalize subject, predicate and entity-valued objects of a clause
+   * The original values are kept in metadata.normalized_from
+   */
+  normalize<T extends ClauseInput>(input: T): T {
+    const predicate = this.normalizePredicate(input.predicate);
+    const subject = this.normalizeSubject(input.subject);
+    const object = this.normalizeObject(predicate, input.object);
+
+    const original: Record<string, string> = {};
+    if (subject !== input.subject) original.subject = input.subject;
+    if (predicate !== input.predicate) original.predicate = input.predicate;
+    if (object !== input.object) original.object = input.object;
+
+    if (Object.keys(original).length === 0) {
+      return input;
+    }
+
+    return {
+      ...input,
+      subject,
+      predicate,
+      object,
+      metadata: {
+        ...input.metadata,
+        normalized_from: {
+          ...(input.metadata?.normalized_from as Record<string, string> | undefined),
+          ...original,
+        },
+      },
+    };
+  }
+
+  /**
+   * snake_case the predicate and resolve synonyms
+   */
+  normalizePredicate(predicate: string): string {
+    const snake = predicate
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, '_');
+    return this.predicates.resolve(snake);
+  }
+
+  /**
+   * Resolve a subject through the alias table (or entity resolver)
+   */
+  normalizeSubject(subject: string): string {
+    const trimmed = subject.trim();
+    const resolved = this.resolveName(trimmed);
+    if (resolved) {
+      return resolved;
+    }
+    if (SELF_ALIASES.includes(trimmed.toLowerCase())) {
+      return 'user';
+    }
+    return trimmed;
+  }
+
+  /**
+   * Resolve an object through the alias table when the predicate takes entities
+   */
+  normalizeObject(predicate: string, object: string): string {
+    if (this.predicates.get(predicate)?.value_type !== 'entity') {
+      return object;
+    }
+    return this.resolveName(object.trim()) ?? object;
+  }
+
+  // ========== Alias Table ==========
+
+  /**
+   * Map a surface name (case-insensitive) to a canonical entity ID
+   */
+  addAlias(alias: string, entityId: string): EntityAlias {
+    const trimmed = alias.trim();
+    if (!trimmed || !entityId.trim()) {
+      throw new Error('Alias and entity ID are required');
+    }
+
+    this.db.run(
+      `INSERT INTO entity_aliases (alias, entity_id) VALUES (?, ?)
+       ON CONFLICT(alias) DO UPDATE SET entity_id = excluded.entity_id`,
+      [trimmed, entityId.trim()],
+    );
+
+    return this.db.get<EntityAlias>('SELECT * FROM entity_aliases WHERE alias = ?', [trimmed])!;
+  }
+
+  /**
+   * Remove an alias
+   */
+  removeAlias(alias: string): boolean {
+    const result = this.db.run('DELETE FROM entity_aliases WHERE alias = ?', [alias.trim()]);
+    return result.changes > 0;
+  }
+
+  /**
+   * List aliases, optionally for a single entity
+   */
+  listAliases(entityId?: string): EntityAlias[] {
+    if (entityId) {
+      return this.db.all<EntityAlias>(
+        'SELECT * FROM entity_aliases WHERE entity_id = ? ORDER BY alias',
+        [entityId],
+      );
+    }
+    return this.db.all<EntityAlias>('SELECT * FROM entity_aliases ORDER BY entity_id, alias');
+  }
+
+  /**
+   * Look up the entity ID for a surface name
+   */
+  resolveAlias(name: string): string | null {
+    const row = this.db.get<{ entity_id: string }>(
+      'SELECT entity_id FROM entity_aliases WHERE alias = ?',
+      [name],
+    );
+    return row?.entity_id ?? null;
+  }
+
+  // ========== Private Methods ==========
+
+  private resolveName(name: string): string | null {
+    // Aliases may point at entities that have not been created yet
+    return this.entities?.resolve(name)?.id ?? this.resolveAlias(name);
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * PII module - Detect and redact personal data before it is stored
+ * Detectors are regexes, backed by checksums where the format has one (Luhn for
+ * card numbers, mod-97 for IBANs) so that random digit runs are not flagged.
+ * Each category has a policy: drop the record, mask or hash the value, store it
+ * encrypted with the instance passphrase, or allow it through unchanged
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import type { DatabaseManager } from './database.js';
+import { decryptBuffer, encryptBuffer } from './encryption.js';
+import type { Clause, ClauseInput } from './types.js';
+
+// ========== Types ==========
+
+export type PiiCategory =
+  | 'credit_card'
+  | 'iban'
+  | 'ssn'
+  | 'passport'
+  | 'api_key'
+  | 'email'
+  | 'phone';
+
+export type PiiAction = 'drop' | 'mask' | 'hash' | 'encrypt' | 'allow';
+
+export interface PiiConfig {
+  /** Run the detector on new sources and extracted clauses (default: false) */
+  enabled?: boolean;
+  /** Action per category; unset categories use DEFAULT_PII_POLICIES */
+  policies?: Partial<Record<PiiCategory, PiiAction>>;
+}
+
+export interface PiiMatch {
+  category: PiiCategory;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiFinding {
+  category: PiiCategory;
+  action: PiiAction;
+  count: number;
+}
+
+export interface PiiResult {
+  /** Text with every non-allowed match replaced */
+  text: string;
+  findings: PiiFinding[];
+  /** Whether a category with the drop policy was found */
+  dropped: boolean;
+}
+
+export interface PiiAuditReport {
+  scanned: { clauses: number; sources: number };
+  /** Archives that are missing or could not be decrypted */
+  unreadable: string[];
+  findings: Array<{ kind: 'clause' | 'source'; id: string; categories: PiiCategory[] }>;
+  totals: Partial<Record<PiiCategory, number>>;
+}
+
+export const PII_CATEGORIES: PiiCategory[] = [
+  'credit_card',
+  'iban',
+  'ssn',
+  'passport',
+  'api_key',
+  'email',
+  'phone',
+];
+
+export const PII_ACTIONS: PiiAction[] = ['drop', 'mask', 'hash', 'encrypt', 'allow'];
+
+/**
+ * Secrets and government identifiers are kept out of memory; contact details,
+ * which preferences legitimately mention, are allowed
+ */
+export const DEFAULT_PII_POLICIES: Record<PiiCategory, PiiAction> = {
+  credit_card: 'drop',
+  iban: 'mask',
+  ssn: 'drop',
+  passport: 'mask',
+  api_key: 'drop',
+  email: 'allow',
+  phone: 'allow',
+};
+
+// ========== Detectors ==========
+
+interface Detector {
+  pattern: RegExp;
+  /** Capture group holding the value, when the pattern also matches context */
+  group?: number;
+  validate?: (value: string) => boolean;
+  /** Keyword that must appear within CONTEXT_WINDOW characters of the value */
+  context?: RegExp;
+}
+
+const CONTEXT_WINDOW = 32;
+
+const DETECTORS: Record<PiiCategory, Detector> = {
+  // Card networks issue numbers starting 2-6; IMEIs and many order or tracking numbers
+  // also pass Luhn, so a card keyword has to be nearby as well
+  credit_card: {
+    pattern: /\b[2-6](?:[ -]?\d){12,18}\b/g,
+    validate: (value) => luhnValid(value.replace(/[ -]/g, '')),
+    context: /\b(?:(?:credit|debit|master)?cards?|visa|amex|cc)\b/i,
+  },
+  iban: {
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: (value) => ibanValid(value),
+  },
+  ssn: {
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+  },
+  passport: {
+    pattern: /\bpassport(?:\s+(?:no\.?|number|#))?\s*[:#]?\s*((?=[A-Z]*\d)[A-Z0-9]{6,9})\b/gi,
+    group: 1,
+  },
+  api_key: {
+    pattern: new RegExp(
+      [
+        'sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}',
+        'AKIA[0-9A-Z]{16}',
+        'gh[pousr]_[A-Za-z0-9]{36,}',
+        'xox[abprs]-[A-Za-z0-9-]{10,}',
+        'AIza[0-9A-Za-z_-]{35}',
+      ].map((p) => `\\b${p}`).join('|'),
+      'g',
+    ),
+  },
+  email: {
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  phone: {
+    pattern: /(?:\+\d{1,3}[ .-]?)?\(?\b\d{3}\)?[ .-]\d{3}[ .-]\d{4}\b/g,
+  },
+};
+
+const TOKEN_PATTERN = /\[([a-z_]+):enc:([A-Za-z0-9+/=]+)\]/g;
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function luhnValid(digits: string): boolean {
+  if (!/^\d{13,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check; spaces are ignored
+ */
+export function ibanValid(value: string): boolean {
+  const iban = value.replace(/ /g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Find PII in text; matches are sorted and never overlap, earlier categories in
+ * PII_CATEGORIES winning over later ones (a card number is not also a phone number)
+ */
+export function detectPii(text: string): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+
+  for (const category of PII_CATEGORIES) {
+    const { pattern, group, validate, context } = DETECTORS[category];
+    for (const match of text.matchAll(pattern)) {
+      const value = group ? match[group] : match[0];
+      if (!value || (validate && !validate(value))) continue;
+
+      const start = match.index + match[0].lastIndexOf(value);
+      const end = start + value.length;
+      const around = text.slice(Math.max(0, start - CONTEXT_WINDOW), end + CONTEXT_WINDOW);
+      if (context && !context.test(around)) continue;
+      if (matches.some((m) => start < m.end && end > m.start)) continue;
+      matches.push({ category, start, end, value });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// ========== Redaction ==========
+
+export class PiiRedactor {
+  private policies: Record<PiiCategory, PiiAction>;
+  private encryptionKey: string | null = null;
+  // Random per instance until setHashKey() gives it the database's key
+  private hashKey: Buffer = randomBytes(32);
+
+  constructor(config: PiiConfig = {}) {
+    this.policies = { ...DEFAULT_PII_POLICIES, ...config.policies };
+  }
+
+  /**
+   * Set the passphrase used by the encrypt policy; without one, encrypt falls back to mask
+   */
+  setEncryptionKey(key: string | null): void {
+    this.encryptionKey = key;
+  }
+
+  /**
+   * Set the HMAC key used by the hash policy
+   * Hashes are only comparable between redactors sharing a key; see loadPiiHashKey()
+   */
+  setHashKey(key: Buffer): void {
+    this.hashKey = key;
+  }
+
+  /**
+   * Action applied to a category
+   */
+  policyFor(category: PiiCategory): PiiAction {
+    return this.policies[category];
+  }
+
+  /**
+   * Replace PII in text according to the category policies
+   * Dropped values are removed from the text; callers decide whether the whole
+   * record goes (extracted clauses) or only the value (source content)
+   */
+  redact(text: string): PiiResult {
+    const matches = detectPii(text);
+    const counts = new Map<PiiCategory, number>();
+    let redacted = text;
+
+    // Replace from the end so earlier offsets stay valid
+    for (const match of [...matches].reverse()) {
+      counts.set(match.category, (counts.get(match.category) ?? 0) + 1);
+      const replacement = this.replace(match);
+      redacted = redacted.slice(0, match.start) + replacement + redacted.slice(match.end);
+    }
+
+    const findings = [...counts].map(([category, count]) => ({
+      category,
+      action: this.policyFor(category),
+      count,
+    }));
+
+    return {
+      text: redacted,
+      findings,
+      dropped: findings.some((f) => f.action === 'drop'),
+    };
+  }
+
+  /**
+   * Redact the text fields of a clause and record what was found in metadata.pii
+   * Returns null when the clause contains a category with the drop policy
+   */
+  redactClause<T extends ClauseInput>(clause: T): T | null {
+    const redacted = { ...clause };
+    const findings: PiiFinding[] = [];
+
+    for (const field of ['subject', 'object', 'natural_form'] as const) {
+      const result = this.redact(clause[field]);
+      if (result.dropped) return null;
+      redacted[field] = result.text;
+      findings.push(...result.findings);
+    }
+
+    if (findings.length === 0) return clause;
+    return { ...redacted, metadata: { ...clause.metadata, pii: mergeFindings(findings) } };
+  }
+
+  /**
+   * What redactClause() would find in a clause, without changing it
+   */
+  scanClause(clause: ClauseInput): PiiFinding[] {
+    const fields = [clause.subject, clause.object, clause.natural_form];
+    return mergeFindings(fields.flatMap((text) => this.redact(text).findings));
+  }
+
+  /**
+   * Redact a new natural form for an existing clause
+   * A dropped value leaves its marker, as in source content, since the clause itself stays
+   */
+  redactUpdate(
+    updates: Partial<Clause>,
+    existing: Clause,
+  ): Partial<Clause> {
+    if (typeof updates.natural_form !== 'string') return updates;
+
+    const result = this.redact(updates.natural_form);
+    if (result.findings.length === 0) return updates;
+
+    const metadata = updates.metadata ?? existing.metadata;
+    const previous = (existing.metadata.pii ?? []) as PiiFinding[];
+    return {
+      ...updates,
+      natural_form: result.text,
+      metadata: { ...metadata, pii: mergeFindings([...previous, ...result.findings]) },
+    };
+  }
+
+  /**
+   * Decrypt values stored by the encrypt policy back into the text
+   */
+  reveal(text: string): string {
+    if (!this.encryptionKey) {
+      throw new Error('Revealing encrypted PII needs the encryption key');
+    }
+    const key = this.encryptionKey;
+    return text.replace(TOKEN_PATTERN, (_token, _category, payload: string) =>
+      decryptBuffer(Buffer.from(payload, 'base64'), key).toString('utf-8'));
+  }
+
+  private replace(match: PiiMatch): string {
+    const action = this.policyFor(match.category);
+
+    switch (action) {
+      case 'allow':
+        return match.value;
+      case 'drop':
+        return `[${match.category} removed]`;
+      case 'hash': {
+        // Keyed, since SSNs or card numbers are few enough to hash them all and compare
+        const normalized = match.value.replace(/[\s-]/g, '');
+        const digest = createHmac('sha256', this.hashKey).update(normalized).digest('hex');
+        return `[${match.category}:${digest.slice(0, 12)}]`;
+      }
+      case 'encrypt':
+        if (this.encryptionKey) {
+          const sealed = encryptBuffer(Buffer.from(match.value, 'utf-8'), this.encryptionKey);
+          return `[${match.category}:enc:${sealed.toString('base64')}]`;
+        }
+        return maskValue(match.value);
+      case 'mask':
+        return maskValue(match.value);
+    }
+  }
+}
+
+/**
+ * HMAC key for the hash policy, generated on first use and kept in the database's metadata
+ * so a value hashes the same way across runs. Anyone who can read the database can read the
+ * key too, so hashed values are only as private as an unencrypted database file
+ */
+export function loadPiiHashKey(db: DatabaseManager): Buffer {
+  let key = db.getMetadata('pii_hash_key');
+  if (!key) {
+    key = randomBytes(32).toString('base64');
+    db.setMetadata('pii_hash_key', key);
+  }
+  return Buffer.from(key, 'base64');
+}
+
+/**
+ * Mask all letters and digits but the last four (all of them for short values)
+ */
+function maskValue(value: string): string {
+  const total = value.replace(/[^A-Za-z0-9]/g, '').length;
+  const keep = total >= 8 ? 4 : 0;
+  let seen = 0;
+  return value.replace(/[A-Za-z0-9]/g, (char) => (++seen > total - keep ? char : '*'));
+}
+
+function mergeFindings(findings: PiiFinding[]): PiiFinding[] {
+  const merged = new Map<PiiCategory, PiiFinding>();
+  for (const finding of findings) {
+    const existing = merged.get(finding.category);
+    merged.set(finding.category, {
+      ...finding,
+      count: (existing?.count ?? 0) + finding.count,
+    });
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Load the pii section of config.yaml
+ * memory.om_lite.pii: { enabled, policies: { credit_card: drop, email: mask, ... } }
+ */
+export function loadPiiConfig(path: string = '~/.openclaw/config.yaml'): PiiConfig | undefined {
+  const file = path.startsWith('~') ? path.replace('~', homedir()) : path;
+  if (!existsSync(file)) return undefined;
+
+  const parsed = parseYaml(readFileSync(file, 'utf-8')) as {
+    memory?: { om_lite?: { pii?: Record<string, unknown> } };
+  } | null;
+  const section = parsed?.memory?.om_lite?.pii;
+  if (!section) return undefined;
+
+  const policies: Partial<Record<PiiCategory, PiiAction>> = {};
+  const configured = (section.policies ?? {}) as Record<string, unknown>;
+  for (const [category, action] of Object.entries(configured)) {
+    if (!PII_CATEGORIES.includes(category as PiiCategory)) {
+      throw new Error(`Unknown PII category: ${category}`);
+    }
+    if (!PII_ACTIONS.includes(action as PiiAction)) {
+      throw new Error(`Unknown PII action for ${category}: ${String(action)}`);
+    }
+    policies[category as PiiCategory] = action as PiiAction;
+  }
+
+  return {
+    enabled: typeof section.enabled === 'boolean' ? section.enabled : undefined,
+    policies,
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Predicates module - Registry of predicate semantics
+ * Declares cardinality, inverses, synonyms, value types and decay rates
+ */
+
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import YAML from 'yaml';
+import type {
+  PredicateCardinality,
+  PredicateDefinition,
+  PredicateValueType,
+} from './types.js';
+
+export interface PredicateRegistryConfig {
+  /** YAML file with a top-level `predicates:` list */
+  file?: string;
+  /** Inline definitions, applied after the file */
+  definitions?: PredicateDefinition[];
+}
+
+export interface RegisteredPredicate extends PredicateDefinition {
+  /** Where the definition came from: 'default', 'config' or 'pack:<id>' */
+  origin: string;
+}
+
+const CARDINALITIES: PredicateCardinality[] = ['single', 'multi'];
+const VALUE_TYPES: PredicateValueType[] = ['string', 'entity', 'number', 'boolean', 'date'];
+
+// Predicates that can only have one active value at a time
+const SINGLETON_PREDICATES: PredicateDefinition[] = [
+  { name: 'lives_in', cardinality: 'single', synonyms: ['resides_in'], value_type: 'entity' },
+  { name: 'works_at', cardinality: 'single', synonyms: ['employed_at', 'works_for'], value_type: 'entity' },
+  { name: 'email_address', cardinality: 'single', synonyms: ['email'] },
+  { name: 'phone_number', cardinality: 'single', synonyms: ['phone'] },
+  { name: 'uses_for_notes', cardinality: 'single' },
+  { name: 'preferred_language', cardinality: 'single', synonyms: ['prefers_language'] },
+  { name: 'timezone', cardinality: 'single', synonyms: ['in_timezone', 'preferred_timezone'] },
+  { name: 'full_name', cardinality: 'single' },
+  { name: 'is_located_in', cardinality: 'single', synonyms: ['located_in'], value_type: 'entity' },
+  { name: 'home_address', cardinality: 'single' },
+  { name: 'primary_calendar', cardinality: 'single' },
+  {
+    name: 'prefers_airline',
+    cardinality: 'single',
+    synonyms: ['preferred_airline', 'likes_airline'],
+  },
+  {
+    name: 'prefers_seat_type',
+    cardinality: 'single',
+    synonyms: ['seat_preference', 'prefers_seat'],
+  },
+  {
+    name: 'preferred_currency',
+    cardinality: 'single',
+    synonyms: ['uses_currency', 'currency'],
+  },
+];
+
+// Predicates that can have multiple values
+const MULTI_VALUE_PREDICATES: PredicateDefinition[] = [
+  { name: 'likes', cardinality: 'multi', synonyms: ['enjoys'] },
+  { name: 'dislikes', cardinality: 'multi' },
+  { name: 'interested_in', cardinality: 'multi' },
+  { name: 'skilled_at', cardinality: 'multi' },
+  { name: 'knows', cardinality: 'multi', value_type: 'entity' },
+  { name: 'speaks_language', cardinality: 'multi' },
+  { name: 'has_hobby', cardinality: 'multi' },
+  { name: 'member_of', cardinality: 'multi', inverse: 'has_member', value_type: 'entity' },
+  { name: 'integrates_with', cardinality: 'multi', value_type: 'entity' },
+  { name: 'can_perform', cardinality: 'multi' },
+];
+
+export const DEFAULT_PREDICATES: PredicateDefinition[] = [
+  ...SINGLETON_PREDICATES,
+  ...MULTI_VALUE_PREDICATES,
+];
+
+export class PredicateRegistry {
+  private predicates = new Map<string, RegisteredPredicate>();
+  private synonyms = new Map<string, string>();
+
+  constructor(definitions: PredicateDefinition[] = DEFAULT_PREDICATES) {
+    for (const definition of definitions) {
+      this.register(definition, 'default');
+    }
+  }
+
+  /**
+   * Register or replace a predicate definition
+   * Pack definitions never override predicates configured by the user
+   */
+  register(definition: PredicateDefinition, origin: string = 'config'): RegisteredPredicate {
+    const validated = validateDefinition(definition);
+    const existing = this.predicates.get(validated.name);
+
+    if (existing && existing.origin === 'config' && origin.startsWith('pack:')) {
+      return existing;
+    }
+
+    if (existing) {
+      this.dropSynonyms(existing);
+    }
+
+    const entry: RegisteredPredicate = { ...validated, origin };
+    this.predicates.set(entry.name, entry);
+    for (const synonym of entry.synonyms ?? []) {
+      this.synonyms.set(synonym, entry.name);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Remove every definition contributed by an origin (e.g. an uninstalled pack)
+   * Defaults that the origin had overridden are restored
+   */
+  unregisterOrigin(origin: string): number {
+    let removed = 0;
+
+    for (const entry of [...this.predicates.values()]) {
+      if (entry.origin !== origin) continue;
+
+      this.dropSynonyms(entry);
+      this.predicates.delete(entry.name);
+      removed++;
+
+      const fallback = DEFAULT_PREDICATES.find((d) => d.name === entry.name);
+      if (fallback) {
+        this.register(fallback, 'default');
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Load definitions from a YAML document
+   */
+  loadYaml(content: string, origin: string = 'config'): RegisteredPredicate[] {
+    const parsed = YAML.parse(content) as { predicates?: unknown } | null;
+    const list = parsed?.predicates;
+
+    if (!Array.isArray(list)) {
+      throw new Error('Predicate file must contain a top-level "predicates" list');
+    }
+
+    return list.map((definition) => this.register(definition as PredicateDefinition, origin));
+  }
+
+  /**
+   * Load definitions from a YAML file
+   */
+  loadFile(filePath: string, origin: string = 'config'): RegisteredPredicate[] {
+    const content = readFileSync(filePath.replace(/^~/, homedir()), 'utf-8');
+    return this.loadYaml(content, origin);
+  }
+
+  /**
+   * Look up a predicate by name or synonym
+   */
+  get(name: string): RegisteredPredicate | undefined {
+    return this.predicates.get(this.resolve(name));
+  }
+
+  /**
+   * Map a synonym to its canonical predicate name
+   * Unknown predicates are returned unchanged
+   */
+  resolve(name: string): string {
+    if (this.predicates.has(name)) {
+      return name;
+    }
+    return this.synonyms.get(name) ?? name;
+  }
+
+  /**
+   * All names that mean the same as the given predicate, canonical first
+   */
+  variants(name: string): string[] {
+    const entry = this.get(name);
+    if (!entry) {
+      return [name];
+    }
+    return [entry.name, ...(entry.synonyms ?? [])];
+  }
+
+  /**
+   * Cardinality of a predicate, or undefined when it is not registered
+   */
+  cardinality(name: string): PredicateCardinality | undefined {
+    return this.get(name)?.cardinality;
+  }
+
+  /**
+   * Per-predicate decay rate, if one is declared
+   */
+  decayRate(name: string): number | undefined {
+    return this.get(name)?.decay_rate;
+  }
+
+  /**
+   * Inverse predicate name, if one is declared
+   */
+  inverseOf(name: string): string | undefined {
+    const entry = this.get(name);
+    if (entry?.inverse) {
+      return entry.inverse;
+    }
+
+    // Inverses are declared on one side only
+    for (const candidate of this.predicates.values()) {
+      if (candidate.inverse === name) {
+        return candidate.name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Compare two object values using the predicate's value type
+   */
+  sameValue(name: string, a: string, b: string): boolean {
+    switch (this.get(name)?.value_type) {
+      case 'number': {
+        const x = Number(a);
+        const y = Number(b);
+        if (!Number.isNaN(x) && !Number.isNaN(y)) {
+          return x === y;
+        }
+        break;
+      }
+      case 'boolean':
+        return toBoolean(a) === toBoolean(b);
+      case 'date': {
+        const x = Date.parse(a);
+        const y = Date.parse(b);
+        if (!Number.isNaN(x) && !Number.isNaN(y)) {
+          return x === y;
+        }
+        break;
+      }
+    }
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  /**
+   * List registered predicates sorted by name
+   */
+  list(): RegisteredPredicate[] {
+    return [...this.predicates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // ========== Private Methods ==========
+
+  private dropSynonyms(entry: RegisteredPredicate): void {
+    for (const synonym of entry.synonyms ?? []) {
+      if (this.synonyms.get(synonym) === entry.name) {
+        this.synonyms.delete(synonym);
+      }
+    }
+  }
+}
+
+/**
+ * Check a definition read from YAML or config and strip unknown fields
+ */
+export function validateDefinition(definition: PredicateDefinition): PredicateDefinition {
+  if (!definition || typeof definition.name !== 'string' || definition.name.trim() === '') {
+    throw new Error('Predicate definition is missing a name');
+  }
+  if (!CARDINALITIES.includes(definition.cardinality)) {
+    throw new Error(
+      `Invalid cardinality for predicate ${definition.name}: ${String(definition.cardinality)}`,
+    );
+  }
+  if (definition.value_type !== undefined && !VALUE_TYPES.includes(definition.value_type)) {
+    throw new Error(
+      `Invalid value_type for predicate ${definition.name}: ${String(definition.value_type)}`,
+    );
+  }
+  if (
+    definition.decay_rate !== undefined &&
+    (typeof definition.decay_rate !== 'number' ||
+      definition.decay_rate < 0 ||
+      definition.decay_rate > 1)
+  ) {
+    throw new Error(`Invalid decay_rate for predicate ${definition.name}: must be between 0 and 1`);
+  }
+  if (definition.synonyms !== undefined && !Array.isArray(definition.synonyms)) {
+    throw new Error(`Synonyms for predicate ${definition.name} must be a list`);
+  }
+
+  const name = definition.name.trim();
+  return {
+    name,
+    cardinality: definition.cardinality,
+    inverse: definition.inverse,
+    synonyms: definition.synonyms?.map((s) => String(s).trim()).filter((s) => s !== name),
+    value_type: definition.value_type,
+    decay_rate: definition.decay_rate,
+    description: definition.description,
+  };
+}
+
+function toBoolean(value: string): boolean {
+  return ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+}
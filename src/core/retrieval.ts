@@ -4,16 +4,28 @@
  */
 
 import { v7 as uuidv7 } from 'uuid';
+import { ContextBuilder, type BuiltContext } from './context.js';
+import { rowToClause, type ClauseRow as StoredClauseRow } from './clauses.js';
 import type { DatabaseManager } from './database.js';
 import type { EmbeddingManager } from './embeddings.js';
+import type { MemoryGraph } from './graph.js';
+import type { Reranker, RerankOptions } from './rerank.js';
 import type {
   Clause,
   ClauseType,
+  FilteredCandidate,
   RetrievalOptions,
   RetrievalResult,
+  ScoreExplanation,
   ScoredClause,
 } from './types.js';
-import { formatClausesForPrompt } from './sanitization.js';
+import { formatClausesForPrompt, type PromptFormat } from './sanitization.js';
+import {
+  buildTemporalFilter,
+  type TemporalFilter,
+  type TemporalOptions,
+} from './temporal.js';
+import { buildNamespaceFilter, namespaceScope, type NamespaceScope } from './namespaces.js';
 
 interface RetrievalConfig {
   semanticWeight: number;
@@ -23,26 +35,10 @@ interface RetrievalConfig {
   useLLMQueryRewriting: boolean;
 }
 
-interface ClauseRow {
-  id: string;
-  type: string;
-  subject: string;
-  predicate: string;
-  object: string;
-  natural_form: string;
-  valid_from: string;
-  valid_to: string | null;
-  recorded_at: string;
-  confidence: number;
-  decay_rate: number;
-  reinforcement_count: number;
-  source_id: string;
-  extraction_method: string;
-  last_accessed: string;
-  access_count: number;
-  tags: string;
-  metadata: string;
+interface ClauseRow extends StoredClauseRow {
   score?: number;
+  /** Confidence at knownAt, selected by queries that rank on confidence */
+  known_confidence?: number;
 }
 
 // LLM client interface for query rewriting
@@ -55,6 +51,15 @@ export class Retriever {
   private config: RetrievalConfig;
   private embeddingManager?: EmbeddingManager;
   private llmClient?: LLMClient;
+  private graph?: MemoryGraph;
+  private contextBuilder = new ContextBuilder();
+  private reranker: Reranker | null = null;
+  private scope: NamespaceScope = namespaceScope();
+  private rerankOptions: Required<RerankOptions> = {
+    topK: 20,
+    latencyBudgetMs: 2000,
+    weight: 0.7,
+  };
 
   constructor(
     db: DatabaseManager,
@@ -88,6 +93,39 @@ export class Retriever {
     this.llmClient = client;
   }
 
+  /**
+   * Set graph used for multi-hop expansion in retrieveForTask
+   */
+  setGraph(graph: MemoryGraph): void {
+    this.graph = graph;
+  }
+
+  /**
+   * Set the builder that assembles retrieveForTask().formatted
+   */
+  setContextBuilder(builder: ContextBuilder): void {
+    this.contextBuilder = builder;
+  }
+
+  /**
+   * Set the reranker applied to the top candidates of each query (null disables)
+   */
+  setReranker(reranker: Reranker | null, options: RerankOptions = {}): void {
+    this.reranker = reranker;
+    this.rerankOptions = {
+      topK: options.topK ?? 20,
+      latencyBudgetMs: options.latencyBudgetMs ?? 2000,
+      weight: Math.min(1, Math.max(0, options.weight ?? 0.7)),
+    };
+  }
+
+  /**
+   * Set the namespaces retrieval can see
+   */
+  setNamespace(scope: NamespaceScope): void {
+    this.scope = scope;
+  }
+
   /**
    * Check if semantic search is available
    */
@@ -110,7 +148,13 @@ export class Retriever {
       boostRecent = false,
       semanticWeight = this.config.semanticWeight,
       keywordWeight = this.config.keywordWeight,
+      asOf,
+      knownAt,
+      rerank = true,
+      explain = false,
     } = options;
+    const temporal = this.buildFilter({ asOf, knownAt, includeExpired });
+    const filtered = new Map<string, FilteredCandidate>();
 
     // Determine if we can use semantic search
     const canUseSemanticSearch = this.isSemanticSearchAvailable() && semanticWeight > 0;
@@ -119,10 +163,25 @@ export class Retriever {
     const keywordResults = await this.keywordSearch(query, {
       types,
       minConfidence,
-      includeExpired,
+      temporal,
       limit: limit * 2, // Get extra results for merging
     });
 
+    // Keyword hits that only the type or confidence filters removed
+    if (explain) {
+      const unfiltered = await this.keywordSearch(query, {
+        minConfidence: 0,
+        temporal,
+        limit: limit * 2,
+      });
+      const kept = new Set(keywordResults.map((row) => row.id));
+      for (const row of unfiltered) {
+        if (!kept.has(row.id)) {
+          filtered.set(row.id, this.filteredCandidate(row, types, 'keyword'));
+        }
+      }
+    }
+
     // Perform semantic search if available
     let semanticResults: Array<{ clauseId: string; similarity: number }> = [];
     if (canUseSemanticSearch && query.trim()) {
@@ -147,21 +206,36 @@ export class Retriever {
         semanticWeight: actualSemanticWeight,
         keywordWeight: actualKeywordWeight,
         recencyWeight: boostRecent ? this.config.recencyWeight : 0,
-      }
+      },
+      { types, minConfidence, temporal },
+      explain ? filtered : undefined,
     );
 
+    // Re-score the best candidates against the query
+    const ranked = rerank && query.trim()
+      ? await this.rerank(query, scoredClauses, explain)
+      : scoredClauses;
+
     // Take top N results
-    const topResults = scoredClauses.slice(0, limit);
+    const topResults = ranked.slice(0, limit);
+    if (explain) {
+      for (const clause of ranked.slice(limit)) {
+        filtered.set(clause.id, this.filteredCandidate(clause, types, 'limit'));
+      }
+    }
 
-    // Log access for retrieved clauses
-    for (const clause of topResults) {
-      await this.logAccess(clause.id, 'retrieval', query);
+    // Log access for retrieved clauses (point-in-time replays are read-only)
+    if (!temporal.pointInTime) {
+      for (const clause of topResults) {
+        await this.logAccess(clause.id, 'retrieval', query);
+      }
     }
 
     return {
       clauses: topResults,
       totalMatches: Math.max(keywordResults.length, semanticResults.length),
       retrievalMethod: canUseSemanticSearch ? 'hybrid' : 'keyword',
+      ...(explain ? { filtered: [...filtered.values()] } : {}),
     };
   }
 
@@ -175,19 +249,21 @@ export class Retriever {
     query: string,
     options: RetrievalOptions & { maxStages?: number } = {}
   ): Promise<RetrievalResult> {
-    const { maxStages = 3, limit = this.config.defaultLimit } = options;
+    const { maxStages = 3, limit = this.config.defaultLimit, explain = false } = options;
     const allClauses: Map<string, ScoredClause> = new Map();
+    const filtered = explain ? new Map<string, FilteredCandidate>() : undefined;
     let retrievalMethod: 'semantic' | 'keyword' | 'hybrid' = 'keyword';
 
     // Stage 1: Direct query
     const stage1 = await this.retrieve(query, { ...options, limit: Math.ceil(limit * 0.6) });
     for (const clause of stage1.clauses) {
-      allClauses.set(clause.id, clause);
+      allClauses.set(clause.id, withStage(clause, { name: 'direct' }));
     }
+    for (const candidate of stage1.filtered ?? []) filtered?.set(candidate.id, candidate);
     if (stage1.retrievalMethod === 'hybrid') retrievalMethod = 'hybrid';
 
     if (maxStages < 2 || allClauses.size >= limit) {
-      return this.buildResult(allClauses, limit, retrievalMethod);
+      return this.buildResult(allClauses, limit, retrievalMethod, filtered);
     }
 
     // Stage 2: Entity extraction and search
@@ -199,18 +275,25 @@ export class Retriever {
       const stage2 = await this.retrieve(entity, {
         ...options,
         limit: Math.ceil(limit * 0.3),
+        rerank: false,
       });
       for (const clause of stage2.clauses) {
         if (!allClauses.has(clause.id)) {
           // Apply a small penalty for indirect matches
-          allClauses.set(clause.id, { ...clause, score: clause.score * 0.8 });
+          allClauses.set(clause.id, withStage(
+            { ...clause, score: clause.score * 0.8 },
+            { name: 'entity', query: entity, multiplier: 0.8 },
+          ));
         }
       }
+      for (const candidate of stage2.filtered ?? []) {
+        if (!filtered?.has(candidate.id)) filtered?.set(candidate.id, candidate);
+      }
       if (stage2.retrievalMethod === 'hybrid') retrievalMethod = 'hybrid';
     }
 
     if (maxStages < 3 || allClauses.size >= limit) {
-      return this.buildResult(allClauses, limit, retrievalMethod);
+      return this.buildResult(allClauses, limit, retrievalMethod, filtered);
     }
 
     // Stage 3: Relationship expansion - find related clauses
@@ -219,23 +302,34 @@ export class Retriever {
       subjects.add(clause.subject);
     }
 
+    const temporal = this.buildFilter({
+      asOf: options.asOf,
+      knownAt: options.knownAt,
+      includeExpired: options.includeExpired,
+    });
+
     for (const subject of subjects) {
       const relatedClauses = this.db.all<ClauseRow>(
-        `SELECT * FROM clauses
-         WHERE subject = ? AND valid_to IS NULL AND confidence > 0.5
+        `SELECT * FROM clauses c
+         WHERE c.subject = ?${temporal.sql} AND ${temporal.confidenceSql} > 0.5
          LIMIT 5`,
-        [subject]
+        [subject, ...temporal.params, ...temporal.confidenceParams],
       );
 
       for (const row of relatedClauses) {
         if (!allClauses.has(row.id)) {
-          const clause = this.rowToClause(row);
-          allClauses.set(row.id, { ...clause, score: 0.3 }); // Lower score for expansion
+          const clause = rowToClause(row);
+          // Lower score for expansion
+          allClauses.set(row.id, {
+            ...clause,
+            score: 0.3,
+            ...(explain ? { explanation: fixedExplanation(0.3, { name: 'expansion' }) } : {}),
+          });
         }
       }
     }
 
-    return this.buildResult(allClauses, limit, retrievalMethod);
+    return this.buildResult(allClauses, limit, retrievalMethod, filtered);
   }
 
   /**
@@ -246,30 +340,33 @@ export class Retriever {
     options: {
       types?: ClauseType[];
       minConfidence: number;
-      includeExpired: boolean;
+      temporal: TemporalFilter;
       limit: number;
     }
   ): Promise<ClauseRow[]> {
-    const { types, minConfidence, includeExpired, limit } = options;
+    const { types, minConfidence, temporal, limit } = options;
 
     if (!query || !query.trim()) {
       // No query - return top clauses by confidence
       let sql = `
-        SELECT *, 1.0 as score FROM clauses c
-        WHERE c.confidence >= ?
+        SELECT *, ${temporal.confidenceSql} AS known_confidence, 1.0 as score FROM clauses c
+        WHERE ${temporal.confidenceSql} >= ?
       `;
-      const params: unknown[] = [minConfidence];
+      const params: unknown[] = [
+        ...temporal.confidenceParams,
+        ...temporal.confidenceParams,
+        minConfidence,
+      ];
 
-      if (!includeExpired) {
-        sql += ' AND c.valid_to IS NULL';
-      }
+      sql += temporal.sql;
+      params.push(...temporal.params);
 
       if (types && types.length > 0) {
         sql += ` AND c.type IN (${types.map(() => '?').join(',')})`;
         params.push(...types);
       }
 
-      sql += ' ORDER BY c.confidence DESC, c.last_accessed DESC LIMIT ?';
+      sql += ' ORDER BY known_confidence DESC, c.last_accessed DESC LIMIT ?';
       params.push(limit);
 
       return this.db.all<ClauseRow>(sql, params);
@@ -279,17 +376,21 @@ export class Retriever {
     const escapedQuery = this.prepareFtsQuery(query);
 
     let sql = `
-      SELECT c.*, bm25(clauses_fts) as score
+      SELECT c.*, ${temporal.confidenceSql} AS known_confidence, bm25(clauses_fts) as score
       FROM clauses c
       JOIN clauses_fts ON c.rowid = clauses_fts.rowid
       WHERE clauses_fts MATCH ?
-        AND c.confidence >= ?
+        AND ${temporal.confidenceSql} >= ?
     `;
-    const params: unknown[] = [escapedQuery, minConfidence];
+    const params: unknown[] = [
+      ...temporal.confidenceParams,
+      escapedQuery,
+      ...temporal.confidenceParams,
+      minConfidence,
+    ];
 
-    if (!includeExpired) {
-      sql += ' AND c.valid_to IS NULL';
-    }
+    sql += temporal.sql;
+    params.push(...temporal.params);
 
     if (types && types.length > 0) {
       sql += ` AND c.type IN (${types.map(() => '?').join(',')})`;
@@ -338,20 +439,30 @@ export class Retriever {
       semanticWeight: number;
       keywordWeight: number;
       recencyWeight: number;
-    }
+    },
+    filters: { types?: ClauseType[]; minConfidence: number; temporal: TemporalFilter },
+    filtered?: Map<string, FilteredCandidate>,
   ): Promise<ScoredClause[]> {
     const now = Date.now();
-    const clauseScores: Map<string, { clause: Clause; keywordScore: number; semanticScore: number }> = new Map();
+    const clauseScores: Map<string, {
+      clause: Clause;
+      confidence: number;
+      bm25: number | null;
+      keywordScore: number;
+      semanticScore: number;
+    }> = new Map();
 
     // Process keyword results
     for (const row of keywordResults) {
-      const clause = this.rowToClause(row);
+      const clause = rowToClause(row);
       const ftsScore = row.score ?? 0;
       // BM25 returns negative values (more negative = better match)
       const normalizedFtsScore = Math.max(0, 1 + ftsScore / 10);
 
       clauseScores.set(clause.id, {
         clause,
+        confidence: row.known_confidence ?? clause.confidence,
+        bm25: query.trim() ? ftsScore : null,
         keywordScore: normalizedFtsScore,
         semanticScore: 0,
       });
@@ -363,17 +474,43 @@ export class Retriever {
       if (existing) {
         existing.semanticScore = result.similarity;
       } else {
-        // Fetch clause from database
-        const row = this.db.get<ClauseRow>(
-          'SELECT * FROM clauses WHERE id = ?',
-          [result.clauseId]
-        );
+        // Fetch clause from database, applying the same filters as keyword search
+        const { types, minConfidence, temporal } = filters;
+        let sql = `SELECT *, ${temporal.confidenceSql} AS known_confidence FROM clauses c
+          WHERE c.id = ?${temporal.sql} AND ${temporal.confidenceSql} >= ?`;
+        const params: unknown[] = [
+          ...temporal.confidenceParams,
+          result.clauseId,
+          ...temporal.params,
+          ...temporal.confidenceParams,
+          minConfidence,
+        ];
+        if (types && types.length > 0) {
+          sql += ` AND c.type IN (${types.map(() => '?').join(',')})`;
+          params.push(...types);
+        }
+        const row = this.db.get<ClauseRow>(sql, params);
         if (row) {
+          const clause = rowToClause(row);
           clauseScores.set(result.clauseId, {
-            clause: this.rowToClause(row),
+            clause,
+            confidence: row.known_confidence ?? clause.confidence,
+            bm25: null,
             keywordScore: 0,
             semanticScore: result.similarity,
           });
+        } else if (filtered) {
+          const unfiltered = this.db.get<ClauseRow>(
+            `SELECT * FROM clauses c WHERE c.id = ?${temporal.sql}`,
+            [result.clauseId, ...temporal.params],
+          );
+          if (unfiltered) {
+            const previous = filtered.get(unfiltered.id);
+            filtered.set(unfiltered.id, {
+              ...this.filteredCandidate(unfiltered, types, 'semantic'),
+              matchedBy: previous ? 'both' : 'semantic',
+            });
+          }
         }
       }
     }
@@ -384,45 +521,67 @@ export class Retriever {
 
     const scoredClauses: ScoredClause[] = [];
 
-    for (const { clause, keywordScore, semanticScore } of clauseScores.values()) {
-      let score = 0;
-
+    for (const { clause, confidence, bm25, keywordScore, semanticScore } of clauseScores.values()) {
       // Semantic score contribution
-      score += semanticScore * weights.semanticWeight;
+      const semanticTerm = semanticScore * weights.semanticWeight;
 
       // Keyword score contribution
-      score += keywordScore * weights.keywordWeight;
+      const keywordTerm = keywordScore * weights.keywordWeight;
 
-      // Confidence contributes to score
-      score += clause.confidence * 0.2;
+      // Confidence contributes to score, taken at knownAt for point-in-time queries
+      const confidenceTerm = confidence * 0.2;
 
       // Recency boost
+      let recencyTerm = 0;
       if (weights.recencyWeight > 0) {
         const lastAccess = new Date(clause.last_accessed).getTime();
         const daysSinceAccess = (now - lastAccess) / (1000 * 60 * 60 * 24);
         const recencyScore = Math.max(0, 1 - daysSinceAccess / 30); // Decay over 30 days
-        score += recencyScore * weights.recencyWeight;
+        recencyTerm = recencyScore * weights.recencyWeight;
       }
 
       // Exact match bonus
+      let exactMatchBonus = 0;
       const naturalLower = clause.natural_form.toLowerCase();
       for (const word of queryWords) {
         if (naturalLower.includes(word)) {
-          score += 0.05;
+          exactMatchBonus += 0.05;
         }
       }
 
       // Subject/predicate match bonus
-      if (queryLower.includes(clause.subject.toLowerCase())) {
-        score += 0.05;
-      }
-      if (queryLower.includes(clause.predicate.replace(/_/g, ' ').toLowerCase())) {
-        score += 0.05;
-      }
+      const subjectBonus = queryLower.includes(clause.subject.toLowerCase()) ? 0.05 : 0;
+      const predicateBonus =
+        queryLower.includes(clause.predicate.replace(/_/g, ' ').toLowerCase()) ? 0.05 : 0;
+
+      const score = Math.min(1, // Cap at 1.0
+        semanticTerm + keywordTerm + confidenceTerm + recencyTerm +
+        exactMatchBonus + subjectBonus + predicateBonus);
 
       scoredClauses.push({
         ...clause,
-        score: Math.min(1, score), // Cap at 1.0
+        score,
+        ...(filtered ? {
+          explanation: {
+            bm25,
+            keyword: keywordScore,
+            semantic: semanticScore,
+            weights: {
+              keyword: weights.keywordWeight,
+              semantic: weights.semanticWeight,
+              recency: weights.recencyWeight,
+            },
+            keywordTerm,
+            semanticTerm,
+            confidenceTerm,
+            recencyTerm,
+            exactMatchBonus,
+            subjectBonus,
+            predicateBonus,
+            firstStage: score,
+            final: score,
+          },
+        } : {}),
       });
     }
 
@@ -430,28 +589,81 @@ export class Retriever {
   }
 
   /**
-   * Convert database row to Clause object
+   * Blend reranker scores into the top candidates, within the latency budget
+   * Falls back to the first-stage order if the reranker fails or runs out of time
    */
-  private rowToClause(row: ClauseRow): Clause {
+  private async rerank(
+    query: string,
+    candidates: ScoredClause[],
+    explain = false,
+  ): Promise<ScoredClause[]> {
+    const reranker = this.reranker;
+    if (!reranker || candidates.length === 0) return candidates;
+
+    const { topK, latencyBudgetMs, weight } = this.rerankOptions;
+    const head = candidates.slice(0, topK);
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const budget = new Promise<null>((resolve) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve(null);
+      }, latencyBudgetMs);
+    });
+
+    let scores: Array<{ id: string; score: number }> | null;
+    try {
+      scores = await Promise.race([
+        reranker.rerank(query, head, { signal: controller.signal }),
+        budget,
+      ]);
+    } catch (error) {
+      console.warn(`Reranker ${reranker.name} failed, keeping first-stage order:`, error);
+      return candidates;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!scores) {
+      console.warn(
+        `Reranker ${reranker.name} exceeded its ${latencyBudgetMs}ms budget, keeping first-stage order`,
+      );
+      return candidates;
+    }
+
+    const byId = new Map(scores.map((s) => [s.id, s.score]));
+    const reranked = head.map((clause) => {
+      const score = byId.get(clause.id);
+      if (score === undefined) return clause;
+
+      const blended = weight * score + (1 - weight) * clause.score;
+      return {
+        ...clause,
+        score: blended,
+        ...(explain && clause.explanation ? {
+          explanation: {
+            ...clause.explanation,
+            rerank: { reranker: reranker.name, score, weight },
+            final: blended,
+          },
+        } : {}),
+      };
+    });
+
+    return [...reranked, ...candidates.slice(topK)].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Temporal filter with the namespace restriction folded into its SQL,
+   * so every query that honours asOf/knownAt also stays in visible namespaces
+   */
+  private buildFilter(options: TemporalOptions): TemporalFilter {
+    const temporal = buildTemporalFilter(options);
+    const namespace = buildNamespaceFilter(this.scope);
     return {
-      id: row.id,
-      type: row.type as ClauseType,
-      subject: row.subject,
-      predicate: row.predicate,
-      object: row.object,
-      natural_form: row.natural_form,
-      valid_from: row.valid_from,
-      valid_to: row.valid_to,
-      recorded_at: row.recorded_at,
-      confidence: row.confidence,
-      decay_rate: row.decay_rate,
-      reinforcement_count: row.reinforcement_count,
-      source_id: row.source_id,
-      extraction_method: row.extraction_method,
-      last_accessed: row.last_accessed,
-      access_count: row.access_count,
-      tags: JSON.parse(row.tags || '[]'),
-      metadata: JSON.parse(row.metadata || '{}'),
+      ...temporal,
+      sql: temporal.sql + namespace.sql,
+      params: [...temporal.params, ...namespace.params],
     };
   }
 
@@ -485,10 +697,19 @@ export class Retriever {
   /**
    * Format retrieved clauses for prompt injection (with sanitization)
    */
-  formatForPrompt(clauses: ScoredClause[], options?: { maxLength?: number }): string {
+  formatForPrompt(
+    clauses: ScoredClause[],
+    options?: { maxLength?: number; format?: PromptFormat },
+  ): string {
     return formatClausesForPrompt(
-      clauses.map((c) => ({ type: c.type, natural_form: c.natural_form })),
-      { maxTotalLength: options?.maxLength ?? 4000 }
+      clauses.map((c) => ({
+        id: c.id,
+        type: c.type,
+        natural_form: c.natural_form,
+        confidence: c.confidence,
+        valid_from: c.valid_from,
+      })),
+      { maxTotalLength: options?.maxLength ?? 4000, format: options?.format },
     );
   }
 
@@ -699,6 +920,14 @@ Return only the JSON array, no explanation:`;
       skillId?: string;
       requiredTypes?: ClauseType[];
       context?: string;
+      asOf?: string | Date;
+      knownAt?: string | Date;
+      /** Follow relationship clauses this many hops from retrieved entities */
+      graphDepth?: number;
+      /** Token budget for `formatted`, overriding the context builder's */
+      maxTokens?: number;
+      /** Format of `formatted`, overriding the context builder's */
+      format?: PromptFormat;
     }
   ): Promise<{
     clauses: ScoredClause[];
@@ -706,6 +935,8 @@ Return only the JSON array, no explanation:`;
     facts: ScoredClause[];
     skills: ScoredClause[];
     formatted: string;
+    /** What went into `formatted` and what was left out */
+    context: BuiltContext<ScoredClause>;
   }> {
     const allClauses: Map<string, ScoredClause> = new Map();
 
@@ -715,10 +946,12 @@ Return only the JSON array, no explanation:`;
       : task.description;
 
     // Stage 1: Direct retrieval for task
+    const pointInTime = { asOf: task.asOf, knownAt: task.knownAt };
     const direct = await this.progressiveRetrieve(searchQuery, {
       limit: 15,
       minConfidence: 0.5,
       types: task.requiredTypes,
+      ...pointInTime,
     });
 
     for (const clause of direct.clauses) {
@@ -730,6 +963,7 @@ Return only the JSON array, no explanation:`;
       types: ['preference'],
       limit: 10,
       minConfidence: 0.6,
+      ...pointInTime,
     });
 
     for (const clause of preferences.clauses) {
@@ -743,6 +977,8 @@ Return only the JSON array, no explanation:`;
       types: ['fact'],
       limit: 10,
       minConfidence: 0.6,
+      rerank: false,
+      ...pointInTime,
     });
 
     for (const clause of userFacts.clauses) {
@@ -753,27 +989,38 @@ Return only the JSON array, no explanation:`;
 
     // Stage 4: If skill specified, get skill-specific info
     if (task.skillId) {
+      const temporal = this.buildFilter(pointInTime);
       const skillClauses = this.db.all<ClauseRow>(
-        `SELECT * FROM clauses
-         WHERE valid_to IS NULL
-           AND confidence > 0.5
+        `SELECT *, ${temporal.confidenceSql} AS known_confidence FROM clauses c
+         WHERE ${temporal.confidenceSql} > 0.5${temporal.sql}
            AND (
-             (type IN ('skill', 'skill_success', 'skill_preference') AND subject = ?)
-             OR (tags LIKE ?)
+             (c.type IN ('skill', 'skill_success', 'skill_preference') AND c.subject = ?)
+             OR (c.tags LIKE ?)
            )
-         ORDER BY confidence DESC
+         ORDER BY known_confidence DESC
          LIMIT 10`,
-        [task.skillId, `%skill:${task.skillId}%`]
+        [
+          ...temporal.confidenceParams,
+          ...temporal.confidenceParams,
+          ...temporal.params,
+          task.skillId,
+          `%skill:${task.skillId}%`,
+        ],
       );
 
       for (const row of skillClauses) {
         if (!allClauses.has(row.id)) {
-          const clause = this.rowToClause(row);
+          const clause = rowToClause(row);
           allClauses.set(row.id, { ...clause, score: 0.7 });
         }
       }
     }
 
+    // Stage 5: Multi-hop expansion over relationship clauses
+    if (this.graph && task.graphDepth && task.graphDepth > 0) {
+      this.expandWithGraph(allClauses, task.graphDepth, pointInTime);
+    }
+
     // Categorize results
     const result = {
       clauses: [] as ScoredClause[],
@@ -781,6 +1028,7 @@ Return only the JSON array, no explanation:`;
       facts: [] as ScoredClause[],
       skills: [] as ScoredClause[],
       formatted: '',
+      context: null as unknown as BuiltContext<ScoredClause>,
     };
 
     for (const clause of allClauses.values()) {
@@ -807,26 +1055,124 @@ Return only the JSON array, no explanation:`;
     result.facts.sort((a, b) => b.score - a.score);
     result.skills.sort((a, b) => b.score - a.score);
 
-    // Format for prompt injection
-    result.formatted = formatClausesForPrompt(result.clauses.slice(0, 20));
+    // Pack into the token budget for prompt injection
+    result.context = this.contextBuilder.build(result.clauses, {
+      maxTokens: task.maxTokens,
+      format: task.format,
+    });
+    result.formatted = result.context.text;
 
     return result;
   }
 
+  /**
+   * Add relationship clauses reachable from the entities of the best clauses
+   * Scores decay with each hop away from the seed clause
+   */
+  private expandWithGraph(
+    allClauses: Map<string, ScoredClause>,
+    depth: number,
+    pointInTime: { asOf?: string | Date; knownAt?: string | Date },
+  ): void {
+    const seeds = new Map<string, number>();
+    const ranked = [...allClauses.values()].sort((a, b) => b.score - a.score);
+    for (const clause of ranked.slice(0, 10)) {
+      for (const node of this.graph!.nodesOf(clause)) {
+        seeds.set(node, Math.max(seeds.get(node) ?? 0, clause.score));
+      }
+    }
+
+    for (const [node, score] of seeds) {
+      const neighborhood = this.graph!.neighbors(node, { depth, limit: 25, ...pointInTime });
+      for (const edge of neighborhood.edges) {
+        const expanded = score * Math.pow(0.7, edge.depth);
+        const existing = allClauses.get(edge.clause.id);
+        if (!existing || existing.score < expanded) {
+          allClauses.set(edge.clause.id, { ...edge.clause, score: expanded });
+        }
+      }
+    }
+  }
+
   /**
    * Build result from merged clauses
    */
   private buildResult(
     clauses: Map<string, ScoredClause>,
     limit: number,
-    method: 'semantic' | 'keyword' | 'hybrid'
+    method: 'semantic' | 'keyword' | 'hybrid',
+    filtered?: Map<string, FilteredCandidate>,
   ): RetrievalResult {
     const sorted = [...clauses.values()].sort((a, b) => b.score - a.score);
-
-    return {
+    const result: RetrievalResult = {
       clauses: sorted.slice(0, limit),
       totalMatches: clauses.size,
       retrievalMethod: method,
     };
+
+    if (filtered) {
+      // Cut by a stage's limit but picked up by a later stage
+      for (const id of clauses.keys()) filtered.delete(id);
+      for (const clause of sorted.slice(limit)) {
+        filtered.set(clause.id, this.filteredCandidate(clause, undefined, 'limit'));
+      }
+      result.filtered = [...filtered.values()];
+    }
+    return result;
   }
+
+  /**
+   * Describe a candidate that did not make the results, for explain mode
+   */
+  private filteredCandidate(
+    clause: ClauseRow | ScoredClause,
+    types: ClauseType[] | undefined,
+    cause: 'keyword' | 'semantic' | 'limit',
+  ): FilteredCandidate {
+    const candidate = {
+      id: clause.id,
+      type: clause.type as ClauseType,
+      natural_form: clause.natural_form,
+      confidence: clause.confidence,
+    };
+    if (cause === 'limit') {
+      const { explanation, score } = clause as ScoredClause;
+      const byKeyword = !explanation || explanation.bm25 !== null || explanation.keyword > 0;
+      const bySemantic = (explanation?.semantic ?? 0) > 0;
+      const matchedBy = byKeyword && bySemantic ? 'both' : bySemantic ? 'semantic' : 'keyword';
+      return { ...candidate, reason: 'limit', matchedBy, score };
+    }
+    return {
+      ...candidate,
+      reason: types && types.length > 0 && !types.includes(clause.type as ClauseType)
+        ? 'type'
+        : 'min_confidence',
+      matchedBy: cause,
+    };
+  }
+}
+
+function withStage(clause: ScoredClause, stage: ScoreExplanation['stage']): ScoredClause {
+  if (!clause.explanation) return clause;
+  return { ...clause, explanation: { ...clause.explanation, stage, final: clause.score } };
+}
+
+// Expansion clauses get a flat score rather than a computed one
+function fixedExplanation(score: number, stage: ScoreExplanation['stage']): ScoreExplanation {
+  return {
+    bm25: null,
+    keyword: 0,
+    semantic: 0,
+    weights: { keyword: 0, semantic: 0, recency: 0 },
+    keywordTerm: 0,
+    semanticTerm: 0,
+    confidenceTerm: 0,
+    recencyTerm: 0,
+    exactMatchBonus: 0,
+    subjectBonus: 0,
+    predicateBonus: 0,
+    firstStage: score,
+    stage,
+    final: score,
+  };
 }
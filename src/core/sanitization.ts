@@ -3,6 +3,8 @@
  * Sanitizes clause content before injection into LLM prompts
  */
 
+import { createHash } from 'crypto';
+
 export interface SanitizationOptions {
   maxLength?: number;           // Maximum length per clause (default: 500)
   stripXmlTags?: boolean;       // Remove XML-like tags (default: true)
@@ -12,6 +14,23 @@ export interface SanitizationOptions {
   removeCodeBlocks?: boolean;   // Remove code blocks (default: false)
 }
 
+/**
+ * Prompt formats for retrieved memory:
+ * markdown - "## Preferences" headings with bullets
+ * xml - <clause id=".." confidence=".." valid_from=".."> elements in a <memory> block
+ * json - compact JSON array
+ * citation - one line per clause prefixed with a stable short ID, e.g. [mem:3f9a2c]
+ */
+export type PromptFormat = 'markdown' | 'xml' | 'json' | 'citation';
+
+export interface PromptClause {
+  id?: string;
+  type: string;
+  natural_form: string;
+  confidence?: number;
+  valid_from?: string;
+}
+
 const DEFAULT_OPTIONS: Required<SanitizationOptions> = {
   maxLength: 500,
   stripXmlTags: true,
@@ -252,26 +271,42 @@ export function wrapAsUserData(text: string, label: string = 'Memory'): string {
 
 /**
  * Format multiple clauses safely for prompt injection
+ * xml, json and citation formats leave out whole clauses past maxTotalLength
  */
 export function formatClausesForPrompt(
-  clauses: Array<{ type: string; natural_form: string }>,
+  clauses: PromptClause[],
   options: SanitizationOptions & {
     groupByType?: boolean;
     maxTotalLength?: number;
+    format?: PromptFormat;
   } = {}
 ): string {
-  const { groupByType = true, maxTotalLength = 4000, ...sanitizeOpts } = options;
-
-  if (clauses.length === 0) {
+  const {
+    groupByType = true,
+    maxTotalLength = 4000,
+    format = 'markdown',
+    ...sanitizeOpts
+  } = options;
+
+  if (clauses.length === 0 && format !== 'json' && format !== 'xml') {
     return 'No relevant memory found.';
   }
 
   // Sanitize all clauses
   const sanitized = clauses.map((c) => ({
-    type: c.type,
+    ...c,
     natural_form: sanitizeForPrompt(c.natural_form, sanitizeOpts),
   }));
 
+  if (format !== 'markdown') {
+    const included: PromptClause[] = [];
+    for (const clause of sanitized) {
+      if (renderClauses([...included, clause], format).length > maxTotalLength) break;
+      included.push(clause);
+    }
+    return renderClauses(included, format);
+  }
+
   let output = '';
 
   if (groupByType) {
@@ -330,6 +365,82 @@ export function formatClausesForPrompt(
   return output.trim();
 }
 
+/**
+ * Render already-sanitized clauses in a structured format
+ */
+export function renderClauses(
+  clauses: PromptClause[],
+  format: Exclude<PromptFormat, 'markdown'>,
+): string {
+  switch (format) {
+    case 'xml': {
+      const elements = clauses.map((c) => {
+        const attributes = [
+          c.id !== undefined ? ` id="${escapeXml(c.id)}"` : '',
+          ` type="${escapeXml(c.type)}"`,
+          c.confidence !== undefined ? ` confidence="${c.confidence.toFixed(2)}"` : '',
+          c.valid_from !== undefined ? ` valid_from="${escapeXml(c.valid_from)}"` : '',
+        ].join('');
+        return `  <clause${attributes}>${escapeXml(c.natural_form)}</clause>`;
+      });
+      return ['<memory>', ...elements, '</memory>'].join('\n');
+    }
+    case 'json':
+      return JSON.stringify(clauses.map((c) => ({
+        id: c.id,
+        type: c.type,
+        text: c.natural_form,
+        confidence: c.confidence !== undefined ? Math.round(c.confidence * 100) / 100 : undefined,
+        valid_from: c.valid_from,
+      })));
+    case 'citation':
+      if (clauses.length === 0) return 'No relevant memory found.';
+      return clauses.map((c) => {
+        if (c.id === undefined) {
+          throw new Error('Citation format needs clause IDs');
+        }
+        return `[mem:${shortClauseId(c.id)}] ${c.type}: ${c.natural_form}`;
+      }).join('\n');
+    default:
+      throw new Error(`Unknown prompt format: ${String(format)}`);
+  }
+}
+
+/**
+ * Stable short ID for citing a clause: the same clause always gets the same ID
+ */
+export function shortClauseId(clauseId: string): string {
+  return createHash('sha256').update(clauseId).digest('hex').slice(0, 6);
+}
+
+/**
+ * Clause IDs cited in a response, in order of first mention
+ * Recognizes [mem:xxxxxx] short IDs and full clause IDs
+ */
+export function extractCitations(text: string, clauses: Array<{ id: string }>): string[] {
+  const byShortId = new Map(clauses.map((c) => [shortClauseId(c.id), c.id]));
+  const mentions: Array<{ index: number; id: string }> = [];
+
+  for (const match of text.matchAll(/\bmem:([0-9a-f]{6})\b/gi)) {
+    const id = byShortId.get(match[1].toLowerCase());
+    if (id) mentions.push({ index: match.index, id });
+  }
+  for (const clause of clauses) {
+    const index = text.indexOf(clause.id);
+    if (index >= 0) mentions.push({ index, id: clause.id });
+  }
+
+  return [...new Set(mentions.sort((a, b) => a.index - b.index).map((m) => m.id))];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * Strip all potentially dangerous content aggressively
  * Use this for untrusted input
@@ -0,0 +1,439 @@
+/**
+ * Schema module - Numbered migrations for the SQLite database
+ * Each migration is an up-step applied once, in order, inside its own transaction;
+ * its checksum is recorded so later edits to an applied migration are caught
+ */
+
+import { createHash } from 'crypto';
+
+// ========== Types ==========
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  /** SQL applied inside the migration's transaction */
+  up: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+  /** False when the migration was edited after it was applied */
+  checksumMatches: boolean;
+}
+
+export interface MigrationStatus {
+  /** Highest applied version; 0 for an empty or pre-migration database */
+  current: number;
+  latest: number;
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+export interface MigrateResult {
+  from: number;
+  to: number;
+  applied: number[];
+  /** Backup taken before the first migration ran */
+  backupPath?: string;
+}
+
+// ========== Migrations ==========
+
+// Tables, indexes, FTS and triggers as of the first numbered release.
+// Databases created before migrations existed already have most of this;
+// every statement is IF NOT EXISTS so it fills in only what is missing.
+const INITIAL_SCHEMA = `
+-- Clauses: Core memory units
+CREATE TABLE IF NOT EXISTS clauses (
+    id TEXT PRIMARY KEY,
+    
+    -- Content
+    type TEXT NOT NULL CHECK (type IN (
+        'fact', 'preference', 'habit', 'skill', 
+        'relationship', 'intention', 'context', 'correction',
+        'skill_success', 'skill_failure', 'skill_preference'
+    )),
+    subject TEXT NOT NULL,
+    predicate TEXT NOT NULL,
+    object TEXT NOT NULL,
+    natural_form TEXT NOT NULL,
+    
+    -- Temporal (ISO 8601 strings)
+    valid_from TEXT NOT NULL,
+    valid_to TEXT,
+    recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+    
+    -- Confidence
+    confidence REAL NOT NULL DEFAULT 0.8 CHECK (confidence >= 0 AND confidence <= 1),
+    decay_rate REAL NOT NULL DEFAULT 0.001 CHECK (decay_rate >= 0),
+    reinforcement_count INTEGER NOT NULL DEFAULT 0,
+    
+    -- Provenance
+    source_id TEXT NOT NULL,
+    extraction_method TEXT NOT NULL DEFAULT 'llm_extraction',
+    
+    -- Usage
+    last_accessed TEXT NOT NULL DEFAULT (datetime('now')),
+    access_count INTEGER NOT NULL DEFAULT 0,
+    
+    -- Metadata
+    tags TEXT DEFAULT '[]',
+    metadata TEXT DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_clauses_type ON clauses(type);
+CREATE INDEX IF NOT EXISTS idx_clauses_subject ON clauses(subject);
+CREATE INDEX IF NOT EXISTS idx_clauses_predicate ON clauses(predicate);
+CREATE INDEX IF NOT EXISTS idx_clauses_confidence ON clauses(confidence);
+CREATE INDEX IF NOT EXISTS idx_clauses_valid_to ON clauses(valid_to);
+CREATE INDEX IF NOT EXISTS idx_clauses_last_accessed ON clauses(last_accessed);
+CREATE INDEX IF NOT EXISTS idx_clauses_source ON clauses(source_id);
+
+-- Full-text search
+CREATE VIRTUAL TABLE IF NOT EXISTS clauses_fts USING fts5(
+    natural_form,
+    subject,
+    predicate,
+    object,
+    content='clauses',
+    content_rowid='rowid'
+);
+
+-- Triggers to keep FTS in sync
+CREATE TRIGGER IF NOT EXISTS clauses_ai AFTER INSERT ON clauses BEGIN
+    INSERT INTO clauses_fts(rowid, natural_form, subject, predicate, object)
+    VALUES (new.rowid, new.natural_form, new.subject, new.predicate, new.object);
+END;
+
+CREATE TRIGGER IF NOT EXISTS clauses_ad AFTER DELETE ON clauses BEGIN
+    INSERT INTO clauses_fts(clauses_fts, rowid, natural_form, subject, predicate, object)
+    VALUES ('delete', old.rowid, old.natural_form, old.subject, old.predicate, old.object);
+END;
+
+CREATE TRIGGER IF NOT EXISTS clauses_au AFTER UPDATE ON clauses BEGIN
+    INSERT INTO clauses_fts(clauses_fts, rowid, natural_form, subject, predicate, object)
+    VALUES ('delete', old.rowid, old.natural_form, old.subject, old.predicate, old.object);
+    INSERT INTO clauses_fts(rowid, natural_form, subject, predicate, object)
+    VALUES (new.rowid, new.natural_form, new.subject, new.predicate, new.object);
+END;
+
+-- Sources: Raw content archive references
+CREATE TABLE IF NOT EXISTS sources (
+    id TEXT PRIMARY KEY,
+    
+    type TEXT NOT NULL CHECK (type IN (
+        'conversation', 'log', 'document', 'manual', 'knowledge_pack', 'inferred'
+    )),
+    channel TEXT,
+    
+    file_path TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    
+    occurred_at TEXT NOT NULL,
+    recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+    
+    participant_count INTEGER DEFAULT 1,
+    message_count INTEGER DEFAULT 0,
+    metadata TEXT DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_sources_type ON sources(type);
+CREATE INDEX IF NOT EXISTS idx_sources_occurred_at ON sources(occurred_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sources_hash ON sources(content_hash);
+
+-- Embeddings: For semantic search
+CREATE TABLE IF NOT EXISTS clause_embeddings (
+    clause_id TEXT PRIMARY KEY REFERENCES clauses(id) ON DELETE CASCADE,
+    embedding BLOB NOT NULL,
+    model TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Embedding indexes: One vector table per embedding model
+-- The active index serves search; a building index is filled by reindex and
+-- replaces it once complete
+CREATE TABLE IF NOT EXISTS embedding_indexes (
+    id TEXT PRIMARY KEY,                -- provider:model:dimensions:backend
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    dimensions INTEGER NOT NULL,
+    backend TEXT NOT NULL CHECK (backend IN ('vec', 'blob')),
+    table_name TEXT NOT NULL UNIQUE,
+    config TEXT,                        -- EmbeddingConfig without secrets; NULL if unknown
+    status TEXT NOT NULL CHECK (status IN ('active', 'building')),
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    activated_at TEXT
+);
+
+-- Which text each index row was embedded from, to find stale embeddings
+CREATE TABLE IF NOT EXISTS embedding_state (
+    index_id TEXT NOT NULL REFERENCES embedding_indexes(id) ON DELETE CASCADE,
+    clause_id TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    embedded_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (index_id, clause_id)
+);
+
+-- Conflicts: Detected contradictions
+CREATE TABLE IF NOT EXISTS conflicts (
+    id TEXT PRIMARY KEY,
+    
+    clause_a_id TEXT NOT NULL REFERENCES clauses(id),
+    clause_b_id TEXT NOT NULL REFERENCES clauses(id),
+    
+    conflict_type TEXT NOT NULL CHECK (conflict_type IN (
+        'contradiction', 'supersession', 'ambiguity'
+    )),
+    description TEXT NOT NULL,
+    
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending', 'auto_resolved', 'user_resolved', 'ignored'
+    )),
+    resolution TEXT,
+    resolved_at TEXT,
+    
+    detected_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflicts_status ON conflicts(status);
+
+-- Access log: Usage tracking
+CREATE TABLE IF NOT EXISTS access_log (
+    id TEXT PRIMARY KEY,
+    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
+    
+    accessed_at TEXT NOT NULL DEFAULT (datetime('now')),
+    access_type TEXT NOT NULL CHECK (access_type IN (
+        'retrieval', 'injection', 'reinforcement'
+    )),
+    context TEXT,
+    
+    was_useful INTEGER,
+    correction_id TEXT REFERENCES clauses(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_log_clause ON access_log(clause_id);
+CREATE INDEX IF NOT EXISTS idx_access_log_accessed ON access_log(accessed_at);
+
+-- Decay log: Track confidence changes
+CREATE TABLE IF NOT EXISTS decay_log (
+    id TEXT PRIMARY KEY,
+    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
+    
+    previous_confidence REAL NOT NULL,
+    new_confidence REAL NOT NULL,
+    reason TEXT NOT NULL,
+    
+    occurred_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Clause revisions: Append-only change journal
+CREATE TABLE IF NOT EXISTS clause_revisions (
+    id TEXT PRIMARY KEY,
+    clause_id TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    predicate TEXT NOT NULL,
+    
+    action TEXT NOT NULL CHECK (action IN (
+        'create', 'update', 'reinforce', 'invalidate',
+        'supersede', 'conflict_resolved', 'delete'
+    )),
+    actor TEXT NOT NULL,
+    reason TEXT,
+    
+    -- JSON snapshots of the clause before and after the change
+    before_state TEXT,
+    after_state TEXT,
+    related_clause_id TEXT,
+    
+    recorded_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_clause_revisions_clause ON clause_revisions(clause_id);
+CREATE INDEX IF NOT EXISTS idx_clause_revisions_related ON clause_revisions(related_clause_id);
+CREATE INDEX IF NOT EXISTS idx_clause_revisions_chain ON clause_revisions(subject, predicate);
+
+-- Revisions are never rewritten
+CREATE TRIGGER IF NOT EXISTS clause_revisions_no_update BEFORE UPDATE ON clause_revisions BEGIN
+    SELECT RAISE(ABORT, 'clause_revisions is append-only');
+END;
+
+-- Entity aliases: Surface names mapped to canonical subject/object IDs
+CREATE TABLE IF NOT EXISTS entity_aliases (
+    alias TEXT PRIMARY KEY COLLATE NOCASE,
+    entity_id TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity ON entity_aliases(entity_id);
+
+-- Entities: Typed things that clauses talk about (airline:united, person:john_smith)
+CREATE TABLE IF NOT EXISTS entities (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    canonical_name TEXT NOT NULL,
+    attributes TEXT DEFAULT '{}',
+
+    -- Set when this entity was merged into another
+    merged_into TEXT REFERENCES entities(id),
+
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type);
+CREATE INDEX IF NOT EXISTS idx_entities_name ON entities(canonical_name COLLATE NOCASE);
+
+-- Links from clause subjects/objects to entities
+CREATE TABLE IF NOT EXISTS clause_entity_links (
+    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('subject', 'object')),
+    entity_id TEXT NOT NULL,
+    -- Text as it appeared before resolution, used when splitting entities
+    surface TEXT NOT NULL,
+    PRIMARY KEY (clause_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_clause_entity_links_entity ON clause_entity_links(entity_id);
+
+-- Knowledge packs
+CREATE TABLE IF NOT EXISTS installed_packs (
+    pack_id TEXT PRIMARY KEY,
+    version TEXT NOT NULL,
+    installed_at TEXT NOT NULL DEFAULT (datetime('now')),
+    claims_loaded INTEGER NOT NULL,
+    last_updated TEXT,
+    metadata TEXT DEFAULT '{}'
+);
+
+-- Skill capability claims
+CREATE TABLE IF NOT EXISTS skill_capabilities (
+    skill_id TEXT NOT NULL,
+    skill_version TEXT NOT NULL,
+    clause_id TEXT NOT NULL REFERENCES clauses(id) ON DELETE CASCADE,
+    capability_type TEXT NOT NULL,
+    installed_at TEXT NOT NULL DEFAULT (datetime('now')),
+    
+    PRIMARY KEY (skill_id, clause_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_capabilities_skill ON skill_capabilities(skill_id);
+
+-- Skill preference bindings
+CREATE TABLE IF NOT EXISTS skill_preference_bindings (
+    id TEXT PRIMARY KEY,
+    skill_id TEXT NOT NULL,
+    parameter_name TEXT NOT NULL,
+    clause_id TEXT NOT NULL REFERENCES clauses(id),
+    bound_at TEXT NOT NULL DEFAULT (datetime('now')),
+    
+    UNIQUE (skill_id, parameter_name)
+);
+
+-- System metadata
+CREATE TABLE IF NOT EXISTS system_metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Initialize defaults if not exist
+INSERT OR IGNORE INTO system_metadata (key, value) VALUES
+    ('last_decay_run', NULL),
+    ('last_memory_sync', NULL),
+    ('total_clauses_extracted', '0'),
+    ('total_conflicts_detected', '0');
+`;
+
+// Previously created lazily by PerformanceTracker
+const SKILL_PERFORMANCE = `
+CREATE TABLE IF NOT EXISTS skill_performance (
+    skill_id TEXT NOT NULL,
+    task_category TEXT NOT NULL,
+    success_count INTEGER NOT NULL DEFAULT 0,
+    failure_count INTEGER NOT NULL DEFAULT 0,
+    avg_execution_time_ms REAL NOT NULL DEFAULT 0,
+    last_used TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (skill_id, task_category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_performance_skill ON skill_performance(skill_id);
+CREATE INDEX IF NOT EXISTS idx_skill_performance_category ON skill_performance(task_category);
+`;
+
+// Per-user and per-agent namespaces; existing memory becomes shared.
+// Bindings are unique per namespace, which needs a table rebuild in SQLite.
+const NAMESPACES = `
+ALTER TABLE clauses ADD COLUMN namespace TEXT NOT NULL DEFAULT 'shared';
+CREATE INDEX IF NOT EXISTS idx_clauses_namespace ON clauses(namespace);
+
+ALTER TABLE sources ADD COLUMN namespace TEXT NOT NULL DEFAULT 'shared';
+CREATE INDEX IF NOT EXISTS idx_sources_namespace ON sources(namespace);
+DROP INDEX IF EXISTS idx_sources_hash;
+CREATE UNIQUE INDEX idx_sources_hash ON sources(namespace, content_hash);
+
+ALTER TABLE installed_packs ADD COLUMN namespace TEXT NOT NULL DEFAULT 'shared';
+
+CREATE TABLE skill_preference_bindings_new (
+    id TEXT PRIMARY KEY,
+    namespace TEXT NOT NULL DEFAULT 'shared',
+    skill_id TEXT NOT NULL,
+    parameter_name TEXT NOT NULL,
+    clause_id TEXT NOT NULL REFERENCES clauses(id),
+    bound_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+    UNIQUE (namespace, skill_id, parameter_name)
+);
+
+INSERT INTO skill_preference_bindings_new (id, skill_id, parameter_name, clause_id, bound_at)
+    SELECT id, skill_id, parameter_name, clause_id, bound_at FROM skill_preference_bindings;
+
+DROP TABLE skill_preference_bindings;
+ALTER TABLE skill_preference_bindings_new RENAME TO skill_preference_bindings;
+`;
+
+// Receipts for forget(); they hold IDs and counts, never the forgotten content
+const FORGET_RECEIPTS = `
+CREATE TABLE IF NOT EXISTS forget_receipts (
+    id TEXT PRIMARY KEY,
+    namespace TEXT NOT NULL,
+    hard INTEGER NOT NULL,
+    receipt TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+`;
+
+/**
+ * All migrations in version order. Never edit one that has shipped; add a new one.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  { version: 1, name: 'initial_schema', up: INITIAL_SCHEMA },
+  { version: 2, name: 'skill_performance', up: SKILL_PERFORMANCE },
+  { version: 3, name: 'namespaces', up: NAMESPACES },
+  { version: 4, name: 'forget_receipts', up: FORGET_RECEIPTS },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+/**
+ * Bookkeeping table, created before any migration runs
+ */
+export const MIGRATIONS_TABLE = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+`;
+
+/**
+ * SHA-256 of a migration's SQL with whitespace collapsed, so reindenting is not a change
+ */
+export function migrationChecksum(migration: SchemaMigration): string {
+  const normalized = migration.up.replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,101 @@
+/**
+ * Temporal module - Bitemporal (valid time / transaction time) query filters
+ * Builds SQL predicates for "what did memory believe at time X" queries
+ */
+
+export interface TemporalOptions {
+  /** Valid time: which facts were true in the world at this moment */
+  asOf?: string | Date;
+  /** Transaction time: only consider what had been recorded by this moment */
+  knownAt?: string | Date;
+  /** Skip the validity check entirely */
+  includeExpired?: boolean;
+}
+
+export interface TemporalFilter {
+  /** SQL fragment starting with " AND", or an empty string */
+  sql: string;
+  params: unknown[];
+  /** SQL expression for the clause's confidence at knownAt */
+  confidenceSql: string;
+  confidenceParams: unknown[];
+  /** True when asOf or knownAt was requested */
+  pointInTime: boolean;
+}
+
+/**
+ * Normalize a point in time to an ISO 8601 string
+ */
+export function toTimestamp(value: string | Date): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Check whether point-in-time options were supplied
+ */
+export function isPointInTime(options: TemporalOptions): boolean {
+  return options.asOf !== undefined || options.knownAt !== undefined;
+}
+
+/**
+ * Build the validity filter for a clauses table alias
+ *
+ * valid_to is written when an invalidation is recorded, so it doubles as the
+ * transaction time of that invalidation. At knownAt the store only "knew" about
+ * invalidations recorded before then; a clause counts as valid at asOf if
+ *   recorded_at <= knownAt AND valid_from <= asOf
+ *   AND (valid_to IS NULL OR valid_to > knownAt OR valid_to > asOf)
+ *
+ * asOf defaults to knownAt, knownAt defaults to now. All comparisons go
+ * through julianday() because rows mix ISO and SQLite datetime formats.
+ */
+export function buildTemporalFilter(options: TemporalOptions, alias: string = 'c'): TemporalFilter {
+  if (!isPointInTime(options)) {
+    return {
+      sql: options.includeExpired ? '' : ` AND ${alias}.valid_to IS NULL`,
+      params: [],
+      confidenceSql: `${alias}.confidence`,
+      confidenceParams: [],
+      pointInTime: false,
+    };
+  }
+
+  const knownAt = toTimestamp(options.knownAt ?? new Date());
+  const asOf = options.asOf !== undefined ? toTimestamp(options.asOf) : knownAt;
+
+  let sql =
+    ` AND julianday(${alias}.recorded_at) <= julianday(?)` +
+    ` AND julianday(${alias}.valid_from) <= julianday(?)`;
+  const params: unknown[] = [knownAt, asOf];
+
+  if (!options.includeExpired) {
+    sql +=
+      ` AND (${alias}.valid_to IS NULL` +
+      ` OR julianday(${alias}.valid_to) > julianday(?)` +
+      ` OR julianday(${alias}.valid_to) > julianday(?))`;
+    params.push(knownAt, asOf);
+  }
+
+  // Confidence as last logged before knownAt; before the first logged change
+  // the clause still had that change's previous value
+  const confidenceSql = `COALESCE(
+    (SELECT d.new_confidence FROM decay_log d
+     WHERE d.clause_id = ${alias}.id AND julianday(d.occurred_at) <= julianday(?)
+     ORDER BY julianday(d.occurred_at) DESC LIMIT 1),
+    (SELECT d.previous_confidence FROM decay_log d
+     WHERE d.clause_id = ${alias}.id
+     ORDER BY julianday(d.occurred_at) ASC LIMIT 1),
+    ${alias}.confidence)`;
+
+  return {
+    sql,
+    params,
+    confidenceSql,
+    confidenceParams: [knownAt],
+    pointInTime: true,
+  };
+}
@@ -2,6 +2,8 @@
  * Core types for OM-Lite
  */
 
+import type { PiiFinding } from './pii.js';
+
 // ========== Clause Types ==========
 
 export type ClauseType =
@@ -51,6 +53,9 @@ export interface Clause {
   // Metadata
   tags: string[];
   metadata: Record<string, unknown>;
+
+  // Owner: shared, user:<id> or agent:<id> (set on clauses read from the store)
+  namespace?: string;
 }
 
 /**
@@ -67,6 +72,7 @@ export interface ClauseInput {
   valid_from?: string;
   tags?: string[];
   metadata?: Record<string, unknown>;
+  namespace?: string;      // Default: the store's namespace; only it or shared are writable
 }
 
 // ========== Source Types ==========
@@ -96,6 +102,7 @@ export interface Source {
   participant_count: number;
   message_count: number;
   metadata: Record<string, unknown>;
+  namespace?: string;
 }
 
 // ========== Conflict Types ==========
@@ -128,16 +135,58 @@ export interface RetrievalOptions {
   boostRecent?: boolean;
   semanticWeight?: number;
   keywordWeight?: number;
+  asOf?: string | Date;         // Valid time: what was true at this moment
+  knownAt?: string | Date;      // Transaction time: what had been recorded by this moment
+  rerank?: boolean;             // Run the configured reranker (default true)
+  explain?: boolean;            // Attach score breakdowns and report filtered candidates
 }
 
 export interface RetrievalResult {
   clauses: ScoredClause[];
   totalMatches: number;
   retrievalMethod: 'semantic' | 'keyword' | 'hybrid';
+  filtered?: FilteredCandidate[]; // Only with explain
 }
 
 export interface ScoredClause extends Clause {
   score: number;
+  explanation?: ScoreExplanation; // Only with explain
+}
+
+/**
+ * How a retrieved clause's score was built up
+ * Terms are already multiplied by their weights; their sum, capped at 1, is firstStage
+ */
+export interface ScoreExplanation {
+  bm25: number | null;          // Raw FTS5 bm25 (more negative = better), null if no keyword hit
+  keyword: number;              // Normalized keyword score
+  semantic: number;             // Cosine similarity, 0 if no semantic hit
+  weights: { keyword: number; semantic: number; recency: number };
+  keywordTerm: number;
+  semanticTerm: number;
+  confidenceTerm: number;
+  recencyTerm: number;
+  exactMatchBonus: number;      // 0.05 per query word found in the natural form
+  subjectBonus: number;
+  predicateBonus: number;
+  firstStage: number;
+  rerank?: { reranker: string; score: number; weight: number };
+  stage?: {                     // progressiveRetrieve only
+    name: 'direct' | 'entity' | 'expansion';
+    query?: string;             // The entity searched in the entity stage
+    multiplier?: number;        // Penalty applied to entity-stage scores
+  };
+  final: number;
+}
+
+export interface FilteredCandidate {
+  id: string;
+  type: ClauseType;
+  natural_form: string;
+  confidence: number;
+  reason: 'min_confidence' | 'type' | 'limit';
+  matchedBy: 'keyword' | 'semantic' | 'both';
+  score?: number;               // limit: the score that missed the cut
 }
 
 export interface SearchOptions {
@@ -148,6 +197,9 @@ export interface SearchOptions {
   offset?: number;
   orderBy?: 'confidence' | 'last_accessed' | 'recorded_at';
   orderDir?: 'asc' | 'desc';
+  asOf?: string | Date;         // Valid time: what was true at this moment
+  knownAt?: string | Date;      // Transaction time: what had been recorded by this moment
+  entity?: string;              // Only clauses linked to this entity ID (subject or object)
 }
 
 // ========== Decay Types ==========
@@ -166,6 +218,124 @@ export interface DecayReport {
   timestamp: string;
 }
 
+// ========== Predicate Types ==========
+
+export type PredicateCardinality = 'single' | 'multi';
+
+export type PredicateValueType = 'string' | 'entity' | 'number' | 'boolean' | 'date';
+
+export interface PredicateDefinition {
+  name: string;
+  cardinality: PredicateCardinality;
+  inverse?: string;
+  synonyms?: string[];
+  value_type?: PredicateValueType;
+  decay_rate?: number;
+  description?: string;
+}
+
+// ========== Entity and Normalization Types ==========
+
+export interface EntityAlias {
+  alias: string;
+  entity_id: string;
+  created_at: string;
+}
+
+export interface Entity {
+  id: string;
+  type: string;
+  canonical_name: string;
+  aliases: string[];
+  attributes: Record<string, unknown>;
+  merged_into: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EntityMergeResult {
+  source: string;
+  target: string;
+  aliasesMoved: number;
+  clausesRelinked: number;
+}
+
+export interface EntitySplitResult {
+  source: string;
+  created: Entity;
+  aliasesMoved: number;
+  clausesRelinked: number;
+}
+
+export interface NormalizationChange {
+  clauseId: string;
+  from: { subject: string; predicate: string; object: string };
+  to: { subject: string; predicate: string; object: string };
+  /** Set when the normalized clause duplicated an existing one and was folded into it */
+  mergedInto?: string;
+}
+
+export interface RenormalizeReport {
+  scanned: number;
+  updated: number;
+  merged: number;
+  changes: NormalizationChange[];
+}
+
+// ========== Graph Types ==========
+
+export type GraphDirection = 'out' | 'in' | 'both';
+
+export interface GraphOptions {
+  depth?: number;               // Maximum hops from the start entity (default: 1)
+  predicates?: string[];        // Only follow these predicates (synonyms are resolved)
+  direction?: GraphDirection;   // 'out' follows subject → object (default)
+  minConfidence?: number;
+  limit?: number;               // Maximum number of nodes to visit
+  asOf?: string | Date;
+  knownAt?: string | Date;
+}
+
+export interface GraphPathOptions extends Omit<GraphOptions, 'limit'> {
+  maxPaths?: number;            // Stop after this many paths (default: 10)
+}
+
+export interface GraphNode {
+  id: string;
+  name: string;
+  type: string | null;          // Entity type, or null for plain values
+  depth: number;
+}
+
+export interface GraphEdge {
+  from: string;                 // Node the clause's subject refers to
+  to: string;                   // Node the clause's object refers to
+  predicate: string;
+  clause: Clause;
+  depth: number;                // Hop at which the edge was first traversed
+}
+
+export interface GraphNeighborhood {
+  root: GraphNode;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphPath {
+  nodes: string[];
+  edges: GraphEdge[];
+  length: number;
+  confidence: number;           // Product of edge confidences
+}
+
+export type GraphExportFormat = 'dot' | 'graphml' | 'jsonld';
+
+export interface GraphExportOptions {
+  subject?: string;             // Only export what is reachable from this entity
+  depth?: number;               // Hops from subject (default: 1)
+  includeExpired?: boolean;
+}
+
 // ========== Pack Types ==========
 
 export interface PackMetadata {
@@ -185,6 +355,7 @@ export interface PackMetadata {
   last_updated: string;
   requires_packs?: string[];
   tags?: string[];
+  predicates?: PredicateDefinition[];
 }
 
 export interface PackLoadOptions {
@@ -192,6 +363,7 @@ export interface PackLoadOptions {
   skillFilter?: string[];
   confidenceFloor?: number;
   overwriteExisting?: boolean;
+  namespace?: string;      // Default: shared, so every namespace sees the pack
 }
 
 export interface PackLoadReport {
@@ -210,6 +382,7 @@ export interface InstalledPack {
   claims_loaded: number;
   last_updated: string | null;
   metadata: PackMetadata;
+  namespace: string;
 }
 
 // ========== Skill Types ==========
@@ -242,6 +415,7 @@ export interface SkillPreferenceBinding {
   parameter_name: string;
   clause_id: string;
   bound_at: string;
+  namespace: string;
 }
 
 export interface SkillOutcome {
@@ -297,6 +471,31 @@ export interface SourceAttribution {
   timestamp: string;
 }
 
+// ========== Journal Types ==========
+
+export type RevisionAction =
+  | 'create'
+  | 'update'
+  | 'reinforce'
+  | 'invalidate'
+  | 'supersede'
+  | 'conflict_resolved'
+  | 'delete';
+
+export interface ClauseRevision {
+  id: string;
+  clause_id: string;
+  subject: string;
+  predicate: string;
+  action: RevisionAction;
+  actor: string;
+  reason: string | null;
+  before: Clause | null;
+  after: Clause | null;
+  related_clause_id: string | null;
+  recorded_at: string;
+}
+
 // ========== Config Types ==========
 
 export interface OMLiteConfig {
@@ -335,15 +534,28 @@ export type OMLiteEvent =
   | { type: 'clause_updated'; clause: Clause; changes: Partial<Clause> }
   | { type: 'clause_invalidated'; clauseId: string; reason: string }
   | { type: 'clause_reinforced'; clauseId: string; newConfidence: number }
+  | { type: 'clause_deleted'; clauseIds: string[]; reason: string }
   | { type: 'conflict_detected'; conflict: Conflict }
   | { type: 'conflict_resolved'; conflictId: string; resolution: string }
   | { type: 'pack_installed'; packId: string; claimsLoaded: number }
   | { type: 'pack_removed'; packId: string }
   | { type: 'decay_completed'; report: DecayReport }
-  | { type: 'skill_bound'; skillId: string; bindings: SkillPreferenceBinding[] };
+  | { type: 'skill_bound'; skillId: string; bindings: SkillPreferenceBinding[] }
+  | { type: 'skill_unbound'; skillId: string; parameterNames: string[] };
 
 export type EventHandler = (event: OMLiteEvent) => void | Promise<void>;
 
+export type OMLiteEventType = OMLiteEvent['type'];
+
+/** Event payload for a type; '*' matches every event */
+export type OMLiteEventOf<T extends OMLiteEventType | '*'> = T extends OMLiteEventType
+  ? Extract<OMLiteEvent, { type: T }>
+  : OMLiteEvent;
+
+export type TypedEventHandler<T extends OMLiteEventType | '*'> = (
+  event: OMLiteEventOf<T>,
+) => void | Promise<void>;
+
 // ========== Utility Types ==========
 
 export type DeepPartial<T> = {
@@ -351,9 +563,19 @@ export type DeepPartial<T> = {
 };
 
 export interface ProcessClauseResult {
-  action: 'insert' | 'reinforced' | 'superseded' | 'conflict' | 'skipped';
+  action: 'insert' | 'reinforced' | 'superseded' | 'conflict' | 'skipped' | 'dropped';
   clause?: Clause;
   existingId?: string;
   invalidatedId?: string;
   conflict?: Conflict;
+  /** For a dropped clause, the PII categories that kept it out of memory */
+  pii?: PiiFinding[];
+}
+
+export interface ExtractResult {
+  /** Clauses inserted or superseding an older one */
+  clauses: Clause[];
+  conflicts: Conflict[];
+  /** Extracted clauses not stored because they held a category with the drop policy */
+  dropped: Array<{ predicate: string; pii: PiiFinding[] }>;
 }
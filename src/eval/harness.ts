@@ -0,0 +1,486 @@
+/**
+ * Evaluation harness - Golden query sets for retrieval quality
+ * Builds a fixture memory from a suite, runs its queries through retrieve,
+ * progressiveRetrieve and retrieveForTask, and scores the rankings with
+ * recall@k, MRR and nDCG@k
+ */
+
+import { copyFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, resolve } from 'path';
+import YAML from 'yaml';
+import { OMLite, type OMLiteFullConfig } from '../index.js';
+import type { Clause, ClauseInput, ClauseType, RetrievalOptions } from '../core/types.js';
+
+// ========== Types ==========
+
+export type EvalMethod = 'retrieve' | 'progressive' | 'task';
+
+export type EvalMetric = 'recall' | 'mrr' | 'ndcg';
+
+export interface EvalWeights {
+  semanticWeight?: number;
+  keywordWeight?: number;
+  recencyWeight?: number;
+}
+
+/** Matches any clause whose given fields equal these, ignoring case */
+export interface ClauseMatcher {
+  type?: ClauseType;
+  subject?: string;
+  predicate?: string;
+  object?: string;
+}
+
+/** A fixture clause label, a clause ID, or an SPO pattern */
+export type ExpectedClause = string | ClauseMatcher;
+
+export interface EvalQuery {
+  /** Defaults to the query text */
+  id: string;
+  query: string;
+  expect: ExpectedClause[];
+  /** Passed to retrieveForTask */
+  skillId?: string;
+  options?: RetrievalOptions;
+}
+
+export interface EvalSuite {
+  name: string;
+  /** Cut-off for every metric (default 10) */
+  k: number;
+  methods: EvalMethod[];
+  /** Retrieval options applied to every query */
+  options: RetrievalOptions;
+  fixture: {
+    /** Clauses to remember; `id` labels them for use in `expect` */
+    clauses: Array<ClauseInput & { id?: string }>;
+    /** Pack IDs installed before the clauses */
+    packs: string[];
+    /** Where to find the packs (default: the bundled packs) */
+    packsDir?: string;
+  };
+  queries: EvalQuery[];
+  /** Values to try for each weight; every combination is run */
+  sweep: { [K in keyof EvalWeights]?: number[] };
+}
+
+export interface QueryScore {
+  id: string;
+  query: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  /** Expected clauses not in the top k */
+  missing: string[];
+}
+
+export interface MethodScore {
+  recall: number;
+  mrr: number;
+  ndcg: number;
+  queries: QueryScore[];
+}
+
+export interface EvalRun {
+  weights: EvalWeights;
+  methods: Partial<Record<EvalMethod, MethodScore>>;
+}
+
+export interface EvalReport {
+  suite: string;
+  k: number;
+  createdAt: string;
+  runs: EvalRun[];
+}
+
+export interface EvalDiff {
+  metrics: Array<{
+    weights: EvalWeights;
+    method: EvalMethod;
+    metric: EvalMetric;
+    baseline: number;
+    current: number;
+    delta: number;
+  }>;
+  /** Queries that scored lower than in the baseline */
+  regressions: Array<{
+    weights: EvalWeights;
+    method: EvalMethod;
+    query: string;
+    metric: EvalMetric;
+    baseline: number;
+    current: number;
+  }>;
+  /** An aggregate metric dropped by more than the tolerance */
+  regressed: boolean;
+}
+
+export interface EvalRunOptions {
+  /** Memory config for the fixture, e.g. embedding and predicates */
+  config?: Partial<OMLiteFullConfig>;
+  /** Replaces the suite's sweep */
+  sweep?: EvalSuite['sweep'];
+  onProgress?: (run: number, total: number, weights: EvalWeights) => void;
+}
+
+const METHODS: EvalMethod[] = ['retrieve', 'progressive', 'task'];
+const WEIGHTS: Array<keyof EvalWeights> = ['semanticWeight', 'keywordWeight', 'recencyWeight'];
+
+// ========== Suites ==========
+
+/**
+ * Load and validate a suite from YAML; packsDir resolves relative to the file
+ */
+export function loadEvalSuite(path: string): EvalSuite {
+  const raw = YAML.parse(readFileSync(path, 'utf-8')) as Record<string, unknown> | null;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Empty eval suite: ${path}`);
+  }
+  const suite = parseEvalSuite(raw);
+  if (suite.fixture.packsDir) {
+    suite.fixture.packsDir = resolve(dirname(path), suite.fixture.packsDir);
+  }
+  return suite;
+}
+
+/**
+ * Validate a suite object and fill in defaults
+ */
+export function parseEvalSuite(raw: Record<string, unknown>): EvalSuite {
+  const fixture = (raw.fixture ?? {}) as Record<string, unknown>;
+  const queries = raw.queries;
+  if (!Array.isArray(queries) || queries.length === 0) {
+    throw new Error('Eval suite needs at least one query');
+  }
+
+  const methods = (raw.methods ?? METHODS) as EvalMethod[];
+  for (const method of methods) {
+    if (!METHODS.includes(method)) {
+      throw new Error(`Unknown eval method: ${String(method)}`);
+    }
+  }
+
+  const sweep = (raw.sweep ?? {}) as EvalSuite['sweep'];
+  for (const key of Object.keys(sweep)) {
+    if (!WEIGHTS.includes(key as keyof EvalWeights)) {
+      throw new Error(`Cannot sweep ${key}; use ${WEIGHTS.join(', ')}`);
+    }
+  }
+
+  return {
+    name: typeof raw.name === 'string' ? raw.name : 'eval',
+    k: typeof raw.k === 'number' ? raw.k : 10,
+    methods,
+    options: (raw.options ?? {}) as RetrievalOptions,
+    fixture: {
+      clauses: (fixture.clauses ?? []) as EvalSuite['fixture']['clauses'],
+      packs: (fixture.packs ?? []) as string[],
+      packsDir: typeof fixture.packsDir === 'string' ? fixture.packsDir : undefined,
+    },
+    queries: queries.map((entry: Record<string, unknown>, i) => {
+      if (typeof entry?.query !== 'string' || !Array.isArray(entry.expect)) {
+        throw new Error(`Eval query ${i + 1} needs a query and an expect list`);
+      }
+      return {
+        id: typeof entry.id === 'string' ? entry.id : entry.query,
+        query: entry.query,
+        expect: entry.expect as ExpectedClause[],
+        skillId: typeof entry.skillId === 'string' ? entry.skillId : undefined,
+        options: entry.options as RetrievalOptions | undefined,
+      };
+    }),
+    sweep,
+  };
+}
+
+// ========== Running ==========
+
+/**
+ * Run a suite once per sweep combination, each against a fresh copy of the fixture
+ */
+export async function runEvalSuite(
+  suite: EvalSuite,
+  options: EvalRunOptions = {},
+): Promise<EvalReport> {
+  const workDir = mkdtempSync(join(tmpdir(), 'om-lite-eval-'));
+  const config: Partial<OMLiteFullConfig> = {
+    ...options.config,
+    packsDir: suite.fixture.packsDir ?? options.config?.packsDir,
+    backup: { ...options.config?.backup, backupDir: join(workDir, 'backups'), autoBackup: false },
+  };
+
+  try {
+    const fixturePath = join(workDir, 'fixture.db');
+    const labels = await buildFixture(suite, { ...config, dbPath: fixturePath });
+
+    const combinations = sweepCombinations(options.sweep ?? suite.sweep);
+    const runs: EvalRun[] = [];
+    for (const [i, weights] of combinations.entries()) {
+      options.onProgress?.(i + 1, combinations.length, weights);
+
+      // Retrieval updates access stats, so every run starts from the same copy
+      const runPath = join(workDir, `run-${i}.db`);
+      copyFileSync(fixturePath, runPath);
+      const om = new OMLite({
+        ...config,
+        dbPath: runPath,
+        retrieval: { ...defaultRetrieval(config), ...definedWeights(weights) },
+      });
+      await om.init();
+      try {
+        runs.push({ weights, methods: await runQueries(om, suite, labels, weights) });
+      } finally {
+        await om.close();
+      }
+    }
+
+    return { suite: suite.name, k: suite.k, createdAt: new Date().toISOString(), runs };
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+async function buildFixture(
+  suite: EvalSuite,
+  config: Partial<OMLiteFullConfig>,
+): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const om = new OMLite(config);
+  await om.init();
+  try {
+    for (const packId of suite.fixture.packs) {
+      await om.packs.install(packId);
+    }
+    for (const { id: label, ...input } of suite.fixture.clauses) {
+      const result = await om.remember(input);
+      const clauseId = result.clause?.id ?? result.existingId;
+      if (label && clauseId) labels.set(label, clauseId);
+    }
+    await om.embeddings.flush();
+  } finally {
+    await om.close();
+  }
+  return labels;
+}
+
+async function runQueries(
+  om: OMLite,
+  suite: EvalSuite,
+  labels: Map<string, string>,
+  weights: EvalWeights,
+): Promise<Partial<Record<EvalMethod, MethodScore>>> {
+  const methods: Partial<Record<EvalMethod, MethodScore>> = {};
+
+  for (const method of suite.methods) {
+    const queries: QueryScore[] = [];
+    for (const query of suite.queries) {
+      const options: RetrievalOptions = {
+        ...suite.options,
+        ...query.options,
+        // Recency only counts for boosted retrievals
+        ...(weights.recencyWeight !== undefined ? { boostRecent: true } : {}),
+        limit: suite.k,
+      };
+      const ranked = await rankedClauses(om, method, query, options);
+      const expected = query.expect.map((e) => resolveExpected(e, labels));
+      const score = scoreRanking(ranked, expected, suite.k);
+      queries.push({
+        id: query.id,
+        query: query.query,
+        ...score,
+        missing: score.missing.map((i) => describeExpected(query.expect[i])),
+      });
+    }
+
+    methods[method] = {
+      recall: mean(queries.map((q) => q.recall)),
+      mrr: mean(queries.map((q) => q.reciprocalRank)),
+      ndcg: mean(queries.map((q) => q.ndcg)),
+      queries,
+    };
+  }
+
+  return methods;
+}
+
+async function rankedClauses(
+  om: OMLite,
+  method: EvalMethod,
+  query: EvalQuery,
+  options: RetrievalOptions,
+): Promise<Clause[]> {
+  switch (method) {
+    case 'retrieve':
+      return (await om.retrieve(query.query, options)).clauses;
+    case 'progressive':
+      return (await om.progressiveRetrieve(query.query, options)).clauses;
+    case 'task':
+      return (await om.retrieveForTask({
+        description: query.query,
+        skillId: query.skillId,
+        requiredTypes: options.types,
+        asOf: options.asOf,
+        knownAt: options.knownAt,
+      })).clauses;
+  }
+}
+
+// ========== Metrics ==========
+
+/**
+ * Score a ranking against expected clauses with binary relevance
+ * Each expected clause is credited to the best-ranked clause matching it;
+ * `missing` holds the indexes of expected clauses not found in the top k
+ */
+export function scoreRanking(
+  ranked: Clause[],
+  expected: Array<ClauseMatcher | { id: string }>,
+  k: number,
+): { recall: number; reciprocalRank: number; ndcg: number; missing: number[] } {
+  const found = new Set<number>();
+  let dcg = 0;
+  let firstHit = 0;
+
+  ranked.slice(0, k).forEach((clause, rank) => {
+    const index = expected.findIndex((e, i) => !found.has(i) && matches(clause, e));
+    if (index < 0) return;
+    found.add(index);
+    dcg += 1 / Math.log2(rank + 2);
+    if (firstHit === 0) firstHit = rank + 1;
+  });
+
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(expected.length, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    recall: expected.length > 0 ? found.size / expected.length : 1,
+    reciprocalRank: firstHit > 0 ? 1 / firstHit : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 1,
+    missing: expected.map((_, i) => i).filter((i) => !found.has(i)),
+  };
+}
+
+function matches(clause: Clause, expected: ClauseMatcher | { id: string }): boolean {
+  if ('id' in expected) return clause.id === expected.id;
+  return (['type', 'subject', 'predicate', 'object'] as const).every((field) =>
+    expected[field] === undefined ||
+    expected[field]!.toLowerCase() === clause[field].toLowerCase());
+}
+
+function resolveExpected(
+  expected: ExpectedClause,
+  labels: Map<string, string>,
+): ClauseMatcher | { id: string } {
+  return typeof expected === 'string' ? { id: labels.get(expected) ?? expected } : expected;
+}
+
+function describeExpected(expected: ExpectedClause): string {
+  if (typeof expected === 'string') return expected;
+  return [expected.subject, expected.predicate, expected.object].map((v) => v ?? '*').join(' ');
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// ========== Sweeps ==========
+
+function sweepCombinations(sweep: EvalSuite['sweep']): EvalWeights[] {
+  let combinations: EvalWeights[] = [{}];
+  for (const key of WEIGHTS) {
+    const values = sweep[key];
+    if (!values || values.length === 0) continue;
+    combinations = combinations.flatMap((c) => values.map((v) => ({ ...c, [key]: v })));
+  }
+  return combinations;
+}
+
+function definedWeights(weights: EvalWeights): EvalWeights {
+  return Object.fromEntries(Object.entries(weights).filter(([, v]) => v !== undefined));
+}
+
+function defaultRetrieval(config: Partial<OMLiteFullConfig>): OMLiteFullConfig['retrieval'] {
+  return {
+    semanticWeight: 0.6,
+    keywordWeight: 0.3,
+    recencyWeight: 0.1,
+    defaultLimit: 20,
+    ...config.retrieval,
+  };
+}
+
+/**
+ * Human-readable label for a sweep combination
+ */
+export function formatWeights(weights: EvalWeights): string {
+  const parts = WEIGHTS
+    .filter((key) => weights[key] !== undefined)
+    .map((key) => `${key}=${weights[key]}`);
+  return parts.length > 0 ? parts.join(' ') : 'default weights';
+}
+
+// ========== Baselines ==========
+
+/**
+ * Compare a report with a saved baseline, matching runs by their weights
+ */
+export function diffEvalReports(
+  baseline: EvalReport,
+  current: EvalReport,
+  tolerance = 0,
+): EvalDiff {
+  const diff: EvalDiff = { metrics: [], regressions: [], regressed: false };
+  const key = (weights: EvalWeights) => formatWeights(weights);
+  const baselineRuns = new Map(baseline.runs.map((run) => [key(run.weights), run]));
+
+  for (const run of current.runs) {
+    const before = baselineRuns.get(key(run.weights));
+    if (!before) continue;
+
+    for (const method of METHODS) {
+      const now = run.methods[method];
+      const then = before.methods[method];
+      if (!now || !then) continue;
+
+      for (const metric of ['recall', 'mrr', 'ndcg'] as const) {
+        const delta = now[metric] - then[metric];
+        diff.metrics.push({
+          weights: run.weights,
+          method,
+          metric,
+          baseline: then[metric],
+          current: now[metric],
+          delta,
+        });
+        if (delta < -tolerance) diff.regressed = true;
+      }
+
+      const previous = new Map(then.queries.map((q) => [q.id, q]));
+      for (const query of now.queries) {
+        const old = previous.get(query.id);
+        if (!old) continue;
+        for (const [metric, field] of [
+          ['recall', 'recall'],
+          ['mrr', 'reciprocalRank'],
+          ['ndcg', 'ndcg'],
+        ] as const) {
+          if (query[field] < old[field] - 1e-9) {
+            diff.regressions.push({
+              weights: run.weights,
+              method,
+              query: query.id,
+              metric,
+              baseline: old[field],
+              current: query[field],
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return diff;
+}
@@ -7,27 +7,84 @@
 
 export * from './core/types.js';
 export * from './core/database.js';
+export * from './core/schema.js';
 export * from './core/clauses.js';
+export * from './core/namespaces.js';
+export * from './core/events.js';
+export * from './core/journal.js';
+export * from './core/temporal.js';
+export * from './core/predicates.js';
+export * from './core/normalization.js';
+export * from './core/entities.js';
+export * from './core/graph.js';
+export * from './core/export.js';
 export * from './core/extraction.js';
 export * from './core/retrieval.js';
+export * from './core/rerank.js';
+export * from './core/context.js';
 export * from './core/decay.js';
 export * from './core/embeddings.js';
+export * from './core/ann.js';
+export * from './core/http.js';
 export * from './core/sanitization.js';
 export * from './core/migration.js';
 export * from './core/backup.js';
+export * from './core/encryption.js';
+export * from './core/pii.js';
+export * from './core/forget.js';
 export * from './packs/loader.js';
 export * from './packs/registry.js';
 export * from './skills/bindings.js';
 export * from './skills/performance.js';
 export * from './core/scheduler.js';
+export * from './server/http.js';
+export * from './server/mcp.js';
+export * from './eval/harness.js';
 
 import { Database } from './core/database.js';
 import { ClauseStore } from './core/clauses.js';
-import { Extractor } from './core/extraction.js';
+import { EventBus } from './core/events.js';
+import { ChangeJournal } from './core/journal.js';
+import { PredicateRegistry, type PredicateRegistryConfig } from './core/predicates.js';
+import { Normalizer } from './core/normalization.js';
+import { EntityResolver, type EntityInput, type SplitOptions } from './core/entities.js';
+import { MemoryGraph } from './core/graph.js';
+import { Extractor, createLLMClient, type LLMConfig } from './core/extraction.js';
 import { Retriever } from './core/retrieval.js';
+import { ContextBuilder, type ContextBuilderOptions } from './core/context.js';
+import { extractCitations, type PromptFormat } from './core/sanitization.js';
+import {
+  createReranker,
+  type Reranker,
+  type RerankConfig,
+  type RerankOptions,
+} from './core/rerank.js';
 import { DecayRunner } from './core/decay.js';
-import { EmbeddingManager, type EmbeddingConfig } from './core/embeddings.js';
+import {
+  EmbeddingManager,
+  type EmbeddingConfig,
+  type ReindexOptions,
+} from './core/embeddings.js';
 import { BackupManager, type BackupConfig } from './core/backup.js';
+import { namespaceScope, type NamespaceScope } from './core/namespaces.js';
+import {
+  resolveEncryptionKey,
+  type EncryptionConfig,
+  type RekeyReport,
+} from './core/encryption.js';
+import {
+  PiiRedactor,
+  loadPiiHashKey,
+  type PiiAuditReport,
+  type PiiConfig,
+} from './core/pii.js';
+import {
+  ForgetManager,
+  type ForgetOptions,
+  type ForgetReceipt,
+  type ForgetSelector,
+  type ForgetVerification,
+} from './core/forget.js';
 import { PackLoader } from './packs/loader.js';
 import { PackRegistry } from './packs/registry.js';
 import { SkillBindings } from './skills/bindings.js';
@@ -40,14 +97,41 @@ import type {
   ConflictResolutionStrategy,
   DecayReport,
   ClauseType,
+  EventHandler,
+  OMLiteEventType,
+  TypedEventHandler,
+  RenormalizeReport,
+  GraphOptions,
+  GraphPathOptions,
+  GraphExportFormat,
+  GraphExportOptions,
+  ProcessClauseResult,
+  ExtractResult,
 } from './core/types.js';
 
 // Extended configuration type
 export interface OMLiteFullConfig extends OMLiteConfig {
   embedding?: EmbeddingConfig;
+  /** LLM for extraction and query rewriting; auto-detected from API keys when unset */
+  llm?: LLMConfig;
   backup?: Partial<BackupConfig>;
   remoteRegistryUrl?: string;
+  /** Directory of installable knowledge packs (default: the packs bundled with om-lite) */
+  packsDir?: string;
   useLLMQueryRewriting?: boolean;
+  /** Second-stage reranking of retrieval candidates */
+  rerank?: RerankConfig;
+  /** Token budget and packing rules for retrieveForTask().formatted */
+  context?: ContextBuilderOptions;
+  predicates?: PredicateRegistryConfig;
+  /** Namespace this instance reads and writes: shared (default), user:<id> or agent:<id> */
+  namespace?: string;
+  /** Further namespaces this instance can read, e.g. an agent reading its user's memories */
+  namespaceInherits?: string[];
+  /** Where to find the passphrase that encrypts the database, archives and backups */
+  encryption?: EncryptionConfig;
+  /** PII detection and per-category redaction for new sources and extracted clauses (opt-in) */
+  pii?: PiiConfig;
 }
 
 /**
@@ -55,6 +139,12 @@ export interface OMLiteFullConfig extends OMLiteConfig {
  */
 export class OMLite {
   private db: Database;
+  private events: EventBus;
+  private journal: ChangeJournal;
+  private predicateRegistry: PredicateRegistry;
+  private normalizer: Normalizer;
+  private entityResolver: EntityResolver;
+  private memoryGraph: MemoryGraph;
   private clauseStore: ClauseStore;
   private extractor: Extractor;
   private retriever: Retriever;
@@ -65,8 +155,12 @@ export class OMLite {
   private packRegistry: PackRegistry;
   private skillBindings: SkillBindings;
   private performanceTracker: PerformanceTracker;
+  private encryptionKey: string | null;
+  private piiRedactor: PiiRedactor | null;
+  private forgetManager: ForgetManager;
 
   public readonly config: OMLiteFullConfig;
+  public readonly namespace: NamespaceScope;
 
   constructor(config: Partial<OMLiteFullConfig> = {}) {
     this.config = {
@@ -97,19 +191,49 @@ export class OMLite {
         onDuplicate: config.deduplication?.onDuplicate ?? 'reinforce',
       },
       embedding: config.embedding ?? { provider: 'local' },
+      llm: config.llm,
       backup: config.backup,
       remoteRegistryUrl: config.remoteRegistryUrl,
+      packsDir: config.packsDir,
       useLLMQueryRewriting: config.useLLMQueryRewriting ?? false,
+      rerank: config.rerank,
+      context: config.context,
+      predicates: config.predicates,
+      namespace: config.namespace,
+      namespaceInherits: config.namespaceInherits,
+      encryption: config.encryption,
+      pii: config.pii,
     };
+    this.namespace = namespaceScope(this.config.namespace, this.config.namespaceInherits);
 
     // Initialize components
-    this.db = new Database(this.config.dbPath);
+    this.encryptionKey = resolveEncryptionKey(this.config.encryption);
+    this.db = new Database(this.config.dbPath, {
+      encryptionKey: this.encryptionKey,
+      allowPlaintext: this.config.encryption?.allowPlaintext,
+    });
+    this.events = new EventBus();
+    this.journal = new ChangeJournal(this.db);
+    this.predicateRegistry = new PredicateRegistry();
+    if (this.config.predicates?.file) {
+      this.predicateRegistry.loadFile(this.config.predicates.file);
+    }
+    for (const definition of this.config.predicates?.definitions ?? []) {
+      this.predicateRegistry.register(definition);
+    }
+    this.normalizer = new Normalizer(this.db, this.predicateRegistry);
+    this.entityResolver = new EntityResolver(this.db);
+    this.normalizer.setEntityResolver(this.entityResolver);
+    this.memoryGraph = new MemoryGraph(this.db);
+    this.memoryGraph.setEntityResolver(this.entityResolver);
+    this.memoryGraph.setPredicateRegistry(this.predicateRegistry);
     this.clauseStore = new ClauseStore(
       this.db,
       this.config.conflictResolution,
       this.config.deduplication
     );
-    this.extractor = new Extractor(this.config.extractionModel);
+    const llmClient = this.config.llm ? createLLMClient(this.config.llm) : undefined;
+    this.extractor = new Extractor(this.config.extractionModel, llmClient);
     this.embeddingManager = new EmbeddingManager(this.db, this.config.embedding);
     this.retriever = new Retriever(
       this.db,
@@ -119,12 +243,63 @@ export class OMLite {
       },
       this.embeddingManager
     );
+    this.retriever.setGraph(this.memoryGraph);
+    if (llmClient) {
+      this.retriever.setLLMClient(llmClient);
+    }
+    if (this.config.rerank) {
+      this.retriever.setReranker(
+        createReranker(this.config.rerank, llmClient),
+        this.config.rerank,
+      );
+    }
+    if (this.config.context) {
+      this.retriever.setContextBuilder(new ContextBuilder(this.config.context));
+    }
     this.decayRunner = new DecayRunner(this.db, this.config.decay);
     this.backupManager = new BackupManager(this.db, this.config.backup);
-    this.packLoader = new PackLoader(this.db, this.clauseStore);
+    this.db.setBackupManager(this.backupManager);
+    this.packLoader = new PackLoader(this.db, this.clauseStore, this.config.packsDir);
     this.packRegistry = new PackRegistry(this.db, this.config.remoteRegistryUrl);
     this.skillBindings = new SkillBindings(this.db, this.clauseStore);
     this.performanceTracker = new PerformanceTracker(this.db, this.clauseStore);
+    this.forgetManager = new ForgetManager(this.db, this.clauseStore);
+    this.forgetManager.setEntityResolver(this.entityResolver);
+    this.forgetManager.setEmbeddingManager(this.embeddingManager);
+    this.forgetManager.setBackupManager(this.backupManager);
+    this.piiRedactor = this.config.pii?.enabled
+      ? new PiiRedactor(this.config.pii)
+      : null;
+
+    // Share a single event bus across all mutating components
+    this.clauseStore.setEventBus(this.events);
+    this.decayRunner.setEventBus(this.events);
+    this.packLoader.setEventBus(this.events);
+    this.skillBindings.setEventBus(this.events);
+    this.entityResolver.setEventBus(this.events);
+    this.embeddingManager.setEventBus(this.events);
+    this.forgetManager.setEventBus(this.events);
+
+    this.clauseStore.setPredicateRegistry(this.predicateRegistry);
+    this.clauseStore.setNormalizer(this.normalizer);
+    this.clauseStore.setEntityResolver(this.entityResolver);
+    this.packLoader.setPredicateRegistry(this.predicateRegistry);
+    this.skillBindings.setPredicateRegistry(this.predicateRegistry);
+
+    // Every reader and writer enforces the same namespace scope
+    this.clauseStore.setNamespace(this.namespace);
+    this.retriever.setNamespace(this.namespace);
+    this.memoryGraph.setNamespace(this.namespace);
+    this.skillBindings.setNamespace(this.namespace);
+    this.forgetManager.setNamespace(this.namespace);
+    this.journal.setNamespace(this.namespace);
+
+    // Source archives, backups and ANN graphs are sealed with the database's passphrase
+    this.clauseStore.setEncryptionKey(this.encryptionKey);
+    this.backupManager.setEncryptionKey(this.encryptionKey);
+    this.embeddingManager.setEncryptionKey(this.encryptionKey);
+    this.piiRedactor?.setEncryptionKey(this.encryptionKey);
+    this.clauseStore.setPiiRedactor(this.piiRedactor);
   }
 
   /**
@@ -132,6 +307,8 @@ export class OMLite {
    */
   async init(): Promise<void> {
     await this.db.init();
+    this.piiRedactor?.setHashKey(loadPiiHashKey(this.db));
+    await this.packLoader.registerInstalledPredicates();
     await this.embeddingManager.init();
     await this.backupManager.init();
   }
@@ -142,7 +319,7 @@ export class OMLite {
   async extract(
     content: string,
     options: { sourceId?: string; context?: string } = {}
-  ): Promise<{ clauses: Clause[]; conflicts: Conflict[] }> {
+  ): Promise<ExtractResult> {
     const sourceId =
       options.sourceId ??
       (await this.clauseStore.createSource({
@@ -155,22 +332,23 @@ export class OMLite {
       context: options.context,
     });
 
-    const results = {
-      clauses: [] as Clause[],
-      conflicts: [] as Conflict[],
+    const results: ExtractResult = {
+      clauses: [],
+      conflicts: [],
+      dropped: [],
     };
 
     for (const clause of extracted.clauses) {
       const result = await this.clauseStore.processNewClause(clause);
 
-      // Generate embedding for new clauses
+      // Reported by predicate and category only, so the dropped value is not echoed back
+      if (result.action === 'dropped') {
+        results.dropped.push({ predicate: clause.predicate, pii: result.pii ?? [] });
+      }
+
+      // Embeddings are maintained by the embedding manager from clause events
       if (result.action === 'insert' || result.action === 'superseded') {
         results.clauses.push(result.clause!);
-
-        // Create embedding for semantic search
-        if (this.embeddingManager.isSemanticSearchAvailable()) {
-          await this.embeddingManager.embedClause(result.clause!.id, result.clause!.natural_form);
-        }
       }
       if (result.conflict) {
         results.conflicts.push(result.conflict);
@@ -180,6 +358,25 @@ export class OMLite {
     return results;
   }
 
+  /**
+   * Store a single clause with deduplication and conflict detection
+   * Without a source_id, a manual source is recorded for it
+   */
+  async remember(
+    input: ClauseInput & { source_id?: string },
+    options: { channel?: string } = {},
+  ): Promise<ProcessClauseResult> {
+    const sourceId =
+      input.source_id ??
+      (await this.clauseStore.createSource({
+        type: 'manual',
+        content: input.natural_form,
+        channel: options.channel,
+      }));
+
+    return this.clauseStore.processNewClause({ ...input, source_id: sourceId });
+  }
+
   /**
    * Retrieve relevant clauses for a query
    */
@@ -214,6 +411,13 @@ export class OMLite {
     return this.clauseStore.search(query, options);
   }
 
+  /**
+   * Update confidence, decay rate, tags, metadata or natural form of a clause
+   */
+  async updateClause(id: string, updates: Partial<Clause>): Promise<Clause | null> {
+    return this.clauseStore.update(id, updates);
+  }
+
   /**
    * Reinforce a clause (increase confidence)
    */
@@ -228,6 +432,38 @@ export class OMLite {
     await this.clauseStore.invalidate(id, reason);
   }
 
+  /**
+   * Forget clauses in this namespace by subject, source, text or tag
+   * By default they are invalidated; with hard: true they are deleted along with
+   * their logs, vectors, conflicts and source archives, and backups are flagged
+   * or purged. Returns a receipt listing what was removed.
+   */
+  async forget(selector: ForgetSelector, options: ForgetOptions = {}): Promise<ForgetReceipt> {
+    // Queued embedding writes must not re-add vectors after the purge
+    await this.embeddingManager.flush();
+    return this.forgetManager.forget(selector, options);
+  }
+
+  /**
+   * Check that a receipt is intact and that nothing it lists is still stored
+   */
+  async verifyForgetReceipt(receipt: ForgetReceipt | string): Promise<ForgetVerification> {
+    const resolved = typeof receipt === 'string'
+      ? this.forgetManager.getReceipt(receipt)
+      : receipt;
+    if (!resolved) {
+      throw new Error(`Forget receipt not found: ${String(receipt)}`);
+    }
+    return this.forgetManager.verify(resolved);
+  }
+
+  /**
+   * Receipts of past forgets in this namespace, newest first
+   */
+  listForgetReceipts(limit?: number): ForgetReceipt[] {
+    return this.forgetManager.listReceipts(limit);
+  }
+
   /**
    * Run confidence decay on all clauses
    */
@@ -256,6 +492,16 @@ export class OMLite {
     return this.clauseStore.exportAsJson(options);
   }
 
+  /**
+   * Export as a graph (DOT, GraphML or JSON-LD)
+   */
+  async exportAsGraph(
+    format: GraphExportFormat,
+    options: GraphExportOptions = {},
+  ): Promise<string> {
+    return this.clauseStore.exportAsGraph(format, options);
+  }
+
   /**
    * Retrieve memory for a specific task
    */
@@ -264,6 +510,11 @@ export class OMLite {
     skillId?: string;
     requiredTypes?: ClauseType[];
     context?: string;
+    asOf?: string | Date;
+    knownAt?: string | Date;
+    graphDepth?: number;
+    maxTokens?: number;
+    format?: PromptFormat;
   }) {
     return this.retriever.retrieveForTask(task);
   }
@@ -282,6 +533,44 @@ export class OMLite {
     return this.clauseStore.archiveSourceToFile(sourceId, content, options);
   }
 
+  /**
+   * Encrypt, re-encrypt or (with null) decrypt the database, source archives and backups
+   * The database goes first, so a failure there leaves every file under the old key
+   */
+  async rekey(newKey: string | null): Promise<RekeyReport> {
+    await this.db.rekey(newKey);
+    const archives = await this.clauseStore.rekeyArchives(newKey);
+    const backups = await this.backupManager.rekeyBackups(newKey);
+    const ann = this.embeddingManager.rekeyAnn(newKey);
+    this.encryptionKey = newKey;
+    this.piiRedactor?.setEncryptionKey(newKey);
+
+    return {
+      databaseEncrypted: this.db.isEncrypted(),
+      archivesRekeyed: archives.rekeyed,
+      backupsRekeyed: backups.rekeyed,
+      annIndexesRekeyed: ann.rekeyed,
+      failed: [...archives.failed, ...backups.failed, ...ann.failed],
+    };
+  }
+
+  /**
+   * Scan stored clauses and source archives for PII, across all namespaces
+   */
+  async auditPii(): Promise<PiiAuditReport> {
+    return this.clauseStore.auditPii();
+  }
+
+  /**
+   * Decrypt values stored by the encrypt PII policy back into a clause's text
+   */
+  revealPii(text: string): string {
+    if (!this.piiRedactor) {
+      throw new Error('PII redaction is disabled');
+    }
+    return this.piiRedactor.reveal(text);
+  }
+
   /**
    * Log clause access (for tracking usefulness)
    */
@@ -296,6 +585,18 @@ export class OMLite {
     return this.clauseStore.markAccessUseful(accessId, wasUseful, correctionId);
   }
 
+  /**
+   * Mark the clauses an answer cites (by [mem:xxxxxx] short ID or full ID) as useful
+   */
+  markCitedUseful(answer: string, clauses: Array<{ id: string }>): {
+    cited: string[];
+    accessIds: string[];
+  } {
+    const cited = extractCitations(answer, clauses);
+    const accessIds = this.clauseStore.markClausesUseful(cited, answer.slice(0, 500));
+    return { cited, accessIds };
+  }
+
   /**
    * Get memory statistics
    */
@@ -304,6 +605,103 @@ export class OMLite {
     return baseStats;
   }
 
+  // ========== Events ==========
+
+  /**
+   * Subscribe to memory events ('*' receives every event)
+   * Returns a function that removes the subscription
+   */
+  on<T extends OMLiteEventType | '*'>(type: T, handler: TypedEventHandler<T>): () => void {
+    return this.events.on(type, handler);
+  }
+
+  /**
+   * Remove a handler registered with on()
+   */
+  off<T extends OMLiteEventType | '*'>(type: T, handler: TypedEventHandler<T>): void {
+    this.events.off(type, handler);
+  }
+
+  // ========== Change History ==========
+
+  /**
+   * Clause revision history
+   */
+  get history() {
+    return {
+      clause: (clauseId: string, options?: { limit?: number }) =>
+        this.journal.getClauseHistory(clauseId, options),
+      chain: (subject: string, predicate: string, options?: { limit?: number }) =>
+        this.journal.getChainHistory(subject, predicate, options),
+    };
+  }
+
+  // ========== Predicate Registry ==========
+
+  /**
+   * Predicate definitions (cardinality, synonyms, inverses, decay rates)
+   */
+  get predicates(): PredicateRegistry {
+    return this.predicateRegistry;
+  }
+
+  // ========== Normalization ==========
+
+  /**
+   * Entity alias table used to canonicalize subjects and objects
+   */
+  get aliases() {
+    return {
+      add: (alias: string, entityId: string) => this.normalizer.addAlias(alias, entityId),
+      remove: (alias: string) => this.normalizer.removeAlias(alias),
+      list: (entityId?: string) => this.normalizer.listAliases(entityId),
+      resolve: (name: string) => this.normalizer.resolveAlias(name),
+    };
+  }
+
+  /**
+   * Entities that clause subjects and objects are linked to
+   */
+  get entities() {
+    return {
+      get: (id: string) => this.entityResolver.get(id),
+      resolve: (name: string) => this.entityResolver.resolve(name),
+      list: (options?: { type?: string; includeMerged?: boolean; limit?: number }) =>
+        this.entityResolver.list(options),
+      create: (input: EntityInput) => this.entityResolver.create(input),
+      setAttributes: (entityId: string, attributes: Record<string, unknown>) =>
+        this.entityResolver.setAttributes(entityId, attributes),
+      clauses: (entityId: string, options?: { includeExpired?: boolean; limit?: number }) =>
+        this.clauseStore.search('', {
+          entity: entityId,
+          includeExpired: options?.includeExpired,
+          limit: options?.limit ?? 100,
+        }),
+      merge: (source: string, target: string) => this.entityResolver.merge(source, target),
+      split: (entity: string, options: SplitOptions) => this.entityResolver.split(entity, options),
+      linkAll: () => this.entityResolver.linkAll(),
+    };
+  }
+
+  /**
+   * Traversal over relationship clauses
+   */
+  get graph() {
+    return {
+      neighbors: (entity: string, options?: GraphOptions) =>
+        this.memoryGraph.neighbors(entity, options),
+      paths: (from: string, to: string, options?: GraphPathOptions) =>
+        this.memoryGraph.paths(from, to, options),
+    };
+  }
+
+  /**
+   * Re-apply predicate synonyms and entity aliases to stored clauses
+   */
+  async renormalize(options: { dryRun?: boolean } = {}): Promise<RenormalizeReport> {
+    return this.clauseStore.renormalize(options);
+  }
+
   // ========== Embedding Operations ==========
 
   /**
@@ -317,7 +715,12 @@ export class OMLite {
         this.embeddingManager.embedClausesBatch(clauses),
       findSimilar: (query: string, options?: { limit?: number; minSimilarity?: number }) =>
         this.embeddingManager.findSimilar(query, options),
+      getEmbedding: (clauseId: string) => this.embeddingManager.getEmbedding(clauseId),
+      flush: () => this.embeddingManager.flush(),
       getStats: () => this.embeddingManager.getStats(),
+      status: () => this.embeddingManager.getStatus(),
+      reindex: (options?: ReindexOptions) => this.embeddingManager.reindex(options),
+      rebuildAnn: () => this.embeddingManager.rebuildAnnIndex(),
       rebuild: () =>
         this.embeddingManager.rebuildEmbeddings(async () => {
           const clauses = await this.clauseStore.search('', { limit: 100000 });
@@ -335,7 +738,16 @@ export class OMLite {
     return {
       create: (options?: { type?: 'daily' | 'weekly' | 'manual'; customPath?: string }) =>
         this.backupManager.backup(options),
-      restore: (backupPath: string) => this.backupManager.restore(backupPath),
+      // Forgets the backup predates are re-applied to the restored database
+      restore: async (backupPath: string) => {
+        const result = await this.backupManager.restore(backupPath);
+        if (result.success) {
+          // The restored database is a new connection: load sqlite-vec into it again
+          await this.embeddingManager.init();
+          await this.forgetManager.reapply(result.forgetReceipts ?? []);
+        }
+        return result;
+      },
       list: () => this.backupManager.listBackups(),
       validate: (backupPath: string) => this.backupManager.validateBackup(backupPath),
       getLatest: () => this.backupManager.getLatestBackup(),
@@ -376,6 +788,13 @@ export class OMLite {
     this.clauseStore.setDeduplicationConfig(config);
   }
 
+  /**
+   * Replace the retrieval reranker, e.g. with a custom cross-encoder (null disables)
+   */
+  setReranker(reranker: Reranker | null, options?: RerankOptions): void {
+    this.retriever.setReranker(reranker, options);
+  }
+
   // ========== Knowledge Packs ==========
 
   /**
@@ -424,6 +843,8 @@ export class OMLite {
    * Close database connection
    */
   async close(): Promise<void> {
+    await this.embeddingManager.close();
+    this.events.clear();
     await this.backupManager.close();
     await this.db.close();
   }
@@ -442,6 +863,20 @@ import type {
   SkillMetadata,
   SkillOutcome,
   SourceAttribution,
+  ClauseRevision,
+  RevisionAction,
+  PredicateDefinition,
+  PredicateCardinality,
+  PredicateValueType,
+  EntityAlias,
+  Entity,
+  EntityMergeResult,
+  EntitySplitResult,
+  GraphDirection,
+  GraphNode,
+  GraphEdge,
+  GraphNeighborhood,
+  GraphPath,
 } from './core/types.js';
 
 export type { RemotePackInfo } from './packs/registry.js';
@@ -467,4 +902,26 @@ export type {
   SourceAttribution,
   EmbeddingConfig,
   BackupConfig,
+  ClauseRevision,
+  RevisionAction,
+  EventHandler,
+  OMLiteEventType,
+  TypedEventHandler,
+  PredicateDefinition,
+  PredicateCardinality,
+  PredicateValueType,
+  EntityAlias,
+  Entity,
+  EntityMergeResult,
+  EntitySplitResult,
+  RenormalizeReport,
+  GraphDirection,
+  GraphOptions,
+  GraphPathOptions,
+  GraphNode,
+  GraphEdge,
+  GraphNeighborhood,
+  GraphPath,
+  GraphExportFormat,
+  GraphExportOptions,
 };
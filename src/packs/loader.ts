@@ -9,6 +9,10 @@ import { fileURLToPath } from 'url';
 import YAML from 'yaml';
 import type { DatabaseManager } from '../core/database.js';
 import type { ClauseStore } from '../core/clauses.js';
+import { EventBus } from '../core/events.js';
+import { ChangeJournal } from '../core/journal.js';
+import { SHARED_NAMESPACE } from '../core/namespaces.js';
+import { validateDefinition, type PredicateRegistry } from '../core/predicates.js';
 import type {
   PackMetadata,
   PackLoadOptions,
@@ -16,6 +20,7 @@ import type {
   InstalledPack,
   ClauseType,
   ClauseInput,
+  PredicateDefinition,
 } from '../core/types.js';
 
 interface ClaimEntry {
@@ -51,16 +56,21 @@ interface PackYaml {
   last_updated: string;
   requires_packs?: string[];
   tags?: string[];
+  predicates?: PredicateDefinition[];
 }
 
 export class PackLoader {
   private db: DatabaseManager;
   private clauseStore: ClauseStore;
   private packsDir: string;
+  private events: EventBus = new EventBus();
+  private journal: ChangeJournal;
+  private predicates: PredicateRegistry | null = null;
 
   constructor(db: DatabaseManager, clauseStore: ClauseStore, packsDir?: string) {
     this.db = db;
     this.clauseStore = clauseStore;
+    this.journal = new ChangeJournal(db);
 
     // Default packs directory is relative to this package
     if (packsDir) {
@@ -73,6 +83,40 @@ export class PackLoader {
     }
   }
 
+  /**
+   * Set the event bus used to publish pack events
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
+  /**
+   * Set the predicate registry that packs contribute definitions to
+   */
+  setPredicateRegistry(predicates: PredicateRegistry): void {
+    this.predicates = predicates;
+  }
+
+  /**
+   * Re-register predicate definitions from packs installed in earlier sessions
+   */
+  async registerInstalledPredicates(): Promise<number> {
+    if (!this.predicates) return 0;
+
+    let registered = 0;
+    for (const pack of await this.listInstalled()) {
+      for (const definition of pack.metadata.predicates ?? []) {
+        try {
+          this.predicates.register(definition, `pack:${pack.pack_id}`);
+          registered++;
+        } catch (error) {
+          console.warn(`Invalid predicate in pack ${pack.pack_id}:`, error);
+        }
+      }
+    }
+    return registered;
+  }
+
   /**
    * List installed packs from database
    */
@@ -84,6 +128,7 @@ export class PackLoader {
       claims_loaded: number;
       last_updated: string | null;
       metadata: string;
+      namespace: string;
     }>('SELECT * FROM installed_packs ORDER BY installed_at DESC');
 
     return rows.map((row) => ({
@@ -93,6 +138,7 @@ export class PackLoader {
       claims_loaded: row.claims_loaded,
       last_updated: row.last_updated,
       metadata: JSON.parse(row.metadata || '{}'),
+      namespace: row.namespace,
     }));
   }
 
@@ -139,6 +185,7 @@ export class PackLoader {
       skillFilter,
       confidenceFloor = 0.5,
       overwriteExisting = false,
+      namespace = SHARED_NAMESPACE,
     } = options;
 
     // Find pack directory
@@ -175,11 +222,17 @@ export class PackLoader {
       await this.remove(packId);
     }
 
+    // Register pack predicates before loading claims so they govern conflicts
+    for (const definition of metadata.predicates ?? []) {
+      this.predicates?.register(definition, `pack:${packId}`);
+    }
+
     // Create source for this pack
     const sourceId = await this.clauseStore.createSource({
       type: 'knowledge_pack',
       content: JSON.stringify(metadata),
       channel: `pack:${packId}`,
+      namespace,
       metadata: {
         pack_id: packId,
         pack_version: metadata.version,
@@ -243,6 +296,7 @@ export class PackLoader {
           },
           source_id: sourceId,
           extraction_method: 'knowledge_pack',
+          namespace,
         };
 
         // Process the clause
@@ -264,11 +318,14 @@ export class PackLoader {
 
     // Record installation
     this.db.run(
-      `INSERT OR REPLACE INTO installed_packs (pack_id, version, installed_at, claims_loaded, last_updated, metadata)
-       VALUES (?, ?, datetime('now'), ?, NULL, ?)`,
-      [packId, metadata.version, report.loaded, JSON.stringify(metadata)]
+      `INSERT OR REPLACE INTO installed_packs
+         (pack_id, version, installed_at, claims_loaded, last_updated, metadata, namespace)
+       VALUES (?, ?, datetime('now'), ?, NULL, ?, ?)`,
+      [packId, metadata.version, report.loaded, JSON.stringify(metadata), namespace],
     );
 
+    this.events.emit({ type: 'pack_installed', packId, claimsLoaded: report.loaded });
+
     return report;
   }
 
@@ -284,7 +341,10 @@ export class PackLoader {
 
     for (const pack of toUpdate) {
       try {
-        const report = await this.install(pack.pack_id, { overwriteExisting: true });
+        const report = await this.install(pack.pack_id, {
+          overwriteExisting: true,
+          namespace: pack.namespace,
+        });
         reports.push(report);
       } catch (error) {
         console.error(`Failed to update pack ${pack.pack_id}:`, error);
@@ -298,14 +358,42 @@ export class PackLoader {
    * Remove an installed pack
    */
   async remove(packId: string): Promise<void> {
+    const tagPattern = `%"pack:${packId}"%`;
+    const removed = this.db.all<{ id: string }>(
+      'SELECT id FROM clauses WHERE tags LIKE ?',
+      [tagPattern],
+    );
+    const snapshots = removed.map((r) => this.journal.snapshot(r.id));
+
     // Delete all clauses from this pack
     this.db.run(
       `DELETE FROM clauses WHERE tags LIKE ?`,
-      [`%"pack:${packId}"%`]
+      [tagPattern],
     );
 
     // Remove from installed packs
     this.db.run('DELETE FROM installed_packs WHERE pack_id = ?', [packId]);
+    this.predicates?.unregisterOrigin(`pack:${packId}`);
+
+    for (const before of snapshots) {
+      if (!before) continue;
+      this.journal.record({
+        clauseId: before.id,
+        action: 'delete',
+        actor: 'pack_loader',
+        reason: `pack_removed:${packId}`,
+        before,
+      });
+    }
+
+    if (removed.length > 0) {
+      this.events.emit({
+        type: 'clause_deleted',
+        clauseIds: removed.map((r) => r.id),
+        reason: `pack_removed:${packId}`,
+      });
+    }
+    this.events.emit({ type: 'pack_removed', packId });
   }
 
   /**
@@ -343,6 +431,18 @@ export class PackLoader {
       errors.push('Missing required field: claim_files');
     }
 
+    // Validate predicate definitions
+    if (packYaml.predicates !== undefined && !Array.isArray(packYaml.predicates)) {
+      errors.push('Field predicates must be a list');
+    }
+    for (const definition of Array.isArray(packYaml.predicates) ? packYaml.predicates : []) {
+      try {
+        validateDefinition(definition);
+      } catch (error) {
+        errors.push(`Invalid predicate: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     // Validate claim files exist
     let totalClaims = 0;
     for (const claimFile of packYaml.claim_files ?? []) {
@@ -410,6 +510,7 @@ export class PackLoader {
       last_updated: packYaml.last_updated,
       requires_packs: packYaml.requires_packs,
       tags: packYaml.tags,
+      predicates: packYaml.predicates,
     };
   }
 
@@ -517,6 +517,7 @@ export class PackRegistry {
       claims_loaded: number;
       last_updated: string | null;
       metadata: string;
+      namespace: string;
     }>('SELECT * FROM installed_packs');
 
     const matches: InstalledPack[] = [];
@@ -538,6 +539,7 @@ export class PackRegistry {
             claims_loaded: row.claims_loaded,
             last_updated: row.last_updated,
             metadata,
+            namespace: row.namespace,
           });
         }
       } catch {
@@ -0,0 +1,426 @@
+/**
+ * HTTP server - Local REST API over a single OMLite instance
+ * Lets several processes and runtimes share one memory database without
+ * each of them opening the SQLite file
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { OMLite } from '../index.js';
+import type {
+  ClauseInput,
+  ClauseType,
+  ConflictResolutionStrategy,
+  PackLoadOptions,
+  RetrievalOptions,
+  SearchOptions,
+  SkillOutcome,
+} from '../core/types.js';
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  /** Bearer token required on every request except GET /health */
+  token?: string;
+  /** Where loadServerConfig() keeps the token it generates when none is configured */
+  tokenFile?: string;
+  maxBodyBytes: number;
+}
+
+type Body = Record<string, unknown>;
+
+interface RequestContext {
+  params: string[];
+  query: URLSearchParams;
+  body: Body;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  status?: number;
+  handler: (ctx: RequestContext) => Promise<unknown>;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_CONFIG: ServerConfig = {
+  host: '127.0.0.1',
+  port: 8787,
+  maxBodyBytes: 1024 * 1024,
+};
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+export const DEFAULT_TOKEN_FILE = '~/.om-lite/server-token';
+
+export class MemoryServer {
+  private om: OMLite;
+  private config: ServerConfig;
+  private server: Server | null = null;
+  private routes: Route[];
+
+  constructor(om: OMLite, config: Partial<ServerConfig> = {}) {
+    this.om = om;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.routes = this.buildRoutes();
+
+    // Loopback is no protection against web pages the user visits, so there is no
+    // unauthenticated mode
+    if (!this.config.token) {
+      throw new Error(`A bearer token is required to listen on ${this.config.host}`);
+    }
+  }
+
+  /**
+   * Start listening; resolves with the bound address (port 0 picks a free port)
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    if (this.server) {
+      throw new Error('Server already started');
+    }
+
+    const server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    return { host: this.config.host, port };
+  }
+
+  /**
+   * Stop accepting connections and wait for open requests to finish
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((err) => (err ? reject(err) : resolve()));
+      server.closeAllConnections();
+    });
+  }
+
+  // ========== Request Handling ==========
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+
+    try {
+      this.checkHost(req);
+      if (!(method === 'GET' && url.pathname === '/health')) {
+        this.authorize(req);
+      }
+
+      const matching = this.routes.filter((r) => r.pattern.test(url.pathname));
+      if (matching.length === 0) {
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+      const route = matching.find((r) => r.method === method);
+      if (!route) {
+        throw new HttpError(405, `Method ${method} not allowed on ${url.pathname}`);
+      }
+
+      const params = route.pattern
+        .exec(url.pathname)!
+        .slice(1)
+        .map((p) => decodeURIComponent(p));
+      const body = method === 'GET' || method === 'DELETE' ? {} : await this.readBody(req);
+      const result = await route.handler({ params, query: url.searchParams, body });
+
+      this.send(res, route.status ?? 200, result ?? { ok: true });
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 500) {
+        console.warn(`[om-lite serve] ${method} ${url.pathname} failed:`, error);
+      }
+      this.send(res, status, { error: message });
+    }
+  }
+
+  /**
+   * Reject Host headers naming anything but the bound interface (DNS rebinding)
+   * A wildcard bind has no single name to check and relies on the token alone
+   */
+  private checkHost(req: IncomingMessage): void {
+    const bound = this.config.host;
+    if (WILDCARD_HOSTS.includes(bound)) return;
+
+    // "example.com:8787", "[::1]:8787" → hostname without brackets or port
+    const header = req.headers.host ?? '';
+    const hostname = header.startsWith('[')
+      ? header.slice(1, header.indexOf(']'))
+      : header.replace(/:\d+$/, '');
+    const allowed = LOOPBACK_HOSTS.includes(bound) ? LOOPBACK_HOSTS : [bound];
+
+    if (!allowed.includes(hostname.toLowerCase())) {
+      throw new HttpError(403, `Host not allowed: ${header || '(none)'}`);
+    }
+  }
+
+  private authorize(req: IncomingMessage): void {
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    const expected = Buffer.from(this.config.token!);
+    const given = Buffer.from(match?.[1]?.trim() ?? '');
+
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+  }
+
+  private async readBody(req: IncomingMessage): Promise<Body> {
+    // A text/plain or form body is what a cross-origin page can send without a preflight
+    const hasBody = Number(req.headers['content-length'] ?? 0) > 0 ||
+      req.headers['transfer-encoding'] !== undefined;
+    const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (hasBody && contentType !== 'application/json') {
+      throw new HttpError(415, 'Request body must be application/json');
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      const buffer = chunk as Buffer;
+      size += buffer.length;
+      if (size > this.config.maxBodyBytes) {
+        throw new HttpError(413, `Request body exceeds ${this.config.maxBodyBytes} bytes`);
+      }
+      chunks.push(buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8').trim();
+    if (!text) return {};
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new HttpError(400, 'Request body is not valid JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new HttpError(400, 'Request body must be a JSON object');
+    }
+    return parsed as Body;
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    const payload = JSON.stringify(body);
+    res.writeHead(status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(payload),
+    });
+    res.end(payload);
+  }
+
+  // ========== Routes ==========
+
+  private buildRoutes(): Route[] {
+    const om = this.om;
+    const route = (
+      method: string,
+      path: string,
+      handler: Route['handler'],
+      status?: number,
+    ): Route => ({
+      method,
+      // "/clauses/:id" → /^\/clauses\/([^/]+)$/
+      pattern: new RegExp(`^${path.replace(/:[a-z]+/g, '([^/]+)')}$`),
+      handler,
+      status,
+    });
+
+    return [
+      route('GET', '/health', async () => ({ status: 'ok' })),
+      route('GET', '/stats', () => om.getStats()),
+
+      // Retrieval and extraction
+      route('POST', '/retrieve', ({ body }) => {
+        const { query, progressive, ...options } = body;
+        const text = requireString('query', query, true);
+        return progressive
+          ? om.progressiveRetrieve(text, options as RetrievalOptions)
+          : om.retrieve(text, options as RetrievalOptions);
+      }),
+      route('POST', '/retrieve/task', ({ body }) => {
+        requireString('description', body.description);
+        return om.retrieveForTask(body as { description: string });
+      }),
+      route('POST', '/extract', ({ body }) =>
+        om.extract(requireString('content', body.content), {
+          sourceId: optionalString(body.sourceId),
+          context: optionalString(body.context),
+        }),
+      ),
+
+      // Clauses
+      route('GET', '/clauses', ({ query }) =>
+        om.searchClauses(query.get('q') ?? '', searchOptions(query))),
+      route('POST', '/clauses', ({ body }) => {
+        for (const key of ['type', 'subject', 'predicate', 'object', 'natural_form']) {
+          requireString(key, body[key]);
+        }
+        return om.remember(body as unknown as ClauseInput & { source_id?: string });
+      }, 201),
+      route('GET', '/clauses/:id', async ({ params }) => {
+        const clause = await om.getClause(params[0]);
+        if (!clause) throw new HttpError(404, `Clause not found: ${params[0]}`);
+        return clause;
+      }),
+      route('PATCH', '/clauses/:id', async ({ params, body }) => {
+        const clause = await om.updateClause(params[0], body);
+        if (!clause) throw new HttpError(404, `Clause not found: ${params[0]}`);
+        return clause;
+      }),
+      route('DELETE', '/clauses/:id', async ({ params, query }) => {
+        await this.requireClause(params[0]);
+        await om.invalidateClause(params[0], query.get('reason') ?? undefined);
+        return { invalidated: params[0] };
+      }),
+      route('POST', '/clauses/:id/reinforce', async ({ params, body }) => {
+        await this.requireClause(params[0]);
+        const amount = typeof body.amount === 'number' ? body.amount : undefined;
+        await om.reinforceClause(params[0], amount);
+        return om.getClause(params[0]);
+      }),
+      route('GET', '/clauses/:id/history', async ({ params }) => om.history.clause(params[0])),
+
+      // Conflicts
+      route('GET', '/conflicts', () => om.conflicts.list()),
+      route('POST', '/conflicts/:id/resolve', ({ params, body }) =>
+        om.conflicts.resolve(params[0], body.strategy as ConflictResolutionStrategy | undefined),
+      ),
+
+      // Packs
+      route('GET', '/packs', () => om.packs.list()),
+      route('GET', '/packs/available', () => om.packs.available()),
+      route('POST', '/packs/:id', ({ params, body }) =>
+        om.packs.install(params[0], body as PackLoadOptions), 201),
+      route('DELETE', '/packs/:id', async ({ params }) => {
+        await om.packs.remove(params[0]);
+        return { removed: params[0] };
+      }),
+
+      // Skills
+      route('GET', '/skills/performance', ({ query }) =>
+        om.skills.getPerformance(query.get('skill') ?? undefined)),
+      route('GET', '/skills/:id/capabilities', ({ params }) =>
+        om.skills.getCapabilities(params[0])),
+      route('GET', '/skills/:id/preferences', ({ params }) =>
+        om.skills.getPreferencesForExecution(params[0])),
+      route('POST', '/skills/:id/outcomes', async ({ params, body }) => {
+        if (typeof body.success !== 'boolean') {
+          throw new HttpError(400, 'success must be a boolean');
+        }
+        await om.skills.recordOutcome(params[0], body as unknown as SkillOutcome);
+        return { recorded: params[0] };
+      }, 201),
+    ];
+  }
+
+  private async requireClause(id: string): Promise<void> {
+    if (!(await this.om.getClause(id))) {
+      throw new HttpError(404, `Clause not found: ${id}`);
+    }
+  }
+}
+
+// ========== Config ==========
+
+/**
+ * Read server settings from the OpenClaw config file (memory.om_lite.server)
+ * The token may be given inline or through the env var named by token_env; without
+ * either, one is generated on first run and kept in token_file
+ */
+export function loadServerConfig(
+  path: string = '~/.openclaw/config.yaml',
+): Partial<ServerConfig> {
+  const file = path.startsWith('~') ? path.replace('~', homedir()) : path;
+  const config: Partial<ServerConfig> = {};
+
+  if (existsSync(file)) {
+    const parsed = parseYaml(readFileSync(file, 'utf-8')) as {
+      memory?: { om_lite?: { server?: Record<string, unknown> } };
+    } | null;
+    const server = parsed?.memory?.om_lite?.server ?? {};
+
+    if (typeof server.host === 'string') config.host = server.host;
+    if (typeof server.port === 'number') config.port = server.port;
+    if (typeof server.max_body_bytes === 'number') config.maxBodyBytes = server.max_body_bytes;
+    if (typeof server.token === 'string') config.token = server.token;
+    if (typeof server.token_env === 'string' && process.env[server.token_env]) {
+      config.token = process.env[server.token_env];
+    }
+    if (typeof server.token_file === 'string') config.tokenFile = server.token_file;
+  }
+
+  config.token ??= process.env.OM_LITE_SERVER_TOKEN;
+  if (!config.token) {
+    config.tokenFile ??= DEFAULT_TOKEN_FILE;
+    config.token = readOrCreateToken(config.tokenFile.replace(/^~/, homedir()));
+  }
+  return config;
+}
+
+function readOrCreateToken(path: string): string {
+  if (existsSync(path)) {
+    const token = readFileSync(path, 'utf-8').trim();
+    if (token) return token;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, `${token}\n`, { mode: 0o600 });
+  return token;
+}
+
+// ========== Helpers ==========
+
+function requireString(key: string, value: unknown, allowEmpty: boolean = false): string {
+  if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+    throw new HttpError(400, `${key} must be a ${allowEmpty ? '' : 'non-empty '}string`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function searchOptions(query: URLSearchParams): SearchOptions {
+  const number = (key: string) => (query.has(key) ? Number(query.get(key)) : undefined);
+  const types = query.getAll('type');
+
+  return {
+    types: types.length > 0 ? (types as ClauseType[]) : undefined,
+    minConfidence: number('min_confidence'),
+    includeExpired: query.get('include_expired') === 'true',
+    limit: number('limit'),
+    entity: query.get('entity') ?? undefined,
+    asOf: query.get('as_of') ?? undefined,
+    knownAt: query.get('known_at') ?? undefined,
+  };
+}
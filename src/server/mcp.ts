@@ -0,0 +1,411 @@
+/**
+ * MCP server - Model Context Protocol over stdio
+ * Exposes memory tools and resources to any MCP-capable agent using
+ * newline-delimited JSON-RPC 2.0 on stdin/stdout
+ */
+
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { OMLite } from '../index.js';
+import type { ClauseType, ConflictResolutionStrategy } from '../core/types.js';
+import type { PromptFormat } from '../core/sanitization.js';
+
+export interface McpServerOptions {
+  name?: string;
+  version?: string;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  call: (args: Record<string, unknown>) => Promise<ToolResult>;
+}
+
+interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: () => Promise<string>;
+}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+// Protocol revisions this server speaks; the newest is offered by default
+const PROTOCOL_VERSIONS = ['2024-11-05', '2025-03-26', '2025-06-18'];
+
+const CLAUSE_TYPES: ClauseType[] = [
+  'fact', 'preference', 'habit', 'skill', 'relationship', 'intention',
+  'context', 'correction', 'skill_success', 'skill_failure', 'skill_preference',
+];
+
+const PROMPT_FORMATS: PromptFormat[] = ['markdown', 'xml', 'json', 'citation'];
+
+const STRATEGIES: ConflictResolutionStrategy[] = [
+  'newest_wins', 'highest_confidence', 'merge_history', 'manual',
+];
+
+export class McpServer {
+  private om: OMLite;
+  private info: { name: string; version: string };
+  private tools: ToolDefinition[];
+  private resources: ResourceDefinition[];
+
+  constructor(om: OMLite, options: McpServerOptions = {}) {
+    this.om = om;
+    this.info = { name: options.name ?? 'om-lite', version: options.version ?? '0.1.0' };
+    this.tools = this.buildTools();
+    this.resources = this.buildResources();
+  }
+
+  /**
+   * Read requests line by line until the input ends, writing one response per request
+   */
+  async serve(input: Readable, output: Writable): Promise<void> {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let response: JsonRpcResponse | null;
+      try {
+        response = await this.handle(JSON.parse(line) as JsonRpcMessage);
+      } catch {
+        response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+      }
+
+      if (response) {
+        output.write(`${JSON.stringify(response)}\n`);
+      }
+    }
+  }
+
+  /**
+   * Handle a single JSON-RPC message; notifications produce no response
+   */
+  async handle(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+    const id = message.id ?? null;
+    const isNotification = message.id === undefined;
+
+    try {
+      if (message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        throw new RpcError(-32600, 'Invalid request');
+      }
+      const result = await this.dispatch(message.method, message.params ?? {});
+      return isNotification ? null : { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (isNotification) return null;
+      const code = error instanceof RpcError ? error.code : -32603;
+      const text = error instanceof Error ? error.message : String(error);
+      return { jsonrpc: '2.0', id, error: { code, message: text } };
+    }
+  }
+
+  // ========== Methods ==========
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: typeof requested === 'string' && PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : PROTOCOL_VERSIONS[PROTOCOL_VERSIONS.length - 1],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: this.info,
+        };
+      }
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: this.tools.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(params);
+      case 'resources/list':
+        return {
+          resources: this.resources.map(({ uri, name, description, mimeType }) => ({
+            uri,
+            name,
+            description,
+            mimeType,
+          })),
+        };
+      case 'resources/read': {
+        const resource = this.resources.find((r) => r.uri === params.uri);
+        if (!resource) {
+          throw new RpcError(-32002, `Resource not found: ${String(params.uri)}`);
+        }
+        const content = await resource.read();
+        return {
+          contents: [{ uri: resource.uri, mimeType: resource.mimeType, text: content }],
+        };
+      }
+      default:
+        throw new RpcError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(params: Record<string, unknown>): Promise<ToolResult> {
+    const tool = this.tools.find((t) => t.name === params.name);
+    if (!tool) {
+      throw new RpcError(-32602, `Unknown tool: ${String(params.name)}`);
+    }
+
+    // Tool failures are reported to the model, not as protocol errors
+    try {
+      return await tool.call((params.arguments ?? {}) as Record<string, unknown>);
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  }
+
+  // ========== Tools ==========
+
+  private buildTools(): ToolDefinition[] {
+    const om = this.om;
+
+    return [
+      {
+        name: 'memory_retrieve',
+        description:
+          'Retrieve what memory knows that is relevant to a task: user preferences, ' +
+          'facts and skill-specific knowledge, formatted for the prompt.',
+        inputSchema: objectSchema({
+          task: { type: 'string', description: 'Description of the task at hand' },
+          context: { type: 'string', description: 'Extra context to search with' },
+          skill_id: { type: 'string', description: 'Skill about to be used' },
+          types: { type: 'array', items: { type: 'string', enum: CLAUSE_TYPES } },
+          max_tokens: { type: 'integer', description: 'Token budget for the formatted text' },
+          format: {
+            type: 'string',
+            enum: PROMPT_FORMATS,
+            description: 'markdown (default), xml, json, or citation with [mem:id] markers',
+          },
+        }, ['task']),
+        call: async (args) => {
+          const result = await om.retrieveForTask({
+            description: requireString(args, 'task'),
+            context: optionalString(args, 'context'),
+            skillId: optionalString(args, 'skill_id'),
+            requiredTypes: Array.isArray(args.types) ? (args.types as ClauseType[]) : undefined,
+            maxTokens: optionalNumber(args, 'max_tokens'),
+            format: optionalString(args, 'format') as PromptFormat | undefined,
+          });
+          return {
+            content: [{ type: 'text', text: result.formatted }],
+            structuredContent: {
+              clauses: result.clauses.map((c) => ({
+                id: c.id,
+                type: c.type,
+                natural_form: c.natural_form,
+                confidence: c.confidence,
+                score: c.score,
+              })),
+              dropped: result.context.dropped.map((d) => ({ id: d.id, reason: d.reason })),
+            },
+          };
+        },
+      },
+      {
+        name: 'memory_remember',
+        description:
+          'Store new information about the user or world. The text is broken into ' +
+          'structured clauses; duplicates are reinforced and contradictions recorded.',
+        inputSchema: objectSchema({
+          content: { type: 'string', description: 'What to remember, in natural language' },
+          context: { type: 'string', description: 'Where the information came from' },
+        }, ['content']),
+        call: async (args) => {
+          const result = await om.extract(requireString(args, 'content'), {
+            context: optionalString(args, 'context'),
+          });
+          const lines = result.clauses.map((c) => `- ${c.natural_form} (${c.id})`);
+          const summary = result.clauses.length > 0
+            ? `Stored ${result.clauses.length} clause(s):\n${lines.join('\n')}`
+            : 'Nothing new to store.';
+          const conflicts = result.conflicts.length > 0
+            ? `\n${result.conflicts.length} conflict(s) need review (conflicts_list).`
+            : '';
+          const categories = new Set(result.dropped.flatMap((d) => d.pii.map((f) => f.category)));
+          const dropped = result.dropped.length > 0
+            ? `\n${result.dropped.length} clause(s) not stored: they contained ${[...categories].join(', ')}.`
+            : '';
+          return {
+            content: [{ type: 'text', text: summary + conflicts + dropped }],
+            structuredContent: {
+              clauses: result.clauses.map((c) => ({ id: c.id, natural_form: c.natural_form })),
+              conflicts: result.conflicts.map((c) => c.id),
+              dropped: result.dropped,
+            },
+          };
+        },
+      },
+      {
+        name: 'memory_forget',
+        description:
+          'Mark a clause as no longer true. It stays in history but is no longer retrieved.',
+        inputSchema: objectSchema({
+          clause_id: { type: 'string' },
+          reason: { type: 'string' },
+        }, ['clause_id']),
+        call: async (args) => {
+          const id = requireString(args, 'clause_id');
+          const clause = await om.getClause(id);
+          if (!clause) throw new Error(`Clause not found: ${id}`);
+          await om.invalidateClause(id, optionalString(args, 'reason') ?? 'forgotten via MCP');
+          return text(`Forgot: ${clause.natural_form}`);
+        },
+      },
+      {
+        name: 'conflicts_list',
+        description: 'List contradictions in memory that are waiting for a decision.',
+        inputSchema: objectSchema({}, []),
+        call: async () => {
+          const conflicts = await om.conflicts.list();
+          if (conflicts.length === 0) return text('No pending conflicts.');
+          const lines = conflicts.map((c) => `- ${c.id}: ${c.description}`);
+          return {
+            content: [{ type: 'text', text: lines.join('\n') }],
+            structuredContent: { conflicts },
+          };
+        },
+      },
+      {
+        name: 'conflicts_resolve',
+        description: 'Resolve a pending conflict with a strategy (defaults to the configured one).',
+        inputSchema: objectSchema({
+          conflict_id: { type: 'string' },
+          strategy: { type: 'string', enum: STRATEGIES },
+        }, ['conflict_id']),
+        call: async (args) => {
+          const strategy = optionalString(args, 'strategy') as
+            | ConflictResolutionStrategy
+            | undefined;
+          if (strategy && !STRATEGIES.includes(strategy)) {
+            throw new Error(`Unknown strategy: ${strategy}`);
+          }
+          const result = await om.conflicts.resolve(requireString(args, 'conflict_id'), strategy);
+          const status = result.resolved ? 'Resolved' : 'Not resolved';
+          return {
+            content: [{ type: 'text', text: `${status}: ${result.action}` }],
+            structuredContent: result,
+          };
+        },
+      },
+      {
+        name: 'skill_preferences',
+        description: 'Get the user preferences bound to a skill, as parameter → value pairs.',
+        inputSchema: objectSchema({
+          skill_id: { type: 'string' },
+        }, ['skill_id']),
+        call: async (args) => {
+          const preferences = await om.skills.getPreferencesForExecution(
+            requireString(args, 'skill_id'),
+          );
+          const lines = Object.entries(preferences).map(([key, value]) => `- ${key}: ${value}`);
+          return {
+            content: [{ type: 'text', text: lines.join('\n') || 'No bound preferences.' }],
+            structuredContent: { preferences },
+          };
+        },
+      },
+    ];
+  }
+
+  // ========== Resources ==========
+
+  private buildResources(): ResourceDefinition[] {
+    const om = this.om;
+
+    return [
+      {
+        uri: 'memory://MEMORY.md',
+        name: 'MEMORY.md',
+        description: 'High-confidence active memory, grouped by type',
+        mimeType: 'text/markdown',
+        read: () => om.generateMemoryMd(),
+      },
+      {
+        uri: 'memory://stats',
+        name: 'Memory statistics',
+        description: 'Clause counts, confidence and conflict totals',
+        mimeType: 'application/json',
+        read: async () => JSON.stringify(await om.getStats(), null, 2),
+      },
+      {
+        uri: 'memory://conflicts',
+        name: 'Pending conflicts',
+        description: 'Contradictions waiting for resolution',
+        mimeType: 'application/json',
+        read: async () => JSON.stringify(await om.conflicts.list(), null, 2),
+      },
+    ];
+  }
+}
+
+// ========== Helpers ==========
+
+function objectSchema(
+  properties: Record<string, unknown>,
+  required: string[],
+): Record<string, unknown> {
+  return { type: 'object', properties, required };
+}
+
+function text(value: string): ToolResult {
+  return { content: [{ type: 'text', text: value }] };
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${key} is required`);
+  }
+  return value;
+}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalNumber(args: Record<string, unknown>, key: string): number | undefined {
+  const value = args[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
@@ -6,6 +6,14 @@
 import { v7 as uuidv7 } from 'uuid';
 import type { DatabaseManager } from '../core/database.js';
 import type { ClauseStore } from '../core/clauses.js';
+import { EventBus } from '../core/events.js';
+import {
+  SHARED_NAMESPACE,
+  buildNamespaceFilter,
+  namespaceScope,
+  type NamespaceScope,
+} from '../core/namespaces.js';
+import { PredicateRegistry } from '../core/predicates.js';
 import type {
   Clause,
   ClauseInput,
@@ -17,6 +25,7 @@ import type {
 
 interface BindingRow {
   id: string;
+  namespace: string;
   skill_id: string;
   parameter_name: string;
   clause_id: string;
@@ -26,12 +35,36 @@ interface BindingRow {
 export class SkillBindings {
   private db: DatabaseManager;
   private clauseStore: ClauseStore;
+  private events: EventBus = new EventBus();
+  private predicates: PredicateRegistry = new PredicateRegistry();
+  private scope: NamespaceScope = namespaceScope();
 
   constructor(db: DatabaseManager, clauseStore: ClauseStore) {
     this.db = db;
     this.clauseStore = clauseStore;
   }
 
+  /**
+   * Set the event bus used to publish binding events
+   */
+  setEventBus(events: EventBus): void {
+    this.events = events;
+  }
+
+  /**
+   * Set the predicate registry used to match parameters to preferences
+   */
+  setPredicateRegistry(predicates: PredicateRegistry): void {
+    this.predicates = predicates;
+  }
+
+  /**
+   * Set the namespace bindings are written to and resolved from
+   */
+  setNamespace(scope: NamespaceScope): void {
+    this.scope = scope;
+  }
+
   /**
    * Handle skill installation - ingest capability claims
    */
@@ -42,9 +75,10 @@ export class SkillBindings {
     let claimsCreated = 0;
     const bindings: SkillPreferenceBinding[] = [];
 
-    // Create source for skill claims
+    // Create source for skill claims; skills are installed for every namespace
     const sourceId = await this.clauseStore.createSource({
       type: 'manual',
+      namespace: SHARED_NAMESPACE,
       content: JSON.stringify(metadata),
       channel: `skill:${skillId}`,
       metadata: {
@@ -95,8 +129,20 @@ export class SkillBindings {
     // Remove from skill_capabilities table
     this.db.run('DELETE FROM skill_capabilities WHERE skill_id = ?', [skillId]);
 
-    // Remove preference bindings
+    // Remove preference bindings in every namespace, since the skill is gone for all of them
+    const bound = this.db.all<{ parameter_name: string }>(
+      'SELECT parameter_name FROM skill_preference_bindings WHERE skill_id = ?',
+      [skillId],
+    );
     this.db.run('DELETE FROM skill_preference_bindings WHERE skill_id = ?', [skillId]);
+
+    if (bound.length > 0) {
+      this.events.emit({
+        type: 'skill_unbound',
+        skillId,
+        parameterNames: bound.map((b) => b.parameter_name),
+      });
+    }
   }
 
   /**
@@ -151,7 +197,7 @@ export class SkillBindings {
       const matchingClause = await this.findMatchingPreference(param);
 
       if (matchingClause) {
-        const binding = await this.bindPreference(
+        const binding = await this.insertBinding(
           skillId,
           param.name,
           matchingClause.id
@@ -162,6 +208,10 @@ export class SkillBindings {
       }
     }
 
+    if (bindings.length > 0) {
+      this.events.emit({ type: 'skill_bound', skillId, bindings });
+    }
+
     return bindings;
   }
 
@@ -173,56 +223,55 @@ export class SkillBindings {
     parameterName: string,
     clauseId: string
   ): Promise<SkillPreferenceBinding | null> {
-    // Verify clause exists and is valid
-    const clause = await this.clauseStore.get(clauseId);
-    if (!clause || clause.valid_to !== null) {
-      return null;
+    const binding = await this.insertBinding(skillId, parameterName, clauseId);
+    if (binding) {
+      this.events.emit({ type: 'skill_bound', skillId, bindings: [binding] });
     }
-
-    const id = uuidv7();
-    const now = new Date().toISOString();
-
-    // Upsert binding
-    this.db.run(
-      `INSERT OR REPLACE INTO skill_preference_bindings (id, skill_id, parameter_name, clause_id, bound_at)
-       VALUES (?, ?, ?, ?, ?)`,
-      [id, skillId, parameterName, clauseId, now]
-    );
-
-    return {
-      id,
-      skill_id: skillId,
-      parameter_name: parameterName,
-      clause_id: clauseId,
-      bound_at: now,
-    };
+    return binding;
   }
 
   /**
-   * Unbind a preference from a skill parameter
+   * Unbind a preference from a skill parameter in this namespace
    */
   async unbindPreference(skillId: string, parameterName: string): Promise<void> {
-    this.db.run(
-      'DELETE FROM skill_preference_bindings WHERE skill_id = ? AND parameter_name = ?',
-      [skillId, parameterName]
+    const result = this.db.run(
+      `DELETE FROM skill_preference_bindings
+       WHERE namespace = ? AND skill_id = ? AND parameter_name = ?`,
+      [this.scope.namespace, skillId, parameterName],
     );
+
+    if (result.changes > 0) {
+      this.events.emit({ type: 'skill_unbound', skillId, parameterNames: [parameterName] });
+    }
   }
 
   /**
    * Get all preference bindings for a skill
+   * When a parameter is bound in several visible namespaces, the most specific one wins
    */
   async getBindings(skillId: string): Promise<SkillPreferenceBinding[]> {
+    const namespace = buildNamespaceFilter(this.scope, 'b');
     const rows = this.db.all<BindingRow>(
-      'SELECT * FROM skill_preference_bindings WHERE skill_id = ?',
-      [skillId]
+      `SELECT * FROM skill_preference_bindings b WHERE b.skill_id = ?${namespace.sql}`,
+      [skillId, ...namespace.params],
     );
 
-    return rows.map((row) => ({
+    const rank = (row: BindingRow) => this.scope.visible.indexOf(row.namespace);
+    const byParameter = new Map<string, BindingRow>();
+    for (const row of rows) {
+      const current = byParameter.get(row.parameter_name);
+      if (!current || rank(row) < rank(current)) {
+        byParameter.set(row.parameter_name, row);
+      }
+    }
+
+    return [...byParameter.values()].map((row) => ({
       id: row.id,
       skill_id: row.skill_id,
       parameter_name: row.parameter_name,
       clause_id: row.clause_id,
       bound_at: row.bound_at,
+      namespace: row.namespace,
     }));
   }
 
@@ -251,8 +300,10 @@ export class SkillBindings {
    * Get all skills that have memory bindings
    */
   async getSkillsWithBindings(): Promise<string[]> {
+    const namespace = buildNamespaceFilter(this.scope, 'b');
     const rows = this.db.all<{ skill_id: string }>(
-      'SELECT DISTINCT skill_id FROM skill_preference_bindings'
+      `SELECT DISTINCT b.skill_id FROM skill_preference_bindings b WHERE 1 = 1${namespace.sql}`,
+      namespace.params,
     );
     return rows.map((r) => r.skill_id);
   }
@@ -282,6 +333,43 @@ export class SkillBindings {
 
   // ========== Private Methods ==========
 
+  /**
+   * Verify the clause and upsert the binding row
+   */
+  private async insertBinding(
+    skillId: string,
+    parameterName: string,
+    clauseId: string,
+  ): Promise<SkillPreferenceBinding | null> {
+    // Verify clause exists and is valid
+    const clause = await this.clauseStore.get(clauseId);
+    if (!clause || clause.valid_to !== null) {
+      return null;
+    }
+
+    const id = uuidv7();
+    const now = new Date().toISOString();
+
+    const namespace = this.scope.namespace;
+
+    // Upsert binding; each namespace has its own binding per parameter
+    this.db.run(
+      `INSERT OR REPLACE INTO skill_preference_bindings
+         (id, namespace, skill_id, parameter_name, clause_id, bound_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, namespace, skillId, parameterName, clauseId, now],
+    );
+
+    return {
+      id,
+      skill_id: skillId,
+      parameter_name: parameterName,
+      clause_id: clauseId,
+      bound_at: now,
+      namespace,
+    };
+  }
+
   /**
    * Create a capability claim for a skill
    */
@@ -307,6 +395,7 @@ export class SkillBindings {
       },
       source_id: sourceId,
       extraction_method: 'skill_registration',
+      namespace: SHARED_NAMESPACE,
     };
 
     const result = await this.clauseStore.processNewClause(input);
@@ -330,34 +419,27 @@ export class SkillBindings {
   private async findMatchingPreference(
     param: SkillParameter
   ): Promise<Clause | null> {
-    // Map parameter names to likely predicates
-    const predicateMap: Record<string, string[]> = {
-      preferred_airline: ['prefers_airline', 'likes_airline', 'preferred_airline'],
-      seat_preference: ['prefers_seat_type', 'seat_preference', 'prefers_seat'],
-      preferred_language: ['prefers_language', 'preferred_language', 'speaks_language'],
-      timezone: ['timezone', 'in_timezone', 'preferred_timezone'],
-      currency: ['preferred_currency', 'uses_currency', 'currency'],
-    };
-
-    const predicatesToTry = predicateMap[param.name] ?? [
-      param.name,
-      `prefers_${param.name}`,
-      `preferred_${param.name}`,
+    // Parameter names map onto predicates through the registry's synonyms
+    const candidates = [param.name, `prefers_${param.name}`, `preferred_${param.name}`];
+    const predicatesToTry = [
+      ...new Set(candidates.flatMap((name) => this.predicates.variants(name))),
     ];
 
-    for (const predicate of predicatesToTry) {
-      const clauses = await this.clauseStore.search('', {
-        types: ['preference'],
-        minConfidence: 0.5,
-        limit: 1,
-      });
+    const namespace = buildNamespaceFilter(this.scope);
+    const match = this.db.get<{ id: string }>(
+      `SELECT c.id FROM clauses c
+       WHERE c.subject = 'user'
+         AND c.type = 'preference'
+         AND c.predicate IN (${predicatesToTry.map(() => '?').join(',')})
+         AND c.valid_to IS NULL
+         AND c.confidence >= 0.5${namespace.sql}
+       ORDER BY c.confidence DESC, c.recorded_at DESC
+       LIMIT 1`,
+      [...predicatesToTry, ...namespace.params],
+    );
 
-      // Look through clauses for matching predicate
-      for (const clause of clauses) {
-        if (clause.predicate === predicate && clause.subject === 'user') {
-          return clause;
-        }
-      }
+    if (match) {
+      return this.clauseStore.get(match.id);
     }
 
     // Also try a text search
@@ -24,48 +24,17 @@ interface PerformanceRow {
 export class PerformanceTracker {
   private db: DatabaseManager;
   private clauseStore: ClauseStore;
-  private tableInitialized = false;
 
   constructor(db: DatabaseManager, clauseStore: ClauseStore) {
     this.db = db;
     this.clauseStore = clauseStore;
   }
 
-  /**
-   * Ensure the skill_performance table exists (called lazily)
-   */
-  private ensureTable(): void {
-    if (this.tableInitialized) return;
-
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS skill_performance (
-        skill_id TEXT NOT NULL,
-        task_category TEXT NOT NULL,
-        success_count INTEGER NOT NULL DEFAULT 0,
-        failure_count INTEGER NOT NULL DEFAULT 0,
-        avg_execution_time_ms REAL NOT NULL DEFAULT 0,
-        last_used TEXT NOT NULL DEFAULT (datetime('now')),
-        PRIMARY KEY (skill_id, task_category)
-      )
-    `);
-
-    this.db.run(`
-      CREATE INDEX IF NOT EXISTS idx_skill_performance_skill ON skill_performance(skill_id)
-    `);
-
-    this.db.run(`
-      CREATE INDEX IF NOT EXISTS idx_skill_performance_category ON skill_performance(task_category)
-    `);
-
-    this.tableInitialized = true;
-  }
-
   /**
    * Record the outcome of a skill execution
    * Implements learning loop: reinforces on success, decays on failure
    */
   async recordOutcome(skillId: string, outcome: SkillOutcome): Promise<void> {
-    this.ensureTable();
     const taskCategory = outcome.taskCategory ?? 'general';
     const now = new Date().toISOString();
 
@@ -266,7 +235,6 @@ export class PerformanceTracker {
       return candidates[0];
     }
 
-    this.ensureTable();
     const taskCategory = await this.categorizeTask(task);
     const scores: Map<string, number> = new Map();
 
@@ -335,7 +303,6 @@ export class PerformanceTracker {
    * Get performance stats for a skill or all skills
    */
   async getPerformance(skillId?: string): Promise<SkillPerformance[]> {
-    this.ensureTable();
     let sql = 'SELECT * FROM skill_performance';
     const params: unknown[] = [];
 
@@ -362,7 +329,6 @@ export class PerformanceTracker {
    * Get success rate for a skill in a category
    */
   async getSuccessRate(skillId: string, taskCategory?: string): Promise<number> {
-    this.ensureTable();
     let sql = 'SELECT SUM(success_count) as successes, SUM(failure_count) as failures FROM skill_performance WHERE skill_id = ?';
     const params: unknown[] = [skillId];
 
@@ -384,7 +350,6 @@ export class PerformanceTracker {
    * Get top performing skills for a category
    */
   async getTopSkills(taskCategory: string, limit: number = 5): Promise<string[]> {
-    this.ensureTable();
     const rows = this.db.all<{ skill_id: string; success_rate: number }>(
       `SELECT skill_id,
               CAST(success_count AS REAL) / (success_count + failure_count) as success_rate
@@ -403,7 +368,6 @@ export class PerformanceTracker {
    * Clear performance data for a skill
    */
   async clearPerformance(skillId: string): Promise<void> {
-    this.ensureTable();
     this.db.run('DELETE FROM skill_performance WHERE skill_id = ?', [skillId]);
 
     // Also invalidate performance clauses
@@ -0,0 +1,180 @@
+/**
+ * ANN index tests
+ * sqlite-vec is made unavailable so the manager falls back to BLOB storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HnswIndex } from '../src/core/ann.js';
+import { OMLite } from '../src/index.js';
+import { isEncryptedFile } from '../src/core/encryption.js';
+import { existsSync, unlinkSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+vi.mock('sqlite-vec', () => ({
+  load: () => {
+    throw new Error('sqlite-vec unavailable');
+  },
+}));
+
+// Deterministic vectors scattered around a few cluster centres
+function clusteredVectors(count: number, dimensions: number, seed = 1): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  const centres = Array.from({ length: 8 }, () =>
+    Array.from({ length: dimensions }, () => random() * 2 - 1));
+  return Array.from({ length: count }, (_, i) =>
+    centres[i % centres.length].map((c) => c + (random() - 0.5) * 0.8));
+}
+
+function exactTop(vectors: number[][], query: number[], k: number): number[] {
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return vectors
+    .map((v, i) => ({ i, s: v.reduce((sum, x, d) => sum + x * query[d], 0) / norm(v) }))
+    .sort((a, b) => b.s - a.s)
+    .slice(0, k)
+    .map((r) => r.i);
+}
+
+describe('HnswIndex', () => {
+  const vectors = clusteredVectors(1500, 16);
+  const build = () => {
+    const index = new HnswIndex(16, { m: 8, efConstruction: 100 });
+    vectors.forEach((v, i) => index.add(`c${i}`, v));
+    return index;
+  };
+
+  it('should find nearly all exact nearest neighbours', () => {
+    const index = build();
+    let found = 0;
+    const queries = clusteredVectors(20, 16, 7);
+
+    for (const query of queries) {
+      const expected = new Set(exactTop(vectors, query, 10).map((i) => `c${i}`));
+      found += index.search(query, 10).filter((r) => expected.has(r.id)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('should replace and remove vectors', () => {
+    const index = build();
+    index.add('c0', vectors[1]);
+    index.remove('c1');
+
+    expect(index.size).toBe(1499);
+    expect(index.deleted).toBe(2);
+    const [best] = index.search(vectors[1], 1);
+    expect(best.id).toBe('c0');
+    expect(best.similarity).toBeCloseTo(1, 5);
+
+    index.compact();
+    expect(index.deleted).toBe(0);
+    expect(index.search(vectors[1], 1)[0].id).toBe('c0');
+  });
+
+  it('should round-trip through serialize()', () => {
+    const index = build();
+    index.remove('c5');
+    const restored = HnswIndex.deserialize(index.serialize());
+
+    expect(restored.size).toBe(index.size);
+    expect(restored.has('c5')).toBe(false);
+    expect(restored.search(vectors[42], 5)).toEqual(index.search(vectors[42], 5));
+    expect(() => HnswIndex.deserialize(Buffer.alloc(40))).toThrow(/Not an HNSW index/);
+  });
+});
+
+describe('EmbeddingManager ANN fallback', () => {
+  const testDir = join(tmpdir(), 'om-lite-test');
+  let dbPath: string;
+  let om: OMLite | null;
+
+  const open = async () => {
+    om = new OMLite({ dbPath, embedding: { provider: 'local', ann: { minSize: 1 } } });
+    await om.init();
+    return om;
+  };
+
+  const remember = (memory: OMLite, object: string) =>
+    memory.remember({
+      type: 'preference',
+      subject: 'user',
+      predicate: `likes_${object.replace(/ /g, '_')}`,
+      object,
+      natural_form: `User likes ${object}`,
+    });
+
+  const files = () => readdirSync(testDir).filter((f) => f.startsWith(`${dbPath.split('/').pop()}-`));
+
+  beforeEach(() => {
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    dbPath = join(testDir, `ann-test-${Date.now()}.db`);
+    om = null;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await om?.close();
+    for (const file of files()) unlinkSync(join(testDir, file));
+    if (existsSync(dbPath)) unlinkSync(dbPath);
+    vi.restoreAllMocks();
+  });
+
+  it('should persist the graph and catch up with writes made while unloaded', async () => {
+    let memory = await open();
+    expect((await memory.embeddings.getStats()).sqliteVecAvailable).toBe(false);
+    const { clause: tea } = await remember(memory, 'green tea');
+    await remember(memory, 'aisle seats');
+
+    expect((await memory.embeddings.findSimilar('green tea', { minSimilarity: 0.6 }))[0].clauseId)
+      .toBe(tea!.id);
+    expect(files().some((f) => f.endsWith('.hnsw'))).toBe(true);
+    await memory.close();
+
+    // Written without searching, so the saved graph is not loaded
+    memory = await open();
+    const { clause: coffee } = await remember(memory, 'black coffee');
+    await memory.invalidateClause(tea!.id, 'changed');
+    await memory.close();
+
+    memory = await open();
+    const ids = (await memory.embeddings.findSimilar('coffee tea', { minSimilarity: 0 }))
+      .map((r) => r.clauseId);
+    expect(ids).toContain(coffee!.id);
+    expect(ids).not.toContain(tea!.id);
+    expect(console.warn).not.toHaveBeenCalledWith(
+      expect.stringMatching(/unreadable ANN index/),
+      expect.anything(),
+    );
+
+    expect(await memory.embeddings.rebuildAnn()).toMatchObject({ size: 2 });
+  });
+
+  it('should seal the saved graph with the encryption key', async () => {
+    let memory = await open();
+    memory['embeddingManager'].setEncryptionKey('secret');
+    await remember(memory, 'green tea');
+    await memory.embeddings.findSimilar('green tea');
+    const graph = join(testDir, files().find((f) => f.endsWith('.hnsw'))!);
+    expect(isEncryptedFile(graph)).toBe(true);
+    expect(readFileSync(graph).toString('latin1')).not.toMatch(/[0-9a-f]{8}-[0-9a-f]{4}-/);
+    await memory.close();
+
+    memory = await open();
+    memory['embeddingManager'].setEncryptionKey('secret');
+    expect(await memory.embeddings.findSimilar('green tea')).toHaveLength(1);
+    expect(console.warn).not.toHaveBeenCalledWith(
+      expect.stringMatching(/unreadable ANN index/),
+      expect.anything(),
+    );
+
+    expect(memory['embeddingManager'].rekeyAnn(null)).toEqual({ rekeyed: 1, failed: [] });
+    expect(isEncryptedFile(graph)).toBe(false);
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Embedding provider and index versioning tests
+ * Models are replaced by a fake extractor and a fake OpenAI-compatible server
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import {
+  EmbeddingManager,
+  LocalEmbeddingProvider,
+  TransformersEmbeddingProvider,
+  loadEmbeddingConfig,
+  type EmbeddingConfig,
+  type FeatureExtractor,
+} from '../src/core/embeddings.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { OMLite } from '../src/index.js';
+import { existsSync, unlinkSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function fakeExtractor(dimensions: number, calls: string[][]): FeatureExtractor {
+  return async (texts) => {
+    calls.push([...texts]);
+    return { tolist: () => texts.map((t) => new Array<number>(dimensions).fill(t.length)) };
+  };
+}
+
+describe('TransformersEmbeddingProvider', () => {
+  const testDir = join(tmpdir(), 'om-lite-test');
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should split inputs into batches and cache results', async () => {
+    const calls: string[][] = [];
+    const provider = new TransformersEmbeddingProvider(
+      { modelPath: '/nonexistent', dimensions: 4, batchSize: 2 },
+      async () => fakeExtractor(4, calls),
+    );
+
+    const vectors = await provider.embedBatch(['a', 'bb', 'a', 'ccc', 'dddd']);
+    expect(vectors.map((v) => v[0])).toEqual([1, 2, 1, 3, 4]);
+    expect(calls).toEqual([['a', 'bb'], ['ccc', 'dddd']]);
+
+    await provider.embed('bb');
+    await provider.embedBatch(['ccc', 'eeeee']);
+    expect(calls).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+  });
+
+  it('should evict the least recently used embeddings', async () => {
+    const calls: string[][] = [];
+    const provider = new TransformersEmbeddingProvider(
+      { modelPath: '/nonexistent', dimensions: 2, cacheSize: 2 },
+      async () => fakeExtractor(2, calls),
+    );
+
+    await provider.embed('one');
+    await provider.embed('two');
+    await provider.embed('one');
+    await provider.embed('three');
+    calls.length = 0;
+
+    await provider.embedBatch(['one', 'three', 'two']);
+    expect(calls).toEqual([['two']]);
+  });
+
+  it('should read dimensions from the model config and reject mismatches', async () => {
+    const modelPath = join(testDir, `model-${Date.now()}`);
+    mkdirSync(modelPath, { recursive: true });
+    writeFileSync(join(modelPath, 'config.json'), JSON.stringify({ hidden_size: 768 }));
+
+    try {
+      const provider = new TransformersEmbeddingProvider(
+        { modelPath },
+        async () => fakeExtractor(384, []),
+      );
+      expect(provider.dimensions).toBe(768);
+      await expect(provider.embed('text')).rejects.toThrow(/384 dimensions, expected 768/);
+    } finally {
+      rmSync(modelPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should fall back to local embeddings when the model is missing', async () => {
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    const dbPath = join(testDir, `embeddings-test-${Date.now()}.db`);
+    const db = new DatabaseManager(dbPath);
+    await db.init();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const manager = new EmbeddingManager(db, {
+        provider: 'transformers',
+        modelPath: join(testDir, 'no-such-model'),
+      });
+      expect(manager.getProvider().name).toBe('transformers');
+
+      await manager.init();
+      expect(manager.getProvider().name).toBe('local');
+      expect(warn.mock.calls.some((c) => String(c[0]).includes('no model found'))).toBe(true);
+    } finally {
+      await db.close();
+      for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+        if (existsSync(path)) unlinkSync(path);
+      }
+    }
+  });
+});
+
+describe('loadEmbeddingConfig', () => {
+  it('should read memory.om_lite.embedding from the config file', () => {
+    const file = join(tmpdir(), `om-lite-embedding-config-${Date.now()}.yaml`);
+    writeFileSync(file, [
+      'memory:',
+      '  om_lite:',
+      '    embedding:',
+      '      provider: ollama',
+      '      model: mxbai-embed-large',
+      '      base_url: http://gpu-box:11434',
+      '      timeout_ms: 60000',
+    ].join('\n'));
+
+    try {
+      expect(loadEmbeddingConfig(file)).toMatchObject({
+        provider: 'ollama',
+        model: 'mxbai-embed-large',
+        baseUrl: 'http://gpu-box:11434',
+        timeoutMs: 60000,
+      });
+      expect(loadEmbeddingConfig('/nonexistent/config.yaml')).toBeUndefined();
+    } finally {
+      unlinkSync(file);
+    }
+  });
+});
+
+describe('EmbeddingManager model versioning', () => {
+  const testDir = join(tmpdir(), 'om-lite-test');
+  let server: Server;
+  let remote: EmbeddingConfig;
+  let dbPath: string;
+  let om: OMLite | null;
+
+  const open = async (embedding: EmbeddingConfig) => {
+    om = new OMLite({ dbPath, embedding });
+    await om.init();
+    return om;
+  };
+
+  const remember = (memory: OMLite, object: string) =>
+    memory.remember({
+      type: 'preference',
+      subject: 'user',
+      predicate: `likes_${object}`,
+      object,
+      natural_form: `User likes ${object}`,
+    });
+
+  beforeEach(async () => {
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    dbPath = join(testDir, `versioning-test-${Date.now()}.db`);
+    om = null;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    // Three-dimensional "model": text length, vowel count and a constant
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString('utf-8')));
+      req.on('end', () => {
+        const { input } = JSON.parse(body) as { input: string[] };
+        const data = input.map((text, index) => ({
+          index,
+          embedding: [text.length, (text.match(/[aeiou]/g) ?? []).length, 1],
+        }));
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ data }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : 0;
+    remote = {
+      provider: 'openai-compatible',
+      baseUrl: `http://127.0.0.1:${port}/v1`,
+      model: 'fake-embed',
+      dimensions: 3,
+    };
+  });
+
+  afterEach(async () => {
+    await om?.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+    vi.restoreAllMocks();
+  });
+
+  it('should keep searching the old index until a resumable reindex completes', async () => {
+    let memory = await open({ provider: 'local' });
+    for (const object of ['aisle seats', 'window seats', 'green tea']) {
+      await remember(memory, object);
+    }
+    await memory.close();
+
+    memory = await open(remote);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringMatching(/changed from local\/hashed-bow \(384d\) to openai-compatible\/fake-embed/),
+    );
+
+    let status = await memory.embeddings.status();
+    expect(status.active!.provider).toBe('local');
+    expect(status.pending!.model).toBe('fake-embed');
+    expect(status.stale).toBe(3);
+    expect(status.searchable).toBe(true);
+
+    // Still answered from the local index
+    const similar = await memory.embeddings.findSimilar('aisle seats', { minSimilarity: 0.6 });
+    expect(similar).toHaveLength(1);
+
+    // New clauses go into both indexes
+    await remember(memory, 'black coffee');
+    status = await memory.embeddings.status();
+    expect(status.active!.embedded).toBe(4);
+    expect(status.pending!.embedded).toBe(1);
+
+    const controller = new AbortController();
+    const first = await memory.embeddings.reindex({
+      batchSize: 2,
+      signal: controller.signal,
+      onProgress: (p) => {
+        if (p.embedded >= 2) controller.abort();
+      },
+    });
+    expect(first).toMatchObject({ aborted: true, switched: false, embedded: 2 });
+    expect((await memory.embeddings.status()).stale).toBe(1);
+
+    const progress: number[] = [];
+    const second = await memory.embeddings.reindex({ onProgress: (p) => progress.push(p.done) });
+    expect(second).toMatchObject({
+      aborted: false,
+      switched: true,
+      embedded: 1,
+      total: 4,
+      previousModel: 'local/hashed-bow (384d)',
+    });
+    expect(progress[progress.length - 1]).toBe(4);
+
+    status = await memory.embeddings.status();
+    expect(status.active!.model).toBe('fake-embed');
+    expect(status.pending).toBeNull();
+    expect(status.stale).toBe(0);
+    expect(await memory.embeddings.getStats()).toMatchObject({ totalEmbeddings: 4, dimensions: 3 });
+  });
+
+  it('should re-embed only clauses whose text changed', async () => {
+    const memory = await open(remote);
+    const { clause } = await remember(memory, 'aisle seats');
+    await remember(memory, 'green tea');
+    await memory.close();
+
+    // Edited while nothing was listening, e.g. by an older version
+    const db = new DatabaseManager(dbPath);
+    await db.init();
+    db.run('UPDATE clauses SET natural_form = ? WHERE id = ?', [
+      'User strongly prefers aisle seats',
+      clause!.id,
+    ]);
+    await db.close();
+
+    const reopened = await open(remote);
+    expect((await reopened.embeddings.status()).stale).toBe(1);
+
+    const result = await reopened.embeddings.reindex();
+    expect(result).toMatchObject({ embedded: 1, total: 2, switched: false });
+    expect((await reopened.embeddings.status()).stale).toBe(0);
+  });
+});
+
+describe('EmbeddingManager index maintenance', () => {
+  const testDir = join(tmpdir(), 'om-lite-test');
+  let dbPath: string;
+  let om: OMLite;
+
+  beforeEach(async () => {
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    dbPath = join(testDir, `maintenance-test-${Date.now()}.db`);
+    om = new OMLite({ dbPath, embedding: { provider: 'local' } });
+    await om.init();
+  });
+
+  afterEach(async () => {
+    await om.close();
+    vi.restoreAllMocks();
+    for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should embed clauses written outside extract()', async () => {
+    await om.skills.onInstall('flight-search', {
+      name: 'Flight Search',
+      version: '1.0.0',
+      capabilities: [{ predicate: 'can_search', object: 'flights', confidence: 0.9 }],
+    });
+    const [capability] = await om.skills.getCapabilities('flight-search');
+
+    expect(await om.embeddings.getEmbedding(capability.id)).not.toBeNull();
+    expect((await om.embeddings.status()).stale).toBe(0);
+
+    await om.skills.onUninstall('flight-search');
+    expect(await om.embeddings.getEmbedding(capability.id)).toBeNull();
+  });
+
+  it('should follow text changes and drop invalidated clauses', async () => {
+    const { clause } = await om.remember({
+      type: 'preference',
+      subject: 'user',
+      predicate: 'prefers_drink',
+      object: 'tea',
+      natural_form: 'User prefers green tea',
+    });
+    const before = await om.embeddings.getEmbedding(clause!.id);
+
+    await om.updateClause(clause!.id, { natural_form: 'User prefers black coffee in the morning' });
+    const after = await om.embeddings.getEmbedding(clause!.id);
+    expect(after).not.toBeNull();
+    expect(after).not.toEqual(before);
+
+    await om.invalidateClause(clause!.id, 'changed');
+    expect(await om.embeddings.getEmbedding(clause!.id)).toBeNull();
+    expect((await om.embeddings.getStats()).totalEmbeddings).toBe(0);
+  });
+
+  it('should batch queued writes into one provider call', async () => {
+    const embedBatch = vi.spyOn(LocalEmbeddingProvider.prototype, 'embedBatch');
+
+    for (const object of ['aisle seats', 'window seats', 'green tea']) {
+      await om.remember({
+        type: 'preference',
+        subject: 'user',
+        predicate: `likes_${object.replace(' ', '_')}`,
+        object,
+        natural_form: `User likes ${object}`,
+      });
+    }
+    expect(embedBatch).not.toHaveBeenCalled();
+
+    await om.embeddings.flush();
+    expect(embedBatch).toHaveBeenCalledTimes(1);
+    expect(embedBatch.mock.calls[0][0]).toHaveLength(3);
+    expect((await om.embeddings.getStats()).totalEmbeddings).toBe(3);
+  });
+
+  it('should flush without waiting once a full batch is queued', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const embedBatch = vi.spyOn(LocalEmbeddingProvider.prototype, 'embedBatch');
+
+    try {
+      for (let i = 0; i < 64; i++) {
+        await om.remember({
+          type: 'fact',
+          subject: 'user',
+          predicate: `visited_city_${i}`,
+          object: `city ${i}`,
+          natural_form: `User visited city number ${i}`,
+        });
+      }
+      // The delay timer is faked and never fires; only the size threshold flushes
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(embedBatch).toHaveBeenCalledTimes(1);
+      expect(embedBatch.mock.calls[0][0]).toHaveLength(64);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Encryption at rest tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../src/core/database.js';
+import { BackupManager } from '../src/core/backup.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import {
+  SQLCIPHER_PACKAGE,
+  decryptBuffer,
+  encryptBuffer,
+  isEncrypted,
+  isEncryptedFile,
+  isPlaintextDatabase,
+  readFileSealed,
+  resolveEncryptionKey,
+} from '../src/core/encryption.js';
+import { existsSync, unlinkSync, mkdirSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const testDir = join(tmpdir(), 'om-lite-test');
+
+// The cipher build is an optional peer dependency
+const hasCipher = await import(SQLCIPHER_PACKAGE).then(() => true, () => false);
+
+describe('resolveEncryptionKey()', () => {
+  it('should read the key from the environment or a keyfile', () => {
+    mkdirSync(testDir, { recursive: true });
+    const keyFile = join(testDir, `key-${Date.now()}`);
+    writeFileSync(keyFile, '  from-file\n');
+    process.env.OM_LITE_TEST_KEY = 'from-env';
+
+    try {
+      expect(resolveEncryptionKey({ key: 'explicit', keyEnv: 'OM_LITE_TEST_KEY' })).toBe('explicit');
+      expect(resolveEncryptionKey({ keyEnv: 'OM_LITE_TEST_KEY', keyFile })).toBe('from-env');
+      expect(resolveEncryptionKey({ keyEnv: 'OM_LITE_TEST_UNSET', keyFile })).toBe('from-file');
+      expect(resolveEncryptionKey({ keyEnv: 'OM_LITE_TEST_UNSET' })).toBeNull();
+      expect(() => resolveEncryptionKey({ keyEnv: 'OM_LITE_TEST_UNSET', keyFile: `${keyFile}.x` }))
+        .toThrow(/key file not found/);
+    } finally {
+      delete process.env.OM_LITE_TEST_KEY;
+      unlinkSync(keyFile);
+    }
+  });
+});
+
+describe('sealed data', () => {
+  it('should round-trip and reject a wrong key or tampering', () => {
+    const sealed = encryptBuffer(Buffer.from('User prefers aisle seats'), 'secret');
+
+    expect(isEncrypted(sealed)).toBe(true);
+    expect(sealed.toString('latin1')).not.toContain('aisle');
+    expect(decryptBuffer(sealed, 'secret').toString()).toBe('User prefers aisle seats');
+    expect(() => decryptBuffer(sealed, 'wrong')).toThrow(/wrong encryption key/);
+
+    sealed[sealed.length - 1] ^= 1;
+    expect(() => decryptBuffer(sealed, 'secret')).toThrow(/corrupted/);
+  });
+});
+
+describe('encrypted backups and archives', () => {
+  let db: DatabaseManager;
+  let testDbPath: string;
+  let backupDir: string;
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    testDbPath = join(testDir, `encryption-test-${Date.now()}.db`);
+    backupDir = join(testDir, `encryption-backups-${Date.now()}`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+  });
+
+  afterEach(async () => {
+    await db.close();
+    rmSync(backupDir, { recursive: true, force: true });
+    for (const suffix of ['', '-wal', '-shm', '.pre-restore']) {
+      if (existsSync(testDbPath + suffix)) unlinkSync(testDbPath + suffix);
+    }
+  });
+
+  it('should seal backups and restore them with the key', async () => {
+    const backups = new BackupManager(db, { backupDir });
+    backups.setEncryptionKey('secret');
+    db.setMetadata('favourite_seat', 'aisle');
+
+    const result = await backups.backup();
+    expect(result.success).toBe(true);
+    expect(isEncryptedFile(result.path!)).toBe(true);
+    expect(readFileSync(result.path!).toString('latin1')).not.toContain('favourite_seat');
+    expect((await backups.listBackups())[0].encrypted).toBe(true);
+    expect(await backups.validateBackup(result.path!)).toMatchObject({ valid: true });
+
+    db.setMetadata('favourite_seat', 'window');
+    const withoutKey = new BackupManager(db, { backupDir });
+    expect(await withoutKey.restore(result.path!)).toMatchObject({ success: false });
+    expect(db.getMetadata('favourite_seat')).toBe('window');
+
+    expect(await backups.restore(result.path!)).toMatchObject({ success: true });
+    expect(db.getMetadata('favourite_seat')).toBe('aisle');
+    expect(isPlaintextDatabase(testDbPath)).toBe(true);
+  });
+
+  it('should rekey and decrypt existing backups', async () => {
+    const backups = new BackupManager(db, { backupDir });
+    const plain = await backups.backup();
+    backups.setEncryptionKey('old');
+    const sealed = await backups.backup({ type: 'daily' });
+
+    expect(await backups.rekeyBackups('new')).toEqual({ rekeyed: 2, failed: [] });
+    expect(isEncryptedFile(plain.path!)).toBe(true);
+    expect(() => readFileSealed(sealed.path!, 'old')).toThrow(/wrong encryption key/);
+
+    expect(await backups.rekeyBackups(null)).toEqual({ rekeyed: 2, failed: [] });
+    expect(isPlaintextDatabase(plain.path!)).toBe(true);
+    expect(isPlaintextDatabase(sealed.path!)).toBe(true);
+  });
+
+  it('should seal source archives', async () => {
+    const store = new ClauseStore(db);
+    store.setEncryptionKey('secret');
+    const sourceId = await store.createSource({
+      type: 'conversation',
+      content: `I always book aisle seats ${Date.now()}`,
+    });
+    const { file_path: path } = db.get<{ file_path: string }>(
+      'SELECT file_path FROM sources WHERE id = ?',
+      [sourceId],
+    )!;
+
+    try {
+      expect(isEncryptedFile(path)).toBe(true);
+      expect(JSON.parse(readFileSealed(path, 'secret').toString()).content)
+        .toContain('aisle seats');
+
+      expect((await store.rekeyArchives(null)).failed).toEqual([]);
+      expect(JSON.parse(readFileSync(path, 'utf-8')).content).toContain('aisle seats');
+    } finally {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should refuse a plaintext database when a key is configured', async () => {
+    await db.close();
+    db = new DatabaseManager(testDbPath, { encryptionKey: 'secret' });
+    await expect(db.init()).rejects.toThrow(/not encrypted.*run om-lite db rekey/);
+
+    // rekey opens it anyway, in order to encrypt it
+    db = new DatabaseManager(testDbPath, { encryptionKey: 'secret', allowPlaintext: true });
+    await db.init();
+    expect(db.isEncrypted()).toBe(false);
+  });
+});
+
+describe.skipIf(!hasCipher)('SQLCipher database', () => {
+  let db: DatabaseManager;
+  let testDbPath: string;
+
+  const reopen = async (encryptionKey: string | null) => {
+    await db.close();
+    db = new DatabaseManager(testDbPath, { encryptionKey });
+    await db.init();
+  };
+
+  beforeEach(async () => {
+    mkdirSync(testDir, { recursive: true });
+    testDbPath = join(testDir, `cipher-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    db.setMetadata('favourite_seat', 'aisle');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const suffix of ['', '-wal', '-shm', '.restoring']) {
+      if (existsSync(testDbPath + suffix)) unlinkSync(testDbPath + suffix);
+    }
+  });
+
+  it('should encrypt a plaintext database and change its key', async () => {
+    await db.close();
+    db = new DatabaseManager(testDbPath, { encryptionKey: 'old', allowPlaintext: true });
+    await db.init();
+    await db.rekey('old');
+
+    expect(db.isEncrypted()).toBe(true);
+    expect(isPlaintextDatabase(testDbPath)).toBe(false);
+    expect(readFileSync(testDbPath).toString('latin1')).not.toContain('favourite_seat');
+
+    await reopen('old');
+    expect(db.getMetadata('favourite_seat')).toBe('aisle');
+    await expect(reopen('wrong')).rejects.toThrow(/wrong encryption key/);
+    await expect(reopen(null)).rejects.toThrow(/if it is encrypted, set the encryption key/);
+
+    await reopen('old');
+    await db.rekey('new');
+    await reopen('new');
+    expect(db.getMetadata('favourite_seat')).toBe('aisle');
+
+    await db.rekey(null);
+    expect(isPlaintextDatabase(testDbPath)).toBe(true);
+    await reopen(null);
+    expect(db.getMetadata('favourite_seat')).toBe('aisle');
+  });
+
+  it('should keep a restored database encrypted', async () => {
+    await db.close();
+    db = new DatabaseManager(testDbPath, { encryptionKey: 'secret', allowPlaintext: true });
+    await db.init();
+    await db.rekey('secret');
+    const snapshot = db.serialize();
+    db.setMetadata('favourite_seat', 'window');
+
+    await db.replaceWith(snapshot);
+
+    expect(db.isEncrypted()).toBe(true);
+    expect(isPlaintextDatabase(testDbPath)).toBe(false);
+    expect(existsSync(`${testDbPath}.restoring`)).toBe(false);
+    expect(db.getMetadata('favourite_seat')).toBe('aisle');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Entity table and resolution tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EntityResolver } from '../src/core/entities.js';
+import { Normalizer } from '../src/core/normalization.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { ChangeJournal } from '../src/core/journal.js';
+import { DatabaseManager } from '../src/core/database.js';
+import type { ClauseType } from '../src/core/types.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('EntityResolver', () => {
+  let db: DatabaseManager;
+  let resolver: EntityResolver;
+  let store: ClauseStore;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `entities-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+
+    resolver = new EntityResolver(db);
+    const normalizer = new Normalizer(db);
+    normalizer.setEntityResolver(resolver);
+    store = new ClauseStore(db);
+    store.setNormalizer(normalizer);
+    store.setEntityResolver(resolver);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  const claim = (subject: string, predicate: string, object: string, type: ClauseType = 'fact') =>
+    store.processNewClause({
+      type,
+      subject,
+      predicate,
+      object,
+      natural_form: `${subject} ${predicate} ${object}`,
+      source_id: 'test',
+    });
+
+  it('should create entities for typed IDs and learn names', async () => {
+    await claim('airline:united', 'full_name', 'United Airlines');
+    await claim('airline:united', 'member_of', 'alliance:star_alliance', 'relationship');
+
+    const united = resolver.get('airline:united');
+    expect(united).toMatchObject({ type: 'airline', canonical_name: 'United' });
+    expect(united!.aliases).toContain('United Airlines');
+    expect(resolver.get('alliance:star_alliance')?.canonical_name).toBe('Star Alliance');
+
+    // Canonical name, alias and ID all resolve to the same entity
+    expect(resolver.resolve('united')?.id).toBe('airline:united');
+    expect(resolver.resolve('United Airlines')?.id).toBe('airline:united');
+  });
+
+  it('should resolve names to entity IDs at ingestion', async () => {
+    await claim('airline:united', 'full_name', 'United Airlines');
+    const result = await claim('United Airlines', 'hub', 'Chicago O\'Hare');
+
+    expect(result.clause!.subject).toBe('airline:united');
+    expect(resolver.getClauseIds('airline:united')).toHaveLength(2);
+
+    const linked = await store.search('', { entity: 'airline:united' });
+    expect(linked).toHaveLength(2);
+  });
+
+  it('should merge entities and rewrite clause references', async () => {
+    const a = await claim('org:acme', 'industry', 'widgets');
+    const b = await claim('org:acme_corp', 'headquarters', 'Springfield');
+    resolver.setAttributes('org:acme_corp', { founded: 1999 });
+
+    const result = resolver.merge('org:acme_corp', 'org:acme');
+    expect(result).toMatchObject({ source: 'org:acme_corp', target: 'org:acme', clausesRelinked: 1 });
+
+    expect((await store.get(b.clause!.id))!.subject).toBe('org:acme');
+    expect((await store.get(a.clause!.id))!.subject).toBe('org:acme');
+    expect(resolver.resolve('org:acme_corp')?.id).toBe('org:acme');
+    expect(resolver.resolve('Acme Corp')?.id).toBe('org:acme');
+    expect(resolver.get('org:acme')!.attributes).toEqual({ founded: 1999 });
+
+    const [revision] = new ChangeJournal(db).getClauseHistory(b.clause!.id).slice(-1);
+    expect(revision.actor).toBe('entity_resolver');
+    expect(revision.reason).toBe('entity_merged:org:acme_corp');
+
+    // New clauses about the old ID land on the merged entity
+    const later = await claim('org:acme_corp', 'ceo', 'Jane');
+    expect(later.clause!.subject).toBe('org:acme');
+  });
+
+  it('should restore a merged entity on split', async () => {
+    const b = await claim('org:acme_corp', 'headquarters', 'Springfield');
+    await claim('org:acme', 'industry', 'widgets');
+    resolver.merge('org:acme_corp', 'org:acme');
+
+    const result = resolver.split('org:acme', { aliases: [], id: 'org:acme_corp' });
+    expect(result.created.merged_into).toBeNull();
+    expect(result.clausesRelinked).toBe(1);
+    expect((await store.get(b.clause!.id))!.subject).toBe('org:acme_corp');
+    expect(resolver.getClauseIds('org:acme')).toHaveLength(1);
+  });
+
+  it('should split clauses by the alias they used', async () => {
+    resolver.create({ id: 'person:alex', type: 'person', canonical_name: 'Alex', aliases: ['Alex Jr'] });
+    const senior = await claim('Alex', 'occupation', 'teacher');
+    const junior = await claim('Alex Jr', 'occupation', 'student');
+    expect(junior.clause!.subject).toBe('person:alex');
+
+    const result = resolver.split('person:alex', { aliases: ['Alex Jr'], name: 'Alex Junior' });
+    expect(result.created.id).toBe('person:alex_junior');
+    expect(result.aliasesMoved).toBe(1);
+
+    expect((await store.get(junior.clause!.id))!.subject).toBe('person:alex_junior');
+    expect((await store.get(senior.clause!.id))!.subject).toBe('person:alex');
+    expect(resolver.resolve('Alex Jr')?.id).toBe('person:alex_junior');
+  });
+
+  it('should link clauses stored before entities existed', async () => {
+    const plain = new ClauseStore(db);
+    await plain.create({
+      type: 'fact',
+      subject: 'airport:JFK',
+      predicate: 'located_in',
+      object: 'New York',
+      natural_form: 'JFK is in New York',
+    });
+    expect(resolver.get('airport:JFK')).toBeNull();
+
+    expect(resolver.linkAll()).toBe(1);
+    expect(resolver.get('airport:JFK')?.canonical_name).toBe('JFK');
+  });
+
+  it('should reject invalid merges', async () => {
+    await claim('org:acme', 'industry', 'widgets');
+    expect(() => resolver.merge('org:acme', 'Acme')).toThrow(/itself/);
+    expect(() => resolver.merge('org:missing', 'org:acme')).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Evaluation harness tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffEvalReports,
+  loadEvalSuite,
+  parseEvalSuite,
+  runEvalSuite,
+  scoreRanking,
+  type EvalReport,
+} from '../src/eval/harness.js';
+import type { Clause } from '../src/core/types.js';
+import { mkdirSync, writeFileSync, existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function clause(id: string, subject: string, predicate: string, object: string): Clause {
+  return {
+    id,
+    type: 'fact',
+    subject,
+    predicate,
+    object,
+    natural_form: `${subject} ${predicate} ${object}`,
+    valid_from: '2025-01-01T00:00:00Z',
+    valid_to: null,
+    recorded_at: '2025-01-01T00:00:00Z',
+    confidence: 0.9,
+    decay_rate: 0.001,
+    reinforcement_count: 0,
+    source_id: 'src',
+    extraction_method: 'manual',
+    last_accessed: '2025-01-01T00:00:00Z',
+    access_count: 0,
+    tags: [],
+    metadata: {},
+  };
+}
+
+describe('scoreRanking', () => {
+  const ranked = [
+    clause('a', 'user', 'likes', 'tea'),
+    clause('b', 'airline:united', 'member_of', 'alliance:star_alliance'),
+    clause('c', 'user', 'lives_in', 'Atlanta'),
+  ];
+
+  it('should compute recall, reciprocal rank and nDCG', () => {
+    const score = scoreRanking(ranked, [
+      { id: 'c' },
+      { subject: 'AIRLINE:United', predicate: 'member_of' },
+      { id: 'missing' },
+    ], 3);
+
+    expect(score.recall).toBeCloseTo(2 / 3);
+    expect(score.reciprocalRank).toBeCloseTo(1 / 2);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(4);
+    const ideal = 1 + 1 / Math.log2(3) + 1 / Math.log2(4);
+    expect(score.ndcg).toBeCloseTo(dcg / ideal);
+    expect(score.missing).toEqual([2]);
+  });
+
+  it('should only count the top k and credit each expectation once', () => {
+    expect(scoreRanking(ranked, [{ id: 'c' }], 2)).toMatchObject({
+      recall: 0,
+      reciprocalRank: 0,
+      ndcg: 0,
+    });
+
+    const twice = scoreRanking(ranked, [{ subject: 'user' }], 3);
+    expect(twice.ndcg).toBe(1);
+    expect(twice.reciprocalRank).toBe(1);
+  });
+});
+
+describe('eval suites', () => {
+  it('should validate suites', () => {
+    expect(() => parseEvalSuite({ queries: [] })).toThrow(/at least one query/);
+    expect(() => parseEvalSuite({ queries: [{ query: 'x' }] })).toThrow(/expect list/);
+    expect(() => parseEvalSuite({ queries: [{ query: 'x', expect: [] }], methods: ['grep'] }))
+      .toThrow(/Unknown eval method/);
+    expect(() => parseEvalSuite({ queries: [{ query: 'x', expect: [] }], sweep: { limit: [1] } }))
+      .toThrow(/Cannot sweep limit/);
+
+    const suite = parseEvalSuite({ queries: [{ query: 'seat', expect: ['aisle'] }] });
+    expect(suite).toMatchObject({
+      k: 10,
+      methods: ['retrieve', 'progressive', 'task'],
+      queries: [{ id: 'seat', query: 'seat' }],
+    });
+  });
+
+  it('should run a suite across a weight sweep and diff against a baseline', async () => {
+    const dir = join(tmpdir(), 'om-lite-test', `eval-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    const suitePath = join(dir, 'suite.yaml');
+    writeFileSync(suitePath, `
+name: seats
+k: 3
+methods: [retrieve, task]
+fixture:
+  clauses:
+    - { id: aisle, type: preference, subject: user, predicate: prefers_seat, object: aisle,
+        natural_form: User prefers aisle seats on flights }
+    - { id: tea, type: preference, subject: user, predicate: likes_drink, object: green tea,
+        natural_form: User drinks green tea every morning }
+    - { type: fact, subject: user, predicate: lives_in, object: Lisbon,
+        natural_form: User lives in Lisbon }
+queries:
+  - { id: seat, query: aisle seats, expect: [aisle] }
+  - query: Where does the user live
+    expect: [{ subject: user, predicate: lives_in }]
+sweep:
+  keywordWeight: [0.3, 0.6]
+`);
+
+    try {
+      const suite = loadEvalSuite(suitePath);
+      const progress: number[] = [];
+      const report = await runEvalSuite(suite, {
+        config: { embedding: { provider: 'none' } },
+        onProgress: (run) => progress.push(run),
+      });
+
+      expect(progress).toEqual([1, 2]);
+      expect(report.runs.map((r) => r.weights)).toEqual([
+        { keywordWeight: 0.3 },
+        { keywordWeight: 0.6 },
+      ]);
+      const retrieve = report.runs[0].methods.retrieve!;
+      expect(retrieve.queries[0]).toMatchObject({ id: 'seat', recall: 1, reciprocalRank: 1 });
+      expect(retrieve.recall).toBeGreaterThan(0);
+      expect(Object.keys(report.runs[0].methods)).toEqual(['retrieve', 'task']);
+
+      expect(diffEvalReports(report, report)).toMatchObject({ regressions: [], regressed: false });
+
+      // A baseline that did better on the first query
+      const baseline = JSON.parse(JSON.stringify(report)) as EvalReport;
+      const before = baseline.runs[0].methods.retrieve!;
+      before.recall += 0.5;
+      before.queries[1] = { ...before.queries[1], recall: 2, reciprocalRank: 2, ndcg: 2 };
+      const diff = diffEvalReports(baseline, report);
+      expect(diff.regressed).toBe(true);
+      expect(diff.metrics.find((m) => m.method === 'retrieve' && m.metric === 'recall'))
+        .toMatchObject({ delta: -0.5 });
+      expect(diff.regressions.map((r) => r.metric)).toEqual(['recall', 'mrr', 'ndcg']);
+      expect(diffEvalReports(baseline, report, 0.6).regressed).toBe(false);
+    } finally {
+      if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
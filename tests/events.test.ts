@@ -0,0 +1,225 @@
+/**
+ * Event bus tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventBus } from '../src/core/events.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { DecayRunner } from '../src/core/decay.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { SkillBindings } from '../src/skills/bindings.js';
+import type { OMLiteEvent } from '../src/core/types.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('EventBus', () => {
+  it('should deliver typed events to matching handlers', () => {
+    const bus = new EventBus();
+    const received: string[] = [];
+
+    bus.on('clause_invalidated', (event) => {
+      received.push(event.clauseId);
+    });
+    bus.emit({ type: 'clause_invalidated', clauseId: 'c1', reason: 'test' });
+    bus.emit({ type: 'pack_removed', packId: 'p1' });
+
+    expect(received).toEqual(['c1']);
+  });
+
+  it('should deliver every event to wildcard handlers', () => {
+    const bus = new EventBus();
+    const types: string[] = [];
+
+    bus.on('*', (event) => {
+      types.push(event.type);
+    });
+    bus.emit({ type: 'pack_removed', packId: 'p1' });
+    bus.emit({ type: 'clause_invalidated', clauseId: 'c1', reason: 'test' });
+
+    expect(types).toEqual(['pack_removed', 'clause_invalidated']);
+  });
+
+  it('should stop delivering after off() or unsubscribe', () => {
+    const bus = new EventBus();
+    const handler = vi.fn();
+    const other = vi.fn();
+
+    bus.on('pack_removed', handler);
+    const unsubscribe = bus.on('pack_removed', other);
+    bus.off('pack_removed', handler);
+    unsubscribe();
+    bus.emit({ type: 'pack_removed', packId: 'p1' });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(other).not.toHaveBeenCalled();
+    expect(bus.listenerCount()).toBe(0);
+  });
+
+  it('should isolate failing handlers', async () => {
+    const bus = new EventBus();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const after = vi.fn();
+
+    bus.on('pack_removed', () => {
+      throw new Error('boom');
+    });
+    bus.on('pack_removed', async () => {
+      throw new Error('async boom');
+    });
+    bus.on('pack_removed', after);
+
+    expect(() => bus.emit({ type: 'pack_removed', packId: 'p1' })).not.toThrow();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe('Mutation events', () => {
+  let db: DatabaseManager;
+  let bus: EventBus;
+  let store: ClauseStore;
+  let events: OMLiteEvent[];
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `events-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+
+    bus = new EventBus();
+    events = [];
+    bus.on('*', (event) => {
+      events.push(event);
+    });
+
+    store = new ClauseStore(db);
+    store.setEventBus(bus);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  it('should emit events from ClauseStore mutations', async () => {
+    const clause = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'likes',
+      object: 'tea',
+      natural_form: 'User likes tea',
+    });
+    await store.update(clause.id, { confidence: 0.6 });
+    await store.reinforce(clause.id, 0.1);
+    await store.invalidate(clause.id, 'test');
+
+    expect(events.map((e) => e.type)).toEqual([
+      'clause_created',
+      'clause_updated',
+      'clause_reinforced',
+      'clause_invalidated',
+    ]);
+
+    const updated = events[1];
+    expect(updated.type === 'clause_updated' && updated.changes).toEqual({ confidence: 0.6 });
+  });
+
+  it('should emit conflict events', async () => {
+    await store.processNewClause({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'owns_car',
+      object: 'Toyota',
+      natural_form: 'User owns a Toyota',
+      source_id: 'test',
+    });
+    const result = await store.processNewClause({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'owns_car',
+      object: 'Honda',
+      natural_form: 'User owns a Honda',
+      source_id: 'test',
+    });
+
+    expect(events.some((e) => e.type === 'conflict_detected')).toBe(true);
+
+    await store.resolveConflict(result.conflict!.id, 'newest_wins');
+    const resolved = events.find((e) => e.type === 'conflict_resolved');
+    expect(resolved).toMatchObject({ conflictId: result.conflict!.id });
+  });
+
+  it('should not emit when invalidating a missing clause', async () => {
+    await store.invalidate('missing', 'test');
+    expect(events).toHaveLength(0);
+  });
+
+  it('should emit decay_completed after a decay run', async () => {
+    const runner = new DecayRunner(db);
+    runner.setEventBus(bus);
+
+    await runner.run(true);
+    expect(events.some((e) => e.type === 'decay_completed')).toBe(false);
+
+    await runner.run();
+    expect(events.filter((e) => e.type === 'decay_completed')).toHaveLength(1);
+  });
+
+  it('should emit the full clause, namespace included, when decay updates it', async () => {
+    const clause = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'likes',
+      object: 'tea',
+      natural_form: 'User likes tea',
+    });
+    db.run(
+      "UPDATE clauses SET decay_rate = 0.1, last_accessed = datetime('now', '-10 days') WHERE id = ?",
+      [clause.id],
+    );
+
+    const runner = new DecayRunner(db);
+    runner.setEventBus(bus);
+    await runner.run();
+
+    const updated = events.find((e) => e.type === 'clause_updated');
+    expect(updated?.type === 'clause_updated' && updated.clause).toMatchObject({
+      id: clause.id,
+      namespace: clause.namespace,
+    });
+    expect(clause.namespace).toBeDefined();
+  });
+
+  it('should emit skill_bound and skill_unbound', async () => {
+    const bindings = new SkillBindings(db, store);
+    bindings.setEventBus(bus);
+
+    const pref = await store.create({
+      type: 'preference',
+      subject: 'user',
+      predicate: 'prefers_airline',
+      object: 'Delta',
+      natural_form: 'User prefers Delta',
+    });
+
+    await bindings.bindPreference('travel', 'preferred_airline', pref.id);
+    await bindings.unbindPreference('travel', 'preferred_airline');
+
+    const bound = events.find((e) => e.type === 'skill_bound');
+    expect(bound).toMatchObject({ skillId: 'travel' });
+    const unbound = events.find((e) => e.type === 'skill_unbound');
+    expect(unbound).toMatchObject({ skillId: 'travel', parameterNames: ['preferred_airline'] });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Retrieval explain mode tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Retriever } from '../src/core/retrieval.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { DatabaseManager } from '../src/core/database.js';
+import type { ClauseType, ScoreExplanation } from '../src/core/types.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function termSum(e: ScoreExplanation): number {
+  return e.keywordTerm + e.semanticTerm + e.confidenceTerm + e.recencyTerm +
+    e.exactMatchBonus + e.subjectBonus + e.predicateBonus;
+}
+
+describe('Retrieval explain mode', () => {
+  let db: DatabaseManager;
+  let retriever: Retriever;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `explain-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    retriever = new Retriever(db);
+
+    const clauseStore = new ClauseStore(db);
+    const sourceId = await clauseStore.createSource({ type: 'conversation', content: 'test' });
+    const clauses: Array<[ClauseType, string, string, string, number]> = [
+      ['preference', 'prefers_seat', 'aisle', 'User prefers aisle seats on flights', 0.9],
+      ['preference', 'prefers_airline', 'KLM', 'User flies KLM on flights to Europe', 0.8],
+      ['fact', 'has_status', 'gold', 'User has gold status for flights', 0.9],
+      ['preference', 'prefers_meal', 'fish', 'User liked fish meals on flights once', 0.3],
+    ];
+    for (const [type, predicate, object, naturalForm, confidence] of clauses) {
+      await clauseStore.create({
+        type,
+        subject: 'user',
+        predicate,
+        object,
+        natural_form: naturalForm,
+        confidence,
+        source_id: sourceId,
+        extraction_method: 'manual',
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should leave results unchanged without explain', async () => {
+    const result = await retriever.retrieve('flights');
+
+    expect(result.filtered).toBeUndefined();
+    expect(result.clauses.every((c) => c.explanation === undefined)).toBe(true);
+  });
+
+  it('should break each score down into its terms', async () => {
+    const plain = await retriever.retrieve('aisle flights');
+    const result = await retriever.retrieve('aisle flights', { explain: true });
+    expect(result.clauses.map((c) => [c.id, c.score])).toEqual(
+      plain.clauses.map((c) => [c.id, c.score]),
+    );
+
+    const aisle = result.clauses.find((c) => c.object === 'aisle')!;
+    const e = aisle.explanation!;
+    expect(e.bm25).toBeLessThan(0);
+    expect(e.keyword).toBeCloseTo(Math.max(0, 1 + e.bm25! / 10));
+    // Semantic weight moves to keywords when there are no embeddings
+    expect(e.weights.keyword).toBeCloseTo(0.9);
+    expect(e.weights.semantic).toBe(0);
+    expect(e.keywordTerm).toBeCloseTo(e.keyword * 0.9);
+    expect(e.confidenceTerm).toBeCloseTo(0.18);
+    expect(e.exactMatchBonus).toBeCloseTo(0.1);
+    expect(e.subjectBonus).toBe(0);
+    expect(e.firstStage).toBeCloseTo(Math.min(1, termSum(e)));
+    expect(e.final).toBe(aisle.score);
+  });
+
+  it('should report candidates removed by confidence and type', async () => {
+    const result = await retriever.retrieve('flights', {
+      explain: true,
+      types: ['preference'],
+      limit: 2,
+    });
+    const reasons = Object.fromEntries(
+      result.filtered!.map((f) => [f.natural_form, f.reason]),
+    );
+
+    expect(reasons).toEqual({
+      'User liked fish meals on flights once': 'min_confidence',
+      'User has gold status for flights': 'type',
+    });
+    expect(result.filtered!.every((f) => f.matchedBy === 'keyword')).toBe(true);
+  });
+
+  it('should report candidates cut by the limit', async () => {
+    const result = await retriever.retrieve('aisle flights', { explain: true, limit: 1 });
+    const cut = result.filtered!.filter((f) => f.reason === 'limit');
+
+    expect(cut.length).toBeGreaterThan(0);
+    expect(cut.every((f) => f.score! <= result.clauses[0].score)).toBe(true);
+    expect(cut.map((f) => f.id)).not.toContain(result.clauses[0].id);
+  });
+
+  it('should record the reranker contribution', async () => {
+    retriever.setReranker({
+      name: 'fixed',
+      rerank: async (_query, candidates) => candidates.map((c) => ({ id: c.id, score: 1 })),
+    }, { weight: 0.5 });
+
+    const [top] = (await retriever.retrieve('aisle flights', { explain: true })).clauses;
+    const e = top.explanation!;
+    expect(e.rerank).toEqual({ reranker: 'fixed', score: 1, weight: 0.5 });
+    expect(e.final).toBeCloseTo(0.5 + 0.5 * e.firstStage);
+    expect(top.score).toBe(e.final);
+  });
+
+  it('should tag each clause with its progressive retrieval stage', async () => {
+    const result = await retriever.progressiveRetrieve('Trips with KLM', {
+      explain: true,
+      limit: 10,
+      minConfidence: 0.5,
+    });
+    const stages = new Map(result.clauses.map((c) => [c.object, c.explanation!.stage]));
+
+    expect(stages.get('KLM')).toEqual({ name: 'direct' });
+    expect([...stages.values()].some((s) => s?.name === 'expansion')).toBe(true);
+    for (const clause of result.clauses) {
+      expect(clause.explanation!.final).toBeCloseTo(clause.score);
+    }
+    // Nothing reported as filtered made it into the results
+    const ids = new Set(result.clauses.map((c) => c.id));
+    expect(result.filtered!.every((f) => !ids.has(f.id))).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Graph export tests (DOT, GraphML, JSON-LD)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EntityResolver } from '../src/core/entities.js';
+import { Normalizer } from '../src/core/normalization.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { DatabaseManager } from '../src/core/database.js';
+import type { ClauseType } from '../src/core/types.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Graph export', () => {
+  let db: DatabaseManager;
+  let store: ClauseStore;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `export-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+
+    const resolver = new EntityResolver(db);
+    const normalizer = new Normalizer(db);
+    normalizer.setEntityResolver(resolver);
+    store = new ClauseStore(db);
+    store.setNormalizer(normalizer);
+    store.setEntityResolver(resolver);
+
+    await claim('user', 'prefers_airline', 'airline:united', 'preference');
+    await claim('user', 'lives_in', 'Denver "Mile High" & co');
+    await claim('airline:united', 'member_of', 'alliance:star_alliance', 'relationship');
+    await claim('alliance:star_alliance', 'founded', '1997');
+    await claim('airline:delta', 'member_of', 'alliance:skyteam', 'relationship');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  const claim = (subject: string, predicate: string, object: string, type: ClauseType = 'fact') =>
+    store.processNewClause({
+      type,
+      subject,
+      predicate,
+      object,
+      natural_form: `${subject} ${predicate} ${object}`,
+      source_id: 'test',
+    });
+
+  it('should export DOT with escaped labels and attributes', async () => {
+    const dot = await store.exportAsGraph('dot');
+
+    expect(dot).toMatch(/^digraph memory \{/);
+    expect(dot).toContain('"airline:united" -> "alliance:star_alliance" [id=');
+    expect(dot).toContain('label="member_of"');
+    expect(dot).toContain('label="Denver \\"Mile High\\" & co"');
+    expect(dot).toMatch(/"airline:united" \[label="United", kind="entity", entity_type="airline"/);
+    expect(dot).toContain('confidence="');
+  });
+
+  it('should limit the export to a subject and depth', async () => {
+    const one = await store.exportAsGraph('dot', { subject: 'me' });
+    expect(one).toContain('"user" -> "airline:united"');
+    expect(one).not.toContain('member_of');
+
+    const two = await store.exportAsGraph('dot', { subject: 'user', depth: 2 });
+    expect(two).toContain('member_of');
+    expect(two).not.toContain('founded');
+    expect(two).not.toContain('airline:delta');
+
+    const three = await store.exportAsGraph('dot', { subject: 'user', depth: 3 });
+    expect(three).toContain('founded');
+  });
+
+  it('should mark expired clauses when included', async () => {
+    const moved = await claim('user', 'lives_in', 'Boston');
+    expect(moved.action).toBe('superseded');
+
+    const active = await store.exportAsGraph('graphml');
+    expect(active).not.toContain('Mile High');
+
+    const all = await store.exportAsGraph('graphml', { includeExpired: true });
+    expect(all).toContain('<data key="n_label">Denver &quot;Mile High&quot; &amp; co</data>');
+    expect(all).toMatch(/<data key="e_valid_to">[^<]+<\/data>/);
+    expect(all).toContain('<key id="e_confidence" for="edge" attr.name="confidence" attr.type="double"/>');
+  });
+
+  it('should export JSON-LD with entities and reified clauses', async () => {
+    const doc = JSON.parse(await store.exportAsGraph('jsonld', { subject: 'user', depth: 2 })) as {
+      '@context': Record<string, unknown>;
+      '@graph': Array<Record<string, unknown>>;
+    };
+    expect(doc['@context']['@vocab']).toBeDefined();
+
+    const united = doc['@graph'].find((n) => n.identifier === 'airline:united')!;
+    expect(united['@type']).toBe('Entity');
+    expect(united.entityType).toBe('airline');
+    const memberOf = Object.keys(united).find((k) => k.endsWith('#member_of'))!;
+    expect(united[memberOf]).toEqual([{ '@id': 'urn:om-lite:entity:alliance%3Astar_alliance' }]);
+
+    const clauses = doc['@graph'].filter((n) => n['@type'] === 'Clause');
+    expect(clauses).toHaveLength(3);
+    const lives = clauses.find((c) => c.predicate === 'lives_in')!;
+    expect(lives.object).toBe('Denver "Mile High" & co');
+    expect(lives.confidence).toBeTypeOf('number');
+    expect(lives.validFrom).toBeDefined();
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Forget (right-to-be-forgotten) tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OMLite } from '../src/index.js';
+import { existsSync, unlinkSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('OMLite.forget()', () => {
+  let testDbPath: string;
+  let backupDir: string;
+  let om: OMLite;
+
+  const archivePath = (sourceId: string): string =>
+    om['db'].get<{ file_path: string }>(
+      'SELECT file_path FROM sources WHERE id = ?',
+      [sourceId],
+    )!.file_path;
+
+  // A clause about the ex, extracted from a conversation archived under its own source
+  async function rememberAboutEx(natural_form: string, object: string) {
+    const sourceId = await om['clauseStore'].createSource({
+      type: 'conversation',
+      content: `${natural_form} ${Date.now()} ${Math.random()}`,
+    });
+    const { clause } = await om.remember({
+      type: 'relationship',
+      subject: 'Jordan',
+      predicate: 'likes',
+      object,
+      natural_form,
+      tags: ['personal'],
+      source_id: sourceId,
+    });
+    return clause!;
+  }
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `forget-test-${Date.now()}.db`);
+    backupDir = join(testDir, `forget-backups-${Date.now()}`);
+    om = new OMLite({ dbPath: testDbPath, backup: { backupDir } });
+    await om.init();
+    om.entities.create({ type: 'person', canonical_name: 'Jordan', aliases: ['my ex'] });
+  });
+
+  afterEach(async () => {
+    await om.close();
+    rmSync(backupDir, { recursive: true, force: true });
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should invalidate by default and keep history', async () => {
+    const clause = await rememberAboutEx('Jordan likes hiking', 'hiking');
+
+    const receipt = await om.forget({ tag: 'personal' });
+
+    expect(receipt).toMatchObject({ hard: false, selectedBy: ['tag'], clauseIds: [clause.id] });
+    expect((await om.getClause(clause.id))!.valid_to).not.toBeNull();
+    expect(om.history.clause(clause.id).map((r) => r.action)).toContain('invalidate');
+    expect(await om.verifyForgetReceipt(receipt.id)).toEqual({
+      valid: true,
+      digestMatches: true,
+      remaining: [],
+    });
+    unlinkSync(archivePath(clause.source_id));
+  });
+
+  it('should hard-delete a subject with its logs, conflicts and sources', async () => {
+    const hiking = await rememberAboutEx('Jordan likes hiking', 'hiking');
+    const jazz = await rememberAboutEx('Jordan likes jazz', 'jazz');
+    const { clause: kept } = await om.remember({
+      type: 'preference',
+      subject: 'user',
+      predicate: 'prefers_seat',
+      object: 'aisle',
+      natural_form: 'User prefers aisle seats',
+      source_id: hiking.source_id,
+    });
+    om.logAccess(hiking.id, 'retrieval', 'what does my ex like');
+    om['db'].run(
+      `INSERT INTO conflicts (id, clause_a_id, clause_b_id, conflict_type, description)
+       VALUES ('c1', ?, ?, 'ambiguity', 'hiking or jazz')`,
+      [hiking.id, jazz.id],
+    );
+    const hikingArchive = archivePath(hiking.source_id);
+    const jazzArchive = archivePath(jazz.source_id);
+
+    const receipt = await om.forget({ subject: 'my ex' }, { hard: true });
+
+    expect(receipt.clauseIds.sort()).toEqual([hiking.id, jazz.id].sort());
+    expect(receipt.counts).toMatchObject({
+      clauses: 2,
+      conflicts: 1,
+      accessLog: 1,
+      entities: 1,
+      sources: 1,
+      sourceFiles: 2,
+    });
+    expect(receipt.counts.revisions).toBeGreaterThanOrEqual(2);
+    expect(receipt.sourceIds).toEqual([jazz.source_id]);
+    expect(receipt.scrubbedSourceIds).toEqual([hiking.source_id]);
+    expect(existsSync(hikingArchive)).toBe(false);
+    expect(existsSync(jazzArchive)).toBe(false);
+
+    expect(await om.searchClauses('jazz')).toEqual([]);
+    expect(om.history.clause(hiking.id)).toEqual([]);
+    expect(om.entities.resolve('my ex')).toBeNull();
+    expect(await om.getClause(kept!.id)).not.toBeNull();
+
+    expect(await om.verifyForgetReceipt(receipt)).toEqual({
+      valid: true,
+      digestMatches: true,
+      remaining: [],
+    });
+    expect(om.listForgetReceipts().map((r) => r.id)).toEqual([receipt.id]);
+    expect(await om.verifyForgetReceipt({ ...receipt, clauseIds: [kept!.id] })).toEqual({
+      valid: false,
+      digestMatches: false,
+      remaining: expect.arrayContaining([
+        `clause ${kept!.id} (clauses)`,
+        `clause ${kept!.id} (clause_revisions)`,
+      ]),
+    });
+  });
+
+  it('should refuse a hard forget that cannot purge every vector', async () => {
+    const clause = await rememberAboutEx('Jordan likes hiking', 'hiking');
+    om['embeddingManager']['sqliteVecAvailable'] = false;
+
+    try {
+      await expect(om.forget({ subject: 'Jordan' }, { hard: true }))
+        .rejects.toThrow(/Cannot purge vectors from vec_clauses without sqlite-vec/);
+      expect(await om.getClause(clause.id)).not.toBeNull();
+    } finally {
+      om['embeddingManager']['sqliteVecAvailable'] = true;
+    }
+    unlinkSync(archivePath(clause.source_id));
+  });
+
+  it('should list vectors left behind when verifying', async () => {
+    const clause = await rememberAboutEx('Jordan likes hiking', 'hiking');
+    const receipt = await om.forget({ subject: 'Jordan' }, { hard: true });
+    expect((await om.verifyForgetReceipt(receipt)).valid).toBe(true);
+
+    await om.embeddings.embed(clause.id, 'Jordan likes hiking');
+    expect(await om.verifyForgetReceipt(receipt)).toMatchObject({
+      valid: false,
+      remaining: expect.arrayContaining([`clause ${clause.id} (vec_clauses)`]),
+    });
+  });
+
+  it('should only forget within its own namespace', async () => {
+    const other = new OMLite({ dbPath: testDbPath, namespace: 'user:alice' });
+    await other.init();
+    try {
+      const { clause } = await other.remember({
+        type: 'fact',
+        subject: 'user',
+        predicate: 'likes',
+        object: 'jazz',
+        natural_form: 'Alice likes jazz',
+      });
+
+      const receipt = await om.forget({ query: 'jazz' }, { hard: true });
+
+      expect(receipt.clauseIds).toEqual([]);
+      expect(await other.getClause(clause!.id)).not.toBeNull();
+      unlinkSync(archivePath(clause!.source_id));
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('should re-apply the deletion when a flagged backup is restored', async () => {
+    const clause = await rememberAboutEx('Jordan likes hiking', 'hiking');
+    const backup = await om.backup.create();
+
+    const receipt = await om.forget({ subject: 'Jordan' }, { hard: true });
+    expect(receipt.backups.flagged).toEqual([backup.path]);
+    expect((await om.backup.list())[0].forgotten).toEqual([receipt.id]);
+
+    const restored = await om.backup.restore(backup.path!);
+    expect(restored.success).toBe(true);
+    expect(restored.forgetReceipts!.map((r) => r.id)).toEqual([receipt.id]);
+    expect(await om.getClause(clause.id)).toBeNull();
+    expect(await om.verifyForgetReceipt(receipt.id)).toMatchObject({ valid: true });
+    if (existsSync(`${testDbPath}.pre-restore`)) unlinkSync(`${testDbPath}.pre-restore`);
+  });
+
+  it('should purge backups on request', async () => {
+    await rememberAboutEx('Jordan likes hiking', 'hiking');
+    const backup = await om.backup.create();
+
+    const receipt = await om.forget({ subject: 'Jordan' }, { hard: true, backups: 'purge' });
+
+    expect(receipt.backups).toEqual({ purged: [backup.path], flagged: [] });
+    expect(existsSync(backup.path!)).toBe(false);
+    expect(await om.verifyForgetReceipt(receipt)).toMatchObject({ valid: true });
+  });
+
+  it('should forget more clauses than SQLite binds in one statement', async () => {
+    const count = 17000;
+    const sourceId = await om['clauseStore'].createSource({ type: 'manual', content: 'bulk' });
+    const insert = om['db'].getDb().prepare(
+      `INSERT INTO clauses (id, type, subject, predicate, object, natural_form, valid_from,
+                            source_id, tags, namespace)
+       SELECT ?, 'fact', 'Jordan', 'visited', ?, ?, datetime('now'), id, '["bulk"]', namespace
+       FROM sources WHERE id = ?`,
+    );
+    om['db'].transaction(() => {
+      for (let i = 0; i < count; i++) {
+        insert.run(`bulk-${i}`, `place ${i}`, `Jordan visited place ${i}`, sourceId);
+      }
+    });
+    const archive = archivePath(sourceId);
+
+    const receipt = await om.forget({ tag: 'bulk' }, { hard: true });
+
+    expect(receipt.counts).toMatchObject({ clauses: count, sources: 1, sourceFiles: 1 });
+    expect(existsSync(archive)).toBe(false);
+    expect(om['db'].get('SELECT 1 FROM clauses WHERE subject = ?', ['Jordan'])).toBeUndefined();
+  });
+
+  it('should require a selector', async () => {
+    await expect(om.forget({ subject: ' ' }, { hard: true })).rejects.toThrow(/needs a subject/);
+  });
+});
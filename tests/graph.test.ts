@@ -0,0 +1,151 @@
+/**
+ * Graph traversal tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryGraph } from '../src/core/graph.js';
+import { EntityResolver } from '../src/core/entities.js';
+import { Normalizer } from '../src/core/normalization.js';
+import { ClauseStore, rowToClause, type ClauseRow } from '../src/core/clauses.js';
+import { Retriever } from '../src/core/retrieval.js';
+import { DatabaseManager } from '../src/core/database.js';
+import type { ClauseType } from '../src/core/types.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('MemoryGraph', () => {
+  let db: DatabaseManager;
+  let graph: MemoryGraph;
+  let store: ClauseStore;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `graph-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+
+    const resolver = new EntityResolver(db);
+    const normalizer = new Normalizer(db);
+    normalizer.setEntityResolver(resolver);
+    store = new ClauseStore(db);
+    store.setNormalizer(normalizer);
+    store.setEntityResolver(resolver);
+    graph = new MemoryGraph(db);
+    graph.setEntityResolver(resolver);
+
+    await claim('airline:united', 'full_name', 'United Airlines', 'fact');
+    await claim('airline:united', 'member_of', 'alliance:star_alliance');
+    await claim('airline:lufthansa', 'member_of', 'alliance:star_alliance');
+    await claim('airline:delta', 'member_of', 'alliance:skyteam');
+    await claim('alliance:star_alliance', 'partner_program', 'program:miles_and_more');
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  const claim = (
+    subject: string,
+    predicate: string,
+    object: string,
+    type: ClauseType = 'relationship',
+  ) =>
+    store.processNewClause({
+      type,
+      subject,
+      predicate,
+      object,
+      natural_form: `${subject} ${predicate} ${object}`,
+      source_id: 'test',
+    });
+
+  it('should walk object to subject links across hops', () => {
+    const oneHop = graph.neighbors('United Airlines');
+    expect(oneHop.root).toMatchObject({ id: 'airline:united', type: 'airline', depth: 0 });
+    expect(oneHop.nodes.map((n) => n.id)).toEqual(['airline:united', 'alliance:star_alliance']);
+
+    const twoHops = graph.neighbors('airline:united', { depth: 2 });
+    expect(twoHops.edges.map((e) => [e.predicate, e.depth])).toEqual([
+      ['member_of', 1],
+      ['partner_program', 2],
+    ]);
+    expect(twoHops.nodes.find((n) => n.id === 'program:miles_and_more')?.depth).toBe(2);
+  });
+
+  it('should filter by predicate and direction', () => {
+    const filtered = graph.neighbors('airline:united', { depth: 2, predicates: ['member_of'] });
+    expect(filtered.edges).toHaveLength(1);
+
+    const members = graph.neighbors('alliance:star_alliance', { direction: 'in' });
+    expect(members.nodes.map((n) => n.id).sort()).toEqual([
+      'airline:lufthansa',
+      'airline:united',
+      'alliance:star_alliance',
+    ]);
+  });
+
+  it('should carry the full stored clause on each edge', () => {
+    const [edge] = graph.neighbors('airline:delta').edges;
+    const row = db.get<ClauseRow>('SELECT * FROM clauses WHERE id = ?', [edge.clause.id])!;
+
+    expect(edge.clause).toEqual(rowToClause(row));
+    expect(edge.clause.namespace).toBe('shared');
+  });
+
+  it('should ignore invalidated relationships', async () => {
+    const left = await claim('airline:delta', 'member_of', 'alliance:oneworld');
+    await store.invalidate(left.clause!.id, 'test');
+
+    expect(graph.neighbors('airline:delta').nodes.map((n) => n.id)).toEqual([
+      'airline:delta',
+      'alliance:skyteam',
+    ]);
+  });
+
+  it('should find paths between entities', () => {
+    const [path] = graph.paths('airline:united', 'program:miles_and_more');
+    expect(path.nodes).toEqual([
+      'airline:united',
+      'alliance:star_alliance',
+      'program:miles_and_more',
+    ]);
+    expect(path.length).toBe(2);
+
+    // Following edges outward only, two members never meet
+    expect(graph.paths('airline:united', 'airline:lufthansa')).toHaveLength(0);
+    const both = graph.paths('airline:united', 'airline:lufthansa', { direction: 'both' });
+    expect(both[0].nodes).toEqual(['airline:united', 'alliance:star_alliance', 'airline:lufthansa']);
+
+    expect(graph.paths('airline:united', 'alliance:skyteam', { direction: 'both', depth: 2 }))
+      .toHaveLength(0);
+  });
+
+  it('should expand task retrieval through the graph', async () => {
+    await claim('user', 'prefers_airline', 'United', 'preference');
+    const retriever = new Retriever(db);
+    retriever.setGraph(graph);
+
+    const task = { description: 'which alliances can I earn miles on' };
+    const plain = await retriever.retrieveForTask(task);
+    expect(plain.clauses.some((c) => c.predicate === 'member_of')).toBe(false);
+
+    // prefers_airline United → airline:united → member_of → alliance:star_alliance
+    const expanded = await retriever.retrieveForTask({ ...task, graphDepth: 2 });
+    const membership = expanded.clauses.find((c) => c.predicate === 'member_of');
+    expect(membership).toMatchObject({
+      subject: 'airline:united',
+      object: 'alliance:star_alliance',
+    });
+    expect(expanded.clauses.some((c) => c.subject === 'airline:delta')).toBe(false);
+  });
+});
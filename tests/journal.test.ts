@@ -0,0 +1,183 @@
+/**
+ * Change journal tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChangeJournal, diffRevision } from '../src/core/journal.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { DecayRunner } from '../src/core/decay.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { namespaceScope } from '../src/core/namespaces.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ChangeJournal', () => {
+  let db: DatabaseManager;
+  let store: ClauseStore;
+  let journal: ChangeJournal;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `journal-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    store = new ClauseStore(db);
+    journal = new ChangeJournal(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  it('should record create, update, reinforce and invalidate', async () => {
+    const clause = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'likes',
+      object: 'tea',
+      natural_form: 'User likes tea',
+    });
+    await store.update(clause.id, { confidence: 0.6 }, 'cli');
+    await store.reinforce(clause.id, 0.1);
+    await store.invalidate(clause.id, 'no longer true', 'user');
+
+    const history = journal.getClauseHistory(clause.id);
+    expect(history.map((r) => r.action)).toEqual(['create', 'update', 'reinforce', 'invalidate']);
+    expect(history[0].actor).toBe('manual');
+    expect(history[0].before).toBeNull();
+    expect(history[1].actor).toBe('cli');
+    expect(history[3].reason).toBe('no longer true');
+    expect(history[3].after?.valid_to).not.toBeNull();
+  });
+
+  it('should capture what an update overwrote', async () => {
+    const clause = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'likes',
+      object: 'tea',
+      natural_form: 'User likes tea',
+      confidence: 0.8,
+    });
+    await store.update(clause.id, { natural_form: 'User likes green tea' });
+
+    const [, update] = journal.getClauseHistory(clause.id);
+    const changes = diffRevision(update);
+    expect(changes).toEqual([
+      { field: 'natural_form', from: 'User likes tea', to: 'User likes green tea' },
+    ]);
+  });
+
+  it('should link superseded clauses in the chain history', async () => {
+    const first = await store.processNewClause({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'lives_in',
+      object: 'Portland',
+      natural_form: 'User lives in Portland',
+      source_id: 'test',
+    });
+    const second = await store.processNewClause({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'lives_in',
+      object: 'Seattle',
+      natural_form: 'User lives in Seattle',
+      source_id: 'test',
+    });
+
+    const chain = journal.getChainHistory('user', 'lives_in');
+    expect(chain.map((r) => r.action)).toEqual(['create', 'create', 'supersede']);
+
+    const supersede = chain[2];
+    expect(supersede.clause_id).toBe(first.clause!.id);
+    expect(supersede.related_clause_id).toBe(second.clause!.id);
+
+    // The newer clause's history shows what it replaced
+    const history = journal.getClauseHistory(second.clause!.id);
+    expect(history.some((r) => r.action === 'supersede')).toBe(true);
+  });
+
+  it('should record conflict resolution', async () => {
+    await store.processNewClause({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'owns_car',
+      object: 'Toyota',
+      natural_form: 'User owns a Toyota',
+      source_id: 'test',
+    });
+    const result = await store.processNewClause({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'owns_car',
+      object: 'Honda',
+      natural_form: 'User owns a Honda',
+      source_id: 'test',
+    });
+    await store.resolveConflict(result.conflict!.id, 'newest_wins');
+
+    const resolved = journal
+      .getChainHistory('user', 'owns_car')
+      .find((r) => r.action === 'conflict_resolved');
+    expect(resolved).toBeDefined();
+    expect(resolved!.actor).toBe('conflict_resolver:newest_wins');
+  });
+
+  it('should record decay archival', async () => {
+    const clause = await store.create({
+      type: 'context',
+      subject: 'user',
+      predicate: 'is_working_on',
+      object: 'taxes',
+      natural_form: 'User is working on taxes',
+      confidence: 0.5,
+    });
+    const runner = new DecayRunner(db);
+    await runner.adjustConfidence(clause.id, 0.05);
+
+    const actions = journal.getClauseHistory(clause.id).map((r) => `${r.action}:${r.actor}`);
+    expect(actions).toEqual(['create:manual', 'update:decay_runner', 'invalidate:decay_runner']);
+  });
+
+  it('should keep the namespace in snapshots', async () => {
+    store.setNamespace(namespaceScope('user:alice'));
+    journal.setNamespace(namespaceScope('user:alice'));
+    const clause = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'likes',
+      object: 'tea',
+      natural_form: 'User likes tea',
+    });
+    await store.reinforce(clause.id);
+    await store.invalidate(clause.id, 'no longer true');
+
+    const [, reinforce, invalidate] = journal.getClauseHistory(clause.id);
+    expect(reinforce.after?.namespace).toBe('user:alice');
+    expect(invalidate.before?.namespace).toBe('user:alice');
+    expect(invalidate.after?.namespace).toBe('user:alice');
+  });
+
+  it('should reject edits to recorded revisions', async () => {
+    await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'likes',
+      object: 'tea',
+      natural_form: 'User likes tea',
+    });
+
+    expect(() => db.run("UPDATE clause_revisions SET actor = 'someone'")).toThrow(/append-only/);
+  });
+});
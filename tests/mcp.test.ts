@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OMLite, McpServer } from '../src/index.js';
+import { PassThrough } from 'stream';
+import { unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+
+const TEST_DB = '/tmp/om-lite-mcp-test.db';
+
+describe('McpServer', () => {
+  let om: OMLite;
+  let mcp: McpServer;
+
+  beforeEach(async () => {
+    for (const path of [TEST_DB, `${TEST_DB}-wal`, `${TEST_DB}-shm`]) {
+      if (existsSync(path)) await unlink(path);
+    }
+    om = new OMLite({ dbPath: TEST_DB });
+    await om.init();
+    mcp = new McpServer(om);
+  });
+
+  afterEach(async () => {
+    await om.close();
+    for (const path of [TEST_DB, `${TEST_DB}-wal`, `${TEST_DB}-shm`]) {
+      if (existsSync(path)) await unlink(path);
+    }
+  });
+
+  let nextId = 1;
+  const request = async (method: string, params: Record<string, unknown> = {}) => {
+    const response = await mcp.handle({ jsonrpc: '2.0', id: nextId++, method, params });
+    return response!;
+  };
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const response = await request('tools/call', { name, arguments: args });
+    return response.result as {
+      content: Array<{ text: string }>;
+      structuredContent?: Record<string, unknown>;
+      isError?: boolean;
+    };
+  };
+
+  it('should speak JSON-RPC over stdio streams', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const served = mcp.serve(input, output);
+
+    input.write(`${JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test' } },
+    })}\n`);
+    input.write(`${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })}\n`);
+    input.write('{broken\n');
+    input.end(`${JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })}\n`);
+    await served;
+
+    const lines = (output.read() as Buffer).toString('utf-8').trim().split('\n');
+    const responses = lines.map((l) => JSON.parse(l) as Record<string, any>);
+    expect(responses).toHaveLength(3);
+    expect(responses[0].result.protocolVersion).toBe('2024-11-05');
+    expect(responses[0].result.capabilities).toHaveProperty('tools');
+    expect(responses[1].error.code).toBe(-32700);
+    expect(responses[2].result.tools.map((t: { name: string }) => t.name)).toEqual([
+      'memory_retrieve',
+      'memory_remember',
+      'memory_forget',
+      'conflicts_list',
+      'conflicts_resolve',
+      'skill_preferences',
+    ]);
+  });
+
+  it('should retrieve and forget memory through tools', async () => {
+    const { clause } = await om.remember({
+      type: 'preference',
+      subject: 'user',
+      predicate: 'prefers_seat_type',
+      object: 'aisle',
+      natural_form: 'User prefers aisle seats',
+    });
+
+    const retrieved = await callTool('memory_retrieve', { task: 'book a flight seat' });
+    expect(retrieved.content[0].text).toContain('User prefers aisle seats');
+    expect(retrieved.structuredContent!.clauses).toHaveLength(1);
+
+    const forgotten = await callTool('memory_forget', { clause_id: clause!.id, reason: 'changed' });
+    expect(forgotten.isError).toBeUndefined();
+    expect((await om.getClause(clause!.id))!.valid_to).not.toBeNull();
+
+    const missing = await callTool('memory_forget', { clause_id: 'nope' });
+    expect(missing.isError).toBe(true);
+  });
+
+  it('should list and resolve conflicts', async () => {
+    await om.remember({
+      type: 'fact', subject: 'user', predicate: 'allergic_to', object: 'peanuts',
+      natural_form: 'User is allergic to peanuts',
+    });
+    await om.remember({
+      type: 'fact', subject: 'user', predicate: 'allergic_to', object: 'shellfish',
+      natural_form: 'User is allergic to shellfish',
+    });
+
+    const listed = await callTool('conflicts_list', {});
+    const conflicts = listed.structuredContent!.conflicts as Array<{ id: string }>;
+    expect(conflicts).toHaveLength(1);
+
+    const resolved = await callTool('conflicts_resolve', {
+      conflict_id: conflicts[0].id,
+      strategy: 'newest_wins',
+    });
+    expect(resolved.structuredContent!.resolved).toBe(true);
+    expect((await callTool('conflicts_list', {})).content[0].text).toBe('No pending conflicts.');
+  });
+
+  it('should expose MEMORY.md as a resource', async () => {
+    const listed = await request('resources/list');
+    const uris = (listed.result as { resources: Array<{ uri: string }> }).resources.map((r) => r.uri);
+    expect(uris).toContain('memory://MEMORY.md');
+
+    const read = await request('resources/read', { uri: 'memory://MEMORY.md' });
+    const contents = (read.result as { contents: Array<{ text: string; mimeType: string }> }).contents;
+    expect(contents[0].mimeType).toBe('text/markdown');
+    expect(contents[0].text).toContain('# Memory');
+
+    expect((await request('resources/read', { uri: 'memory://nope' })).error!.code).toBe(-32002);
+    expect((await request('tools/unknown')).error!.code).toBe(-32601);
+  });
+
+  it('should validate tool arguments', async () => {
+    const result = await callTool('memory_remember', {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toMatch(/content is required/);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Schema migration tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseManager } from '../src/core/database.js';
+import { BackupManager } from '../src/core/backup.js';
+import { LATEST_SCHEMA_VERSION } from '../src/core/schema.js';
+import { existsSync, unlinkSync, mkdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Schema migrations', () => {
+  let db: DatabaseManager;
+  let testDbPath: string;
+
+  // A database from before numbered migrations: full schema, no bookkeeping
+  async function legacyDatabase(): Promise<void> {
+    db = new DatabaseManager(testDbPath, { autoMigrate: false });
+    await db.init();
+    await db.migrate({ to: 1 });
+    db.run('DROP TABLE schema_migrations');
+    await db.close();
+  }
+
+  beforeEach(() => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `migrations-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should apply every migration to a new database', async () => {
+    await db.init();
+    const status = db.getMigrationStatus();
+
+    expect(status.current).toBe(LATEST_SCHEMA_VERSION);
+    expect(status.pending).toEqual([]);
+    expect(status.applied.every((m) => m.checksumMatches)).toBe(true);
+    expect(db.getMetadata('schema_version')).toBe(String(LATEST_SCHEMA_VERSION));
+    expect(db.get("SELECT name FROM sqlite_master WHERE name = 'skill_performance'"))
+      .toBeDefined();
+  });
+
+  it('should report pending migrations without applying them', async () => {
+    await legacyDatabase();
+    db = new DatabaseManager(testDbPath, { autoMigrate: false });
+    await db.init();
+
+    const status = db.getMigrationStatus();
+    expect(status.current).toBe(0);
+    expect(status.pending.map((m) => m.name))
+      .toEqual(['initial_schema', 'skill_performance', 'namespaces', 'forget_receipts']);
+  });
+
+  it('should back up and upgrade a pre-migration database', async () => {
+    await legacyDatabase();
+    const backupDir = join(tmpdir(), 'om-lite-test', `migrate-backups-${Date.now()}`);
+    db = new DatabaseManager(testDbPath, { autoMigrate: false });
+    db.setBackupManager(new BackupManager(db, { backupDir }));
+    await db.init();
+    db.run("INSERT INTO system_metadata (key, value) VALUES ('kept', 'yes')");
+
+    try {
+      const first = await db.migrate({ to: 1 });
+      expect(first).toMatchObject({ from: 0, to: 1, applied: [1] });
+      expect(first.backupPath).toMatch(/om-lite_migration_.*\.db$/);
+      expect(existsSync(first.backupPath!)).toBe(true);
+
+      expect(await db.migrate({ to: 2 })).toMatchObject({ from: 1, to: 2, applied: [2] });
+      expect(db.get("SELECT name FROM sqlite_master WHERE name = 'skill_performance'"))
+        .toBeDefined();
+      expect(db.getMetadata('kept')).toBe('yes');
+      expect(await db.migrate({ to: 2 })).toEqual({ from: 2, to: 2, applied: [] });
+      await expect(db.migrate({ to: 1 })).rejects.toThrow(/Cannot migrate down/);
+    } finally {
+      rmSync(backupDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not back up a new database', async () => {
+    const backupDir = join(tmpdir(), 'om-lite-test', `migrate-backups-${Date.now()}`);
+    db.setBackupManager(new BackupManager(db, { backupDir }));
+    await db.init();
+
+    expect(existsSync(backupDir)).toBe(false);
+  });
+
+  it('should roll back a failed migration', async () => {
+    await legacyDatabase();
+    db = new DatabaseManager(testDbPath, { autoMigrate: false });
+    await db.init();
+    // Indexes cannot be created on a view, so the second migration fails midway
+    db.run('CREATE VIEW skill_performance AS SELECT 1 AS skill_id, 1 AS task_category');
+
+    await expect(db.migrate()).rejects.toThrow(/Migration 2 \(skill_performance\) failed/);
+    expect(db.getMigrationStatus().current).toBe(1);
+    expect(db.getMetadata('schema_version')).toBe('1');
+    expect(db.get("SELECT name FROM sqlite_master WHERE name = 'idx_skill_performance_skill'"))
+      .toBeUndefined();
+  });
+
+  it('should refuse to run when an applied migration has changed', async () => {
+    await db.init();
+    db.run("UPDATE schema_migrations SET checksum = 'edited' WHERE version = 1");
+    await db.close();
+
+    db = new DatabaseManager(testDbPath);
+    await expect(db.init()).rejects.toThrow(/Migration 1 \(initial_schema\) has changed/);
+    expect(db.getMigrationStatus().applied[0].checksumMatches).toBe(false);
+  });
+
+  it('should refuse a database from a newer version', async () => {
+    await db.init();
+    db.run(
+      'INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)',
+      [LATEST_SCHEMA_VERSION + 1, 'future', 'x'],
+    );
+
+    await expect(db.migrate()).rejects.toThrow(/newer than this version/);
+  });
+});
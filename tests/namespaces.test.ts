@@ -0,0 +1,178 @@
+/**
+ * Memory namespace tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OMLite } from '../src/index.js';
+import { namespaceScope, resolveWriteNamespace } from '../src/core/namespaces.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { SkillMetadata } from '../src/core/types.js';
+
+const seatPreference = (object: string) => ({
+  type: 'preference' as const,
+  subject: 'user',
+  predicate: 'prefers_seat',
+  object,
+  natural_form: `User prefers ${object} seats on flights`,
+  confidence: 0.9,
+});
+
+describe('namespaceScope()', () => {
+  it('should see its own, inherited and shared namespaces', () => {
+    const scope = namespaceScope('agent:planner', ['user:alice']);
+    expect(scope).toEqual({
+      namespace: 'agent:planner',
+      visible: ['agent:planner', 'user:alice', 'shared'],
+    });
+    expect(namespaceScope().visible).toEqual(['shared']);
+  });
+
+  it('should reject invalid namespaces and writes outside the scope', () => {
+    expect(() => namespaceScope('alice')).toThrow(/Invalid namespace: alice/);
+    expect(() => namespaceScope('user:')).toThrow(/Invalid namespace/);
+
+    const scope = namespaceScope('agent:planner', ['user:alice']);
+    expect(resolveWriteNamespace(scope)).toBe('agent:planner');
+    expect(resolveWriteNamespace(scope, 'shared')).toBe('shared');
+    expect(() => resolveWriteNamespace(scope, 'user:alice'))
+      .toThrow(/user:alice is not writable from agent:planner/);
+  });
+});
+
+describe('Namespaced memory', () => {
+  let testDbPath: string;
+  let alice: OMLite;
+  let bob: OMLite;
+  let planner: OMLite;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `namespaces-test-${Date.now()}.db`);
+    alice = new OMLite({ dbPath: testDbPath, namespace: 'user:alice' });
+    bob = new OMLite({ dbPath: testDbPath, namespace: 'user:bob' });
+    planner = new OMLite({
+      dbPath: testDbPath,
+      namespace: 'agent:planner',
+      namespaceInherits: ['user:alice'],
+    });
+    await alice.init();
+    await bob.init();
+    await planner.init();
+  });
+
+  afterEach(async () => {
+    await alice.close();
+    await bob.close();
+    await planner.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should keep user preferences private', async () => {
+    const { clause } = await alice.remember(seatPreference('aisle'));
+
+    expect(clause!.namespace).toBe('user:alice');
+    expect(await bob.getClause(clause!.id)).toBeNull();
+    expect((await bob.retrieve('aisle seats')).clauses).toEqual([]);
+    expect(await bob.searchClauses('aisle')).toEqual([]);
+    expect((await bob.getStats()).totalClauses).toBe(0);
+    expect(await bob.generateMemoryMd()).not.toContain('aisle');
+
+    // Bob cannot invalidate or reinforce what he cannot see
+    await bob.invalidateClause(clause!.id);
+    await bob.reinforceClause(clause!.id);
+    expect(await alice.getClause(clause!.id)).toMatchObject({ valid_to: null, confidence: 0.9 });
+
+    const retrieved = await alice.retrieve('aisle seats');
+    expect(retrieved.clauses.map((c) => c.id)).toContain(clause!.id);
+  });
+
+  it('should let an agent read the namespaces it inherits', async () => {
+    const { clause } = await alice.remember(seatPreference('aisle'));
+    await planner.remember({
+      type: 'fact',
+      subject: 'agent',
+      predicate: 'plans',
+      object: 'trips',
+      natural_form: 'Planner agent plans trips',
+    });
+
+    expect((await planner.retrieve('aisle seats')).clauses.map((c) => c.id))
+      .toContain(clause!.id);
+    expect(await alice.searchClauses('trips')).toEqual([]);
+    await expect(planner.remember({ ...seatPreference('window'), namespace: 'user:alice' }))
+      .rejects.toThrow(/not writable/);
+  });
+
+  it('should only show history of visible clauses', async () => {
+    const { clause } = await alice.remember(seatPreference('aisle'));
+    await alice.updateClause(clause!.id, { natural_form: 'User prefers aisle seats' });
+
+    expect(alice.history.clause(clause!.id)).toHaveLength(2);
+    expect(planner.history.clause(clause!.id)).toHaveLength(2);
+    expect(bob.history.clause(clause!.id)).toEqual([]);
+    expect(bob.history.chain('user', clause!.predicate)).toEqual([]);
+
+    // Snapshots keep the namespace once the clause row itself is gone
+    alice['db'].run('DELETE FROM clauses WHERE id = ?', [clause!.id]);
+    expect(alice.history.chain('user', clause!.predicate)).toHaveLength(2);
+    expect(bob.history.chain('user', clause!.predicate)).toEqual([]);
+  });
+
+  it('should dedup and detect conflicts only within a namespace', async () => {
+    const first = await alice.remember(seatPreference('aisle'));
+    const copy = await bob.remember(seatPreference('aisle'));
+    expect(copy.action).toBe('insert');
+    expect(copy.clause!.id).not.toBe(first.clause!.id);
+
+    const other = await bob.remember(seatPreference('window'));
+    expect(other.action).not.toBe('conflict');
+    expect(await alice.getClause(first.clause!.id)).toMatchObject({ valid_to: null });
+    expect(await alice.conflicts.list()).toEqual([]);
+  });
+
+  it('should share memories written to the shared namespace', async () => {
+    const { clause } = await alice.remember({
+      type: 'fact',
+      subject: 'household',
+      predicate: 'lives_in',
+      object: 'Lisbon',
+      natural_form: 'The household lives in Lisbon',
+      namespace: 'shared',
+    });
+
+    expect(await bob.getClause(clause!.id)).toMatchObject({ namespace: 'shared' });
+  });
+
+  it('should resolve skill bindings per namespace', async () => {
+    const metadata: SkillMetadata = {
+      name: 'flights',
+      version: '1.0.0',
+      capabilities: [{ predicate: 'can_book', object: 'flights', confidence: 0.9 }],
+    };
+    const aisle = await alice.remember(seatPreference('aisle'));
+    const window = await bob.remember(seatPreference('window'));
+    await alice.skills.onInstall('flights', metadata);
+
+    // Capabilities are shared, preferences and their bindings are not
+    expect(await bob.skills.getCapabilities('flights')).toHaveLength(1);
+    await alice['skillBindings'].bindPreference('flights', 'seat', aisle.clause!.id);
+    await bob['skillBindings'].bindPreference('flights', 'seat', window.clause!.id);
+    expect(await planner['skillBindings'].bindPreference('flights', 'seat', window.clause!.id))
+      .toBeNull();
+
+    expect(await alice.skills.getPreferencesForExecution('flights')).toEqual({ seat: 'aisle' });
+    expect(await bob.skills.getPreferencesForExecution('flights')).toEqual({ seat: 'window' });
+    expect(await planner.skills.getPreferencesForExecution('flights')).toEqual({ seat: 'aisle' });
+
+    await bob['skillBindings'].unbindPreference('flights', 'seat');
+    expect(await bob.skills.getPreferencesForExecution('flights')).toEqual({});
+    expect(await alice.skills.getPreferencesForExecution('flights')).toEqual({ seat: 'aisle' });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Predicate and entity normalization tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Normalizer } from '../src/core/normalization.js';
+import { PredicateRegistry } from '../src/core/predicates.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { ChangeJournal } from '../src/core/journal.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { SkillBindings } from '../src/skills/bindings.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Normalization', () => {
+  let db: DatabaseManager;
+  let registry: PredicateRegistry;
+  let normalizer: Normalizer;
+  let store: ClauseStore;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `normalization-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    registry = new PredicateRegistry();
+    normalizer = new Normalizer(db, registry);
+    store = new ClauseStore(db);
+    store.setPredicateRegistry(registry);
+    store.setNormalizer(normalizer);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  const preference = (predicate: string, object: string, subject: string = 'user') => ({
+    type: 'preference' as const,
+    subject,
+    predicate,
+    object,
+    natural_form: `${subject} ${predicate} ${object}`,
+    source_id: 'test',
+  });
+
+  it('should canonicalize predicate synonyms and spelling', () => {
+    expect(normalizer.normalizePredicate('preferred_airline')).toBe('prefers_airline');
+    expect(normalizer.normalizePredicate('Resides In')).toBe('lives_in');
+    expect(normalizer.normalizePredicate('manager-of')).toBe('manager_of');
+  });
+
+  it('should resolve subjects through aliases', () => {
+    normalizer.addAlias('Dad', 'person:john_smith');
+
+    expect(normalizer.normalizeSubject('dad')).toBe('person:john_smith');
+    expect(normalizer.normalizeSubject('Me')).toBe('user');
+    expect(normalizer.normalizeSubject('airline:united')).toBe('airline:united');
+  });
+
+  it('should only alias objects of entity-valued predicates', () => {
+    normalizer.addAlias('Acme', 'org:acme');
+
+    expect(normalizer.normalizeObject('works_at', 'Acme')).toBe('org:acme');
+    expect(normalizer.normalizeObject('likes', 'Acme')).toBe('Acme');
+  });
+
+  it('should merge synonym predicates into one chain on ingestion', async () => {
+    const first = await store.processNewClause(preference('preferred_airline', 'United'));
+    expect(first.clause!.predicate).toBe('prefers_airline');
+    expect(first.clause!.metadata.normalized_from).toEqual({ predicate: 'preferred_airline' });
+
+    const same = await store.processNewClause(preference('likes_airline', 'united'));
+    expect(same.action).toBe('reinforced');
+
+    const changed = await store.processNewClause(preference('prefers_airline', 'Delta'));
+    expect(changed.action).toBe('superseded');
+    expect(changed.invalidatedId).toBe(first.clause!.id);
+  });
+
+  it('should re-normalize existing clauses', async () => {
+    // Stored before the alias existed
+    const old = await store.create(preference('likes', 'golf', 'Dad'));
+    const older = await store.create(preference('prefers_airline', 'United'));
+    const dupe = await store.create(preference('preferred_airline', 'united'));
+    normalizer.addAlias('Dad', 'person:john_smith');
+
+    const preview = await store.renormalize({ dryRun: true });
+    expect(preview.updated).toBe(2);
+    expect(preview.merged).toBe(1);
+    expect((await store.get(old.id))!.subject).toBe('Dad');
+
+    const report = await store.renormalize();
+    expect(report.updated).toBe(2);
+    expect(report.changes.find((c) => c.clauseId === dupe.id)?.mergedInto).toBe(older.id);
+
+    const renamed = await store.get(old.id);
+    expect(renamed!.subject).toBe('person:john_smith');
+    expect(renamed!.metadata.normalized_from).toEqual({ subject: 'Dad' });
+    expect((await store.get(dupe.id))!.valid_to).not.toBeNull();
+
+    const history = new ChangeJournal(db).getClauseHistory(old.id);
+    expect(history[history.length - 1].actor).toBe('normalizer');
+
+    // Second run is a no-op
+    expect((await store.renormalize()).changes).toHaveLength(0);
+  });
+
+  it('should match skill parameters to preferences via synonyms', async () => {
+    await store.create(preference('likes_airline', 'Alaska'));
+    await store.renormalize();
+
+    const bindings = new SkillBindings(db, store);
+    bindings.setPredicateRegistry(registry);
+
+    const match = await bindings['findMatchingPreference']({
+      name: 'preferred_airline',
+      type: 'preference',
+    });
+    expect(match?.object).toBe('Alaska');
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * PII detection and redaction tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OMLite } from '../src/index.js';
+import { PiiRedactor, detectPii, ibanValid, luhnValid } from '../src/core/pii.js';
+import { readFileSealed } from '../src/core/encryption.js';
+import { createHash } from 'crypto';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const CARD = '4111 1111 1111 1111';
+const IBAN = 'GB82 WEST 1234 5698 7654 32';
+
+describe('detectPii()', () => {
+  it('should only flag card numbers and IBANs with valid checksums', () => {
+    expect(luhnValid('4111111111111111')).toBe(true);
+    expect(luhnValid('4111111111111112')).toBe(false);
+    expect(ibanValid(IBAN)).toBe(true);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 33')).toBe(false);
+
+    expect(detectPii(`Card ${CARD}, order 4111 1111 1111 1112`)).toEqual([
+      { category: 'credit_card', start: 5, end: 24, value: CARD },
+    ]);
+    expect(detectPii(`Salary goes to ${IBAN}`).map((m) => m.category)).toEqual(['iban']);
+  });
+
+  it('should not take IMEIs or order numbers for card numbers', () => {
+    // Both pass Luhn; neither has a card network prefix and a card keyword nearby
+    expect(detectPii('Phone IMEI 490154203237518')).toEqual([]);
+    expect(detectPii('Tracking number 4111111111111111 ships Monday')).toEqual([]);
+    expect(detectPii('Order 1234567812345670 on my card')).toEqual([]);
+    expect(detectPii(`Visa ending ${CARD}`).map((m) => m.category)).toEqual(['credit_card']);
+  });
+
+  it('should find identifiers, secrets and contact details', () => {
+    const text = 'SSN 123-45-6789, passport number: X1234567, key sk-ant-REDACTED, ' +
+      'mail alice@example.com or call (555) 123-4567';
+
+    expect(detectPii(text).map((m) => [m.category, m.value])).toEqual([
+      ['ssn', '123-45-6789'],
+      ['passport', 'X1234567'],
+      ['api_key', 'sk-ant-REDACTED'],
+      ['email', 'alice@example.com'],
+      ['phone', '(555) 123-4567'],
+    ]);
+    expect(detectPii('The passport expires in March')).toEqual([]);
+  });
+});
+
+describe('PiiRedactor', () => {
+  it('should apply each category policy', () => {
+    const redactor = new PiiRedactor({
+      policies: { credit_card: 'hash', iban: 'mask', email: 'encrypt', phone: 'allow' },
+    });
+    redactor.setEncryptionKey('secret');
+
+    const result = redactor.redact(`Pay by card ${CARD} from ${IBAN}, receipt to bob@example.com`);
+
+    expect(result.text).toMatch(/^Pay by card \[credit_card:[0-9a-f]{12}\] from \*{4} \*{4}/);
+    expect(result.text).toContain('**54 32,');
+    expect(result.text).not.toContain('bob@example.com');
+    expect(redactor.reveal(result.text)).toContain('receipt to bob@example.com');
+    expect(result.dropped).toBe(false);
+    expect(result.findings).toEqual(expect.arrayContaining([
+      { category: 'credit_card', action: 'hash', count: 1 },
+      { category: 'email', action: 'encrypt', count: 1 },
+    ]));
+  });
+
+  it('should hash values with the redactor key', () => {
+    const hashed = (key: string) => {
+      const redactor = new PiiRedactor({ policies: { ssn: 'hash' } });
+      redactor.setHashKey(Buffer.from(key));
+      return redactor.redact('SSN 123-45-6789').text;
+    };
+    const plain = createHash('sha256').update('123456789').digest('hex').slice(0, 12);
+
+    expect(hashed('key one')).toBe(hashed('key one'));
+    expect(hashed('key one')).not.toBe(hashed('key two'));
+    expect(hashed('key one')).not.toContain(plain);
+  });
+
+  it('should drop clauses and record findings in metadata', () => {
+    const redactor = new PiiRedactor();
+    const clause = {
+      type: 'fact' as const,
+      subject: 'user',
+      predicate: 'has_iban',
+      object: IBAN,
+      natural_form: `User's IBAN is ${IBAN}`,
+      metadata: { topic: 'banking' },
+    };
+
+    expect(redactor.redactClause({ ...clause, natural_form: `Card ${CARD}` })).toBeNull();
+    expect(redactor.redactClause(clause)).toMatchObject({
+      object: '**** **** **** **** **54 32',
+      metadata: { topic: 'banking', pii: [{ category: 'iban', action: 'mask', count: 2 }] },
+    });
+  });
+});
+
+describe('PII in OMLite', () => {
+  let testDbPath: string;
+  let om: OMLite;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `pii-test-${Date.now()}.db`);
+    om = new OMLite({ dbPath: testDbPath, pii: { enabled: true } });
+    await om.init();
+  });
+
+  afterEach(async () => {
+    await om.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  });
+
+  it('should store clauses unredacted unless enabled', async () => {
+    await om.close();
+    om = new OMLite({ dbPath: testDbPath });
+    await om.init();
+
+    const { action, clause } = await om.remember({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'has_ssn',
+      object: '123-45-6789',
+      natural_form: 'User SSN is 123-45-6789',
+    });
+    expect(action).toBe('insert');
+    expect(clause!.natural_form).toBe('User SSN is 123-45-6789');
+  });
+
+  it('should redact sources and extracted clauses', async () => {
+    const sourceId = `pii-source-${Date.now()}`;
+    vi.spyOn(om['extractor'], 'extract').mockResolvedValue({
+      clauses: [
+        {
+          type: 'fact',
+          subject: 'user',
+          predicate: 'pays_with',
+          object: CARD,
+          natural_form: `User pays with card ${CARD}`,
+          source_id: sourceId,
+          extraction_method: 'test',
+        },
+        {
+          type: 'fact',
+          subject: 'user',
+          predicate: 'has_passport',
+          object: 'X1234567',
+          natural_form: 'User passport number X1234567',
+          source_id: sourceId,
+          extraction_method: 'test',
+        },
+      ],
+      rawResponse: '',
+      extractionConfidence: 1,
+    });
+
+    const { clauses, dropped } = await om.extract(
+      `My card is ${CARD} and my passport number X1234567 ${Date.now()}`,
+    );
+
+    expect(clauses).toHaveLength(1);
+    expect(clauses[0].natural_form).toBe('User passport number ****4567');
+    expect(dropped).toEqual([
+      { predicate: 'pays_with', pii: [{ category: 'credit_card', action: 'drop', count: 1 }] },
+    ]);
+    expect(clauses[0].metadata.pii).toEqual([{ category: 'passport', action: 'mask', count: 1 }]);
+
+    const source = om['db'].get<{ file_path: string; metadata: string }>(
+      'SELECT file_path, metadata FROM sources ORDER BY recorded_at DESC LIMIT 1',
+    )!;
+    try {
+      const archived = readFileSealed(source.file_path, null).toString();
+      expect(archived).not.toContain('4111');
+      expect(archived).toContain('[credit_card removed]');
+      expect(JSON.parse(source.metadata).pii).toEqual(expect.arrayContaining([
+        { category: 'credit_card', action: 'drop', count: 1 },
+      ]));
+    } finally {
+      unlinkSync(source.file_path);
+    }
+  });
+
+  it('should redact clauses stored through remember() and updateClause()', async () => {
+    try {
+      const dropped = await om.remember({
+        type: 'fact',
+        subject: 'user',
+        predicate: 'has_ssn',
+        object: '123-45-6789',
+        natural_form: 'User SSN is 123-45-6789',
+      });
+      expect(dropped).toEqual({
+        action: 'dropped',
+        pii: [{ category: 'ssn', action: 'drop', count: 2 }],
+      });
+      expect(await om.searchClauses('SSN')).toEqual([]);
+
+      const { clause } = await om.remember({
+        type: 'fact',
+        subject: 'user',
+        predicate: 'has_iban',
+        object: IBAN,
+        natural_form: `User's IBAN is ${IBAN}`,
+      });
+      expect(clause!.object).toBe('**** **** **** **** **54 32');
+
+      const updated = await om.updateClause(clause!.id, {
+        natural_form: `User's card ${CARD} replaced the IBAN`,
+      });
+      expect(updated!.natural_form).toBe("User's card [credit_card removed] replaced the IBAN");
+      expect(updated!.metadata.pii).toEqual([
+        { category: 'iban', action: 'mask', count: 2 },
+        { category: 'credit_card', action: 'drop', count: 1 },
+      ]);
+      expect(await om.searchClauses('4111')).toEqual([]);
+    } finally {
+      const sources = om['db'].all<{ file_path: string }>('SELECT file_path FROM sources');
+      for (const { file_path } of sources) {
+        if (existsSync(file_path)) unlinkSync(file_path);
+      }
+    }
+  });
+
+  it('should redact before matching duplicates', async () => {
+    const ssn = {
+      type: 'fact' as const,
+      subject: 'user',
+      predicate: 'has_ssn',
+      object: '123-45-6789',
+      natural_form: 'User SSN is 123-45-6789',
+      source_id: 'manual',
+    };
+    // Stored before redaction was enabled
+    const unredacted = new OMLite({ dbPath: testDbPath, pii: { enabled: false } });
+    await unredacted.init();
+    const stored = await unredacted['clauseStore'].create(ssn);
+    await unredacted.close();
+
+    expect(await om['clauseStore'].processWithDeduplication(ssn)).toEqual({
+      action: 'dropped',
+      pii: [{ category: 'ssn', action: 'drop', count: 2 }],
+    });
+    expect((await om.getClause(stored.id))!.reinforcement_count).toBe(0);
+  });
+
+  it('should keep one hash key per database', async () => {
+    const key = om['db'].getMetadata('pii_hash_key');
+    expect(key).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+
+    await om.close();
+    om = new OMLite({ dbPath: testDbPath, pii: { enabled: true } });
+    await om.init();
+    expect(om['db'].getMetadata('pii_hash_key')).toBe(key);
+  });
+
+  it('should audit PII stored before redaction was enabled', async () => {
+    const unredacted = new OMLite({ dbPath: testDbPath, pii: { enabled: false } });
+    await unredacted.init();
+    const { clause } = await unredacted.remember({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'has_ssn',
+      object: '123-45-6789',
+      natural_form: 'User SSN is 123-45-6789',
+    });
+    await unredacted.close();
+
+    const report = await om.auditPii();
+    const source = om['db'].get<{ id: string; file_path: string }>(
+      'SELECT id, file_path FROM sources WHERE id = ?',
+      [clause!.source_id],
+    )!;
+    try {
+      expect(report.totals.ssn).toBe(3);
+      expect(report.findings).toEqual(expect.arrayContaining([
+        { kind: 'clause', id: clause!.id, categories: ['ssn'] },
+        { kind: 'source', id: source.id, categories: ['ssn'] },
+      ]));
+    } finally {
+      unlinkSync(source.file_path);
+    }
+  });
+});
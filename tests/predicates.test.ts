@@ -0,0 +1,195 @@
+/**
+ * Predicate registry tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PredicateRegistry } from '../src/core/predicates.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { PackLoader } from '../src/packs/loader.js';
+import { existsSync, unlinkSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('PredicateRegistry', () => {
+  it('should provide the built-in singleton and multi-value predicates', () => {
+    const registry = new PredicateRegistry();
+    expect(registry.cardinality('lives_in')).toBe('single');
+    expect(registry.cardinality('likes')).toBe('multi');
+    expect(registry.cardinality('manager_of')).toBeUndefined();
+    expect(registry.get('lives_in')?.origin).toBe('default');
+  });
+
+  it('should resolve synonyms to the canonical predicate', () => {
+    const registry = new PredicateRegistry();
+    expect(registry.resolve('resides_in')).toBe('lives_in');
+    expect(registry.resolve('unknown_predicate')).toBe('unknown_predicate');
+    expect(registry.cardinality('resides_in')).toBe('single');
+    expect(registry.variants('resides_in')).toEqual(['lives_in', 'resides_in']);
+  });
+
+  it('should load definitions from YAML', () => {
+    const registry = new PredicateRegistry();
+    const loaded = registry.loadYaml(`
+predicates:
+  - name: manager_of
+    cardinality: multi
+    inverse: reports_to
+    value_type: entity
+  - name: current_project
+    cardinality: single
+    synonyms: [working_on_project]
+    decay_rate: 0.02
+`);
+
+    expect(loaded).toHaveLength(2);
+    expect(registry.cardinality('manager_of')).toBe('multi');
+    expect(registry.inverseOf('manager_of')).toBe('reports_to');
+    expect(registry.inverseOf('reports_to')).toBe('manager_of');
+    expect(registry.decayRate('working_on_project')).toBe(0.02);
+  });
+
+  it('should reject invalid definitions', () => {
+    const registry = new PredicateRegistry();
+    expect(() => registry.register({ name: 'x', cardinality: 'many' as 'multi' })).toThrow(/cardinality/);
+    expect(() => registry.register({ name: 'x', cardinality: 'single', decay_rate: 2 })).toThrow(/decay_rate/);
+    expect(() => registry.loadYaml('foo: bar')).toThrow(/predicates/);
+  });
+
+  it('should not let packs override user configuration', () => {
+    const registry = new PredicateRegistry();
+    registry.register({ name: 'tip', cardinality: 'single' }, 'config');
+    registry.register({ name: 'tip', cardinality: 'multi' }, 'pack:cooking');
+    expect(registry.cardinality('tip')).toBe('single');
+
+    // Removing a pack restores any default it replaced
+    registry.register({ name: 'likes', cardinality: 'single' }, 'pack:odd');
+    expect(registry.unregisterOrigin('pack:odd')).toBe(1);
+    expect(registry.cardinality('likes')).toBe('multi');
+  });
+
+  it('should compare values using the declared value type', () => {
+    const registry = new PredicateRegistry();
+    registry.register({ name: 'age', cardinality: 'single', value_type: 'number' });
+    expect(registry.sameValue('age', '42', '42.0')).toBe(true);
+    expect(registry.sameValue('likes', 'Tea', 'tea ')).toBe(true);
+  });
+});
+
+describe('Registry-driven conflict handling', () => {
+  let db: DatabaseManager;
+  let store: ClauseStore;
+  let registry: PredicateRegistry;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `predicates-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    registry = new PredicateRegistry();
+    store = new ClauseStore(db);
+    store.setPredicateRegistry(registry);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  const add = (predicate: string, object: string) =>
+    store.processNewClause({
+      type: 'relationship',
+      subject: 'user',
+      predicate,
+      object,
+      natural_form: `User ${predicate} ${object}`,
+      source_id: 'test',
+    });
+
+  it('should treat unregistered predicates as contradictions', async () => {
+    await add('manager_of', 'person:alice');
+    const result = await add('manager_of', 'person:bob');
+    expect(result.action).toBe('conflict');
+  });
+
+  it('should let multi-value predicates coexist', async () => {
+    registry.register({ name: 'manager_of', cardinality: 'multi' });
+    await add('manager_of', 'person:alice');
+    const result = await add('manager_of', 'person:bob');
+    expect(result.action).toBe('insert');
+  });
+
+  it('should supersede single-value predicates', async () => {
+    registry.register({ name: 'current_project', cardinality: 'single' });
+    const first = await add('current_project', 'Apollo');
+    const second = await add('current_project', 'Gemini');
+    expect(second.action).toBe('superseded');
+    expect(second.invalidatedId).toBe(first.clause!.id);
+  });
+
+  it('should apply per-predicate decay rates', async () => {
+    registry.register({ name: 'current_project', cardinality: 'single', decay_rate: 0.03 });
+    const { clause } = await add('current_project', 'Apollo');
+    expect(clause!.decay_rate).toBe(0.03);
+
+    const { clause: other } = await add('likes', 'tea');
+    expect(other!.decay_rate).toBe(0.001);
+  });
+
+  it('should register predicates contributed by packs', async () => {
+    const packsDir = join(tmpdir(), `om-lite-packs-${Date.now()}`);
+    const packDir = join(packsDir, 'team');
+    mkdirSync(packDir, { recursive: true });
+    writeFileSync(
+      join(packDir, 'PACK.yaml'),
+      `name: team
+version: 1.0.0
+description: Team structure
+author: test
+license: MIT
+claim_files: [team.claims]
+last_updated: 2026-01-01
+predicates:
+  - name: reports_to
+    cardinality: single
+`,
+    );
+    writeFileSync(
+      join(packDir, 'team.claims'),
+      `claims:
+  - type: relationship
+    subject: person:alice
+    predicate: reports_to
+    object: person:carol
+    natural_form: Alice reports to Carol
+`,
+    );
+
+    try {
+      const loader = new PackLoader(db, store, packsDir);
+      loader.setPredicateRegistry(registry);
+      await loader.install('team');
+      expect(registry.get('reports_to')?.origin).toBe('pack:team');
+
+      // A fresh registry picks the definitions up from the installed pack
+      const fresh = new PredicateRegistry();
+      const reloaded = new PackLoader(db, store, packsDir);
+      reloaded.setPredicateRegistry(fresh);
+      expect(await reloaded.registerInstalledPredicates()).toBe(1);
+      expect(fresh.cardinality('reports_to')).toBe('single');
+
+      await loader.remove('team');
+      expect(registry.get('reports_to')).toBeUndefined();
+    } finally {
+      rmSync(packsDir, { recursive: true, force: true });
+    }
+  });
+});
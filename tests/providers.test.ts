@@ -0,0 +1,247 @@
+/**
+ * Local model server provider tests (Ollama and OpenAI-compatible)
+ * Runs against a fake model server on a random local port
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import { EmbeddingManager } from '../src/core/embeddings.js';
+import { Extractor, createLLMClient, loadLlmConfig } from '../src/core/extraction.js';
+import { fetchWithRetry } from '../src/core/http.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { existsSync, unlinkSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+interface RecordedRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, unknown>;
+}
+
+const EXTRACTED = JSON.stringify([
+  {
+    type: 'preference',
+    subject: 'user',
+    predicate: 'prefers_seat_type',
+    object: 'aisle',
+    natural_form: 'User prefers aisle seats',
+    confidence: 0.9,
+  },
+]);
+
+describe('Local model server providers', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let failuresLeft: number;
+
+  beforeEach(async () => {
+    requests = [];
+    failuresLeft = 0;
+
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        const body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+        requests.push({ path: req.url ?? '', headers: req.headers, body });
+
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          res.writeHead(503).end('busy');
+          return;
+        }
+
+        const input = (body.input ?? []) as string[];
+        let payload: unknown;
+        switch (req.url) {
+          case '/api/embed':
+            payload = { embeddings: input.map((t) => [t.length, 1, 0]) };
+            break;
+          case '/v1/embeddings':
+            payload = { data: input.map((t, index) => ({ index, embedding: [t.length, 0] })) };
+            break;
+          case '/api/chat':
+            payload = { message: { role: 'assistant', content: EXTRACTED } };
+            break;
+          case '/v1/chat/completions':
+            payload = { choices: [{ message: { content: EXTRACTED } }] };
+            break;
+          default:
+            res.writeHead(404).end('not found');
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(payload));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('fetchWithRetry()', () => {
+    it('should retry transient failures with backoff', async () => {
+      failuresLeft = 2;
+      const response = await fetchWithRetry(`${baseUrl}/api/embed`, {
+        method: 'POST',
+        body: JSON.stringify({ input: ['x'] }),
+      }, { retries: 2, retryDelayMs: 1 });
+
+      expect(response.status).toBe(200);
+      expect(requests).toHaveLength(3);
+    });
+
+    it('should return the last failure once retries are used up', async () => {
+      failuresLeft = 5;
+      const response = await fetchWithRetry(`${baseUrl}/api/embed`, { method: 'POST' }, {
+        retries: 1,
+        retryDelayMs: 1,
+      });
+
+      expect(response.status).toBe(503);
+      expect(requests).toHaveLength(2);
+    });
+  });
+
+  describe('embedding providers', () => {
+    let db: DatabaseManager;
+    let dbPath: string;
+
+    beforeEach(async () => {
+      const testDir = join(tmpdir(), 'om-lite-test');
+      if (!existsSync(testDir)) {
+        mkdirSync(testDir, { recursive: true });
+      }
+      dbPath = join(testDir, `providers-test-${Date.now()}.db`);
+      db = new DatabaseManager(dbPath);
+      await db.init();
+    });
+
+    afterEach(async () => {
+      await db.close();
+      for (const path of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+        if (existsSync(path)) unlinkSync(path);
+      }
+    });
+
+    it('should embed through Ollama', async () => {
+      const manager = new EmbeddingManager(db, {
+        provider: 'ollama',
+        model: 'tiny-embed',
+        baseUrl,
+      });
+      await manager.init();
+
+      // Unknown model: dimensions are probed from the server on init
+      expect(manager.getProvider().dimensions).toBe(3);
+      expect(await manager.getProvider().embedBatch(['ab', 'abcd'])).toEqual([
+        [2, 1, 0],
+        [4, 1, 0],
+      ]);
+      expect(requests[1].body).toEqual({ model: 'tiny-embed', input: ['ab', 'abcd'] });
+    });
+
+    it('should embed through an OpenAI-compatible server without an API key', async () => {
+      const manager = new EmbeddingManager(db, {
+        provider: 'openai-compatible',
+        model: 'local-embed',
+        baseUrl: `${baseUrl}/v1/`,
+        dimensions: 2,
+      });
+      await manager.init();
+
+      expect(manager.getProvider().name).toBe('openai-compatible');
+      expect(await manager.getProvider().embed('abc')).toEqual([3, 0]);
+      expect(requests).toHaveLength(1);
+      expect(requests[0].headers.authorization).toBeUndefined();
+    });
+  });
+
+  describe('LLM clients', () => {
+    it('should extract through Ollama', async () => {
+      const extractor = new Extractor(
+        undefined,
+        createLLMClient({ provider: 'ollama', model: 'llama3.1', baseUrl }),
+      );
+      const result = await extractor.extract('I like aisle seats', { sourceId: 'src-1' });
+
+      expect(result.clauses.map((c) => c.object)).toEqual(['aisle']);
+      expect(requests[0].path).toBe('/api/chat');
+      expect(requests[0].body).toMatchObject({ model: 'llama3.1', stream: false });
+    });
+
+    it('should extract through an OpenAI-compatible server', async () => {
+      const client = createLLMClient({
+        provider: 'openai-compatible',
+        model: 'qwen2.5',
+        baseUrl: `${baseUrl}/v1`,
+        apiKey: 'local-key',
+      });
+
+      expect(await client.complete('prompt')).toBe(EXTRACTED);
+      expect(requests[0].headers.authorization).toBe('Bearer local-key');
+      expect(requests[0].body.model).toBe('qwen2.5');
+    });
+
+    it('should time out slow servers', async () => {
+      server.removeAllListeners('request');
+      server.on('request', () => {
+        // Never respond
+      });
+
+      const client = createLLMClient({ provider: 'ollama', baseUrl, timeoutMs: 50, retries: 0 });
+      await expect(client.complete('prompt')).rejects.toThrow(/timed out after 50ms/);
+    });
+
+    it('should cancel the request without retrying when the caller aborts', async () => {
+      let received = 0;
+      server.removeAllListeners('request');
+      server.on('request', () => {
+        received++;
+      });
+
+      const client = createLLMClient({ provider: 'ollama', baseUrl, retries: 2 });
+      await expect(client.complete('prompt', AbortSignal.timeout(50))).rejects.toThrow();
+      expect(received).toBe(1);
+    });
+  });
+});
+
+describe('loadLlmConfig', () => {
+  it('should read memory.om_lite.llm from the config file', () => {
+    const file = join(tmpdir(), `om-lite-llm-config-${Date.now()}.yaml`);
+    writeFileSync(file, [
+      'memory:',
+      '  om_lite:',
+      '    llm:',
+      '      provider: openai-compatible',
+      '      model: qwen2.5-7b-instruct',
+      '      base_url: http://localhost:1234/v1',
+      '      timeout_ms: 120000',
+      '      retries: 1',
+    ].join('\n'));
+
+    try {
+      expect(loadLlmConfig(file)).toMatchObject({
+        provider: 'openai-compatible',
+        model: 'qwen2.5-7b-instruct',
+        baseUrl: 'http://localhost:1234/v1',
+        timeoutMs: 120000,
+        retries: 1,
+      });
+      expect(loadLlmConfig('/nonexistent/config.yaml')).toBeUndefined();
+
+      writeFileSync(file, 'memory:\n  om_lite:\n    llm:\n      provider: gemini\n');
+      expect(() => loadLlmConfig(file)).toThrow(/Unknown LLM provider/);
+    } finally {
+      unlinkSync(file);
+    }
+  });
+});
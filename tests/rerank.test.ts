@@ -0,0 +1,221 @@
+/**
+ * Reranker tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  LexicalReranker,
+  LLMReranker,
+  createReranker,
+  type Reranker,
+} from '../src/core/rerank.js';
+import { Retriever } from '../src/core/retrieval.js';
+import { ClauseStore } from '../src/core/clauses.js';
+import { DatabaseManager } from '../src/core/database.js';
+import type { ScoredClause } from '../src/core/types.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+function candidate(id: string, naturalForm: string, predicate: string, object: string): ScoredClause {
+  return {
+    id,
+    type: 'preference',
+    subject: 'user',
+    predicate,
+    object,
+    natural_form: naturalForm,
+    valid_from: '2025-01-01T00:00:00Z',
+    valid_to: null,
+    recorded_at: '2025-01-01T00:00:00Z',
+    confidence: 0.9,
+    decay_rate: 0.001,
+    reinforcement_count: 0,
+    source_id: 'src',
+    extraction_method: 'manual',
+    last_accessed: '2025-01-01T00:00:00Z',
+    access_count: 0,
+    tags: [],
+    metadata: {},
+    score: 0.5,
+  };
+}
+
+const CANDIDATES = [
+  candidate('tea', 'User likes green tea in the morning', 'likes_drink', 'green tea'),
+  candidate('desk', 'User sits by the window at work', 'desk_location', 'window'),
+  candidate('aisle', 'User prefers aisle seats on flights', 'prefers_seat', 'aisle'),
+];
+
+describe('LexicalReranker', () => {
+  it('should rank paraphrased matches first', async () => {
+    const scores = await new LexicalReranker().rerank(
+      'Which seating does the user want when flying?',
+      CANDIDATES,
+    );
+    const best = scores.sort((a, b) => b.score - a.score)[0];
+
+    expect(best.id).toBe('aisle');
+    expect(scores.every((s) => s.score >= 0 && s.score <= 1)).toBe(true);
+  });
+
+  it('should accept extra synonym groups', async () => {
+    const query = 'favourite hot beverage';
+    const plain = await new LexicalReranker().rerank(query, CANDIDATES);
+    const extended = await new LexicalReranker({ synonyms: [['hot', 'green']] })
+      .rerank(query, CANDIDATES);
+
+    const tea = (scores: Array<{ id: string; score: number }>) =>
+      scores.find((s) => s.id === 'tea')!.score;
+    expect(tea(extended)).toBeGreaterThan(tea(plain));
+  });
+});
+
+describe('LLMReranker', () => {
+  it('should map graded JSON back to candidates', async () => {
+    const prompts: string[] = [];
+    const reranker = new LLMReranker({
+      complete: async (prompt) => {
+        prompts.push(prompt);
+        return '```json\n[{"id": 3, "score": 9}, {"id": 1, "score": 2}, {"id": 7, "score": 5}]\n```';
+      },
+    });
+
+    expect(await reranker.rerank('seat for my flight', CANDIDATES)).toEqual([
+      { id: 'aisle', score: 0.9 },
+      { id: 'tea', score: 0.2 },
+    ]);
+    expect(prompts[0]).toContain('[3] User prefers aisle seats on flights');
+  });
+
+  it('should pass the abort signal to the LLM client', async () => {
+    const signals: Array<AbortSignal | undefined> = [];
+    const reranker = new LLMReranker({
+      complete: async (_prompt, signal) => {
+        signals.push(signal);
+        return '[]';
+      },
+    });
+
+    const controller = new AbortController();
+    await reranker.rerank('seat', CANDIDATES, { signal: controller.signal });
+    expect(signals).toEqual([controller.signal]);
+  });
+
+  it('should reject responses without grades', async () => {
+    const reranker = new LLMReranker({ complete: async () => 'No idea' });
+    await expect(reranker.rerank('seat', CANDIDATES)).rejects.toThrow(/no JSON array/);
+  });
+
+  it('should fall back to lexical reranking without an LLM client', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(createReranker({ provider: 'llm' })!.name).toBe('lexical');
+    expect(createReranker({ provider: 'none' })).toBeNull();
+    warn.mockRestore();
+  });
+});
+
+describe('Retriever reranking', () => {
+  let db: DatabaseManager;
+  let retriever: Retriever;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `rerank-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    retriever = new Retriever(db);
+
+    const clauseStore = new ClauseStore(db);
+    const sourceId = await clauseStore.createSource({ type: 'conversation', content: 'test' });
+    for (const [predicate, object, naturalForm] of [
+      ['prefers_seat', 'window', 'User prefers window seats on flights'],
+      ['prefers_seat', 'aisle', 'User wants seats on the aisle'],
+      ['prefers_airline', 'KLM', 'User flies KLM when possible'],
+    ]) {
+      await clauseStore.create({
+        type: 'preference',
+        subject: 'user',
+        predicate,
+        object,
+        natural_form: naturalForm,
+        confidence: 0.9,
+        source_id: sourceId,
+        extraction_method: 'manual',
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+    vi.restoreAllMocks();
+  });
+
+  const preferAisle: Reranker = {
+    name: 'aisle-first',
+    rerank: async (_query, candidates) =>
+      candidates.map((c) => ({ id: c.id, score: c.object === 'aisle' ? 1 : 0 })),
+  };
+
+  it('should reorder the top candidates by reranker score', async () => {
+    const before = await retriever.retrieve('seats flights');
+    expect(before.clauses[0].object).toBe('window');
+
+    retriever.setReranker(preferAisle, { weight: 0.8 });
+    const after = await retriever.retrieve('seats flights');
+    expect(after.clauses[0].object).toBe('aisle');
+    expect(after.clauses[0].score).toBeGreaterThan(0.8);
+
+    const skipped = await retriever.retrieve('seats flights', { rerank: false });
+    expect(skipped.clauses[0].object).toBe('window');
+  });
+
+  it('should only rerank the top K candidates', async () => {
+    const seen: number[] = [];
+    retriever.setReranker({
+      name: 'counting',
+      rerank: async (_query, candidates) => {
+        seen.push(candidates.length);
+        return [];
+      },
+    }, { topK: 2 });
+
+    await retriever.retrieve('seats flights KLM');
+    expect(seen).toEqual([2]);
+  });
+
+  it('should keep the first-stage order when over budget or failing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const baseline = (await retriever.retrieve('seats flights')).clauses.map((c) => c.id);
+
+    let aborted = false;
+    retriever.setReranker({
+      name: 'slow',
+      rerank: (_query, candidates, options) => new Promise((resolve) => {
+        options?.signal?.addEventListener('abort', () => {
+          aborted = true;
+        });
+        setTimeout(() => resolve(candidates.map((c) => ({ id: c.id, score: 1 }))), 200);
+      }),
+    }, { latencyBudgetMs: 20 });
+    expect((await retriever.retrieve('seats flights')).clauses.map((c) => c.id)).toEqual(baseline);
+    expect(aborted).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/exceeded its 20ms budget/));
+
+    retriever.setReranker({
+      name: 'broken',
+      rerank: async () => {
+        throw new Error('model offline');
+      },
+    });
+    expect((await retriever.retrieve('seats flights')).clauses.map((c) => c.id)).toEqual(baseline);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/broken failed/), expect.any(Error));
+  });
+});
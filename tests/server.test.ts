@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { OMLite, MemoryServer, loadServerConfig } from '../src/index.js';
+import { unlink, writeFile } from 'fs/promises';
+import { existsSync, statSync } from 'fs';
+import { request } from 'http';
+
+const TEST_DB = '/tmp/om-lite-server-test.db';
+const TOKEN = 'test-token';
+
+describe('MemoryServer', () => {
+  let om: OMLite;
+  let server: MemoryServer;
+  let baseUrl: string;
+
+  const call = async (method: string, path: string, body?: unknown, token: string = TOKEN) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+  };
+
+  beforeEach(async () => {
+    for (const path of [TEST_DB, `${TEST_DB}-wal`, `${TEST_DB}-shm`]) {
+      if (existsSync(path)) await unlink(path);
+    }
+    om = new OMLite({ dbPath: TEST_DB, pii: { enabled: true } });
+    await om.init();
+    server = new MemoryServer(om, { port: 0, token: TOKEN });
+    const { port } = await server.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await om.close();
+    for (const path of [TEST_DB, `${TEST_DB}-wal`, `${TEST_DB}-shm`]) {
+      if (existsSync(path)) await unlink(path);
+    }
+  });
+
+  const clause = {
+    type: 'preference',
+    subject: 'user',
+    predicate: 'prefers_seat_type',
+    object: 'aisle',
+    natural_form: 'User prefers aisle seats',
+  };
+
+  it('should require the bearer token except for health checks', async () => {
+    expect((await call('GET', '/health', undefined, '')).status).toBe(200);
+    expect((await call('GET', '/stats', undefined, '')).status).toBe(401);
+    expect((await call('GET', '/stats', undefined, 'wrong-token')).status).toBe(401);
+    expect((await call('GET', '/stats')).status).toBe(200);
+  });
+
+  it('should create, read, update and invalidate clauses', async () => {
+    const created = await call('POST', '/clauses', clause);
+    expect(created.status).toBe(201);
+    expect(created.body.action).toBe('insert');
+    const id = (created.body.clause as { id: string }).id;
+
+    const fetched = await call('GET', `/clauses/${id}`);
+    expect(fetched.body.object).toBe('aisle');
+
+    const updated = await call('PATCH', `/clauses/${id}`, { tags: ['travel'] });
+    expect(updated.body.tags).toEqual(['travel']);
+
+    const searched = await fetch(`${baseUrl}/clauses?q=aisle&type=preference`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(((await searched.json()) as unknown[]).length).toBe(1);
+
+    expect((await call('DELETE', `/clauses/${id}?reason=test`)).status).toBe(200);
+    const history = await fetch(`${baseUrl}/clauses/${id}/history`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    const revisions = (await history.json()) as Array<{ action: string }>;
+    expect(revisions.map((r) => r.action)).toEqual(['create', 'update', 'invalidate']);
+  });
+
+  it('should redact PII in clauses written through the API', async () => {
+    const created = await call('POST', '/clauses', {
+      ...clause,
+      predicate: 'has_api_key',
+      object: 'sk-ant-REDACTED',
+      natural_form: 'User API key is sk-ant-REDACTED',
+    });
+    expect(created.body).toEqual({
+      action: 'dropped',
+      pii: [{ category: 'api_key', action: 'drop', count: 2 }],
+    });
+
+    const { body } = await call('POST', '/clauses', clause);
+    const id = (body.clause as { id: string }).id;
+    const updated = await call('PATCH', `/clauses/${id}`, {
+      natural_form: 'User prefers aisle seats, SSN 123-45-6789',
+    });
+
+    expect(updated.body.natural_form).toBe('User prefers aisle seats, SSN [ssn removed]');
+    expect((await call('GET', '/clauses?q=6789')).body).toEqual([]);
+  });
+
+  it('should retrieve through the API', async () => {
+    await call('POST', '/clauses', clause);
+
+    const result = await call('POST', '/retrieve', { query: 'aisle seats', limit: 5 });
+    expect(result.status).toBe(200);
+    expect((result.body.clauses as unknown[]).length).toBe(1);
+
+    const task = await call('POST', '/retrieve/task', { description: 'book a flight' });
+    expect(task.body.formatted).toBeTypeOf('string');
+  });
+
+  it('should report client errors as JSON', async () => {
+    expect((await call('GET', '/clauses/missing')).status).toBe(404);
+    expect((await call('GET', '/nowhere')).status).toBe(404);
+    expect((await call('PUT', '/clauses')).status).toBe(405);
+
+    const invalid = await call('POST', '/clauses', { ...clause, subject: '' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatch(/subject/);
+
+    const res = await fetch(`${baseUrl}/retrieve`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: '{not json',
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('should refuse to listen without a token', () => {
+    expect(() => new MemoryServer(om, { host: '0.0.0.0' })).toThrow(/token/);
+    expect(() => new MemoryServer(om)).toThrow(/token/);
+  });
+
+  it('should reject bodies that are not JSON', async () => {
+    // What a cross-origin page can send without a CORS preflight
+    const res = await fetch(`${baseUrl}/clauses`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'text/plain' },
+      body: JSON.stringify(clause),
+    });
+    expect(res.status).toBe(415);
+    expect((await call('GET', '/stats')).body.totalClauses).toBe(0);
+  });
+
+  it('should reject Host headers other than the bound host', async () => {
+    const port = new URL(baseUrl).port;
+    const status = (host: string) => new Promise<number>((resolve, reject) => {
+      const headers = { Host: host, Authorization: `Bearer ${TOKEN}` };
+      const req = request(
+        { host: '127.0.0.1', port, path: '/stats', headers },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        },
+      );
+      req.on('error', reject);
+      req.end();
+    });
+
+    expect(await status(`attacker.example:${port}`)).toBe(403);
+    expect(await status(`localhost:${port}`)).toBe(200);
+    expect(await status(`[::1]:${port}`)).toBe(200);
+  });
+
+  it('should read server settings from config', async () => {
+    const file = '/tmp/om-lite-server-config.yaml';
+    await writeFile(file, 'memory:\n  om_lite:\n    server:\n      port: 9000\n      token_env: OM_TEST_TOKEN\n');
+    process.env.OM_TEST_TOKEN = 'from-env';
+    try {
+      expect(loadServerConfig(file)).toMatchObject({ port: 9000, token: 'from-env' });
+    } finally {
+      delete process.env.OM_TEST_TOKEN;
+      await unlink(file);
+    }
+  });
+
+  it('should generate a token on first run when none is configured', async () => {
+    const file = '/tmp/om-lite-server-config.yaml';
+    const tokenFile = `/tmp/om-lite-server-token-${Date.now()}`;
+    await writeFile(file, `memory:\n  om_lite:\n    server:\n      token_file: ${tokenFile}\n`);
+    const envToken = process.env.OM_LITE_SERVER_TOKEN;
+    delete process.env.OM_LITE_SERVER_TOKEN;
+    try {
+      const first = loadServerConfig(file);
+      expect(first.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(first.tokenFile).toBe(tokenFile);
+      expect((statSync(tokenFile).mode & 0o777).toString(8)).toBe('600');
+      expect(loadServerConfig(file).token).toBe(first.token);
+    } finally {
+      if (envToken !== undefined) process.env.OM_LITE_SERVER_TOKEN = envToken;
+      await unlink(file);
+      if (existsSync(tokenFile)) await unlink(tokenFile);
+    }
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Point-in-time (bitemporal) query tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ClauseStore } from '../src/core/clauses.js';
+import { Retriever } from '../src/core/retrieval.js';
+import { DatabaseManager } from '../src/core/database.js';
+import { buildTemporalFilter, toTimestamp } from '../src/core/temporal.js';
+import { existsSync, unlinkSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Point-in-time queries', () => {
+  let db: DatabaseManager;
+  let store: ClauseStore;
+  let retriever: Retriever;
+  let testDbPath: string;
+  let portlandId: string;
+  let seattleId: string;
+
+  beforeEach(async () => {
+    const testDir = join(tmpdir(), 'om-lite-test');
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true });
+    }
+    testDbPath = join(testDir, `temporal-test-${Date.now()}.db`);
+    db = new DatabaseManager(testDbPath);
+    await db.init();
+    store = new ClauseStore(db);
+    retriever = new Retriever(db);
+
+    // User lived in Portland from 2020; the move to Seattle (effective mid-May
+    // 2023) was only recorded on 2023-06-01
+    const portland = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'lives_in',
+      object: 'Portland',
+      natural_form: 'User lives in Portland',
+      confidence: 0.9,
+    });
+    const seattle = await store.create({
+      type: 'fact',
+      subject: 'user',
+      predicate: 'lives_in',
+      object: 'Seattle',
+      natural_form: 'User lives in Seattle',
+      confidence: 0.9,
+    });
+    portlandId = portland.id;
+    seattleId = seattle.id;
+
+    db.run('UPDATE clauses SET valid_from = ?, recorded_at = ?, valid_to = ? WHERE id = ?', [
+      '2020-01-01T00:00:00.000Z',
+      '2020-01-02T00:00:00.000Z',
+      '2023-06-01T00:00:00.000Z',
+      portlandId,
+    ]);
+    db.run('UPDATE clauses SET valid_from = ?, recorded_at = ? WHERE id = ?', [
+      '2023-05-15T00:00:00.000Z',
+      '2023-06-01T00:00:00.000Z',
+      seattleId,
+    ]);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    for (const path of [testDbPath, `${testDbPath}-wal`, `${testDbPath}-shm`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+  });
+
+  const objects = (clauses: Array<{ object: string }>) => clauses.map((c) => c.object).sort();
+
+  it('should only return currently valid clauses by default', async () => {
+    const clauses = await store.search('', {});
+    expect(objects(clauses)).toEqual(['Seattle']);
+  });
+
+  it('should filter by valid time with asOf', async () => {
+    const clauses = await store.search('', { asOf: '2022-01-01' });
+    expect(objects(clauses)).toEqual(['Portland']);
+  });
+
+  it('should filter by transaction time with knownAt', async () => {
+    const clauses = await store.search('', { knownAt: '2023-01-01' });
+    expect(objects(clauses)).toEqual(['Portland']);
+  });
+
+  it('should hide facts that were not yet recorded', async () => {
+    // On 2023-05-25 the move had happened but memory did not know about it
+    const clauses = await store.search('', {
+      asOf: '2023-05-20',
+      knownAt: '2023-05-25',
+    });
+    expect(objects(clauses)).toEqual(['Portland']);
+  });
+
+  it('should use today\'s knowledge for past valid times', async () => {
+    const clauses = await store.search('', { asOf: '2023-05-20' });
+    expect(objects(clauses)).toContain('Seattle');
+  });
+
+  it('should support point-in-time FTS search', async () => {
+    const clauses = await store.search('lives', { knownAt: '2022-06-01' });
+    expect(objects(clauses)).toEqual(['Portland']);
+  });
+
+  it('should apply historical confidence from the decay log', async () => {
+    db.run(
+      `INSERT INTO decay_log (id, clause_id, previous_confidence, new_confidence, reason, occurred_at)
+       VALUES ('d1', ?, 0.3, 0.9, 'reinforcement', '2024-01-01 00:00:00')`,
+      [seattleId],
+    );
+
+    const before = await store.search('', { knownAt: '2023-12-01', minConfidence: 0.5 });
+    expect(before).toHaveLength(0);
+
+    const after = await store.search('', { knownAt: '2024-02-01', minConfidence: 0.5 });
+    expect(objects(after)).toEqual(['Seattle']);
+  });
+
+  it('should score point-in-time results with the confidence at knownAt', async () => {
+    // Portland was at 0.95 until decay dropped it to 0.6 in 2025
+    db.run('UPDATE clauses SET confidence = 0.6 WHERE id = ?', [portlandId]);
+    db.run(
+      `INSERT INTO decay_log (id, clause_id, previous_confidence, new_confidence, reason, occurred_at)
+       VALUES ('d1', ?, 0.95, 0.6, 'scheduled_decay', '2025-01-01 00:00:00')`,
+      [portlandId],
+    );
+
+    const confidenceTerm = async (knownAt?: string) => {
+      const result = await retriever.retrieve('lives', {
+        asOf: '2023-05-20',
+        knownAt,
+        explain: true,
+      });
+      const portland = result.clauses.find((c) => c.id === portlandId);
+      return portland?.explanation?.confidenceTerm;
+    };
+
+    expect(await confidenceTerm('2024-02-01')).toBeCloseTo(0.95 * 0.2);
+    expect(await confidenceTerm()).toBeCloseTo(0.6 * 0.2);
+  });
+
+  it('should retrieve as of a past date without logging access', async () => {
+    const result = await retriever.retrieve('lives', { knownAt: '2022-06-01' });
+    expect(objects(result.clauses)).toEqual(['Portland']);
+
+    const logged = db.get<{ count: number }>('SELECT COUNT(*) as count FROM access_log');
+    expect(logged?.count).toBe(0);
+  });
+
+  it('should reject invalid dates', () => {
+    expect(() => toTimestamp('not a date')).toThrow(/Invalid date/);
+    expect(() => buildTemporalFilter({ asOf: 'yesterday-ish' })).toThrow(/Invalid date/);
+  });
+});